@@ -0,0 +1,308 @@
+import React, { useMemo, useState } from 'react';
+import { BookOpen, ChevronLeft, ChevronRight, Coins, Dices, Minus, Package, Plus, UserPlus, X } from 'lucide-react';
+import { DungeonButton } from '@/components/ui/DungeonButton';
+import { createEmptyCrawler, type Crawler, type InventoryItem, type Spell } from '@/lib/gameData';
+import type { DiceRollEntry } from '@/hooks/useGameState';
+import { rollDiceExpression, toDiceResults } from '@/lib/dice';
+import {
+  ABILITY_SCORES,
+  ABILITY_SCORE_LABELS,
+  POINT_BUY_BUDGET,
+  POINT_BUY_MAX,
+  POINT_BUY_MIN,
+  STAT_ROLL_NOTATION,
+  buildCrawlerFromOptions,
+  getGrantedSpells,
+  getPointBuyCost,
+  getStartingKit,
+  type AbilityScore,
+  type CharacterOptionDefinition,
+  type JobDefinition,
+  type RaceDefinition,
+} from '@/lib/characterOptions';
+import { getItemQuantity } from '@/lib/inventoryStacks';
+
+type WizardStep = 'name' | 'race' | 'job' | 'stats' | 'review';
+type StatMethod = 'pointbuy' | 'roll';
+
+const STEPS: WizardStep[] = ['name', 'race', 'job', 'stats', 'review'];
+const STEP_LABELS: Record<WizardStep, string> = { name: 'Name', race: 'Race', job: 'Job', stats: 'Stats', review: 'Review' };
+
+const baseScores = (value: number) =>
+  Object.fromEntries(ABILITY_SCORES.map(key => [key, value])) as Record<AbilityScore, number>;
+
+interface CrawlerCreationWizardProps {
+  races: RaceDefinition[];
+  jobs: JobDefinition[];
+  spells: Spell[];
+  addDiceRoll?: (entry: DiceRollEntry) => Promise<void>;
+  onCreate: (crawler: Crawler, startingItems: InventoryItem[]) => void;
+  onClose: () => void;
+}
+
+// One card per definition plus a free-text fallback, so campaigns without definitions still work
+const OptionPicker: React.FC<{
+  options: CharacterOptionDefinition[];
+  selectedId: string;
+  customName: string;
+  placeholder: string;
+  onSelect: (id: string) => void;
+  onCustomNameChange: (name: string) => void;
+}> = ({ options, selectedId, customName, placeholder, onSelect, onCustomNameChange }) => (
+  <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+    {options.map(option => (
+      <button
+        key={option.id}
+        onClick={() => onSelect(option.id)}
+        className={`w-full text-left p-3 border rounded transition-colors ${
+          selectedId === option.id ? 'bg-primary/20 border-primary' : 'bg-muted/30 border-border hover:border-primary/50'
+        }`}
+      >
+        <p className="font-display text-sm">{option.name}</p>
+        {option.description && <p className="text-xs text-muted-foreground">{option.description}</p>}
+        <div className="flex flex-wrap gap-x-3 text-xs mt-1">
+          {(Object.entries(option.statBonuses) as [AbilityScore, number][]).map(([key, bonus]) => (
+            <span key={key} className={bonus > 0 ? 'text-green-400' : 'text-red-400'}>
+              {ABILITY_SCORE_LABELS[key]} {bonus > 0 ? `+${bonus}` : bonus}
+            </span>
+          ))}
+          {option.startingGold > 0 && <span className="text-accent">{option.startingGold}G</span>}
+        </div>
+      </button>
+    ))}
+    <div
+      className={`p-3 border rounded ${selectedId === '' ? 'bg-primary/20 border-primary' : 'bg-muted/30 border-border'}`}
+      onClick={() => onSelect('')}
+    >
+      <p className="text-xs text-muted-foreground mb-1">{options.length > 0 ? 'Or something else:' : 'No definitions yet — type one in:'}</p>
+      <input
+        type="text"
+        value={customName}
+        onChange={(e) => onCustomNameChange(e.target.value)}
+        placeholder={placeholder}
+        className="w-full bg-background border border-border rounded px-3 py-2 text-sm"
+      />
+    </div>
+  </div>
+);
+
+// Guided crawler creation: name, race, job, point-buy or rolled stats, then a review of the result
+const CrawlerCreationWizard: React.FC<CrawlerCreationWizardProps> = ({ races, jobs, spells, addDiceRoll, onCreate, onClose }) => {
+  const [base] = useState(createEmptyCrawler);
+  const [step, setStep] = useState<WizardStep>('name');
+  const [name, setName] = useState('');
+  const [raceId, setRaceId] = useState(races[0]?.id ?? '');
+  const [customRace, setCustomRace] = useState(base.race);
+  const [jobId, setJobId] = useState(jobs[0]?.id ?? '');
+  const [customJob, setCustomJob] = useState(base.job);
+  const [method, setMethod] = useState<StatMethod>('pointbuy');
+  const [pointBuyScores, setPointBuyScores] = useState(() => baseScores(POINT_BUY_MIN));
+  const [rolledScores, setRolledScores] = useState<Record<AbilityScore, number> | null>(null);
+
+  const race = races.find(r => r.id === raceId);
+  const job = jobs.find(j => j.id === jobId);
+  const pointsLeft = POINT_BUY_BUDGET - getPointBuyCost(pointBuyScores);
+  const scores = method === 'roll' ? rolledScores : pointBuyScores;
+  const stepIndex = STEPS.indexOf(step);
+
+  const crawler = useMemo(
+    () => buildCrawlerFromOptions(
+      { ...base, name: name.trim() || base.name, race: customRace.trim() || base.race, job: customJob.trim() || base.job },
+      scores ?? baseScores(10),
+      race,
+      job,
+      spells,
+    ),
+    [base, name, customRace, customJob, scores, race, job, spells],
+  );
+  const startingItems = useMemo(() => getStartingKit(race, job), [race, job]);
+  const grantedSpells = useMemo(() => getGrantedSpells(1, race, job, spells), [race, job, spells]);
+
+  const canAdvance =
+    (step === 'name' && name.trim() !== '') ||
+    (step === 'race' && (race || customRace.trim())) ||
+    (step === 'job' && (job || customJob.trim())) ||
+    (step === 'stats' && (method === 'roll' ? rolledScores !== null : pointsLeft >= 0)) ||
+    step === 'review';
+
+  const adjustPointBuy = (key: AbilityScore, delta: number) => {
+    const next = { ...pointBuyScores, [key]: pointBuyScores[key] + delta };
+    if (next[key] < POINT_BUY_MIN || next[key] > POINT_BUY_MAX || getPointBuyCost(next) > POINT_BUY_BUDGET) return;
+    setPointBuyScores(next);
+  };
+
+  // Rolled once; each stat's roll goes to the dice feed so the table can see and verify it
+  const handleRollStats = () => {
+    if (rolledScores) return;
+    const rolled = baseScores(0);
+    for (const key of ABILITY_SCORES) {
+      const roll = rollDiceExpression(STAT_ROLL_NOTATION);
+      rolled[key] = roll.total;
+      addDiceRoll?.({
+        id: crypto.randomUUID(),
+        crawlerName: name.trim() || base.name,
+        crawlerId: base.id,
+        timestamp: Date.now(),
+        results: toDiceResults(roll),
+        total: roll.total,
+        notation: roll.notation,
+        breakdown: roll.terms,
+        rollAudit: roll.audit,
+        statRoll: { stat: ABILITY_SCORE_LABELS[key], modifier: 0, rawRoll: roll.total, diceLabel: STAT_ROLL_NOTATION, rollType: 'Creation' },
+      });
+    }
+    setRolledScores(rolled);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-background/80 z-50 flex items-center justify-center p-4">
+      <div className="bg-background border-2 border-primary rounded-lg p-6 max-w-lg w-full shadow-xl">
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="font-display text-lg text-primary flex items-center gap-2">
+            <UserPlus className="w-5 h-5" /> New Crawler
+          </h3>
+          <button onClick={onClose} aria-label="Close crawler creation">
+            <X className="w-5 h-5 text-muted-foreground hover:text-foreground" />
+          </button>
+        </div>
+        <div className="flex gap-1 mb-4">
+          {STEPS.map((s, i) => (
+            <span key={s} className={`flex-1 text-center text-[10px] py-0.5 border-b-2 ${i <= stepIndex ? 'border-primary text-primary' : 'border-border text-muted-foreground'}`}>
+              {STEP_LABELS[s]}
+            </span>
+          ))}
+        </div>
+
+        {step === 'name' && (
+          <div>
+            <label className="text-sm text-muted-foreground block mb-1">Crawler name</label>
+            <input
+              type="text"
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter' && name.trim()) setStep('race'); }}
+              className="w-full bg-muted border border-border rounded px-3 py-2 text-sm"
+            />
+          </div>
+        )}
+
+        {step === 'race' && (
+          <OptionPicker
+            options={races}
+            selectedId={raceId}
+            customName={customRace}
+            placeholder="Race"
+            onSelect={setRaceId}
+            onCustomNameChange={(value) => { setRaceId(''); setCustomRace(value); }}
+          />
+        )}
+
+        {step === 'job' && (
+          <OptionPicker
+            options={jobs}
+            selectedId={jobId}
+            customName={customJob}
+            placeholder="Job"
+            onSelect={setJobId}
+            onCustomNameChange={(value) => { setJobId(''); setCustomJob(value); }}
+          />
+        )}
+
+        {step === 'stats' && (
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <DungeonButton variant={method === 'pointbuy' ? 'admin' : 'default'} size="sm" className="flex-1" onClick={() => setMethod('pointbuy')}>
+                Point Buy
+              </DungeonButton>
+              <DungeonButton variant={method === 'roll' ? 'admin' : 'default'} size="sm" className="flex-1" onClick={() => setMethod('roll')}>
+                <Dices className="w-4 h-4 mr-1" /> Roll {STAT_ROLL_NOTATION}
+              </DungeonButton>
+            </div>
+            {method === 'pointbuy' ? (
+              <p className="text-xs text-muted-foreground">
+                Scores {POINT_BUY_MIN}–{POINT_BUY_MAX}. Points left: <span className={pointsLeft > 0 ? 'text-accent font-bold' : 'text-foreground'}>{pointsLeft}</span> / {POINT_BUY_BUDGET}
+              </p>
+            ) : (
+              !rolledScores && (
+                <DungeonButton variant="admin" size="sm" className="w-full" onClick={handleRollStats}>
+                  <Dices className="w-4 h-4 mr-2" /> Roll Stats (once)
+                </DungeonButton>
+              )
+            )}
+            {ABILITY_SCORES.map(key => {
+              const score = method === 'roll' ? rolledScores?.[key] : pointBuyScores[key];
+              const bonus = (race?.statBonuses[key] ?? 0) + (job?.statBonuses[key] ?? 0);
+              return (
+                <div key={key} className="flex items-center justify-between bg-muted/50 px-4 py-2 rounded">
+                  <span className="text-muted-foreground">{ABILITY_SCORE_LABELS[key]}</span>
+                  <div className="flex items-center gap-2">
+                    {method === 'pointbuy' && (
+                      <button onClick={() => adjustPointBuy(key, -1)} className="p-1 rounded hover:bg-muted" aria-label={`Lower ${ABILITY_SCORE_LABELS[key]}`}>
+                        <Minus className="w-3 h-3" />
+                      </button>
+                    )}
+                    <span className="w-20 text-center font-bold">
+                      {score ?? '—'}
+                      {score !== undefined && bonus !== 0 && (
+                        <span className={bonus > 0 ? 'text-green-400 text-xs' : 'text-red-400 text-xs'}> {bonus > 0 ? `+${bonus}` : bonus}</span>
+                      )}
+                    </span>
+                    {method === 'pointbuy' && (
+                      <button onClick={() => adjustPointBuy(key, 1)} className="p-1 rounded hover:bg-muted" aria-label={`Raise ${ABILITY_SCORE_LABELS[key]}`}>
+                        <Plus className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {step === 'review' && (
+          <div className="space-y-3 text-sm">
+            <p>
+              <span className="font-display text-primary">{crawler.name}</span>
+              <span className="text-muted-foreground"> — {crawler.race} | {crawler.job} | Level 1</span>
+            </p>
+            <div className="grid grid-cols-5 gap-2">
+              {ABILITY_SCORES.map(key => (
+                <div key={key} className="bg-muted/50 rounded p-2 text-center">
+                  <p className="text-[10px] text-muted-foreground">{ABILITY_SCORE_LABELS[key]}</p>
+                  <p className="font-bold">{crawler[key]}</p>
+                </div>
+              ))}
+            </div>
+            <p className="flex items-center gap-2"><Coins className="w-4 h-4 text-accent" /> {crawler.gold}G</p>
+            {grantedSpells.length > 0 && (
+              <p className="flex items-start gap-2"><BookOpen className="w-4 h-4 text-primary mt-0.5" /> {grantedSpells.map(s => s.spellName).join(', ')}</p>
+            )}
+            {startingItems.length > 0 && (
+              <p className="flex items-start gap-2"><Package className="w-4 h-4 text-accent mt-0.5" /> {startingItems.map(i => (getItemQuantity(i) > 1 ? `${i.name} x${getItemQuantity(i)}` : i.name)).join(', ')}</p>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-2 mt-6">
+          {stepIndex > 0 && (
+            <DungeonButton variant="default" size="sm" onClick={() => setStep(STEPS[stepIndex - 1])}>
+              <ChevronLeft className="w-4 h-4 mr-1" /> Back
+            </DungeonButton>
+          )}
+          {step !== 'review' ? (
+            <DungeonButton variant="admin" size="sm" className="flex-1" disabled={!canAdvance} onClick={() => setStep(STEPS[stepIndex + 1])}>
+              Next <ChevronRight className="w-4 h-4 ml-1" />
+            </DungeonButton>
+          ) : (
+            <DungeonButton variant="admin" size="sm" className="flex-1" onClick={() => onCreate(crawler, startingItems)}>
+              <UserPlus className="w-4 h-4 mr-2" /> Create Crawler
+            </DungeonButton>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CrawlerCreationWizard;
@@ -1,9 +1,10 @@
 import { useState, useEffect, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { DungeonButton } from "./ui/DungeonButton";
-import { Dices, ChevronUp, ChevronDown, Plus, X, Package, ScrollText } from "lucide-react";
+import { Dices, ChevronUp, ChevronDown, Plus, X, Package, ScrollText, Shield, ShieldCheck, ShieldAlert, FlaskConical } from "lucide-react";
 import { getLootBoxTierColor } from "@/lib/gameData";
 import { DiceRollEntry } from "@/hooks/useGameState";
+import { rollDiceExpression, parseDiceExpression, toDiceResults, type RollVerificationSummary } from "@/lib/dice";
 
 const diceTypes = [
   { sides: 4, label: "D4" },
@@ -26,10 +27,11 @@ interface DiceRollerProps {
   crawlerId?: string;
   diceRolls: DiceRollEntry[];
   addDiceRoll: (entry: DiceRollEntry) => Promise<void>;
+  onVerifyRolls: () => Promise<RollVerificationSummary>;
   onExpandedChange?: (expanded: boolean) => void;
 }
 
-const DiceRoller: React.FC<DiceRollerProps> = ({ crawlerName = "Unknown", crawlerId = "", diceRolls, addDiceRoll, onExpandedChange }) => {
+const DiceRoller: React.FC<DiceRollerProps> = ({ crawlerName = "Unknown", crawlerId = "", diceRolls, addDiceRoll, onVerifyRolls, onExpandedChange }) => {
 
   const [isExpanded, setIsExpandedRaw] = useState(false);
   const setIsExpanded = (v: boolean) => {
@@ -39,7 +41,10 @@ const DiceRoller: React.FC<DiceRollerProps> = ({ crawlerName = "Unknown", crawle
   const [showDiceOptions, setShowDiceOptions] = useState(true);
   const [isRolling, setIsRolling] = useState(false);
   const [diceQueue, setDiceQueue] = useState<QueuedDice[]>([]);
+  const [expression, setExpression] = useState("");
+  const [expressionError, setExpressionError] = useState<string | null>(null);
   const [expandedIds, setExpandedIds] = useState<Record<string, boolean>>({});
+  const [verification, setVerification] = useState<RollVerificationSummary | null>(null);
   const lastSeenRollId = useRef<string | null>(null);
   const addDiceRollRef = useRef(addDiceRoll);
   addDiceRollRef.current = addDiceRoll;
@@ -80,8 +85,24 @@ const DiceRoller: React.FC<DiceRollerProps> = ({ crawlerName = "Unknown", crawle
     };
   }, []);
 
+  // Collapse the queued dice into one expression, e.g. [D6, D20, D6] → "2d6+1d20"
+  const queueToNotation = (queue: QueuedDice[]): string => {
+    const counts = new Map<number, number>();
+    for (const d of queue) counts.set(d.sides, (counts.get(d.sides) ?? 0) + 1);
+    return Array.from(counts.entries()).map(([sides, count]) => `${count}d${sides}`).join('+');
+  };
+
   const rollAllDice = () => {
-    if (diceQueue.length === 0) return;
+    const notation = expression.trim() || queueToNotation(diceQueue);
+    if (!notation) return;
+
+    try {
+      parseDiceExpression(notation);
+    } catch (err) {
+      setExpressionError(err instanceof Error ? err.message : 'Invalid dice expression');
+      return;
+    }
+    setExpressionError(null);
 
     setIsRolling(true);
     let iterations = 0;
@@ -93,29 +114,27 @@ const DiceRoller: React.FC<DiceRollerProps> = ({ crawlerName = "Unknown", crawle
         clearInterval(interval);
         rollIntervalRef.current = null;
 
-        const finalResults = diceQueue.map((dice) => {
-          const result = Math.floor(Math.random() * dice.sides) + 1;
-          return { dice: dice.label, result };
-        });
+        const roll = rollDiceExpression(notation);
+        const entry: DiceRollEntry = {
+          id: crypto.randomUUID(),
+          crawlerName,
+          crawlerId,
+          timestamp: Date.now(),
+          results: toDiceResults(roll),
+          total: roll.total,
+          notation: roll.notation,
+          breakdown: roll.terms,
+          rollAudit: roll.audit,
+        };
 
-        if (finalResults.length > 0) {
-          const entry: DiceRollEntry = {
-            id: crypto.randomUUID(),
-            crawlerName,
-            crawlerId,
-            timestamp: Date.now(),
-            results: finalResults,
-            total: finalResults.reduce((s, r) => s + r.result, 0),
-          };
-
-          lastSeenRollId.current = entry.id;
-          // Collapse all previous rolls, expand the new one
-          setExpandedIds({ [entry.id]: true });
-          addDiceRollRef.current(entry);
-        }
+        lastSeenRollId.current = entry.id;
+        // Collapse all previous rolls, expand the new one
+        setExpandedIds({ [entry.id]: true });
+        addDiceRollRef.current(entry);
 
         setIsRolling(false);
         setDiceQueue([]);
+        setExpression("");
       }
     }, 50);
     rollIntervalRef.current = interval;
@@ -188,7 +207,24 @@ const DiceRoller: React.FC<DiceRollerProps> = ({ crawlerName = "Unknown", crawle
 
             {/* Roll history - fills available space */}
             <div className="flex-1 min-h-0 flex flex-col mb-3">
-              <span className="text-muted-foreground text-xs mb-2 block font-display shrink-0">ROLL HISTORY:</span>
+              <div className="flex items-center justify-between mb-2 shrink-0">
+                <span className="text-muted-foreground text-xs font-display">ROLL HISTORY:</span>
+                <button
+                  onClick={async () => setVerification(await onVerifyRolls())}
+                  className="flex items-center gap-1 text-[10px] text-muted-foreground hover:text-primary transition-colors"
+                  title="Check every audited roll against its committed stream and replay it"
+                >
+                  <ShieldCheck className="w-3 h-3" /> Verify rolls
+                </button>
+              </div>
+              {verification && (
+                <div className={`text-[10px] mb-2 shrink-0 ${verification.mismatched.length > 0 ? 'text-destructive' : 'text-emerald-400'}`}>
+                  {verification.verified} verified
+                  {verification.mismatched.length > 0 && ` · ${verification.mismatched.length} mismatched`}
+                  {verification.pending > 0 && <span className="text-muted-foreground"> · {verification.pending} awaiting reveal</span>}
+                  {verification.unaudited > 0 && <span className="text-muted-foreground"> · {verification.unaudited} unaudited</span>}
+                </div>
+              )}
               <div
                 ref={rollHistoryRef}
                 className="flex-1 min-h-0 space-y-2 overflow-y-auto"
@@ -252,6 +288,43 @@ const DiceRoller: React.FC<DiceRollerProps> = ({ crawlerName = "Unknown", crawle
                                 <span className="text-amber-400">{entry.questNotification.detail}</span>
                               </>
                             )}
+                            {entry.questNotification.type === 'completed' && (
+                              <>
+                                <span className="text-muted-foreground"> completed by </span>
+                                <span className="text-primary">{entry.questNotification.recipientNames.join(', ')}</span>
+                                {entry.questNotification.detail && (
+                                  <span className="text-accent ml-1">(+{entry.questNotification.detail})</span>
+                                )}
+                              </>
+                            )}
+                          </div>
+                          <span className="text-[10px] text-muted-foreground/60 ml-auto">{formatTimestamp(entry.timestamp)}</span>
+                        </div>
+                      ) : entry.itemNotification ? (
+                        // Consumable item use
+                        <div className="flex items-center gap-2">
+                          <FlaskConical className="w-4 h-4 flex-shrink-0 text-green-400" />
+                          <div>
+                            <span className="text-primary">{entry.crawlerName}</span>
+                            <span className="text-muted-foreground"> used </span>
+                            <span className="font-display text-green-400">{entry.itemNotification.itemName}</span>
+                            {entry.itemNotification.outcomes.length > 0 && (
+                              <span className="text-foreground"> — {entry.itemNotification.outcomes.join(', ')}</span>
+                            )}
+                          </div>
+                          <span className="text-[10px] text-muted-foreground/60 ml-auto">{formatTimestamp(entry.timestamp)}</span>
+                        </div>
+                      ) : entry.damageNotification ? (
+                        // Damage adjusted by resistance / vulnerability / immunity
+                        <div className="flex items-center gap-2">
+                          <Shield className="w-4 h-4 flex-shrink-0 text-accent" />
+                          <div>
+                            <span className="text-primary">{entry.damageNotification.targetName}</span>
+                            <span className="text-muted-foreground"> is {entry.damageNotification.affinity} to </span>
+                            <span className="text-destructive">{entry.damageNotification.damageType}</span>
+                            <span className="text-muted-foreground"> — {entry.damageNotification.baseDamage} → </span>
+                            <span className="font-bold text-primary">{entry.damageNotification.finalDamage}</span>
+                            <span className="text-muted-foreground"> damage</span>
                           </div>
                           <span className="text-[10px] text-muted-foreground/60 ml-auto">{formatTimestamp(entry.timestamp)}</span>
                         </div>
@@ -262,12 +335,25 @@ const DiceRoller: React.FC<DiceRollerProps> = ({ crawlerName = "Unknown", crawle
                             <div className="flex items-center gap-2 flex-wrap">
                               <span className="font-display text-primary">{entry.crawlerName}</span>
                               <span className="text-[10px] text-muted-foreground/60">{formatTimestamp(entry.timestamp)}</span>
+                              {verification?.mismatched.includes(entry.id) && (
+                                <ShieldAlert className="w-3 h-3 text-destructive" aria-label="Roll failed verification" />
+                              )}
                               {entry.statRoll ? (
                                 <span className="text-xs">
                                   {entry.statRoll.stat} {entry.statRoll.rollType || 'Check'}: {entry.statRoll.diceLabel || 'd20'}({entry.statRoll.rawRoll}) {entry.statRoll.modifier >= 0 ? '+' : ''}{entry.statRoll.modifier} = <span className="font-bold text-primary">{entry.total}</span>
                                 </span>
                               ) : (
-                                <span className="text-xs">{entry.results.map(r => r.dice).join(', ')} — Total: <span className="font-bold text-primary">{entry.total}</span></span>
+                                <span className="text-xs">{entry.notation ?? entry.results.map(r => r.dice).join(', ')} — Total: <span className="font-bold text-primary">{entry.total}</span></span>
+                              )}
+                              {entry.attackOutcome && (
+                                <span
+                                  className={`text-[10px] font-display px-1 rounded ${
+                                    entry.attackOutcome.outcome === 'miss' ? 'bg-muted text-muted-foreground' : 'bg-destructive/20 text-destructive'
+                                  }`}
+                                >
+                                  {entry.attackOutcome.outcome === 'critical' ? 'CRIT' : entry.attackOutcome.outcome === 'hit' ? 'HIT' : 'MISS'} vs AC {entry.attackOutcome.armorClass}
+                                  {entry.attackOutcome.damage !== undefined && ` · ${entry.attackOutcome.damage} dmg`}
+                                </span>
                               )}
                             </div>
                             <button
@@ -279,12 +365,35 @@ const DiceRoller: React.FC<DiceRollerProps> = ({ crawlerName = "Unknown", crawle
                           </div>
                           {expandedIds[entry.id] && (
                             <div className="mt-2 text-xs">
-                              {entry.results.map((r, i) => (
+                              {entry.breakdown ? entry.breakdown.map((term, i) => (
+                                <div key={i} className="flex items-center justify-between gap-2">
+                                  <div className="flex items-center gap-1 flex-wrap">
+                                    <span>{term.subtotal < 0 ? '-' : ''}{term.notation}</span>
+                                    {term.rolls.length > 0 && (
+                                      <span className="text-muted-foreground/80">
+                                        [{term.rolls.map((d, j) => (
+                                          <span
+                                            key={j}
+                                            className={d.kept ? (d.exploded ? 'text-accent' : '') : 'line-through opacity-50'}
+                                            title={d.rerolledFrom !== undefined ? `Rerolled from ${d.rerolledFrom}` : undefined}
+                                          >
+                                            {j > 0 ? ', ' : ''}{d.value}{d.exploded ? '!' : ''}{d.rerolledFrom !== undefined ? '*' : ''}
+                                          </span>
+                                        ))}]
+                                      </span>
+                                    )}
+                                  </div>
+                                  <div className="font-bold text-primary">{term.subtotal}</div>
+                                </div>
+                              )) : entry.results.map((r, i) => (
                                 <div key={i} className="flex items-center justify-between">
                                   <div>{r.dice}</div>
                                   <div className="font-bold text-primary">{r.result}</div>
                                 </div>
                               ))}
+                              {entry.rollAudit && (
+                                <div className="text-[10px] text-muted-foreground/60 mt-1">Roll #{entry.rollAudit.counter}</div>
+                              )}
                               {entry.statRoll && (
                                 <div className="flex items-center justify-between border-t border-border/50 mt-1 pt-1">
                                   <div>{entry.statRoll.stat} modifier</div>
@@ -372,14 +481,30 @@ const DiceRoller: React.FC<DiceRollerProps> = ({ crawlerName = "Unknown", crawle
                     ))}
                   </div>
 
+                  <div className="mb-3">
+                    <input
+                      type="text"
+                      value={expression}
+                      onChange={(e) => { setExpression(e.target.value); setExpressionError(null); }}
+                      onKeyDown={(e) => { if (e.key === 'Enter') rollAllDice(); }}
+                      disabled={isRolling}
+                      placeholder="2d6+3, 4d6kh3, 1d20adv, d6!, 2d6r1"
+                      className="w-full bg-muted border border-border px-2 py-1.5 text-xs font-mono"
+                      aria-label="Dice expression"
+                    />
+                    {expressionError && (
+                      <p className="text-destructive text-[10px] mt-1">{expressionError}</p>
+                    )}
+                  </div>
+
                   <DungeonButton
                     variant="admin"
                     className="w-full"
                     onClick={rollAllDice}
-                    disabled={diceQueue.length === 0 || isRolling}
+                    disabled={(diceQueue.length === 0 && !expression.trim()) || isRolling}
                   >
                     <Dices className="w-4 h-4 mr-2" />
-                    Roll {diceQueue.length} Dice
+                    {expression.trim() ? `Roll ${expression.trim()}` : `Roll ${diceQueue.length} Dice`}
                   </DungeonButton>
                 </>
               )}
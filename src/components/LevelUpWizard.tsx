@@ -0,0 +1,188 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowUpCircle, BookOpen, ChevronLeft, ChevronRight, Heart, Minus, Plus, Sparkles, X } from 'lucide-react';
+import { DungeonButton } from '@/components/ui/DungeonButton';
+import type { Crawler, KnownSpell, Spell } from '@/lib/gameData';
+import type { ProgressionSettings } from '@/lib/progression';
+import { ABILITY_SCORES, ABILITY_SCORE_LABELS, getGrantedSpells, type AbilityScore, type JobDefinition, type RaceDefinition } from '@/lib/characterOptions';
+
+type WizardStep = 'vitals' | 'stats' | 'spell';
+
+const STEPS: WizardStep[] = ['vitals', 'stats', 'spell'];
+
+interface LevelUpWizardProps {
+  crawler: Crawler;
+  settings: ProgressionSettings;
+  spells: Spell[];
+  race?: RaceDefinition;
+  job?: JobDefinition;
+  pendingLevels: number; // levels waiting, including this one
+  onLevelUp: (updates: Partial<Crawler>) => void;
+  onClose: () => void;
+}
+
+// One level at a time: show the HP/mana gains, spend the stat points, optionally learn a spell.
+// The crawler's race and job add their own growth and any spells they grant at this level.
+const LevelUpWizard: React.FC<LevelUpWizardProps> = ({ crawler, settings, spells, race, job, pendingLevels, onLevelUp, onClose }) => {
+  const [step, setStep] = useState<WizardStep>('vitals');
+  const [allocation, setAllocation] = useState<Record<AbilityScore, number>>({ str: 0, dex: 0, con: 0, int: 0, cha: 0 });
+  const [spellId, setSpellId] = useState('');
+
+  const nextLevel = crawler.level + 1;
+  const hpGain = settings.hpPerLevel + (race?.hpPerLevel ?? 0) + (job?.hpPerLevel ?? 0);
+  const manaGain = settings.manaPerLevel + (race?.manaPerLevel ?? 0) + (job?.manaPerLevel ?? 0);
+  const grantedSpells = useMemo(
+    () => getGrantedSpells(nextLevel, race, job, spells, crawler.knownSpells),
+    [nextLevel, race, job, spells, crawler.knownSpells],
+  );
+  const pointsSpent = Object.values(allocation).reduce((sum, n) => sum + n, 0);
+  const pointsLeft = settings.statPointsPerLevel - pointsSpent;
+  const learnableSpells = useMemo(
+    () => spells
+      .filter(s => ![...(crawler.knownSpells ?? []), ...grantedSpells].some(ks => ks.spellId === s.id))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    [spells, crawler.knownSpells, grantedSpells],
+  );
+  const stepIndex = STEPS.indexOf(step);
+
+  const adjust = (key: AbilityScore, delta: number) => {
+    setAllocation(prev => ({ ...prev, [key]: Math.max(0, prev[key] + delta) }));
+  };
+
+  const handleConfirm = () => {
+    const spell = learnableSpells.find(s => s.id === spellId);
+    const learned: KnownSpell | null = spell
+      ? { spellId: spell.id, spellName: spell.name, learnedFrom: 'level', learnedAt: new Date().toISOString(), castCount: 0 }
+      : null;
+    const newSpells = learned ? [...grantedSpells, learned] : grantedSpells;
+    onLevelUp({
+      level: nextLevel,
+      maxHP: crawler.maxHP + hpGain,
+      hp: crawler.hp + hpGain,
+      maxMana: crawler.maxMana + manaGain,
+      mana: crawler.mana + manaGain,
+      ...Object.fromEntries(ABILITY_SCORES.map(key => [key, crawler[key] + allocation[key]])),
+      ...(newSpells.length > 0 ? { knownSpells: [...(crawler.knownSpells ?? []), ...newSpells] } : {}),
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-background/80 z-50 flex items-center justify-center p-4">
+      <div className="bg-background border-2 border-accent rounded-lg p-6 max-w-md w-full shadow-xl">
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="font-display text-lg text-accent flex items-center gap-2">
+            <ArrowUpCircle className="w-5 h-5" /> {crawler.name}: Level {nextLevel}
+          </h3>
+          <button onClick={onClose} aria-label="Close level-up wizard">
+            <X className="w-5 h-5 text-muted-foreground hover:text-foreground" />
+          </button>
+        </div>
+        <p className="text-xs text-muted-foreground mb-4">
+          Step {stepIndex + 1} of {STEPS.length}
+          {pendingLevels > 1 && ` · ${pendingLevels - 1} more level${pendingLevels > 2 ? 's' : ''} after this`}
+        </p>
+
+        {step === 'vitals' && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between bg-muted/50 px-4 py-3 rounded">
+              <span className="flex items-center gap-2 text-muted-foreground"><Heart className="w-4 h-4 text-destructive" /> Max HP</span>
+              <span className="font-bold">{crawler.maxHP} → <span className="text-green-400">{crawler.maxHP + hpGain}</span></span>
+            </div>
+            <div className="flex items-center justify-between bg-muted/50 px-4 py-3 rounded">
+              <span className="flex items-center gap-2 text-muted-foreground"><Sparkles className="w-4 h-4 text-primary" /> Max Mana</span>
+              <span className="font-bold">{crawler.maxMana} → <span className="text-green-400">{crawler.maxMana + manaGain}</span></span>
+            </div>
+          </div>
+        )}
+
+        {step === 'stats' && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              Points to spend: <span className={pointsLeft > 0 ? 'text-accent font-bold' : 'text-foreground'}>{pointsLeft}</span>
+            </p>
+            {ABILITY_SCORES.map(key => (
+              <div key={key} className="flex items-center justify-between bg-muted/50 px-4 py-2 rounded">
+                <span className="text-muted-foreground">{ABILITY_SCORE_LABELS[key]}</span>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => adjust(key, -1)}
+                    disabled={allocation[key] === 0}
+                    className="p-1 rounded hover:bg-muted disabled:opacity-30"
+                    aria-label={`Remove point from ${ABILITY_SCORE_LABELS[key]}`}
+                  >
+                    <Minus className="w-3 h-3" />
+                  </button>
+                  <span className="w-16 text-center font-bold">
+                    {crawler[key] + allocation[key]}
+                    {allocation[key] > 0 && <span className="text-green-400 text-xs"> +{allocation[key]}</span>}
+                  </span>
+                  <button
+                    onClick={() => adjust(key, 1)}
+                    disabled={pointsLeft <= 0}
+                    className="p-1 rounded hover:bg-muted disabled:opacity-30"
+                    aria-label={`Add point to ${ABILITY_SCORE_LABELS[key]}`}
+                  >
+                    <Plus className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step === 'spell' && (
+          <div className="space-y-2">
+            {grantedSpells.length > 0 && (
+              <div className="bg-muted/50 px-4 py-2 rounded text-sm">
+                <p className="text-xs text-muted-foreground mb-1">Granted by {[race?.name, job?.name].filter(Boolean).join(' / ')}:</p>
+                {grantedSpells.map(ks => (
+                  <p key={ks.spellId} className="text-primary">{ks.spellName}</p>
+                ))}
+              </div>
+            )}
+            <label className="text-sm text-muted-foreground flex items-center gap-2">
+              <BookOpen className="w-4 h-4" /> Learn a spell (optional)
+            </label>
+            <select
+              value={spellId}
+              onChange={(e) => setSpellId(e.target.value)}
+              className="w-full bg-muted border border-border rounded px-3 py-2 text-sm"
+            >
+              <option value="">No new spell</option>
+              {learnableSpells.map(s => (
+                <option key={s.id} value={s.id}>{s.name}</option>
+              ))}
+            </select>
+            {learnableSpells.length === 0 && (
+              <p className="text-xs text-muted-foreground">No spells left to learn.</p>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-2 mt-6">
+          {stepIndex > 0 && (
+            <DungeonButton variant="default" size="sm" onClick={() => setStep(STEPS[stepIndex - 1])}>
+              <ChevronLeft className="w-4 h-4 mr-1" /> Back
+            </DungeonButton>
+          )}
+          {stepIndex < STEPS.length - 1 ? (
+            <DungeonButton
+              variant="admin"
+              size="sm"
+              className="flex-1"
+              disabled={step === 'stats' && pointsLeft > 0}
+              onClick={() => setStep(STEPS[stepIndex + 1])}
+            >
+              Next <ChevronRight className="w-4 h-4 ml-1" />
+            </DungeonButton>
+          ) : (
+            <DungeonButton variant="admin" size="sm" className="flex-1" onClick={handleConfirm}>
+              <ArrowUpCircle className="w-4 h-4 mr-2" /> Level Up
+            </DungeonButton>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LevelUpWizard;
@@ -1,7 +1,10 @@
 import { useState, useRef, useEffect, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Clock, ChevronUp, ChevronDown, RotateCcw, Sun, Moon, Swords, Zap, SkipForward, XCircle, Heart, Plus, Play, Square, Timer, Pause } from "lucide-react";
-import { type Crawler, type Mob, type NoncombatTurnState, type GameClockState, type Episode, type CombatState, type CrawlerPlacement, type EpisodeMobPlacement, type CombatantEntry } from "@/lib/gameData";
+import { Clock, ChevronUp, ChevronDown, RotateCcw, Sun, Moon, Swords, Zap, SkipForward, XCircle, Heart, Plus, Play, Square, Timer, Pause, ScrollText, Copy, Download, Undo2, Redo2 } from "lucide-react";
+import { toast } from "sonner";
+import { type Crawler, type Mob, type NoncombatTurnState, type GameClockState, type Episode, type CombatState, type CrawlerPlacement, type EpisodeMobPlacement, type CombatantEntry, type ActiveCondition, type CombatLogEntry, type AttackResolution, CONDITION_PRESETS, createCondition, summarizeCombat, combatLogToMarkdown } from "@/lib/gameData";
+import { ConditionBadges } from "@/components/ui/ConditionBadges";
+import { rollDiceExpression, type DiceRollResult } from "@/lib/dice";
 
 interface PingPanelProps {
   isAdmin?: boolean;
@@ -23,10 +26,18 @@ interface PingPanelProps {
   onRemoveCombatant?: (combatantId: string) => Promise<void>;
   runtimeCrawlerPlacements?: CrawlerPlacement[];
   runtimeMobPlacements?: EpisodeMobPlacement[];
-  onAddCombatant?: (combatants: CombatantEntry[]) => Promise<void>;
+  onAddCombatant?: (combatants: CombatantEntry[], initiativeRolls?: Record<string, DiceRollResult>) => Promise<void>;
   isGameActive?: boolean;
   onToggleGameActive?: (active: boolean) => Promise<void>;
   onUpdateCombatTimer?: (settings: { turnTimerMode?: 'countdown' | 'stopwatch'; turnTimerDuration?: number; turnTimerPaused?: boolean }) => Promise<void>;
+  onAddCondition?: (target: { id: string; type: 'crawler' | 'mob' }, condition: ActiveCondition) => Promise<void>;
+  onRemoveCondition?: (target: { id: string; type: 'crawler' | 'mob' }, conditionId: string) => Promise<void>;
+  combatLogs?: CombatLogEntry[];
+  onUndoCombatAction?: () => Promise<void>;
+  onRedoCombatAction?: () => Promise<void>;
+  combatUndoLabel?: string;
+  combatRedoLabel?: string;
+  onResolveMobAction?: (combatantId: string, actionId: string, targetId: string) => Promise<AttackResolution | null>;
 }
 
 const PingPanel: React.FC<PingPanelProps> = ({
@@ -53,6 +64,14 @@ const PingPanel: React.FC<PingPanelProps> = ({
   isGameActive,
   onToggleGameActive,
   onUpdateCombatTimer,
+  onAddCondition,
+  onRemoveCondition,
+  combatLogs,
+  onUndoCombatAction,
+  onRedoCombatAction,
+  combatUndoLabel,
+  combatRedoLabel,
+  onResolveMobAction,
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [showRestDropdown, setShowRestDropdown] = useState<'short' | 'long' | null>(null);
@@ -67,6 +86,8 @@ const PingPanel: React.FC<PingPanelProps> = ({
   const [mobHealthValue, setMobHealthValue] = useState('');
   const [showAddCombatant, setShowAddCombatant] = useState(false);
   const [selectedNewCombatants, setSelectedNewCombatants] = useState<Record<string, boolean>>({});
+  const [selectedSummaryId, setSelectedSummaryId] = useState<string | null>(null);
+  const [mobActionTargetId, setMobActionTargetId] = useState('');
 
   // Click outside to minimize
   useEffect(() => {
@@ -97,6 +118,48 @@ const PingPanel: React.FC<PingPanelProps> = ({
     return true;
   }), [crawlers, episodeCrawlerIds]);
 
+  // Finished (not cancelled) combats from the log, newest first
+  const pastCombats = useMemo(() => {
+    const groups = new Map<string, CombatLogEntry[]>();
+    for (const entry of combatLogs ?? []) {
+      const group = groups.get(entry.combatId);
+      if (group) group.push(entry);
+      else groups.set(entry.combatId, [entry]);
+    }
+    return [...groups.values()]
+      .map(entries => ({ entries, summary: summarizeCombat(entries)! }))
+      .filter(c => c.summary.endedAt !== undefined && !c.summary.cancelled)
+      .sort((a, b) => b.summary.startedAt - a.summary.startedAt);
+  }, [combatLogs]);
+
+  const shownCombat = pastCombats.find(c => c.summary.combatId === selectedSummaryId) ?? pastCombats[0];
+
+  const getCombatMarkdown = () => {
+    if (!shownCombat) return '';
+    const title = `Combat #${shownCombat.summary.combatNumber ?? '?'}${activeEpisode ? ` — ${activeEpisode.name}` : ''}`;
+    return combatLogToMarkdown(shownCombat.entries, title);
+  };
+
+  const handleCopyCombatMarkdown = async () => {
+    try {
+      await navigator.clipboard.writeText(getCombatMarkdown());
+      toast.success('Combat recap copied as Markdown');
+    } catch {
+      toast.error('Could not copy to clipboard');
+    }
+  };
+
+  const handleDownloadCombatMarkdown = () => {
+    if (!shownCombat) return;
+    const blob = new Blob([getCombatMarkdown()], { type: 'text/markdown' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `combat-${shownCombat.summary.combatNumber ?? shownCombat.summary.combatId}.md`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const openRestDropdown = (type: 'short' | 'long') => {
     const selected: Record<string, boolean> = {};
     playerCrawlers.forEach(c => { selected[c.id] = true; });
@@ -228,10 +291,13 @@ const PingPanel: React.FC<PingPanelProps> = ({
       });
     }
     // Add selected mobs (auto-roll initiative)
+    const initiativeRolls: Record<string, DiceRollResult> = {};
     for (const entry of availableToAdd.mobs) {
       if (!selectedIds.has(entry.combatId)) continue;
       const mob = (mobs ?? []).find(m => m.id === entry.mobId);
-      const roll = Math.floor(Math.random() * 20) + 1;
+      const initiativeRoll = rollDiceExpression('1d20');
+      initiativeRolls[entry.combatId] = initiativeRoll;
+      const roll = initiativeRoll.total;
       newEntries.push({
         id: entry.combatId,
         sourceId: entry.mobId,
@@ -246,7 +312,7 @@ const PingPanel: React.FC<PingPanelProps> = ({
       });
     }
 
-    await onAddCombatant(newEntries);
+    await onAddCombatant(newEntries, initiativeRolls);
     setShowAddCombatant(false);
     setSelectedNewCombatants({});
   };
@@ -432,6 +498,30 @@ const PingPanel: React.FC<PingPanelProps> = ({
 
             {/* ═══════════ COMBAT CONTROLS ═══════════ */}
 
+            {/* DM: Undo/redo recent combat changes */}
+            {isAdmin && (combatUndoLabel || combatRedoLabel) && (
+              <div className="mb-3 flex gap-2">
+                <button
+                  onClick={() => onUndoCombatAction?.()}
+                  disabled={!combatUndoLabel}
+                  className="flex-1 min-w-0 flex items-center justify-center gap-1 border border-border bg-muted/30 text-muted-foreground font-display text-[10px] py-1.5 rounded hover:text-accent hover:border-accent/30 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                  title={combatUndoLabel ? `Undo: ${combatUndoLabel}` : 'Nothing to undo'}
+                >
+                  <Undo2 className="w-3 h-3 shrink-0" />
+                  <span className="truncate">{combatUndoLabel ? `UNDO ${combatUndoLabel}` : 'UNDO'}</span>
+                </button>
+                <button
+                  onClick={() => onRedoCombatAction?.()}
+                  disabled={!combatRedoLabel}
+                  className="flex-1 min-w-0 flex items-center justify-center gap-1 border border-border bg-muted/30 text-muted-foreground font-display text-[10px] py-1.5 rounded hover:text-accent hover:border-accent/30 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                  title={combatRedoLabel ? `Redo: ${combatRedoLabel}` : 'Nothing to redo'}
+                >
+                  <Redo2 className="w-3 h-3 shrink-0" />
+                  <span className="truncate">{combatRedoLabel ? `REDO ${combatRedoLabel}` : 'REDO'}</span>
+                </button>
+              </div>
+            )}
+
             {/* DM: Start Combat Button (when no combat is active) */}
             {isAdmin && !isCombatActive && onStartCombat && (
               <div className="mb-3">
@@ -709,6 +799,10 @@ const PingPanel: React.FC<PingPanelProps> = ({
                     const mobId = c.sourceId || c.id;
                     const mob = c.type === 'mob' ? (mobs ?? []).find(m => m.id === mobId) : null;
                     const displayHP = c.currentHP ?? mob?.hitPoints;
+                    // Crawler conditions live on the crawler doc; mob conditions on the combatant entry
+                    const conditions = c.type === 'crawler'
+                      ? (crawlers ?? []).find(cr => cr.id === c.id)?.conditions
+                      : c.conditions;
                     return (
                       <div key={c.id} className={`flex items-center justify-between text-xs px-2 py-1 rounded ${
                         isCurrent ? 'bg-accent/20 border border-accent/50' : ''
@@ -719,8 +813,29 @@ const PingPanel: React.FC<PingPanelProps> = ({
                             {c.name}
                           </span>
                           <span className="text-muted-foreground">({c.initiative})</span>
+                          <ConditionBadges
+                            conditions={conditions}
+                            size={12}
+                            onConditionClick={isAdmin && onRemoveCondition ? (cond) => onRemoveCondition({ id: c.id, type: c.type }, cond.id) : undefined}
+                          />
                         </div>
                         <div className="flex items-center gap-1">
+                          {isAdmin && onAddCondition && (
+                            <select
+                              value=""
+                              onChange={(e) => {
+                                const preset = CONDITION_PRESETS.find(p => p.name === e.target.value);
+                                if (preset) onAddCondition({ id: c.id, type: c.type }, createCondition(preset, 'DM'));
+                              }}
+                              className="w-6 bg-transparent text-[10px] text-muted-foreground hover:text-accent cursor-pointer appearance-none text-center"
+                              title="Apply condition"
+                            >
+                              <option value="">✚</option>
+                              {CONDITION_PRESETS.map(p => (
+                                <option key={p.name} value={p.name}>{p.icon} {p.name}</option>
+                              ))}
+                            </select>
+                          )}
                           {/* Mob HP display with override */}
                           {c.type === 'mob' && mob && (
                             <>
@@ -854,6 +969,51 @@ const PingPanel: React.FC<PingPanelProps> = ({
                   </div>
                 )}
 
+                {/* DM: Roll the current mob's stat-block actions against a crawler */}
+                {isAdmin && onResolveMobAction && (() => {
+                  const current = combatState.combatants[combatState.currentTurnIndex];
+                  if (!current || current.type !== 'mob') return null;
+                  const mob = (mobs ?? []).find(m => m.id === (current.sourceId || current.id));
+                  if (!mob?.actions?.length) return null;
+                  const targets = combatState.combatants.filter(c => c.type === 'crawler');
+                  const targetId = targets.some(t => t.id === mobActionTargetId) ? mobActionTargetId : targets[0]?.id ?? '';
+                  return (
+                    <div className="border border-destructive/30 bg-destructive/5 p-2 rounded space-y-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-[10px] text-destructive font-display">{current.name.toUpperCase()} ACTIONS</span>
+                        <select
+                          value={targetId}
+                          onChange={(e) => setMobActionTargetId(e.target.value)}
+                          className="bg-muted border border-border px-1 py-0.5 text-[10px] rounded"
+                          title="Target crawler"
+                        >
+                          {targets.map(t => <option key={t.id} value={t.id}>→ {t.name}</option>)}
+                        </select>
+                      </div>
+                      <div className="flex flex-wrap gap-1">
+                        {mob.actions.map(action => (
+                          <button
+                            key={action.id}
+                            disabled={!targetId || current.hasUsedAction}
+                            onClick={async () => {
+                              const result = await onResolveMobAction(current.id, action.id, targetId);
+                              if (!result) return;
+                              const verdict = result.outcome === 'miss' ? 'misses' : result.outcome === 'critical' ? 'CRITS' : 'hits';
+                              toast(`${current.name} ${verdict} ${result.targetName} with ${action.name} (${result.attackTotal} vs AC ${result.armorClass})${result.damage !== undefined ? ` for ${result.damage}` : ''}`);
+                            }}
+                            className="flex items-center gap-1 text-[10px] px-2 py-1 rounded border border-destructive/50 text-destructive hover:bg-destructive/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                            title={`${action.damageType} damage${action.reachFt ? ` · ${action.reachFt}ft` : ''}`}
+                          >
+                            <Swords className="w-3 h-3" />
+                            {action.name}
+                          </button>
+                        ))}
+                      </div>
+                      {current.hasUsedAction && <p className="text-[10px] text-muted-foreground">Action used this turn</p>}
+                    </div>
+                  );
+                })()}
+
                 {/* DM: Advance turn and end combat */}
                 {isAdmin && (
                   <div className="space-y-2 pt-1">
@@ -885,6 +1045,72 @@ const PingPanel: React.FC<PingPanelProps> = ({
               </div>
             )}
 
+            {/* Post-combat summary - visible to all players */}
+            {!isCombatActive && shownCombat && (
+              <div className="mb-3 border border-border bg-muted/20 p-3 rounded space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-accent font-display flex items-center gap-1">
+                    <ScrollText className="w-3 h-3" /> COMBAT RECAP
+                  </span>
+                  {pastCombats.length > 1 ? (
+                    <select
+                      value={shownCombat.summary.combatId}
+                      onChange={(e) => setSelectedSummaryId(e.target.value)}
+                      className="bg-muted border border-border px-1 py-0.5 text-[10px] rounded"
+                    >
+                      {pastCombats.map(c => (
+                        <option key={c.summary.combatId} value={c.summary.combatId}>
+                          Combat #{c.summary.combatNumber ?? '?'}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="text-[10px] text-muted-foreground">Combat #{shownCombat.summary.combatNumber ?? '?'}</span>
+                  )}
+                </div>
+                <p className="text-[10px] text-muted-foreground">
+                  {shownCombat.summary.rounds} round{shownCombat.summary.rounds === 1 ? '' : 's'}
+                  {shownCombat.summary.mobsDefeated.length > 0 && ` · Defeated: ${shownCombat.summary.mobsDefeated.join(', ')}`}
+                </p>
+                <table className="w-full text-[10px]">
+                  <thead>
+                    <tr className="text-muted-foreground">
+                      <th className="text-left font-normal">Crawler</th>
+                      <th className="text-right font-normal">Dealt</th>
+                      <th className="text-right font-normal">Taken</th>
+                      <th className="text-right font-normal">Kills</th>
+                      <th className="text-right font-normal">XP</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {shownCombat.summary.crawlers.map(c => (
+                      <tr key={c.id}>
+                        <td className="text-primary truncate max-w-[7rem]">{c.name}</td>
+                        <td className="text-right">{c.damageDealt}</td>
+                        <td className="text-right text-destructive">{c.damageTaken}</td>
+                        <td className="text-right" title={c.kills.join(', ') || undefined}>{c.kills.length}</td>
+                        <td className="text-right text-accent">{c.xpGained}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleCopyCombatMarkdown}
+                    className="flex-1 flex items-center justify-center gap-1 bg-muted text-muted-foreground font-display text-[10px] py-1.5 rounded hover:text-accent transition-colors"
+                  >
+                    <Copy className="w-3 h-3" /> COPY MARKDOWN
+                  </button>
+                  <button
+                    onClick={handleDownloadCombatMarkdown}
+                    className="flex-1 flex items-center justify-center gap-1 bg-muted text-muted-foreground font-display text-[10px] py-1.5 rounded hover:text-accent transition-colors"
+                  >
+                    <Download className="w-3 h-3" /> DOWNLOAD .MD
+                  </button>
+                </div>
+              </div>
+            )}
+
             {/* DM Rest Buttons - only show outside combat */}
             {isAdmin && !isCombatActive && (onPerformShortRest || onPerformLongRest) && (
               <div className="space-y-2">
@@ -0,0 +1,104 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Zap } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { REACTION_TRIGGER_LABELS, type CombatState, type ReactionPrompt } from '@/lib/gameData';
+
+interface ReactionPromptDialogProps {
+  combatState: CombatState | null;
+  crawlerId?: string;
+  isAdmin: boolean;
+  onRespond: (promptId: string, optionIndex: number | null) => void;
+}
+
+const describePrompt = (prompt: ReactionPrompt): string => {
+  switch (prompt.trigger) {
+    case 'when-hit':
+      return `${prompt.sourceName} hit ${prompt.crawlerName}`;
+    case 'ally-attacked':
+      return `${prompt.sourceName} attacked ${prompt.allyName ?? 'an ally'}`;
+    case 'enemy-leaves-reach':
+      return `${prompt.sourceName} left ${prompt.crawlerName}'s reach`;
+    default:
+      return REACTION_TRIGGER_LABELS[prompt.trigger];
+  }
+};
+
+// Timed reaction prompts: players see their own crawler's, the DM sees every pending prompt
+const ReactionPromptDialog: React.FC<ReactionPromptDialogProps> = ({ combatState, crawlerId, isAdmin, onRespond }) => {
+  const [now, setNow] = useState(Date.now());
+  const expiredRef = useRef<Set<string>>(new Set());
+
+  const prompts = (combatState?.reactionPrompts ?? []).filter(p => isAdmin || p.crawlerId === crawlerId);
+
+  useEffect(() => {
+    if (prompts.length === 0) return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [prompts.length]);
+
+  // Auto-pass once a prompt runs out. Only the DM's client does this, so a prompt is passed once
+  // rather than by every client at the same moment; players just stop seeing it.
+  useEffect(() => {
+    if (!isAdmin) return;
+    prompts.forEach(p => {
+      if (p.expiresAt <= now && !expiredRef.current.has(p.id)) {
+        expiredRef.current.add(p.id);
+        onRespond(p.id, null);
+      }
+    });
+  }, [now, prompts, isAdmin, onRespond]);
+
+  const visible = prompts.filter(p => p.expiresAt > now);
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex flex-col gap-2 w-[22rem] max-w-[calc(100vw-2rem)] pointer-events-none">
+      <AnimatePresence>
+        {visible.map(prompt => {
+          const remaining = Math.max(0, Math.ceil((prompt.expiresAt - now) / 1000));
+          return (
+            <motion.div
+              key={prompt.id}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 20 }}
+              className="pointer-events-auto bg-background/95 border-2 border-accent p-3 shadow-lg"
+            >
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <span className="flex items-center gap-1 font-display text-sm text-accent">
+                  <Zap className="w-4 h-4" /> REACTION{isAdmin && prompt.crawlerId !== crawlerId ? ` — ${prompt.crawlerName}` : ''}
+                </span>
+                <motion.span
+                  className={`text-sm font-display tabular-nums ${remaining <= 5 ? 'text-destructive' : 'text-muted-foreground'}`}
+                  animate={remaining <= 5 ? { opacity: [1, 0.4, 1] } : { opacity: 1 }}
+                  transition={remaining <= 5 ? { duration: 1, repeat: Infinity } : undefined}
+                >
+                  {remaining}s
+                </motion.span>
+              </div>
+              <p className="text-xs text-muted-foreground mb-2">{describePrompt(prompt)}</p>
+              <div className="flex flex-wrap gap-1">
+                {prompt.options.map((option, index) => (
+                  <button
+                    key={`${option.name}-${index}`}
+                    onClick={() => onRespond(prompt.id, index)}
+                    className="px-2 py-1 text-xs border border-accent text-accent hover:bg-accent/20"
+                  >
+                    {option.name}
+                  </button>
+                ))}
+                <button
+                  onClick={() => onRespond(prompt.id, null)}
+                  className="px-2 py-1 text-xs border border-border text-muted-foreground hover:bg-muted"
+                >
+                  Pass
+                </button>
+              </div>
+            </motion.div>
+          );
+        })}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default ReactionPromptDialog;
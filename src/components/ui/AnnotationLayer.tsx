@@ -0,0 +1,323 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  canEraseAnnotation,
+  findAnnotationAt,
+  simplifyStroke,
+  type AnnotationKind,
+  type AnnotationTool,
+  type AnnotationVisibility,
+  type MapAnnotation,
+} from "@/lib/annotations";
+import type { Point } from "@/lib/lineOfSight";
+
+interface AnnotationLayerProps {
+  annotations: MapAnnotation[]; // already filtered to what this viewer may see
+  tool: AnnotationTool | null; // null: annotations are shown but the layer doesn't take input
+  color: string;
+  visibility: AnnotationVisibility;
+  ownerId: string;
+  ownerName?: string;
+  isAdmin: boolean;
+  imageWidth: number;
+  imageHeight: number;
+  strokeScale?: number; // counter-scale so lines keep their on-screen width at any map scale
+  onDraft?: (annotation: MapAnnotation) => void; // stroke in progress, for live sync
+  onCommit: (annotation: MapAnnotation) => void;
+  onErase: (annotation: MapAnnotation) => void;
+}
+
+const STROKE_PX = 3;
+const FONT_PX = 16;
+const ERASER_RADIUS_PX = 8;
+const MIN_STROKE_STEP = 0.25; // map %
+
+// Arrowhead triangle at `head`, in pixel space so it isn't skewed on non-square maps
+function getArrowHead(tail: Point, head: Point, size: number): string {
+  const angle = Math.atan2(head.y - tail.y, head.x - tail.x);
+  const left = { x: head.x - size * Math.cos(angle - Math.PI / 6), y: head.y - size * Math.sin(angle - Math.PI / 6) };
+  const right = { x: head.x - size * Math.cos(angle + Math.PI / 6), y: head.y - size * Math.sin(angle + Math.PI / 6) };
+  return `${head.x},${head.y} ${left.x},${left.y} ${right.x},${right.y}`;
+}
+
+const AnnotationLayer: React.FC<AnnotationLayerProps> = ({
+  annotations,
+  tool,
+  color,
+  visibility,
+  ownerId,
+  ownerName,
+  isAdmin,
+  imageWidth,
+  imageHeight,
+  strokeScale = 1,
+  onDraft,
+  onCommit,
+  onErase,
+}) => {
+  // Pen stroke or arrow being dragged out, polygon being clicked out, or text being typed
+  const [draft, setDraft] = useState<MapAnnotation | null>(null);
+  const [hoverPoint, setHoverPoint] = useState<Point | null>(null);
+  const [textValue, setTextValue] = useState("");
+  const textInputRef = useRef<HTMLInputElement>(null);
+  const textCancelledRef = useRef(false);
+
+  useEffect(() => {
+    setDraft(null);
+    setHoverPoint(null);
+  }, [tool]);
+
+  useEffect(() => {
+    if (draft?.kind !== "text") return;
+    textCancelledRef.current = false;
+    textInputRef.current?.focus();
+  }, [draft?.id, draft?.kind]);
+
+  // Escape abandons a polygon or label in progress
+  useEffect(() => {
+    if (!draft) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setDraft(null);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [draft]);
+
+  const strokeWidth = STROKE_PX * strokeScale;
+  const toPx = (p: Point): Point => ({ x: (p.x / 100) * imageWidth, y: (p.y / 100) * imageHeight });
+  const pointsAttr = (points: Point[]) => points.map(toPx).map(p => `${p.x},${p.y}`).join(" ");
+
+  const getPoint = (e: React.MouseEvent<HTMLDivElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.max(0, Math.min(100, ((e.clientX - rect.left) / rect.width) * 100)),
+      y: Math.max(0, Math.min(100, ((e.clientY - rect.top) / rect.height) * 100)),
+    };
+  };
+
+  const createAnnotation = (kind: AnnotationKind, points: Point[]): MapAnnotation => ({
+    id: crypto.randomUUID(),
+    kind,
+    points,
+    color,
+    visibility,
+    ownerId,
+    ...(ownerName ? { ownerName } : {}),
+    createdAt: Date.now(),
+  });
+
+  const commitText = () => {
+    if (draft?.kind === "text" && textValue.trim() && !textCancelledRef.current) onCommit({ ...draft, text: textValue.trim() });
+    setDraft(null);
+    setTextValue("");
+  };
+
+  const finishPolygon = (points: Point[]) => {
+    if (draft && points.length >= 3) onCommit({ ...draft, points });
+    setDraft(null);
+  };
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    e.stopPropagation(); // no panning while drawing
+    if (e.button !== 0) return;
+    const point = getPoint(e);
+    if (tool === "pen") setDraft(createAnnotation("pen", [point]));
+    else if (tool === "arrow") setDraft(createAnnotation("arrow", [point, point]));
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    const point = getPoint(e);
+    setHoverPoint(point);
+    if (!draft) return;
+    if (draft.kind === "pen") {
+      const next = { ...draft, points: [...draft.points, point] };
+      setDraft(next);
+      onDraft?.(next);
+    } else if (draft.kind === "arrow") {
+      const next = { ...draft, points: [draft.points[0], point] };
+      setDraft(next);
+      onDraft?.(next);
+    }
+  };
+
+  const handleMouseUp = () => {
+    if (draft?.kind === "pen") {
+      if (draft.points.length > 1) onCommit({ ...draft, points: simplifyStroke(draft.points, MIN_STROKE_STEP) });
+      setDraft(null);
+    } else if (draft?.kind === "arrow") {
+      const [tail, head] = draft.points.map(toPx);
+      if (Math.hypot(head.x - tail.x, head.y - tail.y) > strokeWidth * 3) onCommit(draft);
+      else if (onDraft) onErase(draft); // a click, not an arrow; drop the synced draft
+      setDraft(null);
+    }
+  };
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    e.stopPropagation(); // keep map clicks (pings, placement) out of drawing
+    const point = getPoint(e);
+    if (tool === "eraser") {
+      const erasable = annotations.filter(a => canEraseAnnotation(a, ownerId, isAdmin));
+      const hit = findAnnotationAt(point, erasable, ERASER_RADIUS_PX * strokeScale, { width: imageWidth, height: imageHeight });
+      if (hit) onErase(hit);
+    } else if (tool === "text") {
+      if (draft?.kind === "text") commitText();
+      else setDraft(createAnnotation("text", [point]));
+    } else if (tool === "polygon") {
+      if (draft?.kind !== "polygon") {
+        setDraft(createAnnotation("polygon", [point]));
+        return;
+      }
+      // Clicking the first vertex closes the area
+      const first = toPx(draft.points[0]);
+      const here = toPx(point);
+      if (draft.points.length >= 3 && Math.hypot(here.x - first.x, here.y - first.y) <= ERASER_RADIUS_PX * strokeScale) {
+        finishPolygon(draft.points);
+      } else {
+        setDraft({ ...draft, points: [...draft.points, point] });
+      }
+    }
+  };
+
+  // The double-click's second click already added its vertex
+  const handleDoubleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    if (draft?.kind === "polygon") finishPolygon(draft.points.slice(0, -1));
+  };
+
+  const renderAnnotation = (annotation: MapAnnotation, preview?: Point | null) => {
+    const opacity = annotation.visibility === "dm" ? 0.6 : 1;
+    const title = annotation.ownerName ? <title>{annotation.ownerName}</title> : null;
+    switch (annotation.kind) {
+      case "pen":
+        return (
+          <polyline
+            key={annotation.id}
+            points={pointsAttr(annotation.points)}
+            fill="none"
+            stroke={annotation.color}
+            strokeWidth={strokeWidth}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            opacity={opacity}
+          >
+            {title}
+          </polyline>
+        );
+      case "arrow": {
+        const [tail, head] = annotation.points.map(toPx);
+        if (!tail || !head) return null;
+        return (
+          <g key={annotation.id} opacity={opacity}>
+            {title}
+            <line x1={tail.x} y1={tail.y} x2={head.x} y2={head.y} stroke={annotation.color} strokeWidth={strokeWidth} strokeLinecap="round" />
+            <polygon points={getArrowHead(tail, head, strokeWidth * 4)} fill={annotation.color} />
+          </g>
+        );
+      }
+      case "polygon": {
+        const points = preview ? [...annotation.points, preview] : annotation.points;
+        return (
+          <polygon
+            key={annotation.id}
+            points={pointsAttr(points)}
+            fill={annotation.color}
+            fillOpacity={0.25}
+            stroke={annotation.color}
+            strokeWidth={strokeWidth}
+            strokeLinejoin="round"
+            strokeDasharray={preview ? `${strokeWidth * 2} ${strokeWidth * 2}` : undefined}
+            opacity={opacity}
+          >
+            {title}
+          </polygon>
+        );
+      }
+      case "text": {
+        const anchor = toPx(annotation.points[0]);
+        return (
+          <text
+            key={annotation.id}
+            x={anchor.x}
+            y={anchor.y}
+            fill={annotation.color}
+            stroke="black"
+            strokeWidth={strokeWidth}
+            paintOrder="stroke"
+            fontSize={FONT_PX * strokeScale}
+            fontWeight="bold"
+            textAnchor="middle"
+            dominantBaseline="middle"
+            opacity={opacity}
+          >
+            {title}
+            {annotation.text}
+          </text>
+        );
+      }
+    }
+  };
+
+  const textAnchor = draft?.kind === "text" ? draft.points[0] : null;
+
+  return (
+    <>
+      <svg
+        className="absolute inset-0 w-full h-full pointer-events-none"
+        viewBox={`0 0 ${imageWidth} ${imageHeight}`}
+      >
+        {annotations.filter(a => a.id !== draft?.id).map(a => renderAnnotation(a))}
+      </svg>
+
+      {/* Input surface above tokens and fog while a drawing tool is active */}
+      {tool && (
+        <div
+          className="absolute inset-0"
+          style={{ zIndex: 30, cursor: tool === "eraser" ? "cell" : tool === "text" ? "text" : "crosshair" }}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={() => {
+            setHoverPoint(null);
+            handleMouseUp();
+          }}
+          onClick={handleClick}
+          onDoubleClick={handleDoubleClick}
+        >
+          {draft && draft.kind !== "text" && (
+            <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox={`0 0 ${imageWidth} ${imageHeight}`}>
+              {renderAnnotation(draft, draft.kind === "polygon" ? hoverPoint : null)}
+            </svg>
+          )}
+          {textAnchor && (
+            <input
+              ref={textInputRef}
+              value={textValue}
+              onChange={(e) => setTextValue(e.target.value)}
+              onKeyDown={(e) => {
+                e.stopPropagation(); // Backspace here must not delete the selected token
+                if (e.key === "Enter") commitText();
+                if (e.key === "Escape") {
+                  textCancelledRef.current = true;
+                  setDraft(null);
+                  setTextValue("");
+                }
+              }}
+              onBlur={commitText}
+              onClick={(e) => e.stopPropagation()}
+              onMouseDown={(e) => e.stopPropagation()}
+              placeholder="Label"
+              className="absolute bg-background/90 border border-border rounded px-1 py-0.5 text-xs text-center w-32"
+              style={{
+                left: `${textAnchor.x}%`,
+                top: `${textAnchor.y}%`,
+                color,
+                transform: `translate(-50%, -50%) scale(${strokeScale})`,
+              }}
+            />
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default AnnotationLayer;
@@ -0,0 +1,42 @@
+import * as React from "react";
+import { cn } from "@/lib/utils";
+import { ENCUMBRANCE_TIER_LABELS, describeEncumbrancePenalties, formatWeight, type Encumbrance, type EncumbranceTier } from "@/lib/encumbrance";
+
+interface CarryCapacityBarProps {
+  encumbrance: Encumbrance;
+  className?: string;
+}
+
+const tierClasses: Record<EncumbranceTier, string> = {
+  unencumbered: "bg-green-600",
+  encumbered: "bg-yellow-500",
+  heavy: "bg-orange-500",
+  overloaded: "bg-destructive",
+};
+
+// Carried weight against capacity, with ticks where the encumbered and heavy tiers start
+const CarryCapacityBar: React.FC<CarryCapacityBarProps> = ({ encumbrance, className }) => {
+  const { weight, capacity, tier } = encumbrance;
+  const percentage = capacity > 0 ? Math.min(100, (weight / capacity) * 100) : weight > 0 ? 100 : 0;
+
+  return (
+    <div className={cn("relative", className)} title={describeEncumbrancePenalties(tier)}>
+      <div className="h-7 border border-muted-foreground/30 bg-background overflow-hidden relative">
+        <div
+          className={cn("h-full transition-all duration-500 ease-out", tierClasses[tier])}
+          style={{ width: `${percentage}%` }}
+        />
+        {[100 / 3, 200 / 3].map(tick => (
+          <div key={tick} className="absolute inset-y-0 w-px bg-muted-foreground/50" style={{ left: `${tick}%` }} />
+        ))}
+      </div>
+      <div className="absolute inset-0 flex items-center justify-center">
+        <span className="text-sm font-bold text-foreground drop-shadow-[0_1px_1px_rgba(0,0,0,0.8)]">
+          {formatWeight(weight)} / {formatWeight(capacity)} · {ENCUMBRANCE_TIER_LABELS[tier]}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export { CarryCapacityBar };
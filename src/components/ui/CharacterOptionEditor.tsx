@@ -0,0 +1,216 @@
+import * as React from "react";
+import { BookOpen, Package, Plus, Save, X } from "lucide-react";
+import { DungeonButton } from "@/components/ui/DungeonButton";
+import { DamageAffinityEditor } from "@/components/ui/DamageAffinityEditor";
+import type { InventoryItem, Spell } from "@/lib/gameData";
+import { ABILITY_SCORES, ABILITY_SCORE_LABELS, type RaceDefinition } from "@/lib/characterOptions";
+
+interface CharacterOptionEditorProps {
+  kind: "race" | "job";
+  value: RaceDefinition; // jobs simply never set the race-only fields
+  spells: Spell[];
+  sharedInventory: InventoryItem[];
+  onSave: (value: RaceDefinition) => void;
+  onCancel: () => void;
+}
+
+const inputClass = "w-full bg-background border border-border rounded px-3 py-2 text-sm";
+
+// Form for one race or job definition; edits a local copy until saved
+const CharacterOptionEditor: React.FC<CharacterOptionEditorProps> = ({ kind, value, spells, sharedInventory, onSave, onCancel }) => {
+  const [draft, setDraft] = React.useState<RaceDefinition>(value);
+  const [spellId, setSpellId] = React.useState("");
+  const [spellLevel, setSpellLevel] = React.useState(1);
+  const [itemSearch, setItemSearch] = React.useState("");
+
+  React.useEffect(() => setDraft(value), [value]);
+
+  const update = (updates: Partial<RaceDefinition>) => setDraft(prev => ({ ...prev, ...updates }));
+  const setNumber = (key: "hpPerLevel" | "manaPerLevel" | "startingGold") => (e: React.ChangeEvent<HTMLInputElement>) =>
+    update({ [key]: Math.max(0, parseInt(e.target.value) || 0) });
+
+  const matchingItems = itemSearch.trim()
+    ? sharedInventory.filter(item => item.name.toLowerCase().includes(itemSearch.toLowerCase())).slice(0, 8)
+    : [];
+
+  const handleSave = () => {
+    if (!draft.name.trim()) return;
+    // Firestore rejects undefined fields, so race-only extras are dropped rather than cleared
+    const { darkvisionFt, damageAffinities, ...rest } = draft;
+    onSave({
+      ...rest,
+      name: draft.name.trim(),
+      ...(kind === "race" && darkvisionFt !== undefined ? { darkvisionFt } : {}),
+      ...(kind === "race" && damageAffinities ? { damageAffinities } : {}),
+    });
+  };
+
+  return (
+    <div className="bg-muted/30 border border-border p-4 space-y-4">
+      <div className="grid sm:grid-cols-2 gap-3">
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">{kind === "race" ? "Race" : "Job"} Name *</label>
+          <input type="text" value={draft.name} onChange={e => update({ name: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">Starting Gold</label>
+          <input type="number" min={0} value={draft.startingGold} onChange={setNumber("startingGold")} className={inputClass} />
+        </div>
+      </div>
+
+      <div>
+        <label className="text-xs text-muted-foreground mb-1 block">Description</label>
+        <textarea
+          value={draft.description}
+          onChange={e => update({ description: e.target.value })}
+          className={`${inputClass} min-h-[60px] resize-y`}
+        />
+      </div>
+
+      <div>
+        <label className="text-xs text-muted-foreground mb-1 block">Stat Bonuses</label>
+        <div className="grid grid-cols-5 gap-2">
+          {ABILITY_SCORES.map(key => (
+            <div key={key} className="flex flex-col items-center">
+              <span className="text-[10px] text-muted-foreground">{ABILITY_SCORE_LABELS[key]}</span>
+              <input
+                type="number"
+                value={draft.statBonuses[key] ?? 0}
+                onChange={e => {
+                  const next = { ...draft.statBonuses };
+                  const bonus = parseInt(e.target.value) || 0;
+                  if (bonus) next[key] = bonus;
+                  else delete next[key];
+                  update({ statBonuses: next });
+                }}
+                className="w-full bg-background border border-border rounded px-2 py-1 text-sm text-center"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">Extra Max HP per level</label>
+          <input type="number" min={0} value={draft.hpPerLevel} onChange={setNumber("hpPerLevel")} className={inputClass} />
+        </div>
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">Extra Max Mana per level</label>
+          <input type="number" min={0} value={draft.manaPerLevel} onChange={setNumber("manaPerLevel")} className={inputClass} />
+        </div>
+      </div>
+
+      {kind === "race" && (
+        <div className="grid sm:grid-cols-2 gap-3">
+          <div>
+            <label className="text-xs text-muted-foreground mb-1 block">Darkvision (ft, blank for normal sight)</label>
+            <input
+              type="number"
+              min={0}
+              value={draft.darkvisionFt ?? ""}
+              onChange={e => update({ darkvisionFt: e.target.value === "" ? undefined : Math.max(0, parseInt(e.target.value) || 0) })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="text-xs text-muted-foreground mb-1 block">Damage Affinities</label>
+            <DamageAffinityEditor value={draft.damageAffinities} onChange={damageAffinities => update({ damageAffinities })} />
+          </div>
+        </div>
+      )}
+
+      {/* Granted spells */}
+      <div>
+        <label className="text-xs text-muted-foreground mb-1 block">Granted Spells</label>
+        <div className="flex gap-2 mb-2">
+          <select value={spellId} onChange={e => setSpellId(e.target.value)} className="flex-1 bg-background border border-border rounded px-2 py-2 text-sm">
+            <option value="">Select a spell...</option>
+            {spells
+              .filter(s => !draft.grantedSpells.some(g => g.spellId === s.id))
+              .map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+          <input
+            type="number"
+            min={1}
+            value={spellLevel}
+            onChange={e => setSpellLevel(Math.max(1, parseInt(e.target.value) || 1))}
+            className="w-20 bg-background border border-border rounded px-2 py-2 text-sm"
+            title="Crawler level that grants the spell"
+          />
+          <DungeonButton
+            variant="admin"
+            size="sm"
+            disabled={!spellId}
+            onClick={() => {
+              update({ grantedSpells: [...draft.grantedSpells, { spellId, level: spellLevel }].sort((a, b) => a.level - b.level) });
+              setSpellId("");
+            }}
+            aria-label="Add granted spell"
+          >
+            <Plus className="w-4 h-4" />
+          </DungeonButton>
+        </div>
+        {draft.grantedSpells.map(grant => (
+          <div key={grant.spellId} className="flex items-center gap-2 bg-background border border-border rounded px-3 py-1 mb-1 text-sm">
+            <BookOpen className="w-4 h-4 text-primary flex-shrink-0" />
+            <span className="flex-1">{spells.find(s => s.id === grant.spellId)?.name ?? "Unknown spell"}</span>
+            <span className="text-xs text-muted-foreground">Level {grant.level}</span>
+            <button onClick={() => update({ grantedSpells: draft.grantedSpells.filter(g => g.spellId !== grant.spellId) })} className="p-1 hover:bg-destructive/10 rounded">
+              <X className="w-3 h-3 text-destructive" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {/* Starting kit */}
+      <div>
+        <label className="text-xs text-muted-foreground mb-1 block">Starting Items</label>
+        <input
+          type="text"
+          placeholder="Search shared inventory..."
+          value={itemSearch}
+          onChange={e => setItemSearch(e.target.value)}
+          className={`${inputClass} mb-2`}
+        />
+        {matchingItems.length > 0 && (
+          <div className="space-y-1 mb-2">
+            {matchingItems.map(item => (
+              <button
+                key={item.id}
+                onClick={() => {
+                  update({ startingItems: [...draft.startingItems, { ...item, id: crypto.randomUUID(), equipped: false }] });
+                  setItemSearch("");
+                }}
+                className="w-full text-left p-2 bg-background border border-border rounded hover:border-primary transition-colors text-sm flex justify-between items-center"
+              >
+                <span>{item.name}</span>
+                <span className="text-xs text-primary">+ Add</span>
+              </button>
+            ))}
+          </div>
+        )}
+        {draft.startingItems.map(item => (
+          <div key={item.id} className="flex items-center gap-2 bg-background border border-border rounded px-3 py-1 mb-1 text-sm">
+            <Package className="w-4 h-4 text-accent flex-shrink-0" />
+            <span className="flex-1">{item.name}</span>
+            <button onClick={() => update({ startingItems: draft.startingItems.filter(i => i.id !== item.id) })} className="p-1 hover:bg-destructive/10 rounded">
+              <X className="w-3 h-3 text-destructive" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <DungeonButton variant="default" onClick={onCancel} className="flex-1">
+          <X className="w-4 h-4 mr-2" /> Cancel
+        </DungeonButton>
+        <DungeonButton variant="admin" onClick={handleSave} disabled={!draft.name.trim()} className="flex-1">
+          <Save className="w-4 h-4 mr-2" /> Save {kind === "race" ? "Race" : "Job"}
+        </DungeonButton>
+      </div>
+    </div>
+  );
+};
+
+export { CharacterOptionEditor };
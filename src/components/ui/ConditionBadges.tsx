@@ -0,0 +1,46 @@
+import * as React from "react";
+import { cn } from "@/lib/utils";
+import type { ActiveCondition } from "@/lib/gameData";
+
+interface ConditionBadgesProps {
+  conditions?: ActiveCondition[];
+  /** Icon size in px */
+  size?: number;
+  /** When set, clicking a badge calls this (e.g. DM removing a condition) */
+  onConditionClick?: (condition: ActiveCondition) => void;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+const describeRemaining = (condition: ActiveCondition) => {
+  const parts: string[] = [];
+  if (condition.combatTurnsRemaining !== undefined) parts.push(`${condition.combatTurnsRemaining} combat turn(s)`);
+  if (condition.noncombatTurnsRemaining !== undefined) parts.push(`${condition.noncombatTurnsRemaining} turn(s)`);
+  return parts.length > 0 ? parts.join(" / ") : "until removed";
+};
+
+// Row of emoji chips for active conditions; buffs get a green ring, debuffs a red one
+const ConditionBadges: React.FC<ConditionBadgesProps> = ({ conditions, size = 14, onConditionClick, className, style }) => {
+  if (!conditions?.length) return null;
+  return (
+    <div className={cn("flex flex-wrap gap-0.5", className)} style={style}>
+      {conditions.map(condition => (
+        <span
+          key={condition.id}
+          title={`${condition.name} — ${describeRemaining(condition)}${onConditionClick ? " (click to remove)" : ""}`}
+          onClick={onConditionClick ? (e) => { e.stopPropagation(); onConditionClick(condition); } : undefined}
+          className={cn(
+            "flex items-center justify-center rounded-full bg-background/90 border leading-none",
+            condition.kind === "buff" ? "border-green-500" : "border-destructive",
+            onConditionClick && "cursor-pointer hover:opacity-70",
+          )}
+          style={{ width: size + 4, height: size + 4, fontSize: size * 0.75 }}
+        >
+          {condition.icon}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export { ConditionBadges };
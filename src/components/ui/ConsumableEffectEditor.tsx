@@ -0,0 +1,148 @@
+import * as React from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { CONDITION_PRESETS, CONSUMABLE_EFFECT_TYPES, MAP_LINK_KINDS, MAP_LINK_KIND_LABELS, type ConsumableEffect, type ConsumableEffectType, type MapLinkKind } from "@/lib/gameData";
+import { CONSUMABLE_EFFECT_LABELS, createConsumableEffect, isConsumableEffectValid } from "@/lib/consumables";
+import { ABILITY_SCORES, ABILITY_SCORE_LABELS } from "@/lib/characterOptions";
+
+interface ConsumableEffectEditorProps {
+  value?: ConsumableEffect[];
+  onChange: (value: ConsumableEffect[] | undefined) => void;
+  className?: string;
+}
+
+const inputClass = "bg-muted border border-border px-2 py-0.5 text-xs";
+
+const parseTurns = (raw: string) => (raw === "" ? undefined : Math.max(1, parseInt(raw) || 1));
+
+// Ordered list of effects; returns undefined once the last one is removed
+const ConsumableEffectEditor: React.FC<ConsumableEffectEditorProps> = ({ value = [], onChange, className }) => {
+  const [newType, setNewType] = React.useState<ConsumableEffectType>("heal");
+
+  const update = (index: number, effect: ConsumableEffect) => onChange(value.map((e, i) => (i === index ? effect : e)));
+  const remove = (index: number) => {
+    const next = value.filter((_, i) => i !== index);
+    onChange(next.length > 0 ? next : undefined);
+  };
+
+  const renderFields = (effect: ConsumableEffect, index: number) => {
+    switch (effect.type) {
+      case "heal":
+      case "mana":
+        return (
+          <input
+            type="text"
+            value={effect.dice}
+            onChange={(e) => update(index, { ...effect, dice: e.target.value })}
+            placeholder="2d4+2"
+            className={cn(inputClass, "w-24 font-mono")}
+          />
+        );
+      case "buff":
+        return (
+          <div className="space-y-1 w-full">
+            <div className="grid grid-cols-5 gap-1">
+              {ABILITY_SCORES.map(key => (
+                <div key={key} className="flex flex-col items-center">
+                  <span className="text-[10px] text-muted-foreground">{ABILITY_SCORE_LABELS[key]}</span>
+                  <input
+                    type="number"
+                    value={effect.statModifiers[key] ?? 0}
+                    onChange={(e) => {
+                      const next = { ...effect.statModifiers };
+                      const bonus = parseInt(e.target.value) || 0;
+                      if (bonus) next[key] = bonus;
+                      else delete next[key];
+                      update(index, { ...effect, statModifiers: next });
+                    }}
+                    className={cn(inputClass, "w-full text-center px-1")}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <label className="text-[10px] text-muted-foreground flex items-center gap-1">
+                Combat turns
+                <input
+                  type="number"
+                  min={1}
+                  value={effect.combatTurns ?? ""}
+                  onChange={(e) => update(index, { ...effect, combatTurns: parseTurns(e.target.value) })}
+                  className={cn(inputClass, "w-14")}
+                />
+              </label>
+              <label className="text-[10px] text-muted-foreground flex items-center gap-1">
+                Noncombat turns
+                <input
+                  type="number"
+                  min={1}
+                  value={effect.noncombatTurns ?? ""}
+                  onChange={(e) => update(index, { ...effect, noncombatTurns: parseTurns(e.target.value) })}
+                  className={cn(inputClass, "w-14")}
+                />
+              </label>
+            </div>
+          </div>
+        );
+      case "cure":
+        return (
+          <>
+            <input
+              type="text"
+              list="consumable-condition-presets"
+              value={effect.conditionName ?? ""}
+              onChange={(e) => update(index, e.target.value ? { ...effect, conditionName: e.target.value } : { type: "cure" })}
+              placeholder="All debuffs"
+              className={cn(inputClass, "flex-1")}
+            />
+            <datalist id="consumable-condition-presets">
+              {CONDITION_PRESETS.filter(p => p.kind === "debuff").map(p => <option key={p.name} value={p.name} />)}
+            </datalist>
+          </>
+        );
+      case "teleport":
+        return (
+          <select
+            value={effect.linkKind ?? ""}
+            onChange={(e) => update(index, e.target.value ? { type: "teleport", linkKind: e.target.value as MapLinkKind } : { type: "teleport" })}
+            className={cn(inputClass, "flex-1")}
+          >
+            <option value="">Any map link</option>
+            {MAP_LINK_KINDS.map(kind => <option key={kind} value={kind}>{MAP_LINK_KIND_LABELS[kind]}</option>)}
+          </select>
+        );
+    }
+  };
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      {value.map((effect, index) => (
+        <div
+          key={index}
+          className={cn("border bg-muted/30 p-2 flex flex-wrap items-center gap-2", isConsumableEffectValid(effect) ? "border-border" : "border-destructive/50")}
+        >
+          <span className="text-[10px] text-muted-foreground shrink-0">#{index + 1}</span>
+          <span className="text-xs text-green-400 shrink-0">{CONSUMABLE_EFFECT_LABELS[effect.type]}</span>
+          {renderFields(effect, index)}
+          <button type="button" onClick={() => remove(index)} className="text-destructive hover:text-destructive/70 shrink-0 ml-auto">
+            <Trash2 className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <select value={newType} onChange={(e) => setNewType(e.target.value as ConsumableEffectType)} className={inputClass}>
+          {CONSUMABLE_EFFECT_TYPES.map(type => <option key={type} value={type}>{CONSUMABLE_EFFECT_LABELS[type]}</option>)}
+        </select>
+        <button
+          type="button"
+          onClick={() => onChange([...value, createConsumableEffect(newType)])}
+          className="text-xs text-green-400 border border-green-500/40 px-2 py-1 hover:bg-green-500/10 transition-colors flex items-center gap-1"
+        >
+          <Plus className="w-3 h-3" /> Add Effect
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export { ConsumableEffectEditor };
@@ -1,5 +1,6 @@
 import React from "react";
-import { Crawler } from "@/lib/gameData";
+import { Crawler, ActiveCondition } from "@/lib/gameData";
+import { ConditionBadges } from "@/components/ui/ConditionBadges";
 import { User } from "lucide-react";
 
 interface CrawlerIconProps {
@@ -15,6 +16,8 @@ interface CrawlerIconProps {
   baseMaxHP?: number;
   /** Whether to show the health bar (default true) */
   showHealthBar?: boolean;
+  /** Active status conditions (defaults to crawler.conditions) */
+  conditions?: ActiveCondition[];
 }
 
 export const CrawlerIcon: React.FC<CrawlerIconProps> = ({
@@ -26,6 +29,7 @@ export const CrawlerIcon: React.FC<CrawlerIconProps> = ({
   effectiveMaxHP,
   baseMaxHP,
   showHealthBar = true,
+  conditions,
 }) => {
   const currentHP = effectiveHP ?? crawler.hp ?? 0;
   const maxHP = effectiveMaxHP ?? crawler.maxHP ?? 1;
@@ -93,6 +97,14 @@ export const CrawlerIcon: React.FC<CrawlerIconProps> = ({
         </div>
       )}
 
+      {/* Status condition icons */}
+      <ConditionBadges
+        conditions={conditions ?? crawler.conditions}
+        size={Math.max(10, Math.round(size / 4))}
+        className="absolute -left-2 flex-col flex-nowrap"
+        style={{ top: size / 3 }}
+      />
+
       {/* Tooltip on hover */}
       <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 bg-background border border-border rounded px-2 py-1 text-xs text-foreground opacity-0 hover:opacity-100 transition-opacity pointer-events-none whitespace-nowrap z-10">
         {crawler.name} (Lvl {crawler.level} {crawler.job})
@@ -0,0 +1,68 @@
+import * as React from "react";
+import { cn } from "@/lib/utils";
+import { DAMAGE_TYPES, DAMAGE_AFFINITIES, type DamageAffinities, type DamageAffinity, type DamageType } from "@/lib/gameData";
+
+const AFFINITY_LABELS: Record<DamageAffinity, string> = {
+  resistant: "Resist",
+  vulnerable: "Vuln",
+  immune: "Immune",
+};
+
+const AFFINITY_CLASSES: Record<DamageAffinity, string> = {
+  resistant: "text-primary bg-primary/10",
+  vulnerable: "text-destructive bg-destructive/10",
+  immune: "text-accent bg-accent/10",
+};
+
+interface DamageAffinityEditorProps {
+  value?: DamageAffinities;
+  onChange: (value: DamageAffinities | undefined) => void;
+  className?: string;
+}
+
+// One select per damage type; returns undefined when every type is cleared
+const DamageAffinityEditor: React.FC<DamageAffinityEditorProps> = ({ value, onChange, className }) => {
+  const setAffinity = (type: DamageType, affinity: DamageAffinity | "") => {
+    const next: DamageAffinities = { ...value };
+    if (affinity) next[type] = affinity;
+    else delete next[type];
+    onChange(Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  return (
+    <div className={cn("grid grid-cols-2 gap-1", className)}>
+      {DAMAGE_TYPES.map(type => (
+        <div key={type} className="flex items-center gap-1">
+          <label className="text-xs text-muted-foreground w-16 truncate">{type}</label>
+          <select
+            value={value?.[type] ?? ""}
+            onChange={(e) => setAffinity(type, e.target.value as DamageAffinity | "")}
+            className="flex-1 bg-muted border border-border px-1 py-0.5 text-xs"
+          >
+            <option value="">—</option>
+            {DAMAGE_AFFINITIES.map(a => (
+              <option key={a} value={a}>{AFFINITY_LABELS[a]}</option>
+            ))}
+          </select>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Compact read-only chips, e.g. "Fire Resist", "Poison Immune"
+const DamageAffinityBadges: React.FC<{ value?: DamageAffinities; className?: string }> = ({ value, className }) => {
+  const entries = Object.entries(value ?? {}) as [DamageType, DamageAffinity][];
+  if (entries.length === 0) return null;
+  return (
+    <div className={cn("flex flex-wrap gap-1", className)}>
+      {entries.map(([type, affinity]) => (
+        <span key={type} className={cn("px-1.5 py-0.5 rounded text-[10px]", AFFINITY_CLASSES[affinity])}>
+          {type} {AFFINITY_LABELS[affinity]}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export { DamageAffinityEditor, DamageAffinityBadges };
@@ -1,4 +1,11 @@
 import React, { useRef, useState, useCallback, useEffect, useId, useMemo, memo } from 'react';
+import { getExploredRuns, type Point } from '@/lib/lineOfSight';
+import type { LightEllipse, LightingLayer } from '@/lib/lighting';
+
+// Mask shades (white = full fog): dim light leaves a veil, remembered areas darken further once lighting is on
+const DIM_LIGHT_SHADE = 'rgb(110, 110, 110)';
+const EXPLORED_SHADE = 'rgb(90, 90, 90)';
+const EXPLORED_LIT_SHADE = 'rgb(170, 170, 170)';
 
 interface FogOfWarProps {
   isVisible: boolean;
@@ -10,6 +17,9 @@ interface FogOfWarProps {
   isViewerAdmin?: boolean; // True if the viewer is admin (for semi-transparent fog)
   isPaintMode?: boolean; // True when painting fog back (visual distinction)
   mapBaseScale?: number; // Episode base scale for counter-scaling brush size
+  visibleRegions?: Point[][]; // Line-of-sight polygons (map %) that are currently clear
+  exploredCells?: boolean[]; // Previously seen cells, shown as dim fog
+  lighting?: LightingLayer; // Darkens unlit areas inside what the viewer can otherwise see
 }
 
 const FogOfWarComponent: React.FC<FogOfWarProps> = ({
@@ -22,6 +32,9 @@ const FogOfWarComponent: React.FC<FogOfWarProps> = ({
   isViewerAdmin = false,
   isPaintMode = false,
   mapBaseScale = 100,
+  visibleRegions,
+  exploredCells,
+  lighting,
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [isDrawing, setIsDrawing] = useState(false);
@@ -131,6 +144,52 @@ const FogOfWarComponent: React.FC<FogOfWarProps> = ({
       />
     )), [revealedAreas]);
 
+  // Line-of-sight layers: explored cells thin the fog, visible polygons clear it
+  const exploredElements = useMemo(() =>
+    getExploredRuns(exploredCells).map((run, index) => (
+      <rect key={index} x={run.x} y={run.y} width={run.width} height={run.height} fill={lighting ? EXPLORED_LIT_SHADE : EXPLORED_SHADE} />
+    )), [exploredCells, lighting]);
+
+  const visibleElements = useMemo(() =>
+    (visibleRegions ?? []).map((polygon, index) => (
+      <polygon key={index} points={polygon.map(p => `${p.x},${p.y}`).join(' ')} fill="black" />
+    )), [visibleRegions]);
+
+  // Lighting: ambient base, then dim areas, then bright areas; each light is clipped to where it reaches
+  const lightingElements = useMemo(() => {
+    if (!lighting) return null;
+    const renderArea = (key: string, area: LightEllipse, fill: string) => {
+      const clipId = `${maskId}-${key}`;
+      return (
+        <g key={key}>
+          {area.region && (
+            <clipPath id={clipId}>
+              <polygon points={area.region.map(p => `${p.x},${p.y}`).join(' ')} />
+            </clipPath>
+          )}
+          <ellipse
+            cx={area.x}
+            cy={area.y}
+            rx={area.rx}
+            ry={area.ry}
+            fill={fill}
+            clipPath={area.region ? `url(#${clipId})` : undefined}
+          />
+        </g>
+      );
+    };
+    return (
+      <>
+        {lighting.ambient !== 'dark' && (
+          <rect x={0} y={0} width={100} height={100} fill={lighting.ambient === 'bright' ? 'black' : DIM_LIGHT_SHADE} />
+        )}
+        {lighting.dim.map((area, index) => renderArea(`dim-${index}`, area, DIM_LIGHT_SHADE))}
+        {lighting.darkvision.map((area, index) => renderArea(`darkvision-${index}`, area, DIM_LIGHT_SHADE))}
+        {lighting.bright.map((area, index) => renderArea(`bright-${index}`, area, 'black'))}
+      </>
+    );
+  }, [lighting, maskId]);
+
   if (!isVisible) return null;
 
   // Only capture pointer events when admin is actively erasing fog
@@ -164,6 +223,19 @@ const FogOfWarComponent: React.FC<FogOfWarProps> = ({
           <mask id={maskId}>
             {/* White = visible, Black = hidden */}
             <rect width="100%" height="100%" fill="white" />
+            {(visibleRegions || lighting) && (
+              <svg viewBox="0 0 100 100" preserveAspectRatio="none" width="100%" height="100%">
+                {exploredElements}
+                {lighting ? (
+                  <>
+                    {visibleRegions && <clipPath id={`${maskId}-sight`}>{visibleElements}</clipPath>}
+                    <g clipPath={visibleRegions ? `url(#${maskId}-sight)` : undefined}>
+                      {lightingElements}
+                    </g>
+                  </>
+                ) : visibleElements}
+              </svg>
+            )}
             <g filter={`url(#${maskId}-blur)`}>
               {circleElements}
             </g>
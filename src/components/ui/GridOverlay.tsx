@@ -1,4 +1,5 @@
 import React from "react";
+import type { GridType } from "@/lib/gameData";
 
 interface GridOverlayProps {
   isVisible: boolean;
@@ -6,16 +7,37 @@ interface GridOverlayProps {
   opacity?: number;
   width?: number;
   height?: number;
+  type?: GridType;
+  offset?: { x: number; y: number }; // px: a square's corner or a hex's center
 }
 
+// One hexagon outline around (cx, cy); flat-top hexes have corners at 0°, pointy-top at 30°
+const hexPath = (cx: number, cy: number, radius: number, pointy: boolean) =>
+  Array.from({ length: 6 }, (_, i) => {
+    const angle = ((60 * i + (pointy ? 30 : 0)) * Math.PI) / 180;
+    return `${i === 0 ? 'M' : 'L'} ${cx + radius * Math.cos(angle)} ${cy + radius * Math.sin(angle)}`;
+  }).join(' ') + ' Z';
+
 export const GridOverlay: React.FC<GridOverlayProps> = ({ 
   isVisible, 
   cellSize = 50, 
   opacity = 0.2,
   width,
-  height 
+  height,
+  type = 'square',
+  offset = { x: 0, y: 0 },
 }) => {
-  if (!isVisible) return null;
+  if (!isVisible || type === 'none' || cellSize <= 0) return null;
+
+  // Hex tiles repeat every two columns (flat) or two rows (pointy); cellSize is the flat-to-flat width
+  const radius = cellSize / Math.sqrt(3);
+  const pointy = type === 'hex-pointy';
+  const tile = type === 'square'
+    ? { width: cellSize, height: cellSize }
+    : pointy ? { width: cellSize, height: radius * 3 } : { width: radius * 3, height: cellSize };
+  const hexCenters = pointy
+    ? [[0, 0], [cellSize, 0], [0, radius * 3], [cellSize, radius * 3], [cellSize / 2, radius * 1.5]]
+    : [[0, 0], [0, cellSize], [radius * 3, 0], [radius * 3, cellSize], [radius * 1.5, cellSize / 2]];
 
   return (
     <svg
@@ -25,9 +47,17 @@ export const GridOverlay: React.FC<GridOverlayProps> = ({
       style={{ opacity, mixBlendMode: 'multiply' }}
     >
       <defs>
-        <pattern id="grid" width={cellSize} height={cellSize} patternUnits="userSpaceOnUse">
+        <pattern
+          id="grid"
+          width={tile.width}
+          height={tile.height}
+          patternUnits="userSpaceOnUse"
+          patternTransform={`translate(${offset.x} ${offset.y})`}
+        >
           <path
-            d={`M ${cellSize} 0 L 0 0 0 ${cellSize}`}
+            d={type === 'square'
+              ? `M ${cellSize} 0 L 0 0 0 ${cellSize}`
+              : hexCenters.map(([cx, cy]) => hexPath(cx, cy, radius, pointy)).join(' ')}
             fill="none"
             stroke="#4a4a4a"
             strokeWidth="1.5"
@@ -0,0 +1,64 @@
+import * as React from "react";
+import { cn } from "@/lib/utils";
+import { LIGHT_PRESETS, type LightRadius } from "@/lib/gameData";
+
+interface LightRadiusEditorProps {
+  value?: LightRadius;
+  onChange: (value: LightRadius | undefined) => void;
+  className?: string;
+}
+
+// Preset picker plus bright/dim radii in feet; returns undefined when the light is removed
+const LightRadiusEditor: React.FC<LightRadiusEditorProps> = ({ value, onChange, className }) => {
+  const presetIndex = value
+    ? LIGHT_PRESETS.findIndex(p => p.light.brightFt === value.brightFt && p.light.dimFt === value.dimFt)
+    : -1;
+
+  const setRadius = (key: keyof LightRadius, raw: string) => {
+    const ft = Math.max(0, parseInt(raw) || 0);
+    const next = { brightFt: value?.brightFt ?? 0, dimFt: value?.dimFt ?? 0, [key]: ft };
+    onChange(next.brightFt > 0 || next.dimFt > 0 ? next : undefined);
+  };
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-1 text-xs", className)}>
+      <select
+        value={value ? String(presetIndex) : ""}
+        onChange={(e) => {
+          if (e.target.value === "") onChange(undefined);
+          else if (e.target.value !== "-1") onChange({ ...LIGHT_PRESETS[parseInt(e.target.value)].light });
+        }}
+        className="bg-muted border border-border px-1 py-0.5 text-xs"
+      >
+        <option value="">No light</option>
+        {LIGHT_PRESETS.map((preset, index) => (
+          <option key={preset.name} value={index}>{preset.name}</option>
+        ))}
+        {value && presetIndex === -1 && <option value="-1">Custom</option>}
+      </select>
+      <label className="text-muted-foreground ml-1">Bright</label>
+      <input
+        type="number"
+        min={0}
+        step={5}
+        value={value?.brightFt ?? ""}
+        placeholder="0"
+        onChange={(e) => setRadius('brightFt', e.target.value)}
+        className="w-12 bg-muted border border-border px-1 py-0.5 text-xs text-center"
+      />
+      <label className="text-muted-foreground">Dim</label>
+      <input
+        type="number"
+        min={0}
+        step={5}
+        value={value?.dimFt ?? ""}
+        placeholder="0"
+        onChange={(e) => setRadius('dimFt', e.target.value)}
+        className="w-12 bg-muted border border-border px-1 py-0.5 text-xs text-center"
+      />
+      <span className="text-muted-foreground">ft</span>
+    </div>
+  );
+};
+
+export { LightRadiusEditor };
@@ -1,10 +1,24 @@
 import React, { useState, useRef, useEffect, useCallback } from "react";
-import { Mob, EpisodeMobPlacement, Crawler, CrawlerPlacement } from "@/lib/gameData";
+import { Mob, EpisodeMobPlacement, Crawler, CrawlerPlacement, MapWall, MapLight, MapLink, LIGHT_PRESETS, MAP_LINK_KINDS, MAP_LINK_KIND_LABELS, type MapLinkKind, DEFAULT_FEET_PER_CELL, GRID_TYPES, GRID_TYPE_LABELS, type GridType, type MapGrid } from "@/lib/gameData";
+import { calibrateGrid, resolveGridSpec } from "@/lib/gridMovement";
 import MobIcon from "@/components/ui/MobIcon";
 import { CrawlerIcon } from "@/components/ui/CrawlerIcon";
 import GridOverlay from "@/components/ui/GridOverlay";
 import { DungeonButton } from "@/components/ui/DungeonButton";
-import { X, Grid3x3, ZoomIn, ZoomOut, RotateCcw } from "lucide-react";
+import { MapLinkMarker } from "@/components/ui/MapLinkMarker";
+import { X, Grid3x3, ZoomIn, ZoomOut, RotateCcw, BrickWall, DoorOpen, Eraser, Flame, Crosshair, Waypoints } from "lucide-react";
+
+type WallTool = 'wall' | 'door' | 'light' | 'link' | 'erase' | 'calibrate';
+
+// A link on another map of the episode that leads here but has no arrival point yet
+export interface IncomingMapLink {
+  mapId: string;
+  mapName: string;
+  link: MapLink;
+}
+
+// Snap a new endpoint onto an existing one when it lands this close (map %)
+const WALL_SNAP_DISTANCE = 1;
 
 interface MapDesignerPopoutProps {
   isOpen: boolean;
@@ -18,6 +32,17 @@ interface MapDesignerPopoutProps {
   crawlers?: Crawler[];
   crawlerPlacements?: CrawlerPlacement[];
   onCrawlerPlacementsChange?: (placements: CrawlerPlacement[]) => void;
+  walls?: MapWall[];
+  onWallsChange?: (walls: MapWall[]) => void;
+  lights?: MapLight[];
+  onLightsChange?: (lights: MapLight[]) => void;
+  grid?: MapGrid;
+  onGridChange?: (grid: MapGrid | undefined) => void;
+  links?: MapLink[];
+  onLinksChange?: (links: MapLink[]) => void;
+  linkTargets?: { id: string; name: string }[]; // the episode's other maps
+  incomingLinks?: IncomingMapLink[];
+  onLinkArrivalPlaced?: (fromMapId: string, fromLinkId: string, arrivalLinkId: string) => void;
 }
 
 const MapDesignerPopout: React.FC<MapDesignerPopoutProps> = ({
@@ -32,6 +57,17 @@ const MapDesignerPopout: React.FC<MapDesignerPopoutProps> = ({
   crawlers,
   crawlerPlacements,
   onCrawlerPlacementsChange,
+  walls = [],
+  onWallsChange,
+  lights = [],
+  onLightsChange,
+  grid,
+  onGridChange,
+  links = [],
+  onLinksChange,
+  linkTargets = [],
+  incomingLinks = [],
+  onLinkArrivalPlaced,
 }) => {
   // Dragging state
   const [draggingMobIndex, setDraggingMobIndex] = useState<number | null>(null);
@@ -47,8 +83,23 @@ const MapDesignerPopout: React.FC<MapDesignerPopoutProps> = ({
   const [panStart, setPanStart] = useState<{ x: number; y: number; panX: number; panY: number } | null>(null);
   const [panOffset, setPanOffset] = useState({ x: 0, y: 0 });
 
+  // Wall/door drawing: each click adds a point, consecutive points chain into segments
+  const [wallTool, setWallTool] = useState<WallTool | null>(null);
+  const [wallStart, setWallStart] = useState<{ x: number; y: number } | null>(null);
+  const [wallCursor, setWallCursor] = useState<{ x: number; y: number } | null>(null);
+  const [lightPresetIndex, setLightPresetIndex] = useState(1); // Torch
+  const [linkKind, setLinkKind] = useState<MapLinkKind>('stairs');
+  const [linkTargetMapId, setLinkTargetMapId] = useState('');
+  // Incoming link (index into incomingLinks) whose arrival point the next click places; -1 = new link
+  const [linkArrivalIndex, setLinkArrivalIndex] = useState(-1);
+
+  // Grid calibration: drag across a known number of the map's printed cells
+  const [calibrationLine, setCalibrationLine] = useState<{ start: { x: number; y: number }; end: { x: number; y: number } } | null>(null);
+  const [calibrationCells, setCalibrationCells] = useState(1);
+
   // Map dimensions for proper layout
   const [mapImageDimensions, setMapImageDimensions] = useState<{ width: number; height: number } | null>(null);
+  const [naturalImageSize, setNaturalImageSize] = useState<{ width: number; height: number } | null>(null);
 
   // Refs
   const mapImageRef = useRef<HTMLImageElement>(null);
@@ -90,6 +141,18 @@ const MapDesignerPopout: React.FC<MapDesignerPopoutProps> = ({
   // This matches ShowTimeView behavior where icons zoom WITH the user's scroll
   const iconCounterScale = 100 / mapScale;
 
+  // Grid settings are stored in image pixels; the designer draws them at the displayed size
+  const displayPerImagePx = mapImageDimensions && naturalImageSize?.width ? mapImageDimensions.width / naturalImageSize.width : 1;
+  const gridSpec = resolveGridSpec(grid, displayPerImagePx, gridSize * iconCounterScale);
+  const editableGrid: MapGrid = grid ?? {
+    type: 'square',
+    cellSize: gridSpec.size / displayPerImagePx,
+    offsetX: 0,
+    offsetY: 0,
+    feetPerCell: DEFAULT_FEET_PER_CELL,
+  };
+  const updateGrid = (updates: Partial<MapGrid>) => onGridChange?.({ ...editableGrid, ...updates });
+
   // Handle zoom
   const handleZoomIn = useCallback(() => {
     setViewZoom(prev => Math.min(prev + 25, zoomMax));
@@ -99,11 +162,96 @@ const MapDesignerPopout: React.FC<MapDesignerPopoutProps> = ({
     setViewZoom(prev => Math.max(prev - 25, zoomMin));
   }, []);
 
+  const getMapPercent = useCallback((e: React.MouseEvent) => {
+    if (!mapImageRef.current) return null;
+    const rect = mapImageRef.current.getBoundingClientRect();
+    return {
+      x: Math.max(0, Math.min(100, ((e.clientX - rect.left) / rect.width) * 100)),
+      y: Math.max(0, Math.min(100, ((e.clientY - rect.top) / rect.height) * 100)),
+    };
+  }, []);
+
+  const snapToWallEndpoint = useCallback((point: { x: number; y: number }) => {
+    for (const w of walls) {
+      for (const end of [{ x: w.x1, y: w.y1 }, { x: w.x2, y: w.y2 }]) {
+        if (Math.hypot(end.x - point.x, end.y - point.y) <= WALL_SNAP_DISTANCE) return end;
+      }
+    }
+    return point;
+  }, [walls]);
+
+  const handleWallClick = useCallback((e: React.MouseEvent) => {
+    if (!wallTool || wallTool === 'erase' || wallTool === 'light' || wallTool === 'link' || wallTool === 'calibrate' || !onWallsChange) return;
+    const raw = getMapPercent(e);
+    if (!raw) return;
+    const point = snapToWallEndpoint(raw);
+    if (wallStart && (wallStart.x !== point.x || wallStart.y !== point.y)) {
+      onWallsChange([...walls, { id: crypto.randomUUID(), kind: wallTool, x1: wallStart.x, y1: wallStart.y, x2: point.x, y2: point.y }]);
+    }
+    // Doors are single segments; walls keep chaining from the last point
+    setWallStart(wallStart && wallTool === 'door' ? null : point);
+  }, [wallTool, onWallsChange, getMapPercent, snapToWallEndpoint, wallStart, walls]);
+
+  // Light tool: each click drops a light of the selected preset
+  const handleLightClick = useCallback((e: React.MouseEvent) => {
+    if (!onLightsChange) return;
+    const point = getMapPercent(e);
+    if (!point) return;
+    const preset = LIGHT_PRESETS[lightPresetIndex];
+    onLightsChange([...lights, { id: crypto.randomUUID(), name: preset.name, x: point.x, y: point.y, ...preset.light }]);
+  }, [onLightsChange, getMapPercent, lightPresetIndex, lights]);
+
+  // Link tool: each click drops a link to the chosen map, or the arrival point of an incoming one
+  const handleLinkClick = useCallback((e: React.MouseEvent) => {
+    if (!onLinksChange) return;
+    const point = getMapPercent(e);
+    if (!point) return;
+    const incoming = incomingLinks[linkArrivalIndex];
+    if (incoming) {
+      const id = crypto.randomUUID();
+      onLinksChange([...links, { id, kind: incoming.link.kind, x: point.x, y: point.y, targetMapId: incoming.mapId, targetLinkId: incoming.link.id }]);
+      onLinkArrivalPlaced?.(incoming.mapId, incoming.link.id, id);
+      setLinkArrivalIndex(-1);
+      return;
+    }
+    const targetMapId = linkTargetMapId || linkTargets[0]?.id;
+    if (!targetMapId) return;
+    onLinksChange([...links, { id: crypto.randomUUID(), kind: linkKind, x: point.x, y: point.y, targetMapId }]);
+  }, [onLinksChange, getMapPercent, incomingLinks, linkArrivalIndex, links, onLinkArrivalPlaced, linkTargetMapId, linkTargets, linkKind]);
+
+  const selectWallTool = useCallback((tool: WallTool) => {
+    setWallTool(prev => (prev === tool ? null : tool));
+    setWallStart(null);
+  }, []);
+
   // Pan start
   const handlePanStart = useCallback((e: React.MouseEvent) => {
     // Don't pan if clicking on a draggable element
     if ((e.target as HTMLElement).closest('[data-draggable]')) return;
 
+    // Right-click ends the current wall chain
+    if (wallTool && e.button === 2) {
+      setWallStart(null);
+      return;
+    }
+    if (wallTool === 'light') {
+      if (e.button === 0) handleLightClick(e);
+      return;
+    }
+    if (wallTool === 'link') {
+      if (e.button === 0) handleLinkClick(e);
+      return;
+    }
+    if (wallTool === 'calibrate') {
+      const point = getMapPercent(e);
+      if (point && e.button === 0) setCalibrationLine({ start: point, end: point });
+      return;
+    }
+    if (wallTool) {
+      handleWallClick(e);
+      return;
+    }
+
     setIsPanning(true);
     setPanStart({
       x: e.clientX,
@@ -111,7 +259,7 @@ const MapDesignerPopout: React.FC<MapDesignerPopoutProps> = ({
       panX: panOffset.x,
       panY: panOffset.y,
     });
-  }, [panOffset]);
+  }, [panOffset, wallTool, handleWallClick, handleLightClick, handleLinkClick, getMapPercent]);
 
   // Handle mouse move for dragging and panning
   const handleMouseMove = useCallback((e: React.MouseEvent) => {
@@ -134,6 +282,9 @@ const MapDesignerPopout: React.FC<MapDesignerPopoutProps> = ({
     const x = Math.max(0, Math.min(100, rawX));
     const y = Math.max(0, Math.min(100, rawY));
 
+    if (wallStart) setWallCursor({ x, y });
+    if (calibrationLine) setCalibrationLine({ ...calibrationLine, end: { x, y } });
+
     // Handle mob dragging
     if (draggingMobIndex !== null) {
       const fullIndex = getFullMobIndex(draggingMobIndex);
@@ -155,7 +306,7 @@ const MapDesignerPopout: React.FC<MapDesignerPopoutProps> = ({
       );
       onCrawlerPlacementsChange(updated);
     }
-  }, [isPanning, panStart, draggingMobIndex, draggingCrawlerIndex, placements, crawlerPlacements, getFullMobIndex, getFullCrawlerIndex, onPlacementsChange, onCrawlerPlacementsChange]);
+  }, [isPanning, panStart, wallStart, calibrationLine, draggingMobIndex, draggingCrawlerIndex, placements, crawlerPlacements, getFullMobIndex, getFullCrawlerIndex, onPlacementsChange, onCrawlerPlacementsChange]);
 
   const handleMouseUp = useCallback(() => {
     setDraggingMobIndex(null);
@@ -164,7 +315,18 @@ const MapDesignerPopout: React.FC<MapDesignerPopoutProps> = ({
       setIsPanning(false);
       setPanStart(null);
     }
-  }, [isPanning]);
+    // Finish a calibration drag: percentages back to image pixels
+    if (calibrationLine && naturalImageSize && onGridChange) {
+      const toImagePx = (p: { x: number; y: number }) => ({ x: (p.x / 100) * naturalImageSize.width, y: (p.y / 100) * naturalImageSize.height });
+      const type: GridType = editableGrid.type === 'none' ? 'square' : editableGrid.type;
+      const calibrated = calibrateGrid(type, toImagePx(calibrationLine.start), toImagePx(calibrationLine.end), calibrationCells, editableGrid.feetPerCell);
+      if (calibrated) {
+        onGridChange(calibrated);
+        setShowGrid(true);
+      }
+    }
+    setCalibrationLine(null);
+  }, [isPanning, calibrationLine, naturalImageSize, onGridChange, editableGrid.type, editableGrid.feetPerCell, calibrationCells]);
 
   // Handle scroll wheel zoom (matches ShowTimeView)
   useEffect(() => {
@@ -190,19 +352,27 @@ const MapDesignerPopout: React.FC<MapDesignerPopoutProps> = ({
 
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
-        onClose();
+        // First Escape ends a wall chain, the next one closes the designer
+        if (wallStart) {
+          setWallStart(null);
+        } else {
+          onClose();
+        }
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isOpen, onClose]);
+  }, [isOpen, onClose, wallStart]);
 
   // Reset pan/zoom on open
   useEffect(() => {
     if (isOpen) {
       setPanOffset({ x: 0, y: 0 });
       setViewZoom(100);
+      setWallTool(null);
+      setWallStart(null);
+      setCalibrationLine(null);
     }
   }, [isOpen]);
 
@@ -227,6 +397,117 @@ const MapDesignerPopout: React.FC<MapDesignerPopoutProps> = ({
             <Grid3x3 className="w-4 h-4 mr-2" />
             Grid
           </DungeonButton>
+          {onWallsChange && (
+            <>
+              <DungeonButton
+                variant={wallTool === 'wall' ? "admin" : "default"}
+                size="sm"
+                onClick={() => selectWallTool('wall')}
+                title="Draw walls (click points, right-click or Esc to finish)"
+              >
+                <BrickWall className="w-4 h-4 mr-2" />
+                Walls
+              </DungeonButton>
+              <DungeonButton
+                variant={wallTool === 'door' ? "admin" : "default"}
+                size="sm"
+                onClick={() => selectWallTool('door')}
+                title="Draw a door (two clicks)"
+              >
+                <DoorOpen className="w-4 h-4 mr-2" />
+                Door
+              </DungeonButton>
+              {onLightsChange && (
+                <>
+                  <DungeonButton
+                    variant={wallTool === 'light' ? "admin" : "default"}
+                    size="sm"
+                    onClick={() => selectWallTool('light')}
+                    title="Click to place a light source"
+                  >
+                    <Flame className="w-4 h-4 mr-2" />
+                    Light
+                  </DungeonButton>
+                  {wallTool === 'light' && (
+                    <select
+                      value={lightPresetIndex}
+                      onChange={(e) => setLightPresetIndex(parseInt(e.target.value))}
+                      className="bg-muted border border-border px-1 py-1 text-xs"
+                    >
+                      {LIGHT_PRESETS.map((preset, index) => (
+                        <option key={preset.name} value={index}>
+                          {preset.name} ({preset.light.brightFt}/{preset.light.dimFt}ft)
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </>
+              )}
+              {onLinksChange && (linkTargets.length > 0 || incomingLinks.length > 0) && (
+                <>
+                  <DungeonButton
+                    variant={wallTool === 'link' ? "admin" : "default"}
+                    size="sm"
+                    onClick={() => selectWallTool('link')}
+                    title="Click to place stairs, a door or a teleporter to another map"
+                  >
+                    <Waypoints className="w-4 h-4 mr-2" />
+                    Link
+                  </DungeonButton>
+                  {wallTool === 'link' && (
+                    <>
+                      {incomingLinks.length > 0 && (
+                        <select
+                          value={linkArrivalIndex}
+                          onChange={(e) => setLinkArrivalIndex(parseInt(e.target.value))}
+                          className="bg-muted border border-border px-1 py-1 text-xs"
+                          title="Place the arrival point of a link from another map"
+                        >
+                          <option value={-1}>New link</option>
+                          {incomingLinks.map((incoming, index) => (
+                            <option key={incoming.link.id} value={index}>
+                              Arrival: {MAP_LINK_KIND_LABELS[incoming.link.kind]} from {incoming.mapName}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                      {linkArrivalIndex === -1 && linkTargets.length > 0 && (
+                        <>
+                          <select
+                            value={linkKind}
+                            onChange={(e) => setLinkKind(e.target.value as MapLinkKind)}
+                            className="bg-muted border border-border px-1 py-1 text-xs"
+                          >
+                            {MAP_LINK_KINDS.map(kind => (
+                              <option key={kind} value={kind}>{MAP_LINK_KIND_LABELS[kind]}</option>
+                            ))}
+                          </select>
+                          <select
+                            value={linkTargetMapId || linkTargets[0]?.id}
+                            onChange={(e) => setLinkTargetMapId(e.target.value)}
+                            className="bg-muted border border-border px-1 py-1 text-xs"
+                            title="Map the link leads to"
+                          >
+                            {linkTargets.map(target => (
+                              <option key={target.id} value={target.id}>to {target.name}</option>
+                            ))}
+                          </select>
+                        </>
+                      )}
+                    </>
+                  )}
+                </>
+              )}
+              <DungeonButton
+                variant={wallTool === 'erase' ? "admin" : "default"}
+                size="sm"
+                onClick={() => selectWallTool('erase')}
+                title="Click a wall, door, light or link to remove it"
+              >
+                <Eraser className="w-4 h-4" />
+              </DungeonButton>
+            </>
+          )}
           <DungeonButton
             variant="default"
             size="sm"
@@ -265,12 +546,81 @@ const MapDesignerPopout: React.FC<MapDesignerPopoutProps> = ({
         </div>
       </div>
 
+      {/* Grid settings: type, size and offset in map image pixels, or calibrate against the printed grid */}
+      {onGridChange && (showGrid || wallTool === 'calibrate') && (
+        <div className="flex flex-wrap items-center gap-3 px-4 py-2 border-b border-border bg-muted/30 text-xs">
+          <label className="flex items-center gap-1">
+            <span className="text-muted-foreground">Grid</span>
+            <select
+              value={editableGrid.type}
+              onChange={(e) => updateGrid({ type: e.target.value as GridType })}
+              className="bg-muted border border-border px-1 py-1"
+            >
+              {GRID_TYPES.map(type => (
+                <option key={type} value={type}>{GRID_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </label>
+          {([
+            ['cellSize', 'Cell', 'px'],
+            ['offsetX', 'Offset X', 'px'],
+            ['offsetY', 'Offset Y', 'px'],
+            ['feetPerCell', 'Feet/cell', 'ft'],
+          ] as const).map(([key, label, unit]) => (
+            <label key={key} className="flex items-center gap-1">
+              <span className="text-muted-foreground">{label}</span>
+              <input
+                type="number"
+                step={key === 'feetPerCell' ? 5 : 0.5}
+                min={key === 'cellSize' || key === 'feetPerCell' ? 1 : undefined}
+                value={Math.round(editableGrid[key] * 100) / 100}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (isNaN(value)) return;
+                  updateGrid({ [key]: key === 'cellSize' || key === 'feetPerCell' ? Math.max(1, value) : value });
+                }}
+                className="w-16 bg-muted border border-border px-1 py-1 text-center"
+              />
+              <span className="text-muted-foreground">{unit}</span>
+            </label>
+          ))}
+          <DungeonButton
+            variant={wallTool === 'calibrate' ? "admin" : "default"}
+            size="sm"
+            onClick={() => selectWallTool('calibrate')}
+            title="Drag across printed grid cells to line the grid up with the map"
+          >
+            <Crosshair className="w-4 h-4 mr-2" />
+            Calibrate
+          </DungeonButton>
+          <label className="flex items-center gap-1">
+            <span className="text-muted-foreground">across</span>
+            <input
+              type="number"
+              min={1}
+              value={calibrationCells}
+              onChange={(e) => setCalibrationCells(Math.max(1, parseInt(e.target.value) || 1))}
+              className="w-12 bg-muted border border-border px-1 py-1 text-center"
+            />
+            <span className="text-muted-foreground">cells</span>
+          </label>
+          {grid ? (
+            <button onClick={() => onGridChange(undefined)} className="text-muted-foreground hover:text-foreground underline">
+              Reset to default
+            </button>
+          ) : (
+            <span className="text-muted-foreground">Default grid (sized to the token icons)</span>
+          )}
+        </div>
+      )}
+
       {/* Map container - matches ShowTimeView structure */}
       <div
         ref={containerRef}
         className="flex-1 flex items-center justify-center p-4 select-none overflow-hidden relative"
-        style={{ cursor: isPanning ? 'grabbing' : 'grab' }}
+        style={{ cursor: wallTool ? 'crosshair' : isPanning ? 'grabbing' : 'grab' }}
         onMouseDown={handlePanStart}
+        onContextMenu={(e) => { if (wallTool) e.preventDefault(); }}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
         onMouseLeave={handleMouseUp}
@@ -313,11 +663,140 @@ const MapDesignerPopout: React.FC<MapDesignerPopoutProps> = ({
                 onLoad={(e) => {
                   const img = e.currentTarget;
                   setMapImageDimensions({ width: img.clientWidth, height: img.clientHeight });
+                  setNaturalImageSize({ width: img.naturalWidth, height: img.naturalHeight });
                 }}
               />
 
               {/* Grid overlay */}
-              <GridOverlay isVisible={showGrid} cellSize={gridSize * iconCounterScale} opacity={0.3} />
+              <GridOverlay
+                isVisible={showGrid || wallTool === 'calibrate'}
+                cellSize={gridSpec.size}
+                type={gridSpec.type}
+                offset={gridSpec.offset}
+                opacity={0.3}
+              />
+
+              {/* Calibration drag */}
+              {calibrationLine && (
+                <svg
+                  viewBox="0 0 100 100"
+                  preserveAspectRatio="none"
+                  className="absolute inset-0 w-full h-full"
+                  style={{ zIndex: 7, pointerEvents: 'none' }}
+                >
+                  <line
+                    x1={calibrationLine.start.x}
+                    y1={calibrationLine.start.y}
+                    x2={calibrationLine.end.x}
+                    y2={calibrationLine.end.y}
+                    stroke="rgb(34, 211, 238)"
+                    strokeWidth={2}
+                    strokeDasharray="4 3"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                </svg>
+              )}
+
+              {/* Walls and doors */}
+              {(walls.length > 0 || wallStart) && (
+                <svg
+                  viewBox="0 0 100 100"
+                  preserveAspectRatio="none"
+                  className="absolute inset-0 w-full h-full"
+                  style={{ zIndex: 5, pointerEvents: 'none' }}
+                >
+                  {walls.map(wall => (
+                    <line
+                      key={wall.id}
+                      x1={wall.x1}
+                      y1={wall.y1}
+                      x2={wall.x2}
+                      y2={wall.y2}
+                      stroke={wall.kind === 'wall' ? 'rgb(239, 68, 68)' : 'rgb(251, 191, 36)'}
+                      strokeWidth={wall.kind === 'door' ? 5 : 3}
+                      vectorEffect="non-scaling-stroke"
+                      style={{ pointerEvents: wallTool === 'erase' ? 'stroke' : 'none', cursor: wallTool === 'erase' ? 'pointer' : undefined }}
+                      onMouseDown={(e) => {
+                        if (wallTool !== 'erase' || !onWallsChange) return;
+                        e.stopPropagation();
+                        onWallsChange(walls.filter(w => w.id !== wall.id));
+                      }}
+                    />
+                  ))}
+                  {wallStart && wallCursor && (
+                    <line
+                      x1={wallStart.x}
+                      y1={wallStart.y}
+                      x2={wallCursor.x}
+                      y2={wallCursor.y}
+                      stroke={wallTool === 'door' ? 'rgb(251, 191, 36)' : 'rgb(239, 68, 68)'}
+                      strokeWidth={2}
+                      strokeDasharray="4 3"
+                      vectorEffect="non-scaling-stroke"
+                    />
+                  )}
+                </svg>
+              )}
+
+              {/* Light sources: bright radius solid, dim radius dashed */}
+              {lights.map(light => (
+                <React.Fragment key={light.id}>
+                  {[light.dimFt, light.brightFt].map((radiusFt, ring) => (
+                    <div
+                      key={ring}
+                      className={`absolute rounded-full pointer-events-none border border-amber-300/70 ${ring === 0 ? 'border-dashed' : 'bg-amber-200/10'}`}
+                      style={{
+                        left: `${light.x}%`,
+                        top: `${light.y}%`,
+                        width: `${(radiusFt / gridSpec.feetPerCell) * gridSpec.size * 2}px`,
+                        height: `${(radiusFt / gridSpec.feetPerCell) * gridSpec.size * 2}px`,
+                        transform: 'translate(-50%, -50%)',
+                        zIndex: 4,
+                      }}
+                    />
+                  ))}
+                  <div
+                    className="absolute flex items-center justify-center w-6 h-6 rounded-full bg-amber-500/80 text-background"
+                    title={`${light.name ?? 'Light'} (${light.brightFt}/${light.dimFt}ft)`}
+                    style={{
+                      left: `${light.x}%`,
+                      top: `${light.y}%`,
+                      transform: `translate(-50%, -50%) scale(${iconCounterScale})`,
+                      cursor: wallTool === 'erase' ? 'pointer' : undefined,
+                      zIndex: 6,
+                    }}
+                    onMouseDown={(e) => {
+                      if (wallTool !== 'erase' || !onLightsChange) return;
+                      e.stopPropagation();
+                      onLightsChange(lights.filter(l => l.id !== light.id));
+                    }}
+                  >
+                    <Flame className="w-4 h-4" />
+                  </div>
+                </React.Fragment>
+              ))}
+
+              {/* Map links; dashed until an arrival point is placed on the target map */}
+              {links.map(link => (
+                <MapLinkMarker
+                  key={link.id}
+                  kind={link.kind}
+                  pending={!link.targetLinkId}
+                  title={`${MAP_LINK_KIND_LABELS[link.kind]} to ${linkTargets.find(t => t.id === link.targetMapId)?.name ?? 'another map'}${link.targetLinkId ? '' : ' (no arrival point yet)'}`}
+                  style={{
+                    left: `${link.x}%`,
+                    top: `${link.y}%`,
+                    transform: `translate(-50%, -50%) scale(${iconCounterScale})`,
+                    cursor: wallTool === 'erase' ? 'pointer' : undefined,
+                    zIndex: 6,
+                  }}
+                  onMouseDown={(e) => {
+                    if (wallTool !== 'erase' || !onLinksChange) return;
+                    e.stopPropagation();
+                    onLinksChange(links.filter(l => l.id !== link.id));
+                  }}
+                />
+              ))}
 
               {/* Mob placements */}
               {currentMapPlacements.map((placement, localIndex) => {
@@ -405,6 +884,10 @@ const MapDesignerPopout: React.FC<MapDesignerPopoutProps> = ({
         {/* Instructions overlay */}
         <div className="absolute bottom-4 left-4 bg-background/80 border border-border rounded p-3 text-xs text-muted-foreground space-y-1">
           <p><strong>Drag</strong> mobs/crawlers to position them</p>
+          {onWallsChange && <p><strong>Walls/Door</strong>: click points to draw, right-click to finish</p>}
+          {onLightsChange && <p><strong>Light</strong>: click to place a torch, lantern or candle</p>}
+          {onLinksChange && <p><strong>Link</strong>: click to place stairs, a door or a teleporter, then place its arrival point on the target map</p>}
+          {onGridChange && <p><strong>Calibrate</strong>: drag from a grid corner (hex: a flat edge) across the chosen number of printed cells</p>}
           <p><strong>Click + drag</strong> to pan</p>
           <p><strong>Scroll</strong> to zoom in/out</p>
           <p><strong>Esc</strong> to close</p>
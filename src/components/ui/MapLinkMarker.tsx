@@ -0,0 +1,34 @@
+import * as React from "react";
+import { ArrowUpDown, DoorClosed, Sparkles } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { MapLinkKind } from "@/lib/gameData";
+
+const LINK_ICONS: Record<MapLinkKind, React.ComponentType<{ className?: string }>> = {
+  stairs: ArrowUpDown,
+  door: DoorClosed,
+  teleporter: Sparkles,
+};
+
+interface MapLinkMarkerProps extends React.HTMLAttributes<HTMLDivElement> {
+  kind: MapLinkKind;
+  pending?: boolean; // no arrival point placed on the target map yet
+}
+
+// Round badge for a map link; position it with style like the other map markers
+const MapLinkMarker: React.FC<MapLinkMarkerProps> = ({ kind, pending, className, ...props }) => {
+  const Icon = LINK_ICONS[kind];
+  return (
+    <div
+      className={cn(
+        "absolute flex items-center justify-center w-7 h-7 rounded-full border-2 bg-violet-600/80 text-background shadow-[0_0_8px_rgba(139,92,246,0.7)]",
+        pending ? "border-dashed border-violet-200" : "border-violet-200",
+        className,
+      )}
+      {...props}
+    >
+      <Icon className="w-4 h-4" />
+    </div>
+  );
+};
+
+export { MapLinkMarker };
@@ -0,0 +1,48 @@
+import React from "react";
+import type { MapAsset } from "@/lib/gameData";
+import { pickTileLevel } from "@/lib/mapAssets";
+
+interface MapTileLayerProps {
+  asset: MapAsset;
+  // Map width in screen pixels at the current zoom
+  screenWidth: number;
+}
+
+// Tiles of the pyramid level that matches the zoom, laid over the preview in percent units.
+// Lazy loading leaves tiles scrolled out of view unfetched.
+const MapTileLayer: React.FC<MapTileLayerProps> = ({ asset, screenWidth }) => {
+  const level = pickTileLevel(asset, screenWidth * (window.devicePixelRatio || 1));
+  if (!level || !asset.tiles) return null;
+  const { tileSize } = asset.tiles;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none overflow-hidden border-2 border-transparent">
+      {level.urls.map((url, index) => {
+        const col = index % level.columns;
+        const row = Math.floor(index / level.columns);
+        const width = Math.min(tileSize, level.width - col * tileSize);
+        const height = Math.min(tileSize, level.height - row * tileSize);
+        return (
+          <img
+            key={url}
+            src={url}
+            alt=""
+            loading="lazy"
+            decoding="async"
+            draggable={false}
+            className="absolute block max-w-none"
+            style={{
+              left: `${(col * tileSize / level.width) * 100}%`,
+              top: `${(row * tileSize / level.height) * 100}%`,
+              // Half a pixel of overlap hides seams between neighbouring tiles
+              width: `calc(${(width / level.width) * 100}% + 0.5px)`,
+              height: `calc(${(height / level.height) * 100}% + 0.5px)`,
+            }}
+          />
+        );
+      })}
+    </div>
+  );
+};
+
+export default MapTileLayer;
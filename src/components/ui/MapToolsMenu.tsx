@@ -1,9 +1,12 @@
 import React, { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { DungeonButton } from "@/components/ui/DungeonButton";
-import { Target, Square, ChevronDown, ChevronUp, Palette, User, Skull, Grid3x3, CloudFog, Eraser, Paintbrush, Layers, X, ChevronLeft, ChevronRight, Circle, Triangle, RectangleHorizontal, Ruler } from "lucide-react";
-import { Crawler, Mob } from "@/lib/gameData";
+import { Target, Square, ChevronDown, ChevronUp, Palette, User, Skull, Grid3x3, CloudFog, Eraser, Paintbrush, Layers, X, ChevronLeft, ChevronRight, Circle, Triangle, RectangleHorizontal, Ruler, Sparkles, Users, PenLine, MoveUpRight, Type, Hexagon, EyeOff, Cast, Lock, LocateFixed, BellRing } from "lucide-react";
+import { AOE_SHAPES, Crawler, Mob, type AoeShape, type AreaOfEffect, type Spell } from "@/lib/gameData";
+import { isRotatableAoe } from "@/lib/areaOfEffect";
 import { ShapeType } from "@/components/ui/MapBox";
+import type { AnnotationTool, AnnotationVisibility } from "@/lib/annotations";
+import type { ViewportMode } from "@/lib/viewport";
 
 interface MapToolsMenuProps {
   onPing: (color: string) => void;
@@ -52,9 +55,35 @@ interface MapToolsMenuProps {
   onNextMap?: () => void;
   onSelectMap?: () => void;
   onEndEpisode?: () => void;
+  allowSplitParty?: boolean; // crawlers may take map links on their own
+  onToggleSplitParty?: () => void;
   // Ruler
   isRulerMode?: boolean;
   setIsRulerMode?: (value: boolean) => void;
+  // Spell area-of-effect template
+  isAoeMode?: boolean;
+  setIsAoeMode?: (value: boolean) => void;
+  aoeSpells?: Spell[]; // area spells the viewer can pick from
+  aoeSpellId?: string | null;
+  setAoeSpellId?: (id: string | null) => void;
+  aoeArea?: AreaOfEffect;
+  setAoeArea?: (area: AreaOfEffect) => void;
+  aoeAngle?: number;
+  setAoeAngle?: (angle: number) => void;
+  // Annotations
+  annotationTool?: AnnotationTool | null;
+  setAnnotationTool?: (tool: AnnotationTool | null) => void;
+  annotationVisibility?: AnnotationVisibility;
+  setAnnotationVisibility?: (visibility: AnnotationVisibility) => void;
+  onClearMyAnnotations?: () => void;
+  onClearAllAnnotations?: () => void;
+  // Shared viewport
+  viewportMode?: ViewportMode;
+  onViewportModeChange?: (mode: ViewportMode) => void; // DM only
+  isCenteringOnCrawler?: boolean;
+  onToggleCenterOnCrawler?: () => void; // players only
+  isAttentionMode?: boolean;
+  setIsAttentionMode?: (value: boolean) => void; // players only
   // Layout
   isNavVisible?: boolean;
 }
@@ -70,6 +99,14 @@ const PING_COLORS = [
   { name: "Pink", value: "#ec4899" },
 ];
 
+const ANNOTATION_TOOL_OPTIONS: { tool: AnnotationTool; icon: React.ElementType; label: string }[] = [
+  { tool: "pen", icon: PenLine, label: "Pen" },
+  { tool: "arrow", icon: MoveUpRight, label: "Arrow" },
+  { tool: "text", icon: Type, label: "Text" },
+  { tool: "polygon", icon: Hexagon, label: "Area" },
+  { tool: "eraser", icon: Eraser, label: "Erase" },
+];
+
 const SHAPE_OPTIONS: { type: ShapeType; icon: React.ElementType; label: string }[] = [
   { type: "rectangle", icon: RectangleHorizontal, label: "Rectangle" },
   { type: "square", icon: Square, label: "Square" },
@@ -121,8 +158,31 @@ export const MapToolsMenu: React.FC<MapToolsMenuProps> = ({
   onNextMap,
   onSelectMap,
   onEndEpisode,
+  allowSplitParty = false,
+  onToggleSplitParty,
   isRulerMode = false,
   setIsRulerMode,
+  isAoeMode = false,
+  setIsAoeMode,
+  aoeSpells = [],
+  aoeSpellId,
+  setAoeSpellId,
+  aoeArea,
+  setAoeArea,
+  aoeAngle = 0,
+  setAoeAngle,
+  annotationTool = null,
+  setAnnotationTool,
+  annotationVisibility = "everyone",
+  setAnnotationVisibility,
+  onClearMyAnnotations,
+  onClearAllAnnotations,
+  viewportMode = "off",
+  onViewportModeChange,
+  isCenteringOnCrawler = false,
+  onToggleCenterOnCrawler,
+  isAttentionMode = false,
+  setIsAttentionMode,
   isNavVisible = false,
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
@@ -134,6 +194,9 @@ export const MapToolsMenu: React.FC<MapToolsMenuProps> = ({
     setIsAddCrawlerMode?.(false);
     setIsAddMobMode?.(false);
     setIsRulerMode?.(false);
+    setIsAoeMode?.(false);
+    setAnnotationTool?.(null);
+    setIsAttentionMode?.(false);
   };
 
   const handlePingModeToggle = () => {
@@ -179,6 +242,33 @@ export const MapToolsMenu: React.FC<MapToolsMenuProps> = ({
     setIsRulerMode?.(!isRulerMode);
   };
 
+  const handleAoeModeToggle = () => {
+    if (!isAoeMode) {
+      clearAllModes();
+      // Auto-expand to show spell and shape options
+      setIsExpanded(true);
+    }
+    setIsAoeMode?.(!isAoeMode);
+  };
+
+  const handleAttentionModeToggle = () => {
+    if (!isAttentionMode) {
+      clearAllModes();
+    }
+    setIsAttentionMode?.(!isAttentionMode);
+  };
+
+  const handleDrawModeToggle = () => {
+    if (!annotationTool) {
+      clearAllModes();
+      // Auto-expand to show drawing tools
+      setIsExpanded(true);
+      setAnnotationTool?.("pen");
+    } else {
+      setAnnotationTool?.(null);
+    }
+  };
+
   return (
     <div
       className="fixed right-0 z-50 max-w-[100vw]"
@@ -214,6 +304,36 @@ export const MapToolsMenu: React.FC<MapToolsMenuProps> = ({
                   <DungeonButton variant="default" size="sm" onClick={onNextMap} title="Next map">
                     <ChevronRight className="w-4 h-4" />
                   </DungeonButton>
+                  {onToggleSplitParty && (
+                    <DungeonButton
+                      variant={allowSplitParty ? "admin" : "default"}
+                      size="sm"
+                      onClick={onToggleSplitParty}
+                      title={allowSplitParty ? "Party can split across maps" : "Party travels together"}
+                    >
+                      <Users className="w-4 h-4" />
+                    </DungeonButton>
+                  )}
+                </>
+              )}
+              {onViewportModeChange && (
+                <>
+                  <DungeonButton
+                    variant={viewportMode === "follow" ? "admin" : "default"}
+                    size="sm"
+                    onClick={() => onViewportModeChange(viewportMode === "follow" ? "off" : "follow")}
+                    title={viewportMode === "follow" ? "Stop sharing your view" : "Share your view with players"}
+                  >
+                    <Cast className="w-4 h-4" />
+                  </DungeonButton>
+                  <DungeonButton
+                    variant={viewportMode === "lock" ? "admin" : "default"}
+                    size="sm"
+                    onClick={() => onViewportModeChange(viewportMode === "lock" ? "off" : "lock")}
+                    title={viewportMode === "lock" ? "Unlock players' view" : "Lock players to your view"}
+                  >
+                    <Lock className="w-4 h-4" />
+                  </DungeonButton>
                 </>
               )}
               <DungeonButton variant="default" size="sm" onClick={onSelectMap} title="Map selection">
@@ -250,6 +370,65 @@ export const MapToolsMenu: React.FC<MapToolsMenuProps> = ({
             Ruler
           </DungeonButton>
 
+          {/* Area-of-effect template - available to all users */}
+          {setIsAoeMode && (
+            <DungeonButton
+              variant={isAoeMode ? "admin" : "default"}
+              size="sm"
+              onClick={handleAoeModeToggle}
+              title="Place a spell's area of effect"
+            >
+              <Sparkles className="w-4 h-4 mr-1" />
+              AoE
+            </DungeonButton>
+          )}
+
+          {/* Draw button - available to all users */}
+          {setAnnotationTool && (
+            <DungeonButton
+              variant={annotationTool ? "admin" : "default"}
+              size="sm"
+              onClick={handleDrawModeToggle}
+              title="Draw on the map"
+            >
+              <PenLine className="w-4 h-4 mr-1" />
+              Draw
+            </DungeonButton>
+          )}
+
+          {/* Keep own crawler centered - players only */}
+          {onToggleCenterOnCrawler && (
+            <DungeonButton
+              variant={isCenteringOnCrawler ? "admin" : "default"}
+              size="sm"
+              onClick={onToggleCenterOnCrawler}
+              disabled={viewportMode === "lock"}
+              title={viewportMode === "lock" ? "The DM has locked the view" : "Keep your crawler centered"}
+            >
+              <LocateFixed className="w-4 h-4" />
+            </DungeonButton>
+          )}
+
+          {/* Call the DM's attention to a spot - players only */}
+          {setIsAttentionMode && (
+            <DungeonButton
+              variant={isAttentionMode ? "admin" : "default"}
+              size="sm"
+              onClick={handleAttentionModeToggle}
+              title="Click the map to call the DM's attention there"
+            >
+              <BellRing className="w-4 h-4 mr-1" />
+              Call DM
+            </DungeonButton>
+          )}
+
+          {/* Players see when the DM has locked the view */}
+          {!isAdmin && viewportMode === "lock" && (
+            <span className="flex items-center gap-1 text-xs text-muted-foreground" title="The DM has locked the view">
+              <Lock className="w-3 h-3" /> View locked
+            </span>
+          )}
+
           {/* Shape button with dropdown - available to all users */}
           <div className="relative">
             <div className="flex">
@@ -488,6 +667,118 @@ export const MapToolsMenu: React.FC<MapToolsMenuProps> = ({
                   </div>
                 )}
 
+                {/* Area-of-effect template options */}
+                {isAoeMode && aoeArea && setAoeArea && (
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Sparkles className="w-4 h-4 text-muted-foreground" />
+                      <span className="text-xs text-muted-foreground">Area of Effect</span>
+                    </div>
+                    <select
+                      value={aoeSpellId ?? ""}
+                      onChange={(e) => {
+                        const spell = aoeSpells.find(sp => sp.id === e.target.value);
+                        setAoeSpellId?.(spell?.id ?? null);
+                        if (spell?.spellData.areaOfEffect) setAoeArea({ ...spell.spellData.areaOfEffect });
+                      }}
+                      className="w-full bg-muted border border-border px-2 py-1 text-xs"
+                    >
+                      <option value="">Custom template</option>
+                      {aoeSpells.map(spell => (
+                        <option key={spell.id} value={spell.id}>
+                          {spell.name} ({spell.spellData.areaOfEffect?.size}ft {spell.spellData.areaOfEffect?.shape})
+                        </option>
+                      ))}
+                    </select>
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={aoeArea.shape}
+                        onChange={(e) => setAoeArea({ ...aoeArea, shape: e.target.value as AoeShape })}
+                        className="flex-1 bg-muted border border-border px-2 py-1 text-xs capitalize"
+                      >
+                        {AOE_SHAPES.map(shape => <option key={shape} value={shape}>{shape}</option>)}
+                      </select>
+                      <input
+                        type="number"
+                        min={5}
+                        step={5}
+                        value={aoeArea.size}
+                        onChange={(e) => setAoeArea({ ...aoeArea, size: Math.max(5, parseInt(e.target.value) || 5) })}
+                        className="w-16 bg-muted border border-border px-2 py-1 text-xs"
+                      />
+                      <span className="text-xs text-muted-foreground">ft</span>
+                    </div>
+                    {isRotatableAoe(aoeArea.shape) && setAoeAngle && (
+                      <div>
+                        <div className="flex items-center justify-between mb-1">
+                          <span className="text-xs text-muted-foreground">Direction</span>
+                          <span className="text-xs text-muted-foreground">{Math.round(aoeAngle)}°</span>
+                        </div>
+                        <input
+                          type="range"
+                          min="0"
+                          max="359"
+                          step="1"
+                          value={Math.round(((aoeAngle % 360) + 360) % 360)}
+                          onChange={(e) => setAoeAngle(Number(e.target.value))}
+                          className="w-full h-2 bg-border rounded-lg appearance-none cursor-pointer"
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Annotation tools */}
+                {annotationTool && setAnnotationTool && (
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <PenLine className="w-4 h-4 text-muted-foreground" />
+                      <span className="text-xs text-muted-foreground">Draw</span>
+                    </div>
+                    <div className="grid grid-cols-5 gap-1">
+                      {ANNOTATION_TOOL_OPTIONS.map(option => (
+                        <button
+                          key={option.tool}
+                          className={`p-1 text-[10px] rounded border transition-all flex flex-col items-center gap-0.5 ${
+                            annotationTool === option.tool
+                              ? "border-primary bg-primary/20 text-primary"
+                              : "border-border hover:border-primary/50"
+                          }`}
+                          onClick={() => setAnnotationTool(option.tool)}
+                          title={option.label}
+                        >
+                          <option.icon className="w-4 h-4" />
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                    {isAdmin && setAnnotationVisibility && (
+                      <button
+                        className={`w-full flex items-center justify-center gap-1 p-1 text-xs rounded border transition-all ${
+                          annotationVisibility === "dm" ? "border-primary bg-primary/20 text-primary" : "border-border hover:border-primary/50"
+                        }`}
+                        onClick={() => setAnnotationVisibility(annotationVisibility === "dm" ? "everyone" : "dm")}
+                        title="Who sees new drawings"
+                      >
+                        {annotationVisibility === "dm" ? <EyeOff className="w-3 h-3" /> : <Users className="w-3 h-3" />}
+                        {annotationVisibility === "dm" ? "DM only" : "Everyone"}
+                      </button>
+                    )}
+                    <div className="flex gap-1">
+                      {onClearMyAnnotations && (
+                        <DungeonButton variant="default" size="sm" className="flex-1" onClick={onClearMyAnnotations}>
+                          Clear mine
+                        </DungeonButton>
+                      )}
+                      {isAdmin && onClearAllAnnotations && (
+                        <DungeonButton variant="danger" size="sm" className="flex-1" onClick={onClearAllAnnotations}>
+                          Clear all
+                        </DungeonButton>
+                      )}
+                    </div>
+                  </div>
+                )}
+
                 {/* Crawler selector (only when in add crawler mode) */}
                 {isAdmin && isAddCrawlerMode && crawlers.length > 0 && (
                   <div>
@@ -568,7 +859,19 @@ export const MapToolsMenu: React.FC<MapToolsMenuProps> = ({
                   {isAddMobMode && !selectedMobId && (
                     <p>Select a mob from the list above, then click on the map to place it.</p>
                   )}
-                  {!isPingMode && !isBoxMode && !isAddCrawlerMode && !isAddMobMode && (
+                  {isAoeMode && (
+                    <p>
+                      Click the map to place the template
+                      {aoeArea && isRotatableAoe(aoeArea.shape) ? ', then move the mouse to aim and click again to lock it' : ''}.
+                    </p>
+                  )}
+                  {isAttentionMode && <p>Click the map to show the DM where to look.</p>}
+                  {annotationTool === "pen" && <p>Drag on the map to draw.</p>}
+                  {annotationTool === "arrow" && <p>Drag from the tail to the tip of the arrow.</p>}
+                  {annotationTool === "text" && <p>Click the map, type a label and press Enter.</p>}
+                  {annotationTool === "polygon" && <p>Click each corner; click the first corner or double-click to close the area.</p>}
+                  {annotationTool === "eraser" && <p>Click a drawing to erase it{isAdmin ? "" : " (only your own)"}.</p>}
+                  {!isPingMode && !isBoxMode && !isAddCrawlerMode && !isAddMobMode && !isAoeMode && !annotationTool && !isAttentionMode && (
                     <p>Select a tool mode, then click on the map.</p>
                   )}
                 </div>
@@ -1,5 +1,6 @@
 import React from "react";
-import { Mob } from "@/lib/gameData";
+import { Mob, ActiveCondition } from "@/lib/gameData";
+import { ConditionBadges } from "@/components/ui/ConditionBadges";
 
 interface MobIconProps {
   mob: Mob;
@@ -12,9 +13,11 @@ interface MobIconProps {
   combatHP?: number;
   /** Max HP for this mob (from mob.hitPoints or original value) */
   maxHP?: number;
+  /** Active status conditions for this combatant instance */
+  conditions?: ActiveCondition[];
 }
 
-export const MobIcon: React.FC<MobIconProps> = ({ mob, size = 40, isDragging = false, onClick, inCombat = false, combatHP, maxHP }) => {
+export const MobIcon: React.FC<MobIconProps> = ({ mob, size = 40, isDragging = false, onClick, inCombat = false, combatHP, maxHP, conditions }) => {
   const displayMaxHP = maxHP ?? mob.hitPoints ?? 0;
   const displayCurrentHP = inCombat ? (combatHP ?? mob.hitPoints ?? 0) : displayMaxHP;
   const hpPercentage = displayMaxHP > 0 ? Math.min(100, Math.max(0, (displayCurrentHP / displayMaxHP) * 100)) : 0;
@@ -69,6 +72,14 @@ export const MobIcon: React.FC<MobIconProps> = ({ mob, size = 40, isDragging = f
         </div>
       )}
 
+      {/* Status condition icons */}
+      <ConditionBadges
+        conditions={conditions}
+        size={Math.max(10, Math.round(size / 4))}
+        className="absolute -left-2 flex-col flex-nowrap"
+        style={{ top: size / 3 }}
+      />
+
       {/* Tooltip on hover */}
       <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 bg-background border border-border rounded px-2 py-1 text-xs text-foreground opacity-0 hover:opacity-100 transition-opacity pointer-events-none whitespace-nowrap z-10">
         {mob.name}
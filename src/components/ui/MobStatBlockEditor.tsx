@@ -0,0 +1,211 @@
+import * as React from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  DAMAGE_TYPES,
+  DEFAULT_MOB_SPEED,
+  DEFAULT_MOB_STAT,
+  MOB_BEHAVIORS,
+  MOB_BEHAVIOR_LABELS,
+  MOB_STATS,
+  createMobAction,
+  getStatModifier,
+  type DamageType,
+  type Mob,
+  type MobAction,
+  type MobBehavior,
+  type MobStat,
+} from "@/lib/gameData";
+
+const DIE_SIDES = [4, 6, 8, 10, 12, 20];
+
+const formatBonus = (n: number) => (n >= 0 ? `+${n}` : `${n}`);
+
+interface MobStatBlockEditorProps {
+  value: Partial<Mob>;
+  onChange: (updates: Partial<Mob>) => void;
+  className?: string;
+}
+
+// Five stats, speed, auto-pilot profile and the list of attack actions for a mob
+const MobStatBlockEditor: React.FC<MobStatBlockEditorProps> = ({ value, onChange, className }) => {
+  const actions = value.actions ?? [];
+
+  const updateAction = (id: string, updates: Partial<MobAction>) => {
+    onChange({ actions: actions.map(a => (a.id === id ? { ...a, ...updates } : a)) });
+  };
+
+  const removeAction = (id: string) => {
+    const next = actions.filter(a => a.id !== id);
+    onChange({ actions: next.length > 0 ? next : undefined });
+  };
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="grid grid-cols-6 gap-1">
+        {MOB_STATS.map(stat => (
+          <div key={stat}>
+            <label className="text-[10px] text-muted-foreground uppercase block">
+              {stat} ({formatBonus(getStatModifier(value[stat] ?? DEFAULT_MOB_STAT))})
+            </label>
+            <input
+              type="number"
+              placeholder={String(DEFAULT_MOB_STAT)}
+              value={value[stat] ?? ""}
+              onChange={(e) => onChange({ [stat]: e.target.value === "" ? undefined : parseInt(e.target.value) || 0 })}
+              className="w-full bg-muted border border-border px-1 py-0.5 text-xs"
+            />
+          </div>
+        ))}
+        <div>
+          <label className="text-[10px] text-muted-foreground block">Speed (ft)</label>
+          <input
+            type="number"
+            min={0}
+            step={5}
+            placeholder={String(DEFAULT_MOB_SPEED)}
+            value={value.speed ?? ""}
+            onChange={(e) => onChange({ speed: e.target.value === "" ? undefined : Math.max(0, parseInt(e.target.value) || 0) })}
+            className="w-full bg-muted border border-border px-1 py-0.5 text-xs"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="text-xs text-muted-foreground block">Auto-pilot</label>
+        <select
+          value={value.behavior ?? ""}
+          onChange={(e) => onChange({ behavior: (e.target.value || undefined) as MobBehavior | undefined })}
+          className="w-full bg-muted border border-border px-1 py-0.5 text-xs"
+        >
+          <option value="">Off — DM controls this mob</option>
+          {MOB_BEHAVIORS.map(b => <option key={b} value={b}>{MOB_BEHAVIOR_LABELS[b]}</option>)}
+        </select>
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-xs text-muted-foreground block">Actions</label>
+        {actions.map(action => (
+          <div key={action.id} className="border border-border bg-muted/30 p-2 space-y-1">
+            <div className="flex items-center gap-1">
+              <input
+                type="text"
+                value={action.name}
+                onChange={(e) => updateAction(action.id, { name: e.target.value })}
+                placeholder="Action name"
+                className="flex-1 bg-muted border border-border px-1 py-0.5 text-xs"
+              />
+              <select
+                value={action.damageType}
+                onChange={(e) => updateAction(action.id, { damageType: e.target.value as DamageType })}
+                className="bg-muted border border-border px-1 py-0.5 text-xs"
+              >
+                {DAMAGE_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+              </select>
+              <button onClick={() => removeAction(action.id)} className="text-destructive hover:opacity-70" title="Remove action">
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+            <div className="flex flex-wrap items-center gap-1 text-[10px] text-muted-foreground">
+              <span>Hit</span>
+              <select
+                value={action.hitStat ?? "str"}
+                onChange={(e) => updateAction(action.id, { hitStat: e.target.value as MobStat })}
+                className="bg-muted border border-border px-1 py-0.5 text-xs uppercase"
+              >
+                {MOB_STATS.map(s => <option key={s} value={s}>{s}</option>)}
+              </select>
+              <span>+</span>
+              <input
+                type="number"
+                value={action.hitBonus ?? ""}
+                placeholder="0"
+                onChange={(e) => updateAction(action.id, { hitBonus: parseInt(e.target.value) || undefined })}
+                className="w-10 bg-muted border border-border px-1 py-0.5 text-xs"
+              />
+              <span className="ml-2">Dmg</span>
+              {action.damageDice.map((die, i) => (
+                <span key={i} className="flex items-center gap-0.5">
+                  <input
+                    type="number"
+                    min={1}
+                    max={20}
+                    value={die.count}
+                    onChange={(e) => {
+                      const damageDice = [...action.damageDice];
+                      damageDice[i] = { ...die, count: parseInt(e.target.value) || 1 };
+                      updateAction(action.id, { damageDice });
+                    }}
+                    className="w-9 bg-muted border border-border px-1 py-0.5 text-xs text-center"
+                  />
+                  d
+                  <select
+                    value={die.sides}
+                    onChange={(e) => {
+                      const damageDice = [...action.damageDice];
+                      damageDice[i] = { ...die, sides: parseInt(e.target.value) };
+                      updateAction(action.id, { damageDice });
+                    }}
+                    className="bg-muted border border-border px-1 py-0.5 text-xs"
+                  >
+                    {DIE_SIDES.map(s => <option key={s} value={s}>{s}</option>)}
+                  </select>
+                  {action.damageDice.length > 1 && (
+                    <button
+                      onClick={() => updateAction(action.id, { damageDice: action.damageDice.filter((_, j) => j !== i) })}
+                      className="text-destructive hover:opacity-70"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  )}
+                </span>
+              ))}
+              <button
+                onClick={() => updateAction(action.id, { damageDice: [...action.damageDice, { count: 1, sides: 6 }] })}
+                className="text-primary hover:underline"
+                title="Add damage die"
+              >
+                <Plus className="w-3 h-3" />
+              </button>
+              <span>+</span>
+              <select
+                value={action.damageStat ?? ""}
+                onChange={(e) => updateAction(action.id, { damageStat: (e.target.value || undefined) as MobStat | undefined })}
+                className="bg-muted border border-border px-1 py-0.5 text-xs uppercase"
+              >
+                <option value="">—</option>
+                {MOB_STATS.map(s => <option key={s} value={s}>{s}</option>)}
+              </select>
+              <span>+</span>
+              <input
+                type="number"
+                value={action.damageBonus ?? ""}
+                placeholder="0"
+                onChange={(e) => updateAction(action.id, { damageBonus: parseInt(e.target.value) || undefined })}
+                className="w-10 bg-muted border border-border px-1 py-0.5 text-xs"
+              />
+              <span className="ml-2">Reach</span>
+              <input
+                type="number"
+                min={0}
+                step={5}
+                value={action.reachFt ?? ""}
+                placeholder="5"
+                onChange={(e) => updateAction(action.id, { reachFt: parseInt(e.target.value) || undefined })}
+                className="w-12 bg-muted border border-border px-1 py-0.5 text-xs"
+              />
+            </div>
+          </div>
+        ))}
+        <button
+          onClick={() => onChange({ actions: [...actions, createMobAction()] })}
+          className="text-xs text-primary hover:underline flex items-center gap-1"
+        >
+          <Plus className="w-3 h-3" /> Add action
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export { MobStatBlockEditor };
@@ -0,0 +1,79 @@
+import React from "react";
+
+interface MovementPathOverlayProps {
+  path: { x: number; y: number }[]; // square centers in map %, starting square first
+  label: string;
+  overBudget?: boolean; // the move doesn't fit in the remaining speed
+}
+
+// Path of a token being dragged, drawn square by square with its distance at the end
+const MovementPathOverlay: React.FC<MovementPathOverlayProps> = ({ path, label, overBudget = false }) => {
+  if (path.length < 2) return null;
+  const color = overBudget ? "rgb(239, 68, 68)" : "rgb(74, 222, 128)";
+  const end = path[path.length - 1];
+  const segments = path.slice(1).map((point, i) => ({ from: path[i], to: point }));
+  const labelWidth = Math.max(60, label.length * 8 + 16);
+
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      style={{ zIndex: 60 }}
+    >
+      {/* Shadow for contrast */}
+      {segments.map((s, i) => (
+        <line
+          key={`shadow-${i}`}
+          x1={`${s.from.x}%`}
+          y1={`${s.from.y}%`}
+          x2={`${s.to.x}%`}
+          y2={`${s.to.y}%`}
+          stroke="black"
+          strokeWidth="5"
+          strokeOpacity="0.5"
+          strokeLinecap="round"
+        />
+      ))}
+      {segments.map((s, i) => (
+        <line
+          key={`step-${i}`}
+          x1={`${s.from.x}%`}
+          y1={`${s.from.y}%`}
+          x2={`${s.to.x}%`}
+          y2={`${s.to.y}%`}
+          stroke={color}
+          strokeWidth="3"
+          strokeLinecap="round"
+        />
+      ))}
+      {/* Square markers along the path */}
+      {path.map((p, i) => (
+        <circle key={`square-${i}`} cx={`${p.x}%`} cy={`${p.y}%`} r={i === 0 ? 5 : 3} fill={color} stroke="black" strokeWidth="1" />
+      ))}
+      <rect
+        x={`${end.x}%`}
+        y={`${end.y}%`}
+        width={labelWidth}
+        height="24"
+        rx="4"
+        fill="rgba(0,0,0,0.8)"
+        stroke={color}
+        strokeWidth="1"
+        transform={`translate(${-labelWidth / 2}, -64)`}
+      />
+      <text
+        x={`${end.x}%`}
+        y={`${end.y}%`}
+        textAnchor="middle"
+        fill="white"
+        fontSize="13"
+        fontWeight="bold"
+        fontFamily="monospace"
+        dy="-47"
+      >
+        {label}
+      </text>
+    </svg>
+  );
+};
+
+export default MovementPathOverlay;
@@ -0,0 +1,89 @@
+import * as React from "react";
+import { TrendingUp, RotateCcw, Save } from "lucide-react";
+import { DungeonButton } from "@/components/ui/DungeonButton";
+import { DEFAULT_PROGRESSION, getMaxLevel, normalizeThresholds, type ProgressionSettings } from "@/lib/progression";
+
+interface ProgressionSettingsEditorProps {
+  settings: ProgressionSettings;
+  onSave: (updates: Partial<ProgressionSettings>) => Promise<void>;
+}
+
+const NUMBER_FIELDS: { key: 'xpPerMobLevel' | 'hpPerLevel' | 'manaPerLevel' | 'statPointsPerLevel'; label: string }[] = [
+  { key: 'xpPerMobLevel', label: 'XP per mob level' },
+  { key: 'hpPerLevel', label: 'Max HP per level' },
+  { key: 'manaPerLevel', label: 'Max mana per level' },
+  { key: 'statPointsPerLevel', label: 'Stat points per level' },
+];
+
+// Thresholds are edited as one comma-separated list of total XP for level 2, 3, ...
+const ProgressionSettingsEditor: React.FC<ProgressionSettingsEditorProps> = ({ settings, onSave }) => {
+  const [draft, setDraft] = React.useState(settings);
+  const [thresholdText, setThresholdText] = React.useState(settings.levelThresholds.join(", "));
+
+  React.useEffect(() => {
+    setDraft(settings);
+    setThresholdText(settings.levelThresholds.join(", "));
+  }, [settings]);
+
+  const parsedThresholds = normalizeThresholds(thresholdText.split(/[\s,]+/).filter(Boolean).map(Number));
+
+  const handleSave = async () => {
+    await onSave({
+      levelThresholds: parsedThresholds,
+      xpPerMobLevel: Math.max(0, draft.xpPerMobLevel),
+      hpPerLevel: Math.max(0, draft.hpPerLevel),
+      manaPerLevel: Math.max(0, draft.manaPerLevel),
+      statPointsPerLevel: Math.max(0, draft.statPointsPerLevel),
+    });
+  };
+
+  const handleReset = () => {
+    setDraft(DEFAULT_PROGRESSION);
+    setThresholdText(DEFAULT_PROGRESSION.levelThresholds.join(", "));
+  };
+
+  return (
+    <div className="bg-muted/30 border border-border p-4">
+      <h3 className="font-display text-accent text-lg mb-4 flex items-center gap-2">
+        <TrendingUp className="w-5 h-5" />
+        Experience & Leveling
+      </h3>
+      <div className="space-y-4">
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">
+            Level thresholds (total XP for level 2, 3, ...) — max level {getMaxLevel({ ...draft, levelThresholds: parsedThresholds })}
+          </label>
+          <textarea
+            value={thresholdText}
+            onChange={e => setThresholdText(e.target.value)}
+            className="w-full bg-background border border-border rounded px-3 py-2 text-sm font-mono min-h-[60px] resize-y"
+          />
+        </div>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {NUMBER_FIELDS.map(({ key, label }) => (
+            <div key={key}>
+              <label className="text-xs text-muted-foreground mb-1 block">{label}</label>
+              <input
+                type="number"
+                min={0}
+                value={draft[key]}
+                onChange={e => setDraft({ ...draft, [key]: parseInt(e.target.value) || 0 })}
+                className="w-full bg-background border border-border rounded px-3 py-2 text-sm"
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <DungeonButton variant="default" size="sm" onClick={handleReset}>
+            <RotateCcw className="w-4 h-4 mr-2" /> Defaults
+          </DungeonButton>
+          <DungeonButton variant="admin" size="sm" className="flex-1" onClick={handleSave}>
+            <Save className="w-4 h-4 mr-2" /> Save Progression
+          </DungeonButton>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export { ProgressionSettingsEditor };
@@ -5,7 +5,8 @@ interface RulerOverlayProps {
   end: { x: number; y: number };
   imageWidth: number;
   imageHeight: number;
-  gridSize?: number;
+  gridSize?: number; // px per grid cell
+  feetPerCell?: number;
 }
 
 const RulerOverlay: React.FC<RulerOverlayProps> = ({
@@ -14,11 +15,12 @@ const RulerOverlay: React.FC<RulerOverlayProps> = ({
   imageWidth,
   imageHeight,
   gridSize = 64,
+  feetPerCell = 5,
 }) => {
   const dx = ((end.x - start.x) / 100) * imageWidth;
   const dy = ((end.y - start.y) / 100) * imageHeight;
   const pixelDist = Math.sqrt(dx * dx + dy * dy);
-  const feet = Math.round((pixelDist / gridSize) * 5);
+  const feet = Math.round((pixelDist / gridSize) * feetPerCell);
 
   const midX = (start.x + end.x) / 2;
   const midY = (start.y + end.y) / 2;
@@ -12,9 +12,40 @@ import {
   getDocs,
   getDoc,
   writeBatch,
+  storage,
 } from '@/lib/firebase';
 import { toast } from 'sonner';
-import type { Campaign, UserProfile } from '@/lib/gameData';
+import type { Campaign, MapAsset, UserProfile } from '@/lib/gameData';
+import { copyMapAssetFiles, copyStorageFile, ownsStoragePath } from '@/lib/mapAssets';
+import { ref as storageRef, deleteObject } from 'firebase/storage';
+
+// Storage files belong to one campaign, so a copy gets its own: map assets are copied into the new
+// campaign's folder and maps are pointed at the copies
+async function copyRoomFiles(
+  collName: string,
+  docId: string,
+  data: Record<string, unknown>,
+  newRoomId: string,
+  copiedImageUrls: Map<string, string>,
+): Promise<Record<string, unknown>> {
+  if (!storage) return data;
+  if (collName === 'mapAssets') {
+    const asset = data as unknown as MapAsset;
+    const copy = await copyMapAssetFiles(asset, newRoomId);
+    if (asset.originalUrl && copy.originalUrl) copiedImageUrls.set(asset.originalUrl, copy.originalUrl);
+    return copy as unknown as Record<string, unknown>;
+  }
+  if (collName === 'maps') {
+    // Maps uploaded before the asset pipeline own a single file
+    if (typeof data.storagePath === 'string') {
+      const storagePath = `rooms/${newRoomId}/maps/${docId}`;
+      return { ...data, image: await copyStorageFile(data.storagePath, storagePath), storagePath };
+    }
+    const image = copiedImageUrls.get(data.image as string);
+    return image ? { ...data, image } : data;
+  }
+  return data;
+}
 
 function generateInviteCode(): string {
   const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghjkmnpqrstuvwxyz23456789';
@@ -122,18 +153,31 @@ export function useCampaigns(userId: string | null) {
         'crawlers', 'mobs', 'maps', 'inventory', 'episodes', 'soundEffects',
         'diceRolls', 'lootBoxes', 'lootBoxTemplates', 'noncombatTurns',
         'gameClock', 'combatState', 'wiki', 'quests', 'assignedQuests',
+        'progression', 'races', 'jobs', 'mapAssets', 'rngState', 'rngStreams', 'combatLogs',
       ];
 
+      const storagePaths: string[] = [];
+
       for (const collName of roomCollections) {
         const colRef = collection(db, `rooms/${campaignId}/${collName}`);
         const snapshot = await getDocs(colRef);
-        if (snapshot.size > 0) {
+        // Firestore caps a batch at 500 writes; combat logs alone can run past that
+        for (let i = 0; i < snapshot.docs.length; i += 500) {
           const batch = writeBatch(db);
-          snapshot.docs.forEach(d => batch.delete(d.ref));
+          snapshot.docs.slice(i, i + 500).forEach(d => {
+            if (collName === 'mapAssets') storagePaths.push(...((d.data() as MapAsset).storagePaths ?? []));
+            batch.delete(d.ref);
+          });
           await batch.commit();
         }
       }
 
+      // Map files go once nothing points at them any more
+      if (storage) {
+        await Promise.all(storagePaths.filter(path => ownsStoragePath(campaignId, path)).map(path =>
+          deleteObject(storageRef(storage!, path)).catch(err => console.warn('[Campaigns] ⚠️ Failed to delete map file:', path, err))));
+      }
+
       // Delete the campaign document itself
       await deleteDoc(doc(db, 'campaigns', campaignId));
       toast.success('Campaign deleted');
@@ -176,17 +220,19 @@ export function useCampaigns(userId: string | null) {
       await setDoc(doc(db, 'campaigns', newId), newCampaign);
 
       // Copy room-scoped collections (except transient state)
-      const collectionsToCopy = ['mobs', 'maps', 'episodes', 'lootBoxTemplates', 'wiki', 'quests'];
+      // Map assets go before maps so copied maps can point at the new campaign's files
+      const collectionsToCopy = ['mobs', 'mapAssets', 'maps', 'episodes', 'lootBoxTemplates', 'wiki', 'quests', 'progression', 'races', 'jobs'];
+      const copiedImageUrls = new Map<string, string>();
 
       for (const collName of collectionsToCopy) {
         const sourceCol = collection(db, `rooms/${sourceCampaignId}/${collName}`);
         const snapshot = await getDocs(sourceCol);
         if (snapshot.size > 0) {
           const batch = writeBatch(db);
-          snapshot.docs.forEach(d => {
+          for (const d of snapshot.docs) {
             const targetRef = doc(db!, `rooms/${newId}/${collName}`, d.id);
-            batch.set(targetRef, d.data());
-          });
+            batch.set(targetRef, await copyRoomFiles(collName, d.id, d.data(), newId, copiedImageUrls));
+          }
           await batch.commit();
         }
       }
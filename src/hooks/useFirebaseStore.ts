@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import { db, auth, getCollectionRef, setDoc, doc, deleteDoc, updateDoc, onSnapshot, initAuth, writeBatch } from '../lib/firebase';
+import { db, auth, getCollectionRef, setDoc, doc, deleteDoc, updateDoc, onSnapshot, initAuth, writeBatch, deleteField } from '../lib/firebase';
 import { isAuthenticatedUser } from '../lib/firebase';
 import { toast } from 'sonner';
 import type { CollectionName } from '../types/collections';
@@ -14,6 +14,7 @@ interface BatchOperation {
   collection: CollectionName;
   id: string;
   data?: Record<string, unknown>;
+  deleteFields?: string[]; // 'update' only: fields removed from the document
 }
 
 interface UseFirebaseStoreReturn {
@@ -56,7 +57,7 @@ export function useFirebaseStore(): UseFirebaseStoreReturn {
   const [roomId, setRoomId] = useState<string | null>(null);
 
   // Collections to sync
-  const collections: CollectionName[] = ['crawlers', 'mobs', 'maps', 'inventory', 'episodes', 'soundEffects', 'diceRolls', 'lootBoxes', 'lootBoxTemplates', 'noncombatTurns', 'gameClock', 'combatState', 'wiki', 'quests', 'assignedQuests', 'spells'];
+  const collections: CollectionName[] = ['crawlers', 'mobs', 'maps', 'inventory', 'episodes', 'soundEffects', 'diceRolls', 'lootBoxes', 'lootBoxTemplates', 'noncombatTurns', 'gameClock', 'combatState', 'wiki', 'quests', 'assignedQuests', 'spells', 'rngState', 'rngStreams', 'combatLogs', 'mapAssets', 'progression', 'races', 'jobs'];
 
   // Load and subscribe to real-time updates
   useEffect(() => {
@@ -362,10 +363,13 @@ export function useFirebaseStore(): UseFirebaseStoreReturn {
             }
             break;
           case 'update':
-            if (op.data) {
-              newData[collection] = currentItems.map((item: Record<string, unknown>) =>
-                item.id === op.id ? { ...item, ...op.data } : item
-              );
+            if (op.data || op.deleteFields) {
+              newData[collection] = currentItems.map((item: Record<string, unknown>) => {
+                if (item.id !== op.id) return item;
+                const updated = { ...item, ...op.data };
+                for (const key of op.deleteFields ?? []) delete updated[key];
+                return updated;
+              });
             }
             break;
           case 'delete':
@@ -411,9 +415,10 @@ export function useFirebaseStore(): UseFirebaseStoreReturn {
             break;
           }
           case 'update': {
-            if (!op.data) continue;
+            if (!op.data && !op.deleteFields) continue;
             const updateData = { ...op.data };
-            const cleanedUpdate = cleanObject(updateData);
+            const cleanedUpdate = cleanObject(updateData) as Record<string, unknown>;
+            for (const key of op.deleteFields ?? []) cleanedUpdate[key] = deleteField();
 
             // Safety check: log if updating crawlers with very few fields
             // This helps catch accidental overwrites early
@@ -1,9 +1,13 @@
-import { useMemo, useRef } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import {
   Crawler,
   InventoryItem,
   Mob,
   Episode,
+  CrawlerPlacement,
+  MapLink,
+  MapLinkKind,
+  MAP_LINK_KIND_LABELS,
   SentLootBox,
   LootBoxTemplate,
   NoncombatTurnState,
@@ -18,15 +22,53 @@ import {
   SpellLearnedFrom,
   getSpellMasteryLevel,
   getEquippedModifiers,
+  getEffectiveManaCost,
+  getCrawlerEncumbrance,
+  getCrawlerArmorClass,
+  getStatModifierBonus,
+  getStatHitBonus,
+  resolveAttackOutcome,
+  combineDamageAffinities,
+  getEquippedDamageAffinities,
+  applyDamageAffinity,
+  DEFAULT_ARMOR_CLASS,
+  DamageAffinity,
+  DamageAffinities,
+  ActiveCondition,
+  CombatLogEntry,
+  ReactionPrompt,
+  ReactionOption,
+  ReactionTriggerKind,
+  REACTION_PROMPT_SECONDS,
+  getStatModifier,
+  getMobActionBonuses,
+  tickConditions,
+  isConditionTimedOnlyIn,
+  createSpellCondition,
+  DamageAdjustment,
+  DamageType,
+  SpellDamageType,
+  AttackOutcome,
+  AttackResolution,
   defaultCrawlers,
   defaultInventory,
   defaultMobs,
+  MapAsset,
 } from "@/lib/gameData";
 import { useGame } from "@/contexts/GameContext";
 import type { BatchOperation } from "@/hooks/useFirebaseStore";
-import { storage } from "@/lib/firebase";
+import { db, storage, doc, getDoc, setDoc, deleteDoc } from "@/lib/firebase";
 import { ref as storageRef, deleteObject } from "firebase/storage";
 import { logger } from "@/lib/logger";
+import { ownsStoragePath, type MapUpload } from "@/lib/mapAssets";
+import { PER_MAP_DOC_COLLECTIONS, getPerMapDocPath, isLegacyMapIndex, remapEpisodeMaps } from "@/lib/mapReferences";
+import { rollDiceExpression, toDiceResults, isValidDiceExpression, doubleDiceNotation, getNaturalRoll, buildAttackNotation, formatWeaponDice, verifyDiceRolls, type DiceRollResult, type DiceTermResult } from "@/lib/dice";
+import { setRngProvider, createSeededRng, generateRngSeed, hashRngSeed, type RngProvider, type RngState, type RngStream, type RollAudit } from "@/lib/rng";
+import { DEFAULT_PROGRESSION, getCrawlerXp, getMobKillXp, splitXp, type ProgressionSettings } from "@/lib/progression";
+import type { JobDefinition, RaceDefinition } from "@/lib/characterOptions";
+import { addAllToInventory, mergeStacks, removeFromInventory } from "@/lib/inventoryStacks";
+import { createConsumableCondition, cureConditions, describeConsumableEffect, isConsumable } from "@/lib/consumables";
+import { getEncumberedAttackAdvantage } from "@/lib/encumbrance";
 import { toast } from "sonner";
 
 export interface DiceRollEntry {
@@ -36,7 +78,26 @@ export interface DiceRollEntry {
   timestamp: number;
   results: { dice: string; result: number }[];
   total: number;
+  notation?: string; // dice expression that produced this roll, e.g. "2d6+3"
+  breakdown?: DiceTermResult[]; // structured per-term results from the dice engine
+  rollAudit?: RollAudit; // stream/counter that produced the dice, for replay verification
   statRoll?: { stat: string; modifier: number; rawRoll: number; diceLabel?: string; rollType?: string };
+  // Attack rolls resolved against a combat target's armor class
+  attackOutcome?: {
+    targetId: string;
+    targetName: string;
+    armorClass: number;
+    outcome: AttackOutcome;
+    damage?: number;
+  };
+  // Damage changed by a target's resistance/vulnerability/immunity
+  damageNotification?: {
+    targetName: string;
+    damageType: string;
+    affinity: DamageAffinity;
+    baseDamage: number;
+    finalDamage: number;
+  };
   // For loot box notifications
   lootBoxNotification?: {
     boxName: string;
@@ -46,12 +107,80 @@ export interface DiceRollEntry {
   // For quest notifications
   questNotification?: {
     questName: string;
-    type: 'assigned' | 'action_revealed' | 'action_completed' | 'reward_revealed';
+    type: 'assigned' | 'action_revealed' | 'action_completed' | 'reward_revealed' | 'completed';
     recipientNames: string[];
     detail?: string; // action item text or reward name
   };
+  // For consumable item use
+  itemNotification?: {
+    itemName: string;
+    outcomes: string[]; // one line per effect, e.g. "+7 HP", "cured Poisoned"
+  };
+}
+
+// An attack roll aimed at a combatant, resolved by resolveAttack
+export interface AttackRequest {
+  attackerId: string;
+  attackerName: string;
+  attackerType?: 'crawler' | 'mob'; // defaults to 'crawler'
+  actionName: string;
+  targetId: string;
+  targetType: 'crawler' | 'mob';
+  attackRoll: DiceRollResult;
+  attackModifier: number; // flat bonus on top of attackRoll.total (stat mods)
+  damageNotation?: string; // rolled only on a hit; dice are doubled on a critical
+  damageBonus?: number;
+  damageType?: DamageType | SpellDamageType;
+  onHitCondition?: ActiveCondition; // lingering effect applied to the target on a hit
+  attackerChanges?: AttackerChanges; // committed with the damage on a hit, or on their own otherwise
+}
+
+// Who caused a damage application, for the combat log
+export interface DamageSource {
+  id: string;
+  name: string;
+  type?: 'crawler' | 'mob';
+}
+
+// A combat log event before the combat context (id, combat, round, timestamp) is stamped on
+type CombatLogEvent = Omit<CombatLogEntry, 'id' | 'combatId' | 'combatNumber' | 'episodeId' | 'round' | 'timestamp'> & { round?: number };
+
+// What an attack changes on its attacker (e.g. a spent action), undone together with the attack's damage
+export interface AttackerChanges {
+  combatantId: string;
+  changes: Partial<CombatantEntry>;
+  event?: CombatLogEvent;
 }
 
+export interface CombatDamageOptions {
+  source?: DamageSource;
+  condition?: ActiveCondition; // applied in the same write so the HP and condition updates can't race
+  attackerChanges?: AttackerChanges;
+}
+
+// One undoable DM combat change: the batch that was written and the batch that reverts it
+interface CombatHistoryEntry {
+  label: string;
+  redo: BatchOperation[];
+  undo: BatchOperation[];
+}
+
+const COMBAT_HISTORY_LIMIT = 30;
+
+// JSON with sorted keys, so values read back from Firestore compare equal to what was written
+const stableStringify = (value: unknown): string => JSON.stringify(value, (_key, v) =>
+  v && typeof v === 'object' && !Array.isArray(v)
+    ? Object.fromEntries(Object.entries(v as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b)))
+    : v
+);
+
+// Image of a map doc: raw string (legacy) or an object with image/imageUrl/url/value
+const getMapDocImage = (m: unknown): string => {
+  if (typeof m === 'string') return m;
+  const data = m as Record<string, unknown> | undefined;
+  return (data?.image as string) || (data?.imageUrl as string) || (data?.url as string) || (data?.value as string) || '';
+};
+
 interface InventoryEntry {
   id?: string;
   crawlerId: string;
@@ -121,17 +250,10 @@ export const useGameState = () => {
   // Maps are stored as Firestore documents; normalize to string[] of image data
   const maps = useMemo(() => {
     const docs = getStableCollection<Record<string, unknown>>('maps');
-    // Support both raw string (legacy) and object with image/url/value
-    const normalized = (docs || []).map((m) => {
-      if (typeof m === 'string') return m;
-      return (m?.image as string) || (m?.imageUrl as string) || (m?.url as string) || (m?.value as string) || '';
-    }).filter(Boolean);
+    const normalized = (docs || []).map(getMapDocImage).filter(Boolean);
 
     // Check if we have empty documents that need cleanup
-    const emptyDocs = (docs || []).filter((m) => {
-      const img = typeof m === 'string' ? m : (m?.image as string) || (m?.imageUrl as string) || (m?.url as string) || (m?.value as string) || '';
-      return !img;
-    });
+    const emptyDocs = (docs || []).filter((m) => !getMapDocImage(m));
 
     if (emptyDocs.length > 0) {
       console.warn('[GameState] ⚠️ Found', emptyDocs.length, 'empty maps in Firestore (missing image data). These need to be deleted and re-uploaded.', {
@@ -146,25 +268,33 @@ export const useGameState = () => {
   const mapNames = useMemo(() => {
     const docs = getStableCollection<Record<string, unknown>>('maps');
     return (docs || [])
-      .filter((m) => {
-        const img = typeof m === 'string' ? m : (m?.image as string) || (m?.imageUrl as string) || (m?.url as string) || (m?.value as string) || '';
-        return !!img;
-      })
+      .filter((m) => !!getMapDocImage(m))
       .map((m) => (m?.name as string) || '');
   }, [getCollection, isLoaded]);
 
-  // Update a map's name in Firestore by its positional index
-  const updateMapName = async (index: number, name: string) => {
-    const docs = getCollection('maps') as Record<string, unknown>[];
-    // Filter to non-empty docs (same filtering as maps useMemo)
-    const nonEmptyDocs = (docs || []).filter((m) => {
-      const img = typeof m === 'string' ? m : (m?.image as string) || (m?.imageUrl as string) || (m?.url as string) || (m?.value as string) || '';
-      return !!img;
-    });
-    const doc = nonEmptyDocs[index];
-    if (doc?.id) {
-      await updateItem('maps', doc.id as string, { name } as Record<string, unknown>);
-    }
+  // Processed renditions for each map (parallel array to maps); null for maps uploaded before the asset pipeline
+  const mapAssets = useMemo(() => {
+    const assetsById = new Map(getStableCollection<MapAsset>('mapAssets').map(a => [a.id, a]));
+    const docs = getStableCollection<Record<string, unknown>>('maps');
+    return (docs || [])
+      .filter((m) => !!getMapDocImage(m))
+      .map((m) => assetsById.get(m?.assetId as string) ?? null);
+  }, [getCollection, isLoaded]);
+
+  // Firestore doc id of each map (parallel array to maps)
+  const mapIds = useMemo(() => {
+    const docs = getStableCollection<Record<string, unknown>>('maps');
+    return (docs || [])
+      .filter((m) => !!getMapDocImage(m))
+      .map((m) => m?.id as string);
+  }, [getCollection, isLoaded]);
+
+  // Map docs with image data, in the same order as maps
+  const getNonEmptyMapDocs = () =>
+    ((getCollection('maps') as Record<string, unknown>[]) || []).filter((m) => !!getMapDocImage(m));
+
+  const updateMapName = async (mapId: string, name: string) => {
+    await updateItem('maps', mapId, { name } as Record<string, unknown>);
   };
 
   const episodes = useMemo(() => {
@@ -219,141 +349,117 @@ export const useGameState = () => {
     }
   };
 
-  // Persist maps by diffing Firestore docs against provided array of base64 strings
-  const setMaps = async (newMaps: string[]) => {
-    const existingDocs = getCollection('maps') as Record<string, unknown>[];
-    
-    logger.log('[GameState] 🗺️ setMaps called', {
-      newMapsCount: newMaps.length,
-      existingDocsCount: existingDocs?.length || 0,
-      existingIds: existingDocs?.map((d) => d?.id)?.slice(0, 3) || []
-    });
-
-    // Create a fingerprint of each image based on length and multiple sections of the data
-    const getImageFingerprint = (img: string): string => {
-      const dataIndex = img.indexOf(',');
-      const d = dataIndex > -1 ? img.substring(dataIndex + 1) : img;
-      const len = d.length;
-      const slice = (pos: number) => d.substring(Math.max(0, pos), pos + 40);
-      return `${len}:${slice(Math.floor(len * 0.25))}:${slice(Math.floor(len * 0.5))}:${slice(Math.floor(len * 0.75))}:${slice(Math.max(0, len - 40))}`;
-    };
+  // Add a processed upload as a new map; a new asset is stored alongside it, an existing one is shared
+  const addMap = async ({ asset, image, isNewAsset }: MapUpload, name?: string) => {
+    const now = new Date().toISOString();
+    const data: Record<string, unknown> = { image, assetId: asset.id, createdAt: now, updatedAt: now };
+    if (name) data.name = name;
+    const operations: BatchOperation[] = [{ type: 'add', collection: 'maps', id: crypto.randomUUID(), data }];
+    if (isNewAsset) {
+      operations.push({ type: 'add', collection: 'mapAssets', id: asset.id, data: { ...asset } as Record<string, unknown> });
+    }
+    logger.log('[GameState] 🗺️ Adding map', { assetId: asset.id.substring(0, 12), isNewAsset });
+    await batchWrite(operations);
+  };
 
-    // Build maps by id and fingerprint for efficient lookup
-    const existingMapsByFingerprint = new Map<string, string>(); // fingerprint -> docId
-    const existingMapIds = new Set<string>(); // all docIds
-    
-    (existingDocs || []).forEach((d: Record<string, unknown>) => {
-      const img = typeof d === 'string' ? d : (d?.image as string) || (d?.imageUrl as string) || (d?.url as string) || (d?.value as string) || '';
-      if (img && d?.id) {
-        const fingerprint = getImageFingerprint(img);
-        existingMapsByFingerprint.set(fingerprint, d.id as string);
-        existingMapIds.add(d.id as string);
+  const deleteStorageFiles = async (paths: string[]) => {
+    if (!storage) return;
+    await Promise.all(paths.map(async (path) => {
+      try {
+        await deleteObject(storageRef(storage, path));
+      } catch (err) {
+        console.warn('[GameState] ⚠️ Failed to delete map file from Storage (may already be deleted):', path, err);
       }
-    });
+    }));
+  };
 
-    logger.log('[GameState] 🗺️ Existing maps:', {
-      count: existingMapIds.size,
-      ids: Array.from(existingMapIds).slice(0, 3),
-      fingerprintSample: Array.from(existingMapsByFingerprint.keys()).slice(0, 2)
-    });
+  // Delete a map, drop it from every episode (placements and settings included) and remove its per-map
+  // docs; its asset goes too once no other map uses it
+  const deleteMap = async (mapId: string) => {
+    const docs = getNonEmptyMapDocs();
+    const mapDoc = docs.find(d => d.id === mapId);
+    if (!mapDoc) return;
+    const operations: BatchOperation[] = [{ type: 'delete', collection: 'maps', id: mapId }];
+
+    const affectedEpisodes: Episode[] = [];
+    for (const episode of episodes) {
+      const changes = remapEpisodeMaps(episode, id => (id === mapId ? null : id));
+      if (!changes) continue;
+      affectedEpisodes.push(episode);
+      operations.push({ type: 'update', collection: 'episodes', id: episode.id, data: { ...changes, updatedAt: new Date().toISOString() } });
+    }
 
-    // Find maps to add and delete using fingerprints
-    const newMapFingerprints = newMaps.map(getImageFingerprint);
-    const mapsToAddIndices = newMapFingerprints
-      .map((fp, idx) => ({ fp, idx }))
-      .filter(({ fp }) => !existingMapsByFingerprint.has(fp))
-      .map(({ idx }) => idx);
-    
-    const newFingerprintSet = new Set(newMapFingerprints);
-    const mapsToDeleteIds = Array.from(existingMapIds).filter(id => {
-      const docWithId = existingDocs.find(d => d?.id === id);
-      if (!docWithId) return false;
-      const img = typeof docWithId === 'string' ? docWithId : (docWithId?.image as string) || (docWithId?.imageUrl as string) || (docWithId?.url as string) || (docWithId?.value as string) || '';
-      const fp = getImageFingerprint(img);
-      return !newFingerprintSet.has(fp);
-    });
+    // Maps uploaded before the asset pipeline record their own Storage file
+    const storagePaths = mapDoc.storagePath ? [mapDoc.storagePath as string] : [];
 
-    logger.log('[GameState] 🗺️ Maps diff', {
-      toAdd: mapsToAddIndices.length,
-      toDelete: mapsToDeleteIds.length,
-      toDeleteIds: mapsToDeleteIds.slice(0, 3),
-      newFingerprintSample: newMapFingerprints.slice(0, 2)
-    });
+    const assetId = mapDoc.assetId as string | undefined;
+    if (assetId && !docs.some(d => d !== mapDoc && d.assetId === assetId)) {
+      const asset = (getCollection('mapAssets') as MapAsset[]).find(a => a.id === assetId);
+      if (asset?.storagePaths?.length) storagePaths.push(...asset.storagePaths);
+      if (asset) operations.push({ type: 'delete', collection: 'mapAssets', id: assetId });
+    }
 
-    // Helper to extract Firebase Storage path from a download URL
-    const extractStoragePath = (url: string): string | null => {
+    logger.log('[GameState] 🗑️ Deleting map', { id: mapId, episodes: affectedEpisodes.map(e => e.id) });
+    await batchWrite(operations);
+    // Files go only once the docs no longer point at them, and only this campaign's own
+    await deleteStorageFiles(storagePaths.filter(path => ownsStoragePath(roomId, path)));
+    await Promise.all(affectedEpisodes.map(e => deletePerMapDocs(e.id, mapId)));
+  };
+
+  const deletePerMapDocs = async (episodeId: string, mapId: string) => {
+    if (!db) return;
+    await Promise.all(PER_MAP_DOC_COLLECTIONS.map(async (name) => {
       try {
-        const u = new URL(url);
-        if (!u.hostname.includes('firebasestorage.googleapis.com')) return null;
-        const match = u.pathname.match(/\/o\/(.+)/);
-        if (!match) return null;
-        return decodeURIComponent(match[1]);
-      } catch {
-        return null;
+        await deleteDoc(doc(db, getPerMapDocPath(roomId, name, episodeId, mapId)));
+      } catch (err) {
+        console.warn('[GameState] ⚠️ Failed to delete per-map doc:', name, episodeId, mapId, err);
       }
-    };
-
-    // Use batch writes for fast, atomic updates
-    const operations: BatchOperation[] = [];
+    }));
+  };
 
-    // Add new maps
-    for (const mapIdx of mapsToAddIndices) {
-      const img = newMaps[mapIdx];
-      const newId = crypto.randomUUID();
-      const data: Record<string, unknown> = {
-        image: img,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-      // If this is a Firebase Storage URL, store the storagePath for cleanup on delete
-      const sp = extractStoragePath(img);
-      if (sp) {
-        data.storagePath = sp;
-      }
-      operations.push({
-        type: 'add',
-        collection: 'maps',
-        id: newId,
-        data,
-      });
+  // Move a per-map doc (fog, placements, ...) to its new key; an existing doc at the new key wins
+  const movePerMapDoc = async (name: string, episodeId: string, fromMapId: string, toMapId: string) => {
+    if (!db) return;
+    const fromRef = doc(db, getPerMapDocPath(roomId, name, episodeId, fromMapId));
+    const toRef = doc(db, getPerMapDocPath(roomId, name, episodeId, toMapId));
+    const [from, to] = await Promise.all([getDoc(fromRef), getDoc(toRef)]);
+    if (!from.exists()) return;
+    if (!to.exists()) {
+      const data = from.data();
+      await setDoc(toRef, 'mapId' in data ? { ...data, mapId: toMapId } : data);
     }
-
-    // Delete removed maps (and clean up Firebase Storage files)
-    for (const id of mapsToDeleteIds) {
-      // Check if the map has a Storage-backed image that needs cleanup
-      const docWithId = existingDocs.find(d => d?.id === id);
-      const sp = (docWithId?.storagePath as string) || null;
-      if (sp && storage) {
-        try {
-          await deleteObject(storageRef(storage, sp));
-          logger.log('[GameState] 🗑️ Deleted map from Firebase Storage:', sp);
-        } catch (err) {
-          console.warn('[GameState] ⚠️ Failed to delete map from Storage (may already be deleted):', sp, err);
-        }
+    await deleteDoc(fromRef);
+  };
+
+  // One-time rewrite of episodes that still address maps by array index. Indices resolve against the
+  // current map order, which is what they pointed at; indices past the end are dropped.
+  const migrateLegacyMapReferences = async () => {
+    const mapDocIds = getNonEmptyMapDocs().map(d => d.id as string);
+    if (mapDocIds.length === 0) return;
+    const resolve = (id: string) => (isLegacyMapIndex(id) ? mapDocIds[parseInt(id, 10)] ?? null : id);
+
+    for (const episode of episodes) {
+      const changes = remapEpisodeMaps(episode, resolve);
+      if (!changes) continue;
+      logger.log('[GameState] 🔁 Migrating map references for episode', episode.id);
+      const legacyIds = episode.mapIds.filter(isLegacyMapIndex);
+      for (const legacyId of legacyIds) {
+        const mapId = resolve(legacyId);
+        await Promise.all(PER_MAP_DOC_COLLECTIONS.map(name =>
+          mapId
+            ? movePerMapDoc(name, episode.id, legacyId, mapId).catch(err => console.warn('[GameState] ⚠️ Failed to move per-map doc:', name, err))
+            : Promise.resolve()
+        ));
       }
-      operations.push({
-        type: 'delete',
-        collection: 'maps',
-        id,
-      });
-    }
-
-    if (operations.length > 0) {
-      logger.log('[GameState] 🗺️ Executing batch write for', operations.length, 'map operations');
-      await batchWrite(operations);
+      await updateEpisode(episode.id, changes);
     }
-
-    logger.log('[GameState] ✅ setMaps completed');
   };
 
   // Clean up empty maps that were saved without image data (migration from old size limits)
   const cleanupEmptyMaps = async () => {
     const existingDocs = getCollection('maps') as Record<string, unknown>[];
     const emptyMapIds = (existingDocs || [])
-      .filter((m) => {
-        const img = typeof m === 'string' ? m : (m?.image as string) || (m?.imageUrl as string) || (m?.url as string) || (m?.value as string) || '';
-        return !img;
-      })
+      .filter((m) => !getMapDocImage(m))
       .map(d => d?.id as string);
 
     if (emptyMapIds.length === 0) {
@@ -376,6 +482,9 @@ export const useGameState = () => {
 
   const updateCrawler = async (id: string, updates: Partial<Crawler>) => {
     logger.log('[GameState] 📝 Updating crawler:', { id, updates });
+    // Fields passed as undefined are cleared (e.g. an emptied override); updateItem alone would skip them
+    const cleared = Object.keys(updates).filter(key => updates[key as keyof Crawler] === undefined);
+    if (cleared.length > 0) await batchWrite([{ type: 'update', collection: 'crawlers', id, deleteFields: cleared }]);
     return updateItem('crawlers', id, updates as Record<string, unknown>);
   };
 
@@ -417,6 +526,21 @@ export const useGameState = () => {
     }
   };
 
+  // One-time fold of per-unit duplicate items into stacks. The shared library is a catalog of
+  // templates, not holdings, so it is left alone.
+  const migrateInventoryStacks = async () => {
+    const operations: BatchOperation[] = [];
+    for (const entry of inventory as InventoryEntry[]) {
+      if (!entry.id || entry.crawlerId === '__shared__') continue;
+      const items = entry.items ?? [];
+      const merged = mergeStacks(items);
+      if (merged === items) continue;
+      logger.log('[GameState] 🔁 Stacking inventory items for', entry.crawlerId, `(${items.length} → ${merged.length})`);
+      operations.push({ type: 'update', collection: 'inventory', id: entry.id, data: { items: merged } as Record<string, unknown> });
+    }
+    if (operations.length > 0) await batchWrite(operations);
+  };
+
   // Episode management
   const addEpisode = async (episode: Episode) => {
     return addItem('episodes', {
@@ -477,7 +601,7 @@ export const useGameState = () => {
     // Add items to crawler inventory
     if (itemsToClaim.length > 0) {
       const currentItems = getCrawlerInventory(crawlerId);
-      await updateCrawlerInventory(crawlerId, [...currentItems, ...itemsToClaim]);
+      await updateCrawlerInventory(crawlerId, addAllToInventory(currentItems, itemsToClaim));
     }
 
     // Add gold to crawler if claiming gold
@@ -528,6 +652,39 @@ export const useGameState = () => {
     return deleteItem('lootBoxTemplates', id);
   };
 
+  // --- Races & Jobs ---
+  const races = useMemo(() => {
+    return getStableCollection<RaceDefinition>('races');
+  }, [getCollection, isLoaded]);
+
+  const jobs = useMemo(() => {
+    return getStableCollection<JobDefinition>('jobs');
+  }, [getCollection, isLoaded]);
+
+  const addRace = async (race: RaceDefinition) => {
+    return addItem('races', { ...race, createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() } as Record<string, unknown>);
+  };
+
+  const updateRace = async (id: string, updates: Partial<RaceDefinition>) => {
+    return updateItem('races', id, { ...updates, updatedAt: new Date().toISOString() } as Record<string, unknown>);
+  };
+
+  const deleteRace = async (id: string) => {
+    return deleteItem('races', id);
+  };
+
+  const addJob = async (job: JobDefinition) => {
+    return addItem('jobs', { ...job, createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() } as Record<string, unknown>);
+  };
+
+  const updateJob = async (id: string, updates: Partial<JobDefinition>) => {
+    return updateItem('jobs', id, { ...updates, updatedAt: new Date().toISOString() } as Record<string, unknown>);
+  };
+
+  const deleteJob = async (id: string) => {
+    return deleteItem('jobs', id);
+  };
+
   // --- Quests ---
   const quests = useMemo(() => {
     return getStableCollection<Quest>('quests');
@@ -589,6 +746,25 @@ export const useGameState = () => {
     return deleteItem('assignedQuests', id);
   };
 
+  // Marks the assignment done and splits the quest's XP reward between its crawlers
+  const completeAssignedQuest = async (id: string) => {
+    const assigned = assignedQuests.find(a => a.id === id);
+    if (!assigned || assigned.completedAt) return;
+    const quest = quests.find(q => q.id === assigned.questId);
+    const shares = splitXp(quest?.xpReward ?? 0, assigned.crawlerIds.filter(cid => crawlers.some(c => c.id === cid)));
+    const ops: BatchOperation[] = [
+      {
+        type: 'update' as const,
+        collection: 'assignedQuests' as const,
+        id,
+        data: { completedAt: new Date().toISOString() } as Record<string, unknown>,
+      },
+      ...buildXpOps(shares),
+    ];
+    await batchWrite(ops);
+    logger.log('[GameState] 📜 Quest completed', quest?.name, shares);
+  };
+
   const getCrawlerAssignedQuests = (crawlerId: string) => {
     return assignedQuests.filter(a => a.crawlerIds.includes(crawlerId));
   };
@@ -624,6 +800,83 @@ export const useGameState = () => {
     if (ops.length > 0) await batchWrite(ops);
   };
 
+  // --- Seeded RNG ---
+  // Each session rolls from its own secret stream: the seed's hash is committed to rngStreams before
+  // the first roll and the seed itself is revealed when the session ends, so nobody can predict rolls
+  // but anyone can verify them afterwards (see verifyDiceRolls in lib/dice). rngState only holds the
+  // public seed of rolls made before streams existed.
+  const rngState = useMemo((): RngState | null => {
+    const stored = getStableCollection<RngState>('rngState');
+    return stored.find(s => s.id === 'current') ?? null;
+  }, [getCollection, isLoaded]);
+
+  const rngStreams = useMemo(() => getStableCollection<RngStream>('rngStreams'), [getCollection, isLoaded]);
+
+  useEffect(() => {
+    if (!isLoaded || !roomId) return;
+    // sessionStorage is per tab, so a reload can reveal the stream it left behind without touching
+    // a stream another open tab is still rolling from. The counter is kept there too and only
+    // written to rngStreams with the reveal, so rolling costs no extra Firestore writes.
+    const storageKey = `rng-stream:${roomId}`;
+    const stream = { id: generateRngSeed(4), secret: generateRngSeed(), counter: 0 };
+    let cancelled = false;
+    let committed = false;
+    let retired = false;
+    let previous: RngProvider | null = null;
+
+    const saveStream = () =>
+      sessionStorage.setItem(storageKey, JSON.stringify({ stream: stream.id, secret: stream.secret, counter: stream.counter }));
+
+    const reveal = (id: string, secret: string, counter: number) =>
+      updateItem('rngStreams', id, { seed: secret, counter, revealedAt: new Date().toISOString() } as Record<string, unknown>)
+        .catch(err => logger.error('[GameState] ❌ Failed to reveal roll stream:', err));
+
+    const retire = () => {
+      if (retired) return;
+      retired = true;
+      const saved = sessionStorage.getItem(storageKey);
+      if (saved && JSON.parse(saved).stream === stream.id) sessionStorage.removeItem(storageKey);
+      reveal(stream.id, stream.secret, stream.counter);
+    };
+    const onPageHide = (event: PageTransitionEvent) => { if (!event.persisted) retire(); };
+
+    const open = async () => {
+      const leftover = sessionStorage.getItem(storageKey);
+      if (leftover) {
+        const { stream: id, secret, counter } = JSON.parse(leftover);
+        sessionStorage.removeItem(storageKey);
+        if (id && secret) reveal(id, secret, counter ?? 0);
+      }
+      const seedHash = await hashRngSeed(stream.secret);
+      if (cancelled) return;
+      saveStream();
+      await addItem('rngStreams', { id: stream.id, seedHash, counter: 0, createdAt: new Date().toISOString() } as Record<string, unknown>);
+      if (cancelled) {
+        retire();
+        return;
+      }
+      committed = true;
+      window.addEventListener('pagehide', onPageHide);
+      previous = setRngProvider(() => {
+        stream.counter += 1;
+        const audit: RollAudit = { stream: stream.id, counter: stream.counter };
+        saveStream();
+        return { rng: createSeededRng({ ...audit, seed: stream.secret }), audit };
+      });
+    };
+    open().catch(err => logger.error('[GameState] ❌ Failed to commit roll stream:', err));
+
+    return () => {
+      cancelled = true;
+      if (!committed) return;
+      window.removeEventListener('pagehide', onPageHide);
+      setRngProvider(previous);
+      retire();
+    };
+  }, [isLoaded, roomId, addItem, updateItem]);
+
+  const verifyDiceRollLog = () => verifyDiceRolls(diceRolls, { rngState, rngStreams });
+
   // --- Noncombat Turns ---
   const noncombatTurnState = useMemo((): NoncombatTurnState | null => {
     const stored = getStableCollection<NoncombatTurnState>('noncombatTurns');
@@ -638,6 +891,23 @@ export const useGameState = () => {
       await advanceGameClock(1);
     }
 
+    // Tick crawler conditions once per noncombat turn (not the very first one)
+    if (current) {
+      const operations: BatchOperation[] = [];
+      for (const crawler of crawlers) {
+        if (!crawler.conditions?.length) continue;
+        const mods = getEquippedModifiers(crawler, getCrawlerInventory(crawler.id));
+        const tick = await tickBearerConditions({ id: crawler.id, name: crawler.name, type: 'crawler' }, crawler.conditions, crawler.hp || 0, (crawler.maxHP || 0) + (mods.maxHP ?? 0), 'noncombat');
+        operations.push({
+          type: 'update' as const,
+          collection: 'crawlers' as const,
+          id: crawler.id,
+          data: { conditions: tick.conditions, hp: tick.hp } as Record<string, unknown>,
+        });
+      }
+      if (operations.length > 0) await batchWrite(operations);
+    }
+
     const turnData = {
       turnNumber: (current?.turnNumber ?? 0) + 1,
       rollsUsed: {},
@@ -701,6 +971,40 @@ export const useGameState = () => {
     await setGameClock(gameClockState.gameTime + msToAdd);
   };
 
+  // --- Progression ---
+  const storedProgression = useMemo((): ProgressionSettings | null => {
+    const stored = getStableCollection<ProgressionSettings>('progression');
+    return stored.find(s => s.id === 'current') ?? null;
+  }, [getCollection, isLoaded]);
+
+  const progressionSettings = useMemo(
+    (): ProgressionSettings => ({ ...DEFAULT_PROGRESSION, ...storedProgression }),
+    [storedProgression],
+  );
+
+  const updateProgressionSettings = async (updates: Partial<ProgressionSettings>) => {
+    if (storedProgression) {
+      await updateItem('progression', 'current', updates as Record<string, unknown>);
+    } else {
+      await addItem('progression', { ...DEFAULT_PROGRESSION, ...updates, id: 'current' } as Record<string, unknown>);
+    }
+  };
+
+  // Crawler updates adding each share to the crawler's banked XP
+  const buildXpOps = (shares: Record<string, number>): BatchOperation[] =>
+    Object.entries(shares)
+      .filter(([, amount]) => amount > 0)
+      .flatMap(([crawlerId, amount]) => {
+        const crawler = crawlers.find(c => c.id === crawlerId);
+        if (!crawler) return [];
+        return [{
+          type: 'update' as const,
+          collection: 'crawlers' as const,
+          id: crawlerId,
+          data: { xp: getCrawlerXp(crawler, progressionSettings) + amount } as Record<string, unknown>,
+        }];
+      });
+
   // --- Rest Mechanics ---
   const performShortRest = async (crawlerIds: string[]) => {
     // Capture current crawlers before any async operations
@@ -773,8 +1077,155 @@ export const useGameState = () => {
     const stored = getStableCollection<CombatState>('combatState');
     return stored.find(s => s.id === 'current') ?? null;
   }, [getCollection, isLoaded]);
+  // Latest combat state for multi-step flows that outlive the render they started in (e.g. reactions)
+  const combatStateRef = useRef(combatState);
+  combatStateRef.current = combatState;
+
+  // Dice feed entry for an auto-rolled mob initiative; falls back to a bare d20 row when no engine roll is available
+  const buildInitiativeDiceEntry = (combatant: CombatantEntry, roll?: DiceRollResult): DiceRollEntry => ({
+    id: crypto.randomUUID(),
+    crawlerName: combatant.name,
+    crawlerId: combatant.id,
+    timestamp: Date.now(),
+    results: roll ? toDiceResults(roll) : [{ dice: 'D20', result: combatant.initiative }],
+    total: combatant.initiative,
+    notation: roll?.notation,
+    breakdown: roll?.terms,
+    rollAudit: roll?.audit,
+    statRoll: { stat: 'Initiative', modifier: 0, rawRoll: combatant.initiative },
+  });
+
+  // --- Combat Log ---
+  const combatLogs = useMemo(() => {
+    const stored = getStableCollection<CombatLogEntry>('combatLogs');
+    return [...stored].sort((a, b) => a.timestamp - b.timestamp);
+  }, [getCollection, isLoaded]);
+
+  const buildCombatLogOps = (
+    events: CombatLogEvent[],
+    context: Pick<CombatState, 'combatId' | 'combatCount' | 'episodeId' | 'combatRound'> | null = combatState,
+  ): BatchOperation[] => {
+    if (!context?.combatId) return [];
+    const now = Date.now();
+    return events.map((event, i) => ({
+      type: 'add' as const,
+      collection: 'combatLogs' as const,
+      id: crypto.randomUUID(),
+      data: {
+        ...event,
+        combatId: context.combatId,
+        combatNumber: context.combatCount,
+        episodeId: context.episodeId,
+        round: event.round ?? context.combatRound ?? 1,
+        timestamp: now + i, // keep same-tick events in order
+      } as Record<string, unknown>,
+    }));
+  };
+
+  const logCombatEvents = async (events: CombatLogEvent[], context?: Pick<CombatState, 'combatId' | 'combatCount' | 'episodeId' | 'combatRound'>) => {
+    await batchWrite(buildCombatLogOps(events, context));
+  };
+
+  // --- Combat Undo/Redo ---
+  // Combat mutations go through commitCombatOps, which records the inverse of each write so the DM can
+  // step back and forward. Stacks are local to this client and capped at COMBAT_HISTORY_LIMIT.
+  const combatHistoryRef = useRef<{ undo: CombatHistoryEntry[]; redo: CombatHistoryEntry[] }>({ undo: [], redo: [] });
+  const [combatHistoryLabels, setCombatHistoryLabels] = useState<{ undo?: string; redo?: string }>({});
+
+  const syncCombatHistoryLabels = () => {
+    const { undo, redo } = combatHistoryRef.current;
+    setCombatHistoryLabels({ undo: undo[undo.length - 1]?.label, redo: redo[redo.length - 1]?.label });
+  };
+
+  // Batch that restores the current values of everything `operations` is about to touch
+  const buildInverseOps = (operations: BatchOperation[]): BatchOperation[] => {
+    const inverse: BatchOperation[] = [];
+    for (const op of operations) {
+      const existing = getCollection<Record<string, unknown>>(op.collection).find(item => item.id === op.id);
+      if (op.type === 'add') {
+        inverse.push({ type: 'delete', collection: op.collection, id: op.id });
+      } else if (op.type === 'delete') {
+        if (existing) inverse.push({ type: 'add', collection: op.collection, id: op.id, data: { ...existing } });
+      } else if (existing && (op.data || op.deleteFields)) {
+        // Fields that didn't exist before are deleted again; deleted fields get their old value back
+        const previous: Record<string, unknown> = {};
+        const absent: string[] = [];
+        for (const key of [...Object.keys(op.data ?? {}), ...(op.deleteFields ?? [])]) {
+          if (existing[key] !== undefined) previous[key] = existing[key];
+          else absent.push(key);
+        }
+        inverse.push({ type: 'update', collection: op.collection, id: op.id, data: previous, ...(absent.length > 0 ? { deleteFields: absent } : {}) });
+      }
+    }
+    // Undo must run in reverse order so repeated writes to one doc unwind correctly
+    return inverse.reverse();
+  };
+
+  const commitCombatOps = async (label: string, operations: BatchOperation[]) => {
+    if (operations.length === 0) return;
+    const undo = buildInverseOps(operations);
+    await batchWrite(operations);
+    const history = combatHistoryRef.current;
+    history.undo = [...history.undo, { label, redo: operations, undo }].slice(-COMBAT_HISTORY_LIMIT);
+    history.redo = [];
+    syncCombatHistoryLabels();
+  };
+
+  // The docs must still hold what `expected` wrote; otherwise someone changed them since and stepping
+  // over that change would silently clobber it
+  const findCombatHistoryConflict = (expected: BatchOperation[]): string | null => {
+    for (const op of expected) {
+      const existing = getCollection<Record<string, unknown>>(op.collection).find(item => item.id === op.id);
+      if (op.type === 'delete') {
+        if (existing) return op.collection;
+      } else if (!existing) {
+        return op.collection;
+      } else if (op.type === 'update') {
+        for (const [key, value] of Object.entries(op.data ?? {})) {
+          if (stableStringify(existing[key]) !== stableStringify(value)) return `${op.collection}.${key}`;
+        }
+        for (const key of op.deleteFields ?? []) {
+          if (existing[key] !== undefined) return `${op.collection}.${key}`;
+        }
+      }
+    }
+    return null;
+  };
+
+  const stepCombatHistory = async (direction: 'undo' | 'redo') => {
+    const history = combatHistoryRef.current;
+    const entry = history[direction][history[direction].length - 1];
+    if (!entry) return;
+    // Undo expects the state the entry's redo produced, and vice versa
+    const conflict = findCombatHistoryConflict(direction === 'undo' ? entry.redo : entry.undo);
+    if (conflict) {
+      history[direction] = history[direction].slice(0, -1);
+      syncCombatHistoryLabels();
+      toast.error(`Can't ${direction} "${entry.label}": it was changed since (${conflict})`);
+      logger.warn('[GameState] ↩️ Combat history conflict on', conflict, 'for', entry.label);
+      return;
+    }
+    await batchWrite(direction === 'undo' ? entry.undo : entry.redo);
+    history[direction] = history[direction].slice(0, -1);
+    const opposite = direction === 'undo' ? 'redo' : 'undo';
+    history[opposite] = [...history[opposite], entry].slice(-COMBAT_HISTORY_LIMIT);
+    syncCombatHistoryLabels();
+    toast(`${direction === 'undo' ? 'Undid' : 'Redid'}: ${entry.label}`);
+    logger.log('[GameState] ↩️ Combat', direction, ':', entry.label);
+  };
+
+  const combatStateOp = (data: Record<string, unknown>): BatchOperation => ({
+    type: 'update' as const,
+    collection: 'combatState' as const,
+    id: 'current',
+    data,
+  });
+
+  const undoCombatAction = () => stepCombatHistory('undo');
+  const redoCombatAction = () => stepCombatHistory('redo');
 
   const startCombat = async (crawlerIds: string[], mobEntries: { combatId: string; mobId: string; name: string }[], episodeId?: string) => {
+    const initiativeRolls = new Map<string, DiceRollResult>();
     const combatants: CombatantEntry[] = [
       ...crawlerIds.map(id => {
         const crawler = crawlers.find(c => c.id === id);
@@ -791,7 +1242,9 @@ export const useGameState = () => {
       }),
       ...mobEntries.map(entry => {
         const mob = mobs.find(m => m.id === entry.mobId);
-        const roll = Math.floor(Math.random() * 20) + 1;
+        const initiativeRoll = rollDiceExpression('1d20');
+        initiativeRolls.set(entry.combatId, initiativeRoll);
+        const roll = initiativeRoll.total;
 
         // Use persisted HP from episode if available (from previous combat)
         let initialHP = mob?.hitPoints;
@@ -829,6 +1282,7 @@ export const useGameState = () => {
 
     // Increment combat counter
     const prevCount = combatState?.combatCount ?? 0;
+    const combatId = crypto.randomUUID();
 
     const combatData: Record<string, unknown> = {
       active: true,
@@ -842,27 +1296,23 @@ export const useGameState = () => {
       turnTimerDuration: 60,
       turnTimerPaused: false,
       turnStartedAt: undefined,
+      combatId,
     };
 
-    const current = combatState;
-    if (current) {
-      await updateItem('combatState', 'current', combatData);
-    } else {
-      await addItem('combatState', { id: 'current', ...combatData });
-    }
+    const mobCombatants = combatants.filter(c => c.type === 'mob' && c.hasRolledInitiative);
+    await commitCombatOps('Start combat', [
+      combatState
+        ? combatStateOp(combatData)
+        : { type: 'add' as const, collection: 'combatState' as const, id: 'current', data: combatData },
+      ...buildCombatLogOps([
+        ...combatants.map(c => ({ type: 'start' as const, targetId: c.id, targetName: c.name, targetType: c.type })),
+        ...mobCombatants.map(c => ({ type: 'initiative' as const, actorId: c.id, actorName: c.name, actorType: c.type, amount: c.initiative })),
+      ], { combatId, combatCount: prevCount + 1, episodeId: episodeId || undefined, combatRound: 1 }),
+    ]);
 
     // Log mob initiative rolls to dice panel
-    const mobCombatants = combatants.filter(c => c.type === 'mob' && c.hasRolledInitiative);
     for (const mc of mobCombatants) {
-      await addDiceRoll({
-        id: crypto.randomUUID(),
-        crawlerName: mc.name,
-        crawlerId: mc.id,
-        timestamp: Date.now(),
-        results: [{ dice: 'D20', result: mc.initiative }],
-        total: mc.initiative,
-        statRoll: { stat: 'Initiative', modifier: 0, rawRoll: mc.initiative },
-      });
+      await addDiceRoll(buildInitiativeDiceEntry(mc, initiativeRolls.get(mc.id)));
     }
 
     logger.log('[GameState] ⚔️ Combat started with', combatants.length, 'combatants (mobs auto-rolled). Combat #', prevCount + 1);
@@ -870,14 +1320,24 @@ export const useGameState = () => {
 
   const rollMobInitiatives = async () => {
     if (!combatState) return;
+    const initiativeRolls = new Map<string, DiceRollResult>();
     const updatedCombatants = combatState.combatants.map(c => {
       if (c.type === 'mob' && !c.hasRolledInitiative) {
-        const roll = Math.floor(Math.random() * 20) + 1;
-        return { ...c, initiative: roll, hasRolledInitiative: true };
+        const initiativeRoll = rollDiceExpression('1d20');
+        initiativeRolls.set(c.id, initiativeRoll);
+        return { ...c, initiative: initiativeRoll.total, hasRolledInitiative: true };
       }
       return c;
     });
-    await updateItem('combatState', 'current', { combatants: updatedCombatants } as Record<string, unknown>);
+    await commitCombatOps('Roll mob initiative', [
+      combatStateOp({ combatants: updatedCombatants }),
+      ...buildCombatLogOps(updatedCombatants
+        .filter(c => initiativeRolls.has(c.id))
+        .map(c => ({ type: 'initiative' as const, actorId: c.id, actorName: c.name, actorType: c.type, amount: c.initiative }))),
+    ]);
+    for (const c of updatedCombatants) {
+      if (initiativeRolls.has(c.id)) await addDiceRoll(buildInitiativeDiceEntry(c, initiativeRolls.get(c.id)));
+    }
     logger.log('[GameState] 🎲 Mob initiatives rolled');
   };
 
@@ -889,42 +1349,96 @@ export const useGameState = () => {
       }
       return c;
     });
-    await updateItem('combatState', 'current', { combatants: updatedCombatants } as Record<string, unknown>);
+    const combatant = combatState.combatants.find(c => c.id === combatantId);
+    await commitCombatOps(`${combatant?.name ?? 'Combatant'} initiative ${roll}`, [
+      combatStateOp({ combatants: updatedCombatants }),
+      ...(combatant ? buildCombatLogOps([{ type: 'initiative', actorId: combatant.id, actorName: combatant.name, actorType: combatant.type, amount: roll }]) : []),
+    ]);
   };
 
   const confirmInitiative = async () => {
     if (!combatState) return;
     // Sort combatants by initiative (highest first)
     const sorted = [...combatState.combatants].sort((a, b) => b.initiative - a.initiative);
-    await updateItem('combatState', 'current', {
+    await commitCombatOps('Confirm initiative', [combatStateOp({
       combatants: sorted,
       phase: 'combat',
       currentTurnIndex: 0,
       combatRound: 1,
       turnStartedAt: Date.now(),
       turnTimerPaused: false,
-    } as Record<string, unknown>);
+    })]);
     logger.log('[GameState] ⚔️ Combat order confirmed, starting combat phase');
   };
 
   const advanceCombatTurn = async () => {
     if (!combatState || combatState.combatants.length === 0) return;
-    const nextIndex = combatState.currentTurnIndex + 1;
-    const isNewRound = nextIndex >= combatState.combatants.length;
-    // Reset action flags for the combatant whose turn just ended
-    const resetCombatants = combatState.combatants.map((c, i) => {
-      if (i === combatState.currentTurnIndex) {
-        return { ...c, hasUsedAction: false, hasUsedBonusAction: false };
+    const combatants = [...combatState.combatants];
+    const pendingCrawlers: Record<string, Crawler> = {};
+    const logEvents: CombatLogEvent[] = [];
+    let index = combatState.currentTurnIndex;
+    let round = combatState.combatRound;
+
+    // End of a combatant's turn: reset its action flags and tick its conditions
+    const endTurn = async (i: number) => {
+      const c = { ...combatants[i], hasUsedAction: false, hasUsedBonusAction: false, movementUsedFt: 0 };
+      combatants[i] = c;
+      if (c.type === 'crawler') {
+        const crawler = pendingCrawlers[c.id] ?? crawlers.find(cr => cr.id === c.id);
+        if (!crawler?.conditions?.length) return;
+        const mods = getEquippedModifiers(crawler, getCrawlerInventory(crawler.id));
+        const tick = await tickBearerConditions({ id: c.id, name: crawler.name, type: 'crawler' }, crawler.conditions, crawler.hp || 0, (crawler.maxHP || 0) + (mods.maxHP ?? 0), 'combat');
+        pendingCrawlers[c.id] = { ...crawler, conditions: tick.conditions, hp: tick.hp };
+        logEvents.push(...tick.events.map(e => ({ ...e, round })));
+      } else if (c.conditions?.length) {
+        const mob = mobs.find(m => m.id === (c.sourceId || c.id));
+        const maxHP = mob?.hitPoints ?? c.currentHP ?? 0;
+        const tick = await tickBearerConditions({ id: c.id, name: c.name, type: 'mob' }, c.conditions, c.currentHP ?? maxHP, maxHP, 'combat');
+        combatants[i] = { ...c, conditions: tick.conditions, currentHP: tick.hp };
+        logEvents.push(...tick.events.map(e => ({ ...e, round })));
       }
-      return c;
-    });
-    await updateItem('combatState', 'current', {
-      combatants: resetCombatants,
-      currentTurnIndex: isNewRound ? 0 : nextIndex,
-      combatRound: isNewRound ? combatState.combatRound + 1 : combatState.combatRound,
+    };
+    const nextTurn = () => {
+      index += 1;
+      if (index >= combatants.length) {
+        index = 0;
+        round += 1;
+      }
+    };
+    const skipsTurn = (c: CombatantEntry) => {
+      const conditions = c.type === 'crawler'
+        ? (pendingCrawlers[c.id] ?? crawlers.find(cr => cr.id === c.id))?.conditions
+        : c.conditions;
+      return (conditions ?? []).some(cond => cond.skipsTurn);
+    };
+
+    await endTurn(index);
+    nextTurn();
+    // Combatants with a turn-skipping condition (stunned) lose their turn; it still ticks their conditions
+    for (let guard = 0; guard < combatants.length && skipsTurn(combatants[index]); guard++) {
+      toast(`${combatants[index].name} is unable to act and loses their turn`);
+      await endTurn(index);
+      nextTurn();
+    }
+
+    const next = combatants[index];
+    logEvents.push({ type: 'turn', actorId: next.id, actorName: next.name, actorType: next.type, round });
+
+    const operations: BatchOperation[] = Object.values(pendingCrawlers).map(cr => ({
+      type: 'update' as const,
+      collection: 'crawlers' as const,
+      id: cr.id,
+      data: { conditions: cr.conditions, hp: cr.hp } as Record<string, unknown>,
+    }));
+    operations.push(combatStateOp({
+      combatants,
+      currentTurnIndex: index,
+      combatRound: round,
       turnStartedAt: Date.now(),
       turnTimerPaused: false,
-    } as Record<string, unknown>);
+    }));
+    operations.push(...buildCombatLogOps(logEvents));
+    await commitCombatOps(`Advance turn to ${next.name}`, operations);
   };
 
   const updateCombatTimer = async (settings: { turnTimerMode?: 'countdown' | 'stopwatch'; turnTimerDuration?: number; turnTimerPaused?: boolean }) => {
@@ -937,7 +1451,10 @@ export const useGameState = () => {
     if (settings.turnTimerMode !== undefined || settings.turnTimerPaused === false) {
       updates.turnStartedAt = Date.now();
     }
-    await updateItem('combatState', 'current', updates);
+    const label = settings.turnTimerPaused !== undefined
+      ? (settings.turnTimerPaused ? 'Pause turn timer' : 'Resume turn timer')
+      : 'Change turn timer';
+    await commitCombatOps(label, [combatStateOp(updates)]);
   };
 
   const recordCombatAction = async (combatantId: string, actionType: 'action' | 'bonus') => {
@@ -951,36 +1468,523 @@ export const useGameState = () => {
       }
       return c;
     });
-    await updateItem('combatState', 'current', { combatants: updatedCombatants } as Record<string, unknown>);
+    const combatant = combatState.combatants.find(c => c.id === combatantId);
+    await commitCombatOps(`${combatant?.name ?? 'Combatant'} used ${actionType === 'action' ? 'an action' : 'a bonus action'}`, [
+      combatStateOp({ combatants: updatedCombatants }),
+      ...(combatant ? buildCombatLogOps([{ type: actionType === 'action' ? 'action' : 'bonus-action', actorId: combatant.id, actorName: combatant.name, actorType: combatant.type }]) : []),
+    ]);
+  };
+
+  // Feet moved on the map this turn; ShowTime stops players once their speed is spent
+  const recordCombatMovement = async (combatantId: string, feet: number) => {
+    const latest = combatStateRef.current;
+    if (!latest || feet <= 0) return;
+    const combatant = latest.combatants.find(c => c.id === combatantId);
+    if (!combatant) return;
+    await commitCombatOps(`${combatant.name} used ${feet} ft of movement`, [combatStateOp({
+      combatants: latest.combatants.map(c =>
+        c.id === combatantId ? { ...c, movementUsedFt: (c.movementUsedFt ?? 0) + feet } : c
+      ),
+    })]);
+  };
+
+  // --- Status Conditions ---
+  // Roll a bearer's per-turn damage/healing (logged to the dice feed), then count its conditions down.
+  // Returns the surviving conditions, the bearer's new HP (clamped to [0, maxHP]) and combat log events.
+  const tickBearerConditions = async (
+    bearer: { id: string; name: string; type: 'crawler' | 'mob' },
+    conditions: ActiveCondition[],
+    hp: number,
+    maxHP: number,
+    mode: 'combat' | 'noncombat',
+  ): Promise<{ conditions: ActiveCondition[]; hp: number; events: CombatLogEvent[] }> => {
+    const affinities = getCombatantDamageAffinities(bearer.id, bearer.type);
+    const events: CombatLogEvent[] = [];
+    let delta = 0;
+    const otherMode = mode === 'combat' ? 'noncombat' : 'combat';
+    for (const condition of conditions.filter(c => !isConditionTimedOnlyIn(c, otherMode))) {
+      const effects = [
+        { dice: condition.damagePerTurn, sign: -1, label: 'Damage' },
+        { dice: condition.healPerTurn, sign: 1, label: 'Healing' },
+      ];
+      for (const effect of effects) {
+        if (!effect.dice || !isValidDiceExpression(effect.dice)) continue;
+        const roll = rollDiceExpression(effect.dice);
+        const amount = effect.sign < 0
+          ? applyDamageAffinity(roll.total, condition.damageType, affinities).finalDamage
+          : roll.total;
+        delta += effect.sign * amount;
+        events.push({
+          type: effect.sign < 0 ? 'damage' : 'healing',
+          actorId: condition.id,
+          actorName: `${condition.icon} ${condition.name}`,
+          targetId: bearer.id,
+          targetName: bearer.name,
+          targetType: bearer.type,
+          amount,
+          detail: effect.sign < 0 ? condition.damageType : undefined,
+        });
+        await addDiceRoll({
+          id: crypto.randomUUID(),
+          crawlerName: bearer.name,
+          crawlerId: bearer.id,
+          timestamp: Date.now(),
+          results: toDiceResults(roll),
+          total: amount,
+          notation: roll.notation,
+          breakdown: roll.terms,
+          rollAudit: roll.audit,
+          statRoll: { stat: `${condition.icon} ${condition.name} (${effect.label})`, modifier: 0, rawRoll: roll.total, diceLabel: roll.notation, rollType: effect.label },
+        });
+      }
+    }
+    const { remaining, expired } = tickConditions(conditions, mode);
+    for (const condition of expired) {
+      toast(`${condition.icon} ${condition.name} wore off ${bearer.name}`);
+    }
+    const newHP = Math.max(0, Math.min(maxHP, hp + delta));
+    if (hp > 0 && newHP === 0) {
+      events.push({ type: 'kill', targetId: bearer.id, targetName: bearer.name, targetType: bearer.type, detail: 'conditions' });
+    }
+    logger.log('[GameState] ⏳ Ticked conditions for', bearer.name, { delta, expired: expired.map(c => c.name) });
+    return { conditions: remaining, hp: newHP, events };
+  };
+
+  // Write a condition list to wherever the target keeps it (crawler doc or combatant entry)
+  const buildConditionOp = (
+    target: { id: string; type: 'crawler' | 'mob' },
+    update: (conditions: ActiveCondition[]) => ActiveCondition[],
+  ): BatchOperation | null => {
+    if (target.type === 'crawler') {
+      const crawler = crawlers.find(c => c.id === target.id);
+      if (!crawler) return null;
+      return { type: 'update' as const, collection: 'crawlers' as const, id: target.id, data: { conditions: update(crawler.conditions ?? []) } };
+    }
+    if (!combatState) return null;
+    const updatedCombatants = combatState.combatants.map(c =>
+      c.id === target.id ? { ...c, conditions: update(c.conditions ?? []) } : c
+    );
+    return combatStateOp({ combatants: updatedCombatants });
+  };
+
+  const getCombatantName = (id: string) =>
+    combatState?.combatants.find(c => c.id === id)?.name ?? crawlers.find(c => c.id === id)?.name ?? 'target';
+
+  const addCondition = async (target: { id: string; type: 'crawler' | 'mob' }, condition: ActiveCondition) => {
+    // Re-applying a condition by name refreshes it instead of stacking
+    const op = buildConditionOp(target, conditions => [...conditions.filter(c => c.name !== condition.name), condition]);
+    if (!op) return;
+    await commitCombatOps(`${condition.name} on ${getCombatantName(target.id)}`, [op]);
+    logger.log('[GameState] 🌀 Condition applied:', condition.name, '→', target.id);
+  };
+
+  const removeCondition = async (target: { id: string; type: 'crawler' | 'mob' }, conditionId: string) => {
+    const op = buildConditionOp(target, conditions => conditions.filter(c => c.id !== conditionId));
+    if (!op) return;
+    await commitCombatOps(`Remove condition from ${getCombatantName(target.id)}`, [op]);
+  };
+
+  // --- Reactions ---
+  // ShowTime registers a resolver for token distances (in feet) on the current map; null when unknown
+  const combatDistanceRef = useRef<((aId: string, bId: string) => number | null) | null>(null);
+  const registerCombatDistance = (resolver: ((aId: string, bId: string) => number | null) | null) => {
+    combatDistanceRef.current = resolver;
+  };
+
+  // Reactions a crawler could use for this trigger, given how far they are from whoever was attacked
+  const getReactionOptions = (crawler: Crawler, kind: ReactionTriggerKind, distanceFt: number | null): ReactionOption[] => {
+    const options: ReactionOption[] = [];
+    if (kind === 'enemy-leaves-reach') options.push({ name: 'Opportunity Attack' });
+    for (const known of crawler.knownSpells ?? []) {
+      const spell = spells.find(sp => sp.id === known.spellId);
+      const rule = spell?.spellData.reactionTriggerRule;
+      if (!spell || spell.spellData.actionType !== 'Reaction' || rule?.kind !== kind) continue;
+      if (kind === 'ally-attacked' && rule.rangeFt !== undefined && (distanceFt === null || distanceFt > rule.rangeFt)) continue;
+      options.push({ name: spell.name, spellId: spell.id });
+    }
+    return options;
+  };
+
+  // Offer reactions to eligible crawlers: in combat, reaction unspent this round, and holding a matching option
+  const buildReactionPrompts = (
+    kind: ReactionTriggerKind,
+    source: { id: string; name: string; type: 'crawler' | 'mob' },
+    candidates: { crawlerId: string; distanceFt: number | null; allyName?: string }[],
+  ): ReactionPrompt[] => {
+    if (!combatState?.active || combatState.phase !== 'combat') return [];
+    const now = Date.now();
+    const prompts: ReactionPrompt[] = [];
+    for (const candidate of candidates) {
+      const combatant = combatState.combatants.find(c => c.id === candidate.crawlerId && c.type === 'crawler');
+      const crawler = crawlers.find(c => c.id === candidate.crawlerId);
+      if (!combatant || !crawler || combatant.id === source.id) continue;
+      if (combatant.reactionUsedRound === combatState.combatRound) continue;
+      if ((crawler.hp ?? 0) <= 0) continue;
+      const options = getReactionOptions(crawler, kind, candidate.distanceFt);
+      if (options.length === 0) continue;
+      prompts.push({
+        id: crypto.randomUUID(),
+        crawlerId: crawler.id,
+        crawlerName: crawler.name,
+        trigger: kind,
+        sourceId: source.id,
+        sourceName: source.name,
+        sourceType: source.type,
+        allyName: candidate.allyName,
+        options,
+        round: combatState.combatRound,
+        expiresAt: now + REACTION_PROMPT_SECONDS * 1000,
+      });
+    }
+    return prompts;
+  };
+
+  const publishReactionPrompts = async (prompts: ReactionPrompt[]) => {
+    if (prompts.length === 0) return;
+    const now = Date.now();
+    const pending = (combatStateRef.current?.reactionPrompts ?? []).filter(p => p.expiresAt > now);
+    // Prompts are transient, so they stay out of the undo history; only a reaction's effects go in it
+    await batchWrite([combatStateOp({ reactionPrompts: [...pending, ...prompts] })]);
+    logger.log('[GameState] ⚡ Reaction prompts raised:', prompts.map(p => `${p.crawlerName} (${p.trigger})`));
+  };
+
+  // A hit on a crawler lets them react, and lets allies close enough react on their behalf
+  const raiseAttackReactions = async (targetId: string, targetType: 'crawler' | 'mob', source: DamageSource) => {
+    if (targetType !== 'crawler' || !combatState) return;
+    const sourceCombatant = combatState.combatants.find(c => c.id === source.id);
+    const sourceEntry = { id: source.id, name: source.name, type: source.type ?? sourceCombatant?.type ?? 'mob' };
+    const target = combatState.combatants.find(c => c.id === targetId);
+    const allies = combatState.combatants.filter(c => c.type === 'crawler' && c.id !== targetId);
+    await publishReactionPrompts([
+      ...buildReactionPrompts('when-hit', sourceEntry, [{ crawlerId: targetId, distanceFt: 0 }]),
+      ...buildReactionPrompts('ally-attacked', sourceEntry, allies.map(ally => ({
+        crawlerId: ally.id,
+        distanceFt: combatDistanceRef.current?.(ally.id, targetId) ?? null,
+        allyName: target?.name,
+      }))),
+    ]);
+  };
+
+  // Called by ShowTime when a dragged token ends its move out of some crawlers' reach
+  const triggerLeftReach = async (moverId: string, crawlerIds: string[]) => {
+    const mover = combatState?.combatants.find(c => c.id === moverId);
+    if (!mover || crawlerIds.length === 0) return;
+    await publishReactionPrompts(buildReactionPrompts('enemy-leaves-reach', { id: mover.id, name: mover.name, type: mover.type },
+      crawlerIds.map(crawlerId => ({ crawlerId, distanceFt: null }))));
   };
 
-  const applyCombatDamage = async (targetId: string, targetType: 'crawler' | 'mob', damage: number) => {
+  // Answer a prompt: null passes (or lets it expire); otherwise spend the round's reaction and resolve it
+  const respondToReaction = async (promptId: string, optionIndex: number | null) => {
+    // Read the latest state so prompts published since the last render survive this write
+    const current = combatStateRef.current;
+    if (!current) return;
+    const prompt = (current.reactionPrompts ?? []).find(p => p.id === promptId);
+    if (!prompt) return;
+    const option = optionIndex === null ? undefined : prompt.options[optionIndex];
+    const combatant = current.combatants.find(c => c.id === prompt.crawlerId);
+    const accepted = !!option && Date.now() <= prompt.expiresAt && !!combatant && combatant.reactionUsedRound !== current.combatRound;
+    // Spending the reaction also clears this crawler's other pending prompts for the round
+    const remaining = (current.reactionPrompts ?? []).filter(p =>
+      p.id !== promptId && !(accepted && p.crawlerId === prompt.crawlerId)
+    );
+    await batchWrite([combatStateOp({ reactionPrompts: remaining })]);
+    if (!accepted || !option) return;
+
+    toast.success(`${prompt.crawlerName} reacts with ${option.name}!`);
+    const target = { id: prompt.sourceId, type: prompt.sourceType };
+    if (option.spellId) {
+      if (!(await castSpell(prompt.crawlerId, option.spellId, target))) return;
+    } else {
+      // Opportunity attack: first equipped weapon, else an unarmed strike
+      const crawler = crawlers.find(c => c.id === prompt.crawlerId);
+      if (crawler) {
+        const crawlerInventory = getCrawlerInventory(crawler.id);
+        const weapon = Object.values(crawler.equippedItems ?? {})
+          .map(itemId => crawlerInventory.find(i => i.id === itemId))
+          .find(item => item?.weaponData);
+        const wd = weapon?.weaponData;
+        const mods = getEquippedModifiers(crawler, crawlerInventory);
+        const strModifier = getStatModifier((crawler.str ?? 10) + (mods.str ?? 0));
+        await resolveAttack({
+          attackerId: crawler.id,
+          attackerName: crawler.name,
+          actionName: `Opportunity Attack${weapon ? ` (${weapon.name})` : ''}`,
+          targetId: target.id,
+          targetType: target.type,
+          attackRoll: rollDiceExpression(buildAttackNotation(wd?.hitDie, getEncumberedAttackAdvantage(getCrawlerEncumbrance(crawler, crawlerInventory).tier))),
+          attackModifier: wd ? getStatHitBonus(crawler, wd.hitModifiers, mods) : strModifier,
+          damageNotation: wd ? formatWeaponDice(wd.damageDice) : '1d4',
+          damageBonus: wd ? getStatModifierBonus(crawler, wd.damageModifiers) : strModifier,
+          damageType: wd?.damageType ?? 'Basic',
+        });
+      }
+    }
+
+    // Mark the reaction spent last, from the latest state, so the attack's own combatant write isn't clobbered
+    const latest = combatStateRef.current;
+    if (!latest) return;
+    await commitCombatOps(`${prompt.crawlerName} reacts with ${option.name}`, [
+      combatStateOp({
+        combatants: latest.combatants.map(c =>
+          c.id === prompt.crawlerId ? { ...c, reactionUsedRound: latest.combatRound } : c
+        ),
+      }),
+      ...buildCombatLogOps([{
+        type: 'reaction',
+        actorId: prompt.crawlerId,
+        actorName: prompt.crawlerName,
+        actorType: 'crawler',
+        targetId: prompt.sourceId,
+        targetName: prompt.sourceName,
+        targetType: prompt.sourceType,
+        detail: option.name,
+      }], latest),
+    ]);
+  };
+
+  // Innate affinities merged with those of equipped items (mobs use their default loadout)
+  const getCombatantDamageAffinities = (targetId: string, targetType: 'crawler' | 'mob'): DamageAffinities => {
     if (targetType === 'crawler') {
       const crawler = crawlers.find(c => c.id === targetId);
-      if (crawler) {
-        const newHP = Math.max(0, (crawler.hp || 0) - damage);
-        await updateItem('crawlers', targetId, { hp: newHP } as Record<string, unknown>);
-        logger.log('[GameState] ⚔️ Damage applied to crawler', crawler.name, ':', damage, '→ HP:', newHP);
+      if (!crawler) return {};
+      return combineDamageAffinities(crawler.damageAffinities, getEquippedDamageAffinities(crawler.equippedItems, getCrawlerInventory(crawler.id)));
+    }
+    const combatant = combatState?.combatants.find(c => c.id === targetId);
+    const mob = mobs.find(m => m.id === (combatant?.sourceId || targetId));
+    if (!mob) return {};
+    return combineDamageAffinities(mob.damageAffinities, getEquippedDamageAffinities(mob.equippedItems, mob.defaultInventory ?? []));
+  };
+
+  // Apply damage to combatants after their damage-type affinities; returns the adjustments so callers can show them.
+  // Any change (resisted, doubled, immune) is also posted to the dice feed so the whole table sees it.
+  // Every target's HP write and combat log events go out as one undo entry, each built on the writes
+  // before it, so an area attack never overwrites its own earlier hits.
+  const applyCombatDamageToTargets = async (
+    hits: { targetId: string; targetType: 'crawler' | 'mob'; damage: number }[],
+    damageType?: DamageType | SpellDamageType,
+    options: CombatDamageOptions = {},
+  ): Promise<DamageAdjustment[]> => {
+    const { source, condition, attackerChanges } = options;
+    const actor = source ? { actorId: source.id, actorName: source.name, actorType: source.type } : {};
+    const adjustments: DamageAdjustment[] = [];
+    const events: CombatLogEvent[] = [];
+    const labels: string[] = [];
+    const crawlerOps = new Map<string, BatchOperation>();
+    const crawlerHP = new Map<string, number>();
+    const startingCombatants = combatStateRef.current?.combatants;
+    let combatants = startingCombatants;
+
+    for (const { targetId, targetType, damage: rawDamage } of hits) {
+      const crawlerTarget = targetType === 'crawler' ? crawlers.find(c => c.id === targetId) : undefined;
+      const combatantTarget = combatants?.find(c => c.id === targetId);
+      const mobTarget = targetType === 'mob' ? mobs.find(m => m.id === (combatantTarget?.sourceId || targetId)) : undefined;
+      const adjustment = applyDamageAffinity(rawDamage, damageType, getCombatantDamageAffinities(targetId, targetType));
+      adjustments.push(adjustment);
+      const damage = adjustment.finalDamage;
+      const targetName = combatantTarget?.name ?? crawlerTarget?.name ?? mobTarget?.name ?? 'target';
+
+      if (adjustment.affinity) {
+        await addDiceRoll({
+          id: crypto.randomUUID(),
+          crawlerName: 'SYSTEM',
+          crawlerId: '__system__',
+          timestamp: Date.now(),
+          results: [],
+          total: damage,
+          damageNotification: {
+            targetName,
+            damageType: adjustment.damageType as string,
+            affinity: adjustment.affinity,
+            baseDamage: adjustment.baseDamage,
+            finalDamage: damage,
+          },
+        });
+      }
+
+      let hpBefore: number;
+      let newHP: number;
+      if (crawlerTarget) {
+        hpBefore = crawlerHP.get(targetId) ?? (crawlerTarget.hp || 0);
+        newHP = Math.max(0, hpBefore - damage);
+        crawlerHP.set(targetId, newHP);
+        const conditions = condition ? [...(crawlerTarget.conditions ?? []).filter(c => c.name !== condition.name), condition] : undefined;
+        crawlerOps.set(targetId, {
+          type: 'update' as const,
+          collection: 'crawlers' as const,
+          id: targetId,
+          data: (conditions ? { hp: newHP, conditions } : { hp: newHP }) as Record<string, unknown>,
+        });
+        logger.log('[GameState] ⚔️ Damage applied to crawler', targetName, ':', damage, '→ HP:', newHP);
+      } else if (mobTarget && combatants) {
+        // Per-combatant HP in combat state (independent per instance); the shared mob document's
+        // hitPoints stays the base/max HP for the mob type
+        hpBefore = combatantTarget?.currentHP ?? mobTarget.hitPoints ?? 0;
+        newHP = Math.max(0, hpBefore - damage);
+        const hp = newHP;
+        combatants = combatants.map(c => {
+          if (c.id !== targetId) return c;
+          if (!condition) return { ...c, currentHP: hp };
+          return { ...c, currentHP: hp, conditions: [...(c.conditions ?? []).filter(cond => cond.name !== condition.name), condition] };
+        });
+        logger.log('[GameState] ⚔️ Damage applied to mob', targetName, ':', damage, '→ HP:', newHP);
+      } else {
+        continue;
       }
+
+      const target = { targetId, targetName, targetType };
+      labels.push(`${damage} damage to ${targetName}`);
+      events.push({ type: 'damage', ...actor, ...target, amount: damage, detail: adjustment.affinity ? `${adjustment.damageType} ${adjustment.affinity}` : adjustment.damageType });
+      if (hpBefore > 0 && newHP === 0) events.push({ type: 'kill', ...actor, ...target });
+    }
+
+    if (attackerChanges && combatants) {
+      combatants = combatants.map(c => (c.id === attackerChanges.combatantId ? { ...c, ...attackerChanges.changes } : c));
+      if (attackerChanges.event) events.unshift(attackerChanges.event);
+    }
+    const operations: BatchOperation[] = [...crawlerOps.values()];
+    if (combatants !== startingCombatants) operations.push(combatStateOp({ combatants }));
+    if (operations.length > 0) {
+      const label = labels.length === 1 ? labels[0]
+        : labels.length > 1 ? `${source?.name ?? 'Area'} damage to ${labels.length} targets`
+        : `${source?.name ?? 'Combatant'} attacked`;
+      await commitCombatOps(label, [
+        ...operations,
+        ...buildCombatLogOps(events),
+      ]);
+    }
+    for (const { targetId, targetType } of hits) {
+      if (source && source.id !== targetId) await raiseAttackReactions(targetId, targetType, source);
+    }
+    return adjustments;
+  };
+
+  const applyCombatDamage = async (
+    targetId: string,
+    targetType: 'crawler' | 'mob',
+    rawDamage: number,
+    damageType?: DamageType | SpellDamageType,
+    options: CombatDamageOptions = {},
+  ): Promise<DamageAdjustment> =>
+    (await applyCombatDamageToTargets([{ targetId, targetType, damage: rawDamage }], damageType, options))[0];
+
+  const getCombatantArmorClass = (targetId: string, targetType: 'crawler' | 'mob'): number => {
+    if (targetType === 'crawler') {
+      const crawler = crawlers.find(c => c.id === targetId);
+      if (!crawler) return DEFAULT_ARMOR_CLASS;
+      return getCrawlerArmorClass(crawler, getEquippedModifiers(crawler, getCrawlerInventory(crawler.id)));
+    }
+    const combatant = combatState?.combatants.find(c => c.id === targetId);
+    const mob = mobs.find(m => m.id === (combatant?.sourceId || targetId));
+    return mob?.armorClass ?? DEFAULT_ARMOR_CLASS;
+  };
+
+  // Resolve a rolled attack against the target's armor class. Hits roll and apply damage automatically
+  // (criticals double the damage dice); the outcome and damage roll are both posted to the dice feed.
+  const resolveAttack = async (attack: AttackRequest): Promise<AttackResolution> => {
+    const target = combatState?.combatants.find(c => c.id === attack.targetId);
+    const targetName = target?.name
+      ?? crawlers.find(c => c.id === attack.targetId)?.name
+      ?? mobs.find(m => m.id === attack.targetId)?.name
+      ?? 'target';
+    const armorClass = getCombatantArmorClass(attack.targetId, attack.targetType);
+    const naturalRoll = getNaturalRoll(attack.attackRoll);
+    const attackTotal = attack.attackRoll.total + attack.attackModifier;
+    const outcome = resolveAttackOutcome(naturalRoll, attackTotal, armorClass);
+
+    let damageRoll: DiceRollResult | null = null;
+    let damage: number | undefined;
+    if (outcome !== 'miss' && attack.damageNotation && isValidDiceExpression(attack.damageNotation)) {
+      damageRoll = rollDiceExpression(outcome === 'critical' ? doubleDiceNotation(attack.damageNotation) : attack.damageNotation);
+      damage = Math.max(0, damageRoll.total + (attack.damageBonus ?? 0));
+    }
+    // What the target actually takes after resistances, for the feed and the caller
+    const finalDamage = damage === undefined
+      ? undefined
+      : applyDamageAffinity(damage, attack.damageType, getCombatantDamageAffinities(attack.targetId, attack.targetType)).finalDamage;
+
+    const timestamp = Date.now();
+    await addDiceRoll({
+      id: crypto.randomUUID(),
+      crawlerName: attack.attackerName,
+      crawlerId: attack.attackerId,
+      timestamp,
+      results: toDiceResults(attack.attackRoll),
+      total: attackTotal,
+      notation: attack.attackRoll.notation,
+      breakdown: attack.attackRoll.terms,
+      rollAudit: attack.attackRoll.audit,
+      statRoll: { stat: `${attack.actionName} (Attack → ${targetName})`, modifier: attackTotal - naturalRoll, rawRoll: naturalRoll, rollType: 'Attack roll' },
+      attackOutcome: { targetId: attack.targetId, targetName, armorClass, outcome, damage: finalDamage },
+    });
+
+    if (damageRoll && damage !== undefined) {
+      await addDiceRoll({
+        id: crypto.randomUUID(),
+        crawlerName: attack.attackerName,
+        crawlerId: attack.attackerId,
+        timestamp: timestamp + 1, // keep the damage roll right after its attack in the feed
+        results: toDiceResults(damageRoll),
+        total: damage,
+        notation: damageRoll.notation,
+        breakdown: damageRoll.terms,
+        rollAudit: damageRoll.audit,
+        statRoll: {
+          stat: `${attack.actionName} (${outcome === 'critical' ? 'Critical ' : ''}Damage → ${targetName})`,
+          modifier: attack.damageBonus ?? 0,
+          rawRoll: damageRoll.total,
+          diceLabel: damageRoll.notation,
+          rollType: 'Damage',
+        },
+      });
+      await applyCombatDamage(attack.targetId, attack.targetType, damage, attack.damageType, {
+        source: { id: attack.attackerId, name: attack.attackerName, type: attack.attackerType ?? 'crawler' },
+        condition: attack.onHitCondition,
+        attackerChanges: attack.attackerChanges,
+      });
     } else {
-      const combatant = combatState?.combatants.find(c => c.id === targetId);
-      const mobId = combatant?.sourceId || targetId;
-      const mob = mobs.find(m => m.id === mobId);
-      if (mob) {
-        const hpBefore = combatant?.currentHP ?? mob.hitPoints ?? 0;
-        const newHP = Math.max(0, hpBefore - damage);
-        // Update per-combatant HP in combat state (independent per instance)
-        if (combatState) {
-          const updatedCombatants = combatState.combatants.map(c =>
-            c.id === targetId ? { ...c, currentHP: newHP } : c
-          );
-          await updateItem('combatState', 'current', { combatants: updatedCombatants } as Record<string, unknown>);
-        }
-        // Do NOT update the shared mob document — each combatant instance tracks HP independently
-        // The mob document's hitPoints represents the base/max HP for the mob type
-        logger.log('[GameState] ⚔️ Damage applied to mob', combatant?.name ?? mob.name, ':', damage, '→ HP:', newHP);
+      if (outcome !== 'miss' && attack.onHitCondition) {
+        await addCondition({ id: attack.targetId, type: attack.targetType }, attack.onHitCondition);
+      }
+      const latest = combatStateRef.current;
+      const changes = attack.attackerChanges;
+      if (changes && latest) {
+        await commitCombatOps(`${attack.attackerName} used ${attack.actionName}`, [
+          combatStateOp({ combatants: latest.combatants.map(c => (c.id === changes.combatantId ? { ...c, ...changes.changes } : c)) }),
+          ...(changes.event ? buildCombatLogOps([changes.event]) : []),
+        ]);
       }
     }
+
+    logger.log('[GameState] 🎯 Attack', attack.actionName, '→', targetName, ':', outcome, `(${attackTotal} vs AC ${armorClass})`, finalDamage !== undefined ? `${finalDamage} dmg` : '');
+    return { outcome, targetName, armorClass, attackTotal, damage: finalDamage };
+  };
+
+  // DM rolls one of a mob's stat-block actions against a crawler, spending the mob's action
+  const resolveMobAction = async (combatantId: string, actionId: string, targetId: string): Promise<AttackResolution | null> => {
+    const combatant = combatState?.combatants.find(c => c.id === combatantId && c.type === 'mob');
+    const mob = combatant ? mobs.find(m => m.id === (combatant.sourceId || combatant.id)) : undefined;
+    const action = mob?.actions?.find(a => a.id === actionId);
+    if (!combatant || !mob || !action) return null;
+    const { attackModifier, damageBonus } = getMobActionBonuses(mob, action);
+    return resolveAttack({
+      attackerId: combatant.id,
+      attackerName: combatant.name,
+      attackerType: 'mob',
+      actionName: action.name,
+      targetId,
+      targetType: 'crawler',
+      attackRoll: rollDiceExpression('1d20'),
+      attackModifier,
+      damageNotation: formatWeaponDice(action.damageDice),
+      damageBonus,
+      damageType: action.damageType,
+      // Spending the action goes in the same undo entry as the damage
+      attackerChanges: {
+        combatantId: combatant.id,
+        changes: { hasUsedAction: true },
+        event: { type: 'action', actorId: combatant.id, actorName: combatant.name, actorType: 'mob', detail: action.name },
+      },
+    });
   };
 
   const overrideMobHealth = async (combatantId: string, newHP: number) => {
@@ -989,8 +1993,12 @@ export const useGameState = () => {
       const updatedCombatants = combatState.combatants.map(c =>
         c.id === combatantId ? { ...c, currentHP: newHP } : c
       );
-      await updateItem('combatState', 'current', { combatants: updatedCombatants } as Record<string, unknown>);
       // Do NOT update the shared mob document — each combatant instance tracks HP independently
+      const combatant = combatState.combatants.find(c => c.id === combatantId);
+      await commitCombatOps(`Set ${combatant?.name ?? 'combatant'} HP to ${newHP}`, [
+        combatStateOp({ combatants: updatedCombatants }),
+        ...buildCombatLogOps([{ type: 'hp-override', targetId: combatantId, targetName: combatant?.name, targetType: combatant?.type, amount: newHP }]),
+      ]);
     } else {
       // Fallback when not in combat: direct mob document update
       await updateItem('mobs', combatantId, { hitPoints: newHP } as Record<string, unknown>);
@@ -1000,6 +2008,7 @@ export const useGameState = () => {
 
   const endCombat = async () => {
     if (!combatState) return;
+    const operations: BatchOperation[] = [];
 
     // Persist mob HP changes to the episode before clearing combat state
     if (combatState.episodeId) {
@@ -1030,18 +2039,61 @@ export const useGameState = () => {
         }
 
         if (changed) {
-          await updateEpisode(episode.id, { mobPlacements: updatedPlacements });
-          logger.log('[GameState] ⚔️ Persisted mob HP to episode', episode.id);
+          operations.push({
+            type: 'update' as const,
+            collection: 'episodes' as const,
+            id: episode.id,
+            data: { mobPlacements: updatedPlacements, updatedAt: new Date().toISOString() } as Record<string, unknown>,
+          });
+          logger.log('[GameState] ⚔️ Persisting mob HP to episode', episode.id);
         }
       }
     }
 
-    await updateItem('combatState', 'current', {
+    // Every mob that went down (logged kills, plus any still at 0 HP) pays XP by its level, split
+    // between the crawlers still standing when the combat ends; crawlers at 0 HP get no share
+    const killedIds = new Set(
+      (getCollection('combatLogs') as CombatLogEntry[])
+        .filter(e => e.combatId === combatState.combatId && e.type === 'kill' && e.targetType === 'mob' && e.targetId)
+        .map(e => e.targetId!),
+    );
+    combatState.combatants
+      .filter(c => c.type === 'mob' && c.currentHP !== undefined && c.currentHP <= 0)
+      .forEach(c => killedIds.add(c.id));
+    const killXp = [...killedIds].reduce((sum, combatantId) => {
+      const sourceId = combatState.combatants.find(c => c.id === combatantId)?.sourceId;
+      const mob = mobs.find(m => m.id === sourceId || m.id === combatantId || combatantId.startsWith(m.id + ':'));
+      return sum + getMobKillXp(mob?.level ?? 1, progressionSettings);
+    }, 0);
+    const standingCrawlerIds = combatState.combatants
+      .filter(c => c.type === 'crawler' && (crawlers.find(cr => cr.id === c.id)?.hp ?? 0) > 0)
+      .map(c => c.id);
+    const xpShares = splitXp(killXp, standingCrawlerIds);
+    const xpOps = buildXpOps(xpShares);
+
+    // Conditions measured only in combat turns end with the combat
+    const isCombatOnly = (c: ActiveCondition) => isConditionTimedOnlyIn(c, 'combat');
+    for (const cr of crawlers.filter(cr => cr.conditions?.some(isCombatOnly))) {
+      const xpOp = xpOps.find(op => op.id === cr.id);
+      const data = { conditions: cr.conditions!.filter(c => !isCombatOnly(c)) };
+      if (xpOp) xpOp.data = { ...xpOp.data, ...data };
+      else operations.push({ type: 'update' as const, collection: 'crawlers' as const, id: cr.id, data: data as Record<string, unknown> });
+    }
+    operations.push(...xpOps);
+
+    operations.push(combatStateOp({
       active: false,
       phase: 'ended',
       combatants: [],
       currentTurnIndex: 0,
-    } as Record<string, unknown>);
+    }));
+    operations.push(...buildCombatLogOps([
+      ...Object.entries(xpShares)
+        .filter(([, amount]) => amount > 0)
+        .map(([id, amount]) => ({ type: 'xp' as const, targetId: id, targetName: crawlers.find(c => c.id === id)?.name, targetType: 'crawler' as const, amount })),
+      { type: 'end' },
+    ]));
+    await commitCombatOps('End combat', operations);
     logger.log('[GameState] ⚔️ Combat ended');
   };
 
@@ -1049,13 +2101,16 @@ export const useGameState = () => {
     if (!combatState) return;
     // Cancel reverts combat count (it wasn't a real combat)
     const revertedCount = Math.max(0, (combatState.combatCount ?? 1) - 1);
-    await updateItem('combatState', 'current', {
-      active: false,
-      phase: 'ended',
-      combatants: [],
-      currentTurnIndex: 0,
-      combatCount: revertedCount,
-    } as Record<string, unknown>);
+    await commitCombatOps('Cancel combat', [
+      combatStateOp({
+        active: false,
+        phase: 'ended',
+        combatants: [],
+        currentTurnIndex: 0,
+        combatCount: revertedCount,
+      }),
+      ...buildCombatLogOps([{ type: 'end', detail: 'cancelled' }]),
+    ]);
     logger.log('[GameState] ⚔️ Combat cancelled (count reverted to', revertedCount, ')');
   };
 
@@ -1070,13 +2125,17 @@ export const useGameState = () => {
     } else if (newIndex >= updatedCombatants.length) {
       newIndex = 0;
     }
-    await updateItem('combatState', 'current', {
-      combatants: updatedCombatants,
-      currentTurnIndex: newIndex,
-    } as Record<string, unknown>);
+    const removed = combatState.combatants[removedIndex];
+    await commitCombatOps(`Remove ${removed?.name ?? 'combatant'}`, [
+      combatStateOp({
+        combatants: updatedCombatants,
+        currentTurnIndex: newIndex,
+      }),
+      ...(removed ? buildCombatLogOps([{ type: 'combatant-removed', targetId: removed.id, targetName: removed.name, targetType: removed.type }]) : []),
+    ]);
   };
 
-  const addCombatant = async (newCombatants: CombatantEntry[]) => {
+  const addCombatant = async (newCombatants: CombatantEntry[], initiativeRolls?: Record<string, DiceRollResult>) => {
     if (!combatState || newCombatants.length === 0) return;
     const existing = combatState.combatants;
     // Filter out any that are already in combat
@@ -1093,22 +2152,18 @@ export const useGameState = () => {
       updatedCombatants = [...existing, ...toAdd];
     }
 
-    await updateItem('combatState', 'current', {
-      combatants: updatedCombatants,
-    } as Record<string, unknown>);
+    const mobsAdded = toAdd.filter(c => c.type === 'mob' && c.hasRolledInitiative);
+    await commitCombatOps(`Add ${toAdd.map(c => c.name).join(', ')}`, [
+      combatStateOp({ combatants: updatedCombatants }),
+      ...buildCombatLogOps([
+        ...toAdd.map(c => ({ type: 'combatant-added' as const, targetId: c.id, targetName: c.name, targetType: c.type })),
+        ...mobsAdded.map(c => ({ type: 'initiative' as const, actorId: c.id, actorName: c.name, actorType: c.type, amount: c.initiative })),
+      ]),
+    ]);
 
     // Log mob initiative rolls to dice panel
-    const mobsAdded = toAdd.filter(c => c.type === 'mob' && c.hasRolledInitiative);
     for (const mc of mobsAdded) {
-      await addDiceRoll({
-        id: crypto.randomUUID(),
-        crawlerName: mc.name,
-        crawlerId: mc.id,
-        timestamp: Date.now(),
-        results: [{ dice: 'D20', result: mc.initiative }],
-        total: mc.initiative,
-        statRoll: { stat: 'Initiative', modifier: 0, rawRoll: mc.initiative },
-      });
+      await addDiceRoll(buildInitiativeDiceEntry(mc, initiativeRolls?.[mc.id]));
     }
 
     logger.log('[GameState] ➕ Added', toAdd.length, 'combatant(s) to active combat');
@@ -1159,25 +2214,66 @@ export const useGameState = () => {
     await updateCrawler(crawlerId, { knownSpells: updated });
   };
 
-  // Increment cast count for a spell; fires toast if mastery level increases
-  const castSpell = async (crawlerId: string, spellId: string) => {
+  // Spend the spell's mana (discounted by mastery) and increment its cast count; fires toast if mastery
+  // level increases. Returns false without casting when the crawler can't pay the mana.
+  // Spells with a hitDie cast at a combat target roll a spell attack against its armor class.
+  const castSpell = async (crawlerId: string, spellId: string, target?: { id: string; type: 'crawler' | 'mob' }): Promise<boolean> => {
     const crawler = crawlers.find(c => c.id === crawlerId);
-    if (!crawler) return;
+    if (!crawler) return false;
     const knownSpells = [...(crawler.knownSpells ?? [])];
     const idx = knownSpells.findIndex(ks => ks.spellId === spellId);
-    if (idx === -1) return;
+    if (idx === -1) return false;
     const prev = knownSpells[idx];
     const newCastCount = prev.castCount + 1;
     const prevMastery = getSpellMasteryLevel(prev.castCount);
     const newMastery = getSpellMasteryLevel(newCastCount);
+
+    const spell = spells.find(s => s.id === spellId);
+    const spellData = spell?.spellData;
+    const manaCost = spellData ? getEffectiveManaCost(spellData.manaCost, prevMastery) : 0;
+    const mods = getEquippedModifiers(crawler, getCrawlerInventory(crawlerId));
+    const availableMana = (crawler.mana || 0) + (mods.mana ?? 0);
+    if (availableMana < manaCost) {
+      toast.error(`${crawler.name} needs ${manaCost} MP to cast ${prev.spellName} (has ${availableMana})`);
+      return false;
+    }
+
     knownSpells[idx] = { ...prev, castCount: newCastCount };
-    await updateCrawler(crawlerId, { knownSpells });
+    // Equipped mana counts toward paying the cost, but the stored base mana bottoms out at 0
+    await updateCrawler(crawlerId, { knownSpells, mana: Math.max(0, (crawler.mana || 0) - manaCost) });
     if (newMastery > prevMastery) {
       toast.success(`${crawler.name} leveled up ${prev.spellName} to mastery level ${newMastery}!`);
     }
+
+    // Spells with a duration leave a lingering condition on whoever they land on
+    const spellCondition = spell ? createSpellCondition(spell) : null;
+    if (spellCondition && spellData?.target === 'Self') {
+      await addCondition({ id: crawler.id, type: 'crawler' }, spellCondition);
+    }
+    if (target && spellData?.hitDie && combatState?.active) {
+      const result = await resolveAttack({
+        attackerId: crawler.id,
+        attackerName: crawler.name,
+        actionName: prev.spellName,
+        targetId: target.id,
+        targetType: target.type,
+        attackRoll: rollDiceExpression(buildAttackNotation(spellData.hitDie)),
+        attackModifier: getStatHitBonus(crawler, spellData.hitModifiers, mods),
+        damageNotation: spellData.damageDice?.length ? formatWeaponDice(spellData.damageDice) : undefined,
+        damageBonus: getStatModifierBonus(crawler, spellData.damageModifiers),
+        damageType: spellData.damageType,
+        onHitCondition: spellCondition && spellData.target !== 'Self' ? spellCondition : undefined,
+      });
+      if (result.outcome === 'miss') {
+        toast(`${prev.spellName} missed ${result.targetName}`);
+      } else {
+        toast.success(`${prev.spellName} ${result.outcome === 'critical' ? 'critically hit' : 'hit'} ${result.targetName}${result.damage !== undefined ? ` for ${result.damage} damage` : ''}`);
+      }
+    }
+    return true;
   };
 
-  // Consume a spell tome item: learn all spells in the tome (skipping known ones) and remove the item
+  // Consume a spell tome item: learn all spells in the tome (skipping known ones) and use up one copy
   const consumeSpellTome = async (crawlerId: string, itemId: string) => {
     const crawlerInv = getCrawlerInventory(crawlerId);
     const item = crawlerInv.find(i => i.id === itemId);
@@ -1232,7 +2328,7 @@ export const useGameState = () => {
         type: 'update' as const,
         collection: 'inventory' as const,
         id: crawlerId,
-        data: { items: crawlerInv.filter(i => i.id !== itemId) } as Record<string, unknown>,
+        data: { items: removeFromInventory(crawlerInv, itemId) } as Record<string, unknown>,
       },
       {
         type: 'update' as const,
@@ -1250,6 +2346,146 @@ export const useGameState = () => {
     }
   };
 
+  // Where a teleport effect can send a crawler: the map their token is on and its matching links
+  const findTeleportTarget = async (crawlerId: string, linkKind: MapLinkKind | undefined, episode: Episode | null | undefined) => {
+    if (!episode) return null;
+    for (const mapId of episode.mapIds) {
+      const ref = doc(db, getPerMapDocPath(roomId, 'crawler-placements', episode.id, mapId));
+      const snapshot = await getDoc(ref);
+      const placements: CrawlerPlacement[] = snapshot.exists()
+        ? snapshot.data().placements ?? []
+        : (episode.crawlerPlacements ?? []).filter(p => p.mapId === mapId);
+      if (!placements.some(p => p.crawlerId === crawlerId)) continue;
+      const links = (episode.mapSettings?.[mapId]?.links ?? []).filter(link => !linkKind || link.kind === linkKind);
+      return links.length > 0 ? { ref, episodeId: episode.id, mapId, placements, links } : null;
+    }
+    return null;
+  };
+
+  // Use a consumable item: apply its effects in order, post rolls and the outcome to the dice feed and
+  // use up one unit. A teleport with nowhere to go cancels the use so the item isn't wasted.
+  const consumeItem = async (crawlerId: string, itemId: string, episode?: Episode | null) => {
+    const crawler = crawlers.find(c => c.id === crawlerId);
+    const crawlerInv = getCrawlerInventory(crawlerId);
+    const item = crawlerInv.find(i => i.id === itemId);
+    if (!crawler || !item || !isConsumable(item)) return;
+    const effects = item.consumableEffects ?? [];
+
+    const teleportEffect = effects.find(e => e.type === 'teleport');
+    const teleportTarget = teleportEffect?.type === 'teleport'
+      ? await findTeleportTarget(crawlerId, teleportEffect.linkKind, episode)
+      : null;
+    if (teleportEffect && !teleportTarget) {
+      toast.error(`${item.name} has nowhere to send ${crawler.name}. Their token must be on a map with a matching link.`);
+      return;
+    }
+
+    const mods = getEquippedModifiers(crawler, crawlerInv);
+    const maxHP = (crawler.maxHP || 0) + (mods.maxHP ?? 0);
+    const maxMana = (crawler.maxMana || 0) + (mods.maxMana ?? 0);
+    let hp = crawler.hp || 0;
+    let mana = crawler.mana || 0;
+    let conditions = crawler.conditions ?? [];
+    let destination: MapLink | null = null;
+    const outcomes: string[] = [];
+    const events: CombatLogEvent[] = [];
+
+    const postRoll = (roll: DiceRollResult, label: string) => addDiceRoll({
+      id: crypto.randomUUID(),
+      crawlerName: crawler.name,
+      crawlerId,
+      timestamp: Date.now(),
+      results: toDiceResults(roll),
+      total: roll.total,
+      notation: roll.notation,
+      breakdown: roll.terms,
+      rollAudit: roll.audit,
+      statRoll: { stat: `🧪 ${item.name} (${label})`, modifier: 0, rawRoll: roll.total, diceLabel: roll.notation, rollType: label },
+    });
+
+    for (const effect of effects) {
+      switch (effect.type) {
+        case 'heal': {
+          if (!isValidDiceExpression(effect.dice)) break;
+          const roll = rollDiceExpression(effect.dice);
+          await postRoll(roll, 'Healing');
+          const gained = Math.max(0, Math.min(maxHP, hp + roll.total) - hp);
+          hp += gained;
+          outcomes.push(`+${gained} HP`);
+          if (gained > 0) {
+            events.push({ type: 'healing', actorId: crawler.id, actorName: `🧪 ${item.name}`, targetId: crawler.id, targetName: crawler.name, targetType: 'crawler', amount: gained });
+          }
+          break;
+        }
+        case 'mana': {
+          if (!isValidDiceExpression(effect.dice)) break;
+          const roll = rollDiceExpression(effect.dice);
+          await postRoll(roll, 'Mana');
+          const gained = Math.max(0, Math.min(maxMana, mana + roll.total) - mana);
+          mana += gained;
+          outcomes.push(`+${gained} mana`);
+          break;
+        }
+        case 'buff': {
+          const condition = createConsumableCondition(item, effect);
+          conditions = [...conditions.filter(c => c.name !== condition.name), condition];
+          outcomes.push(describeConsumableEffect(effect));
+          break;
+        }
+        case 'cure': {
+          const { remaining, cured } = cureConditions(conditions, effect);
+          conditions = remaining;
+          outcomes.push(cured.length > 0 ? `cured ${cured.map(c => c.name).join(', ')}` : 'nothing to cure');
+          break;
+        }
+        case 'teleport': {
+          if (!teleportTarget || destination) break;
+          const { links } = teleportTarget;
+          const roll = rollDiceExpression(`1d${links.length}`);
+          if (links.length > 1) await postRoll(roll, 'Teleport');
+          destination = links[roll.total - 1] ?? links[0];
+          outcomes.push(`teleported to the ${MAP_LINK_KIND_LABELS[destination.kind].toLowerCase()}`);
+          break;
+        }
+      }
+    }
+
+    const operations: BatchOperation[] = [
+      {
+        type: 'update' as const,
+        collection: 'inventory' as const,
+        id: crawlerId,
+        data: { items: removeFromInventory(crawlerInv, itemId) } as Record<string, unknown>,
+      },
+      {
+        type: 'update' as const,
+        collection: 'crawlers' as const,
+        id: crawlerId,
+        data: { hp, mana, conditions } as Record<string, unknown>,
+      },
+    ];
+    // Mid-fight the potion is part of the combat history, so the DM can undo it like any other action
+    if (combatState?.active) await commitCombatOps(`${crawler.name} uses ${item.name}`, [...operations, ...buildCombatLogOps(events)]);
+    else await batchWrite(operations);
+
+    if (destination && teleportTarget) {
+      const { x, y } = destination;
+      const placements = teleportTarget.placements.map(p => (p.crawlerId === crawlerId ? { ...p, x, y } : p));
+      await setDoc(teleportTarget.ref, { episodeId: teleportTarget.episodeId, mapId: teleportTarget.mapId, placements }, { merge: true });
+    }
+
+    await addDiceRoll({
+      id: crypto.randomUUID(),
+      crawlerName: crawler.name,
+      crawlerId,
+      timestamp: Date.now(),
+      results: [],
+      total: 0,
+      itemNotification: { itemName: item.name, outcomes },
+    });
+    logger.log('[GameState] 🧪 Used consumable', item.name, 'on', crawler.name, outcomes);
+  };
+
   // Promote an embedded custom spell from a tome to the shared spell library
   const promoteSpellToLibrary = async (spell: Spell) => {
     if (spells.some(s => s.id === spell.id)) return; // already in library
@@ -1284,8 +2520,13 @@ export const useGameState = () => {
     setMobs,
     maps,
     mapNames,
+    mapAssets,
+    mapIds,
     updateMapName,
-    setMaps,
+    addMap,
+    deleteMap,
+    migrateLegacyMapReferences,
+    migrateInventoryStacks,
     cleanupEmptyMaps,
     episodes,
     addEpisode,
@@ -1302,6 +2543,14 @@ export const useGameState = () => {
     addLootBoxTemplate,
     updateLootBoxTemplate,
     deleteLootBoxTemplate,
+    races,
+    addRace,
+    updateRace,
+    deleteRace,
+    jobs,
+    addJob,
+    updateJob,
+    deleteJob,
     quests,
     addQuest,
     updateQuest,
@@ -1311,9 +2560,11 @@ export const useGameState = () => {
     updateAssignedQuest,
     deleteAssignedQuest,
     getCrawlerAssignedQuests,
+    completeAssignedQuest,
     diceRolls,
     addDiceRoll,
     clearDiceRolls,
+    verifyDiceRollLog,
     noncombatTurnState,
     startNoncombatTurn,
     resetNoncombatTurns,
@@ -1321,6 +2572,8 @@ export const useGameState = () => {
     getNoncombatRollsRemaining,
     gameClockState,
     setGameClock,
+    progressionSettings,
+    updateProgressionSettings,
     performShortRest,
     performLongRest,
     combatState,
@@ -1330,7 +2583,21 @@ export const useGameState = () => {
     confirmInitiative,
     advanceCombatTurn,
     recordCombatAction,
+    recordCombatMovement,
     applyCombatDamage,
+    applyCombatDamageToTargets,
+    resolveAttack,
+    resolveMobAction,
+    addCondition,
+    removeCondition,
+    combatLogs,
+    registerCombatDistance,
+    triggerLeftReach,
+    respondToReaction,
+    undoCombatAction,
+    redoCombatAction,
+    combatUndoLabel: combatHistoryLabels.undo,
+    combatRedoLabel: combatHistoryLabels.redo,
     overrideMobHealth,
     endCombat,
     cancelCombat,
@@ -1348,6 +2615,7 @@ export const useGameState = () => {
     forgetSpell,
     castSpell,
     consumeSpellTome,
+    consumeItem,
     promoteSpellToLibrary,
     roomId,
     setRoomId,
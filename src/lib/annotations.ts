@@ -0,0 +1,90 @@
+// Map annotations: freehand pen strokes, arrows, text labels and polygon areas drawn over a ShowTime map.
+//
+// Points are map percentages (0-100 on both axes), like every other map overlay. Annotations are
+// kept per episode/map keyed by id, so concurrent drawers never overwrite each other's strokes.
+// Everyone's annotations live in the `map-annotations` doc that every client subscribes to;
+// DM-only ones live in a separate `dm-map-annotations` doc that only the DM's client loads.
+
+import { isPointInPolygon, type Point } from "@/lib/lineOfSight";
+import { getPerMapDocPath } from "@/lib/mapReferences";
+
+export const ANNOTATION_KINDS = ['pen', 'arrow', 'text', 'polygon'] as const;
+export type AnnotationKind = typeof ANNOTATION_KINDS[number];
+export type AnnotationTool = AnnotationKind | 'eraser';
+export type AnnotationVisibility = 'everyone' | 'dm';
+
+export interface MapAnnotation {
+  id: string;
+  kind: AnnotationKind;
+  points: Point[]; // pen: the stroke; arrow: [tail, head]; polygon: its vertices; text: [anchor]
+  text?: string; // text labels only
+  color: string;
+  visibility: AnnotationVisibility;
+  ownerId: string;
+  ownerName?: string;
+  createdAt: number;
+}
+
+export const ANNOTATION_DOC_COLLECTIONS: Record<AnnotationVisibility, string> = {
+  everyone: 'map-annotations',
+  dm: 'dm-map-annotations',
+};
+
+export const getAnnotationsPath = (
+  roomId: string | null | undefined,
+  episodeId: string,
+  mapId: string,
+  visibility: AnnotationVisibility = 'everyone',
+) => getPerMapDocPath(roomId, ANNOTATION_DOC_COLLECTIONS[visibility], episodeId, mapId);
+
+// DM-only annotations saved before they had their own doc can still turn up in the shared one
+export const isAnnotationVisible = (annotation: MapAnnotation, isAdmin: boolean) =>
+  isAdmin || annotation.visibility === 'everyone';
+
+// The DM can erase anything; everyone else only their own
+export const canEraseAnnotation = (annotation: MapAnnotation, ownerId: string, isAdmin: boolean) =>
+  isAdmin || annotation.ownerId === ownerId;
+
+// Drop stroke points closer than `minDistance` (map %) to the last kept one; keeps docs small
+export function simplifyStroke(points: Point[], minDistance: number): Point[] {
+  if (points.length < 3) return points;
+  const kept = [points[0]];
+  for (let i = 1; i < points.length - 1; i++) {
+    const last = kept[kept.length - 1];
+    if (Math.hypot(points[i].x - last.x, points[i].y - last.y) >= minDistance) kept.push(points[i]);
+  }
+  kept.push(points[points.length - 1]);
+  return kept;
+}
+
+function distanceToSegment(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq)) : 0;
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+// Topmost annotation under a point. Distances are measured in pixels of a `size` map so the hit
+// area stays round on non-square maps.
+export function findAnnotationAt(
+  point: Point,
+  annotations: MapAnnotation[],
+  radiusPx: number,
+  size: { width: number; height: number },
+): MapAnnotation | null {
+  const toPx = (p: Point): Point => ({ x: (p.x / 100) * size.width, y: (p.y / 100) * size.height });
+  const target = toPx(point);
+  for (let i = annotations.length - 1; i >= 0; i--) {
+    const annotation = annotations[i];
+    const points = annotation.points.map(toPx);
+    if (points.length === 0) continue;
+    if (annotation.kind === 'polygon' && points.length > 2 && isPointInPolygon(target, points)) return annotation;
+    const segments = annotation.kind === 'polygon' ? [...points, points[0]] : points;
+    const hit = segments.length === 1
+      ? Math.hypot(target.x - segments[0].x, target.y - segments[0].y) <= radiusPx * 2
+      : segments.slice(1).some((p, j) => distanceToSegment(target, segments[j], p) <= radiusPx);
+    if (hit) return annotation;
+  }
+  return null;
+}
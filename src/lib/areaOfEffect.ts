@@ -0,0 +1,86 @@
+// Spell area-of-effect templates on the map.
+//
+// Geometry works in feet (one grid cell = 5ft) so every shape keeps its true proportions; ShowTimeView
+// converts token percentages to feet and the outline back to percentages for the SVG overlay.
+
+import type { AoeShape } from "@/lib/gameData";
+
+export interface AoeTemplate {
+  shape: AoeShape;
+  size: number; // feet: sphere radius, cone/line length, cube side
+  origin: { x: number; y: number }; // feet; center of a sphere/cube, apex of a cone, start of a line
+  angle: number; // degrees clockwise from east; cones and lines only
+}
+
+// Rules-of-thumb widths: a cone is as wide as it is long at its end, a line is one square wide
+const CONE_HALF_ANGLE = Math.atan(0.5);
+const LINE_WIDTH_FT = 5;
+const CIRCLE_SEGMENTS = 48;
+
+export const isRotatableAoe = (shape: AoeShape) => shape === 'cone' || shape === 'line';
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export function isPointInAoe(point: { x: number; y: number }, template: AoeTemplate): boolean {
+  const dx = point.x - template.origin.x;
+  const dy = point.y - template.origin.y;
+  switch (template.shape) {
+    case 'sphere':
+      return Math.hypot(dx, dy) <= template.size;
+    case 'cube':
+      return Math.abs(dx) <= template.size / 2 && Math.abs(dy) <= template.size / 2;
+    case 'cone': {
+      const dist = Math.hypot(dx, dy);
+      if (dist === 0) return true;
+      if (dist > template.size) return false;
+      const diff = Math.atan2(dy, dx) - toRadians(template.angle);
+      return Math.abs(Math.atan2(Math.sin(diff), Math.cos(diff))) <= CONE_HALF_ANGLE;
+    }
+    case 'line': {
+      const rad = toRadians(template.angle);
+      const along = dx * Math.cos(rad) + dy * Math.sin(rad);
+      const across = -dx * Math.sin(rad) + dy * Math.cos(rad);
+      return along >= 0 && along <= template.size && Math.abs(across) <= LINE_WIDTH_FT / 2;
+    }
+    default:
+      return false;
+  }
+}
+
+// Outline of the template in feet, ready to scale into map percentages
+export function getAoeOutline(template: AoeTemplate): { x: number; y: number }[] {
+  const { origin, size } = template;
+  const rad = toRadians(template.angle);
+  const at = (angle: number, dist: number) => ({ x: origin.x + Math.cos(angle) * dist, y: origin.y + Math.sin(angle) * dist });
+  switch (template.shape) {
+    case 'sphere':
+      return Array.from({ length: CIRCLE_SEGMENTS }, (_, i) => at((i / CIRCLE_SEGMENTS) * Math.PI * 2, size));
+    case 'cube': {
+      const half = size / 2;
+      return [
+        { x: origin.x - half, y: origin.y - half },
+        { x: origin.x + half, y: origin.y - half },
+        { x: origin.x + half, y: origin.y + half },
+        { x: origin.x - half, y: origin.y + half },
+      ];
+    }
+    case 'cone': {
+      // Apex plus an arc across the far end
+      const arc = Array.from({ length: 13 }, (_, i) => at(rad - CONE_HALF_ANGLE + (i / 12) * CONE_HALF_ANGLE * 2, size));
+      return [{ ...origin }, ...arc];
+    }
+    case 'line': {
+      const half = LINE_WIDTH_FT / 2;
+      const side = { x: -Math.sin(rad) * half, y: Math.cos(rad) * half };
+      const end = at(rad, size);
+      return [
+        { x: origin.x + side.x, y: origin.y + side.y },
+        { x: end.x + side.x, y: end.y + side.y },
+        { x: end.x - side.x, y: end.y - side.y },
+        { x: origin.x - side.x, y: origin.y - side.y },
+      ];
+    }
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,133 @@
+// Races and jobs (classes): DM-defined options a crawler is built from. Each adds stat bonuses,
+// per-level HP/mana growth on top of the campaign's progression settings, spells granted at set
+// levels, and a starting kit of items and gold.
+//
+// Crawlers keep the display name in `race`/`job` and link the definition by `raceId`/`jobId`;
+// older crawlers without an id match by name.
+
+import type { Crawler, DamageAffinities, InventoryItem, KnownSpell, Spell } from "@/lib/gameData";
+import { addAllToInventory } from "@/lib/inventoryStacks";
+
+export const ABILITY_SCORES = ['str', 'dex', 'con', 'int', 'cha'] as const;
+export type AbilityScore = typeof ABILITY_SCORES[number];
+
+export const ABILITY_SCORE_LABELS: Record<AbilityScore, string> = {
+  str: 'STR',
+  dex: 'DEX',
+  con: 'CON',
+  int: 'INT',
+  cha: 'CHA',
+};
+
+export interface GrantedSpell {
+  spellId: string;
+  level: number; // crawler level that grants it; 1 = at creation
+}
+
+export interface CharacterOptionDefinition {
+  id: string;
+  name: string;
+  description: string;
+  statBonuses: Partial<Record<AbilityScore, number>>;
+  hpPerLevel: number; // added to the campaign's per-level HP gain
+  manaPerLevel: number;
+  grantedSpells: GrantedSpell[];
+  startingItems: InventoryItem[];
+  startingGold: number;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface RaceDefinition extends CharacterOptionDefinition {
+  darkvisionFt?: number;
+  damageAffinities?: DamageAffinities;
+}
+
+export type JobDefinition = CharacterOptionDefinition;
+
+export const createEmptyCharacterOption = (): CharacterOptionDefinition => ({
+  id: crypto.randomUUID(),
+  name: '',
+  description: '',
+  statBonuses: {},
+  hpPerLevel: 0,
+  manaPerLevel: 0,
+  grantedSpells: [],
+  startingItems: [],
+  startingGold: 0,
+});
+
+function findOption<T extends CharacterOptionDefinition>(options: T[], id: string | undefined, name: string): T | undefined {
+  if (id) {
+    const byId = options.find(o => o.id === id);
+    if (byId) return byId;
+  }
+  const key = name?.trim().toLowerCase();
+  return key ? options.find(o => o.name.trim().toLowerCase() === key) : undefined;
+}
+
+export const findCrawlerRace = (crawler: Pick<Crawler, 'raceId' | 'race'>, races: RaceDefinition[]) =>
+  findOption(races, crawler.raceId, crawler.race);
+
+export const findCrawlerJob = (crawler: Pick<Crawler, 'jobId' | 'job'>, jobs: JobDefinition[]) =>
+  findOption(jobs, crawler.jobId, crawler.job);
+
+// Spells the race and job grant on reaching `level`, skipping ones already known
+export function getGrantedSpells(
+  level: number,
+  race: RaceDefinition | undefined,
+  job: JobDefinition | undefined,
+  spells: Spell[],
+  known: KnownSpell[] = [],
+): KnownSpell[] {
+  const granted: KnownSpell[] = [];
+  const sources: [CharacterOptionDefinition | undefined, KnownSpell['learnedFrom']][] = [[race, 'race'], [job, 'class']];
+  for (const [option, learnedFrom] of sources) {
+    for (const grant of option?.grantedSpells ?? []) {
+      if (grant.level !== level) continue;
+      const spell = spells.find(s => s.id === grant.spellId);
+      if (!spell || [...known, ...granted].some(ks => ks.spellId === spell.id)) continue;
+      granted.push({ spellId: spell.id, spellName: spell.name, learnedFrom, learnedAt: new Date().toISOString(), castCount: 0 });
+    }
+  }
+  return granted;
+}
+
+// Point-buy: every score starts at 8 and costs climb past 13
+export const POINT_BUY_BUDGET = 27;
+export const POINT_BUY_MIN = 8;
+export const POINT_BUY_MAX = 15;
+const POINT_BUY_COSTS: Record<number, number> = { 8: 0, 9: 1, 10: 2, 11: 3, 12: 4, 13: 5, 14: 7, 15: 9 };
+
+export const getPointBuyCost = (scores: Record<AbilityScore, number>) =>
+  ABILITY_SCORES.reduce((sum, key) => sum + (POINT_BUY_COSTS[scores[key]] ?? 0), 0);
+
+export const STAT_ROLL_NOTATION = '4d6kh3';
+
+// A fresh crawler from the creation wizard: chosen scores plus race/job bonuses, level-1 spells and gold
+export function buildCrawlerFromOptions(
+  base: Crawler,
+  scores: Record<AbilityScore, number>,
+  race: RaceDefinition | undefined,
+  job: JobDefinition | undefined,
+  spells: Spell[],
+): Crawler {
+  const crawler: Crawler = {
+    ...base,
+    ...(race ? { race: race.name, raceId: race.id } : {}),
+    ...(job ? { job: job.name, jobId: job.id } : {}),
+    gold: (race?.startingGold ?? 0) + (job?.startingGold ?? 0),
+  };
+  for (const key of ABILITY_SCORES) {
+    crawler[key] = scores[key] + (race?.statBonuses[key] ?? 0) + (job?.statBonuses[key] ?? 0);
+  }
+  const knownSpells = getGrantedSpells(1, race, job, spells);
+  if (knownSpells.length > 0) crawler.knownSpells = knownSpells;
+  if (race?.darkvisionFt !== undefined) crawler.darkvisionFt = race.darkvisionFt;
+  if (race?.damageAffinities) crawler.damageAffinities = race.damageAffinities;
+  return crawler;
+}
+
+// Race and job starting items as fresh entries for the new crawler, with duplicates stacked
+export const getStartingKit = (race: RaceDefinition | undefined, job: JobDefinition | undefined): InventoryItem[] =>
+  addAllToInventory([], [...(race?.startingItems ?? []), ...(job?.startingItems ?? [])].map(item => ({ ...item, equipped: false })));
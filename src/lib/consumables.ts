@@ -0,0 +1,83 @@
+// Consumable items: potions, elixirs and scrolls whose `consumableEffects` do something when a
+// crawler uses them. Effects run in order; HP/mana rolls and the outcome land in the dice feed and
+// one unit of the stack is used up. Spell tomes keep their own learn-the-spell flow.
+
+import {
+  createCondition,
+  MAP_LINK_KIND_LABELS,
+  type ActiveCondition,
+  type ConsumableEffect,
+  type ConsumableEffectType,
+  type InventoryItem,
+} from "@/lib/gameData";
+import { isValidDiceExpression } from "@/lib/dice";
+
+export const CONSUMABLE_EFFECT_LABELS: Record<ConsumableEffectType, string> = {
+  heal: 'Heal HP',
+  mana: 'Restore Mana',
+  buff: 'Timed Buff',
+  cure: 'Cure Condition',
+  teleport: 'Teleport',
+};
+
+export const isConsumable = (item: InventoryItem) => (item.consumableEffects?.length ?? 0) > 0;
+
+export function createConsumableEffect(type: ConsumableEffectType): ConsumableEffect {
+  switch (type) {
+    case 'heal': return { type, dice: '2d4+2' };
+    case 'mana': return { type, dice: '2d4' };
+    case 'buff': return { type, statModifiers: {}, combatTurns: 3 };
+    case 'cure': return { type };
+    case 'teleport': return { type };
+  }
+}
+
+// Editors only save effects that can actually run
+export function isConsumableEffectValid(effect: ConsumableEffect): boolean {
+  switch (effect.type) {
+    case 'heal':
+    case 'mana':
+      return isValidDiceExpression(effect.dice);
+    case 'buff':
+      return Object.values(effect.statModifiers).some(v => v) && (effect.combatTurns !== undefined || effect.noncombatTurns !== undefined);
+    default:
+      return true;
+  }
+}
+
+const formatModifiers = (mods: Record<string, number | undefined>) =>
+  Object.entries(mods).filter(([, v]) => v).map(([stat, v]) => `${v! > 0 ? '+' : ''}${v} ${stat.toUpperCase()}`).join(', ');
+
+const formatTurns = (effect: { combatTurns?: number; noncombatTurns?: number }) =>
+  [
+    effect.combatTurns !== undefined && `${effect.combatTurns} combat turn${effect.combatTurns === 1 ? '' : 's'}`,
+    effect.noncombatTurns !== undefined && `${effect.noncombatTurns} noncombat turn${effect.noncombatTurns === 1 ? '' : 's'}`,
+  ].filter(Boolean).join(' / ');
+
+export function describeConsumableEffect(effect: ConsumableEffect): string {
+  switch (effect.type) {
+    case 'heal': return `Heals ${effect.dice} HP`;
+    case 'mana': return `Restores ${effect.dice} mana`;
+    case 'buff': return `${formatModifiers(effect.statModifiers) || 'No bonus'} for ${formatTurns(effect) || 'as long as it lasts'}`;
+    case 'cure': return effect.conditionName ? `Cures ${effect.conditionName}` : 'Cures all debuffs';
+    case 'teleport': return `Teleports to a random ${effect.linkKind ? MAP_LINK_KIND_LABELS[effect.linkKind].toLowerCase() : 'map link'}`;
+  }
+}
+
+// The lingering condition a buff effect leaves, named after the item so re-using it refreshes the timer
+export const createConsumableCondition = (item: InventoryItem, effect: Extract<ConsumableEffect, { type: 'buff' }>): ActiveCondition =>
+  createCondition({
+    name: item.name,
+    icon: '🧪',
+    kind: 'buff',
+    statModifiers: effect.statModifiers,
+    combatTurns: effect.combatTurns,
+    noncombatTurns: effect.noncombatTurns,
+  }, item.name);
+
+// Split a condition list into what a cure effect leaves and what it removes
+export function cureConditions(conditions: ActiveCondition[], effect: Extract<ConsumableEffect, { type: 'cure' }>) {
+  const name = effect.conditionName?.trim().toLowerCase();
+  const isCured = (c: ActiveCondition) => (name ? c.name.toLowerCase() === name : c.kind === 'debuff');
+  return { remaining: conditions.filter(c => !isCured(c)), cured: conditions.filter(isCured) };
+}
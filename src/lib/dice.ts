@@ -0,0 +1,353 @@
+import type { WeaponDie } from "@/lib/gameData";
+import { nextRollRandomness, createSeededRng, hashRngSeed, type RandomSource, type RollAudit, type RngState, type RngStream } from "@/lib/rng";
+
+// Dice expression parser and roll engine — every roll in the app goes through here.
+//
+// Supported notation (terms joined with + or -, whitespace ignored, case-insensitive):
+//   2d6+3     plain dice plus a flat modifier
+//   d20       count defaults to 1
+//   4d6kh3    keep the highest 3 (kl3 keeps the lowest 3)
+//   1d20adv   advantage: roll twice, keep the highest (dis = keep the lowest)
+//   d6!       exploding: roll an extra die every time a die shows its max face
+//   2d6r1     reroll (once) any die showing 1 or lower (r2 rerolls 1s and 2s)
+
+export type { RandomSource };
+
+export interface DiceTerm {
+  kind: 'dice';
+  sign: 1 | -1;
+  count: number;
+  sides: number;
+  keep?: { mode: 'highest' | 'lowest'; count: number };
+  advantage?: 'advantage' | 'disadvantage';
+  explode?: boolean;
+  rerollBelow?: number; // reroll once when a die shows this value or lower
+  notation: string; // normalized text of this term, e.g. "4d6kh3"
+}
+
+export interface ModifierTerm {
+  kind: 'modifier';
+  sign: 1 | -1;
+  value: number;
+  notation: string;
+}
+
+export type DiceExpressionTerm = DiceTerm | ModifierTerm;
+
+export interface DiceExpression {
+  notation: string; // normalized full expression, e.g. "2d6+3"
+  terms: DiceExpressionTerm[];
+}
+
+export interface DieRoll {
+  value: number;
+  kept: boolean; // false when dropped by keep/advantage rules
+  exploded?: boolean; // true when this die was added by an explosion
+  rerolledFrom?: number; // original face value if this die was rerolled
+}
+
+// Structured per-term result stored on DiceRollEntry.breakdown
+export interface DiceTermResult {
+  notation: string;
+  kind: 'dice' | 'modifier';
+  sides?: number; // only for dice terms
+  rolls: DieRoll[]; // empty for modifier terms
+  subtotal: number; // signed contribution to the total
+}
+
+export interface DiceRollResult {
+  notation: string;
+  terms: DiceTermResult[];
+  total: number;
+  audit?: RollAudit; // stream + counter that produced this roll, when rolled through a seeded provider
+}
+
+const MAX_DICE_PER_TERM = 100;
+const MAX_SIDES = 1000;
+const MAX_EXPLOSIONS = 50; // per die, guards against runaway chains
+
+const TERM_PATTERN = /^(\d*)d(\d+)(kh\d+|kl\d+|adv|dis)?(!)?(r\d+)?$/;
+
+export function parseDiceExpression(input: string): DiceExpression {
+  const compact = input.replace(/\s+/g, '').toLowerCase();
+  if (!compact) throw new Error('Empty dice expression');
+
+  // Split into signed chunks: "2d6+3-1d4" → ["2d6", "+3", "-1d4"]
+  const chunks = compact.match(/[+-]?[^+-]+/g);
+  if (!chunks || chunks.join('') !== compact) {
+    throw new Error(`Invalid dice expression: "${input}"`);
+  }
+
+  const terms: DiceExpressionTerm[] = chunks.map(chunk => {
+    const sign: 1 | -1 = chunk.startsWith('-') ? -1 : 1;
+    const body = chunk.replace(/^[+-]/, '');
+
+    if (/^\d+$/.test(body)) {
+      return { kind: 'modifier', sign, value: parseInt(body, 10), notation: body };
+    }
+
+    const match = body.match(TERM_PATTERN);
+    if (!match) throw new Error(`Invalid dice term: "${body}"`);
+
+    const [, countStr, sidesStr, keepStr, explodeStr, rerollStr] = match;
+    const count = countStr ? parseInt(countStr, 10) : 1;
+    const sides = parseInt(sidesStr, 10);
+    if (count < 1 || count > MAX_DICE_PER_TERM) throw new Error(`Dice count must be 1–${MAX_DICE_PER_TERM}: "${body}"`);
+    if (sides < 1 || sides > MAX_SIDES) throw new Error(`Dice sides must be 1–${MAX_SIDES}: "${body}"`);
+
+    const term: DiceTerm = { kind: 'dice', sign, count, sides, notation: `${count}d${sides}` };
+
+    if (keepStr === 'adv' || keepStr === 'dis') {
+      term.advantage = keepStr === 'adv' ? 'advantage' : 'disadvantage';
+      term.notation += keepStr;
+    } else if (keepStr) {
+      const keepCount = parseInt(keepStr.slice(2), 10);
+      if (keepCount < 1 || keepCount > count) throw new Error(`Keep count must be 1–${count}: "${body}"`);
+      term.keep = { mode: keepStr.startsWith('kh') ? 'highest' : 'lowest', count: keepCount };
+      term.notation += keepStr;
+    }
+
+    if (explodeStr) {
+      if (sides < 2) throw new Error(`Cannot explode a d${sides}: "${body}"`);
+      term.explode = true;
+      term.notation += '!';
+    }
+
+    if (rerollStr) {
+      const rerollBelow = parseInt(rerollStr.slice(1), 10);
+      if (rerollBelow < 1 || rerollBelow >= sides) throw new Error(`Reroll threshold must be 1–${sides - 1}: "${body}"`);
+      term.rerollBelow = rerollBelow;
+      term.notation += rerollStr;
+    }
+
+    return term;
+  });
+
+  const notation = terms
+    .map((t, i) => (t.sign === -1 ? '-' : i > 0 ? '+' : '') + t.notation)
+    .join('');
+
+  return { notation, terms };
+}
+
+export function isValidDiceExpression(input: string): boolean {
+  try {
+    parseDiceExpression(input);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function rollDie(sides: number, rng: RandomSource): number {
+  return Math.floor(rng() * sides) + 1;
+}
+
+// Roll a single die honoring reroll and explode rules; returns the die plus any explosion dice
+const rollOneDie = (term: DiceTerm, rng: RandomSource): DieRoll[] => {
+  const first: DieRoll = { value: rollDie(term.sides, rng), kept: true };
+  if (term.rerollBelow !== undefined && first.value <= term.rerollBelow) {
+    first.rerolledFrom = first.value;
+    first.value = rollDie(term.sides, rng);
+  }
+  const dice = [first];
+  if (term.explode) {
+    let last = first.value;
+    for (let i = 0; i < MAX_EXPLOSIONS && last === term.sides; i++) {
+      last = rollDie(term.sides, rng);
+      dice.push({ value: last, kept: true, exploded: true });
+    }
+  }
+  return dice;
+};
+
+const rollDiceTerm = (term: DiceTerm, rng: RandomSource): DiceTermResult => {
+  // Advantage/disadvantage doubles the pool and keeps the original count
+  const poolSize = term.advantage ? term.count * 2 : term.count;
+  const keep = term.advantage
+    ? { mode: term.advantage === 'advantage' ? 'highest' as const : 'lowest' as const, count: term.count }
+    : term.keep;
+
+  const groups: DieRoll[][] = [];
+  for (let i = 0; i < poolSize; i++) groups.push(rollOneDie(term, rng));
+
+  // Keep rules rank each base die by its exploded total, so explosion chains stay together
+  if (keep) {
+    const ranked = groups
+      .map((g, idx) => ({ idx, sum: g.reduce((s, d) => s + d.value, 0) }))
+      .sort((a, b) => (keep.mode === 'highest' ? b.sum - a.sum : a.sum - b.sum));
+    const keptIdx = new Set(ranked.slice(0, keep.count).map(r => r.idx));
+    groups.forEach((g, idx) => {
+      if (!keptIdx.has(idx)) g.forEach(d => { d.kept = false; });
+    });
+  }
+
+  const rolls = groups.flat();
+  const sum = rolls.filter(d => d.kept).reduce((s, d) => s + d.value, 0);
+  return {
+    notation: term.notation,
+    kind: 'dice',
+    sides: term.sides,
+    rolls,
+    subtotal: sum * term.sign,
+  };
+};
+
+// Roll an expression. Without an explicit rng the active provider from rng.ts is used, which
+// stamps the result with its audit stream/counter; pass an rng to roll deterministically (tests, replays).
+export function rollDiceExpression(expression: string | DiceExpression, rng?: RandomSource): DiceRollResult {
+  const parsed = typeof expression === 'string' ? parseDiceExpression(expression) : expression;
+  // Parse first so invalid input never consumes a roll counter
+  const randomness = rng ? { rng } : nextRollRandomness();
+  const terms: DiceTermResult[] = parsed.terms.map(term =>
+    term.kind === 'modifier'
+      ? { notation: term.notation, kind: 'modifier', rolls: [], subtotal: term.value * term.sign }
+      : rollDiceTerm(term, randomness.rng)
+  );
+  return {
+    notation: parsed.notation,
+    terms,
+    total: terms.reduce((s, t) => s + t.subtotal, 0),
+    audit: randomness.audit,
+  };
+}
+
+export type RollVerification = 'verified' | 'mismatch' | 'pending' | 'unaudited';
+
+export interface RollVerificationSummary {
+  verified: number;
+  mismatched: string[]; // ids of entries that fail their commitment, counter sequence or replay
+  pending: number; // rolled from a stream whose seed hasn't been revealed yet
+  unaudited: number;
+}
+
+// The room's own records that audit stamps are checked against; entries never vouch for themselves
+export interface RollVerificationContext {
+  rngState: RngState | null; // legacy campaign seed and counter
+  rngStreams: RngStream[];
+}
+
+type AuditedRollEntry = { id: string; timestamp?: number; notation?: string; breakdown?: DiceTermResult[]; rollAudit?: RollAudit };
+
+// Replay a logged roll from its notation + seed and compare every die with the stored breakdown
+const replayMatches = (entry: AuditedRollEntry, seed: string): boolean => {
+  let replay: DiceRollResult;
+  try {
+    replay = rollDiceExpression(entry.notation!, createSeededRng({ ...entry.rollAudit!, seed }));
+  } catch {
+    return false;
+  }
+  if (replay.terms.length !== entry.breakdown!.length) return false;
+  return replay.terms.every((term, i) => {
+    const stored = entry.breakdown![i];
+    return term.subtotal === stored.subtotal
+      && term.rolls.length === stored.rolls.length
+      && term.rolls.every((d, j) => d.value === stored.rolls[j].value && d.kept === stored.rolls[j].kept);
+  });
+};
+
+// Check every audited roll against the authoritative seed and counter of the stream it claims:
+// streams must have been committed and their revealed seed must hash to the commitment, counters
+// must stay within what the stream handed out and strictly increase in roll order, and the dice
+// must replay to what was logged.
+export async function verifyDiceRolls(entries: AuditedRollEntry[], context: RollVerificationContext): Promise<RollVerificationSummary> {
+  const summary: RollVerificationSummary = { verified: 0, mismatched: [], pending: 0, unaudited: 0 };
+
+  // Revealed seeds that match their commitment; null marks a stream whose reveal doesn't
+  const streamSeeds = new Map<string, string | null>();
+  for (const stream of context.rngStreams) {
+    if (!stream.seed) continue;
+    streamSeeds.set(stream.id, (await hashRngSeed(stream.seed)) === stream.seedHash ? stream.seed : null);
+  }
+  const streamsById = new Map(context.rngStreams.map(s => [s.id, s]));
+
+  // Highest counter seen so far per stream, walking the log oldest first
+  const lastCounters = new Map<string, number>();
+  const ordered = [...entries].sort((a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0));
+
+  for (const entry of ordered) {
+    const audit = entry.rollAudit;
+    if (!entry.notation || !entry.breakdown || !audit) {
+      summary.unaudited++;
+      continue;
+    }
+
+    let seed: string | null | undefined;
+    let issued: number;
+    if (audit.seed !== undefined) {
+      // Legacy roll: only the campaign's own seed counts, up to the counter it reached
+      seed = context.rngState?.seed === audit.seed ? audit.seed : null;
+      issued = context.rngState?.counter ?? 0;
+    } else {
+      const stream = streamsById.get(audit.stream);
+      seed = stream ? streamSeeds.get(stream.id) : null;
+      issued = stream?.counter ?? 0;
+    }
+
+    const sequenceKey = `${audit.seed ?? ''}:${audit.stream}`;
+    const previous = lastCounters.get(sequenceKey) ?? 0;
+    lastCounters.set(sequenceKey, Math.max(previous, audit.counter));
+    const inSequence = Number.isInteger(audit.counter) && audit.counter > previous;
+
+    if (seed === undefined) {
+      // Committed but not yet revealed: the sequence can already be checked, the dice can't
+      if (!inSequence) summary.mismatched.push(entry.id);
+      else summary.pending++;
+      continue;
+    }
+    if (seed !== null && inSequence && audit.counter <= issued && replayMatches(entry, seed)) summary.verified++;
+    else summary.mismatched.push(entry.id);
+  }
+  return summary;
+}
+
+// Format WeaponDie[] as notation, e.g. [{count:1,sides:8},{count:2,sides:4}] → "1d8 + 2d4"
+export function formatWeaponDice(dice: WeaponDie[]): string {
+  return dice.map(d => `${d.count}d${d.sides}`).join(' + ');
+}
+
+// Notation for a d20 attack roll with optional advantage and bonus hit die
+export function buildAttackNotation(hitDie?: WeaponDie, advantage?: 'advantage' | 'disadvantage'): string {
+  const d20 = advantage === 'advantage' ? '1d20adv' : advantage === 'disadvantage' ? '1d20dis' : '1d20';
+  return hitDie && hitDie.count > 0 ? `${d20}+${hitDie.count}d${hitDie.sides}` : d20;
+}
+
+// Critical hits roll every damage die twice, e.g. "1d8+2d4+3" → "2d8+4d4+3"
+export function doubleDiceNotation(notation: string): string {
+  const parsed = parseDiceExpression(notation);
+  return parsed.terms
+    .map((t, i) => {
+      const text = t.kind === 'dice' ? t.notation.replace(/^\d+/, String(t.count * 2)) : t.notation;
+      return (t.sign === -1 ? '-' : i > 0 ? '+' : '') + text;
+    })
+    .join('');
+}
+
+// Natural d20 face of an attack roll (the kept die of the first term, after advantage/disadvantage)
+export function getNaturalRoll(roll: DiceRollResult): number {
+  const first = roll.terms[0];
+  return first?.rolls.find(d => d.kept && !d.exploded)?.value ?? first?.subtotal ?? 0;
+}
+
+// Flatten a roll into the legacy DiceRollEntry.results shape (one row per die / modifier)
+export function toDiceResults(roll: DiceRollResult): { dice: string; result: number }[] {
+  const rows: { dice: string; result: number }[] = [];
+  for (const term of roll.terms) {
+    if (term.kind === 'modifier') {
+      rows.push({ dice: term.subtotal >= 0 ? 'Modifier' : 'Penalty', result: term.subtotal });
+      continue;
+    }
+    for (const die of term.rolls) {
+      const tags = [
+        die.exploded ? 'exploded' : '',
+        die.rerolledFrom !== undefined ? `rerolled ${die.rerolledFrom}` : '',
+        die.kept ? '' : 'dropped',
+      ].filter(Boolean);
+      rows.push({
+        dice: `D${term.sides}${tags.length > 0 ? ` (${tags.join(', ')})` : ''}`,
+        result: term.subtotal < 0 ? -die.value : die.value,
+      });
+    }
+  }
+  return rows;
+}
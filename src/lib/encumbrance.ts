@@ -0,0 +1,74 @@
+// Encumbrance: every carried unit with a `weight` (lb) counts against a carry capacity of 15 lb per
+// point of effective STR (base score plus equipment and condition bonuses). Heavier loads drop the
+// crawler into a tier whose penalties getEquippedModifiers folds in, so speed, AC, initiative and DEX
+// rolls pick them up wherever equipped modifiers are already read. Overloaded crawlers also attack
+// with disadvantage.
+//
+// Items without a weight are weightless, so older libraries keep working until the DM weighs them.
+
+import type { InventoryItem, StatModifiers } from "@/lib/gameData";
+import { getItemQuantity } from "@/lib/inventoryStacks";
+
+export const CARRY_CAPACITY_PER_STR = 15;
+
+export const ENCUMBRANCE_TIERS = ['unencumbered', 'encumbered', 'heavy', 'overloaded'] as const;
+export type EncumbranceTier = typeof ENCUMBRANCE_TIERS[number];
+
+export const ENCUMBRANCE_TIER_LABELS: Record<EncumbranceTier, string> = {
+  unencumbered: 'Unencumbered',
+  encumbered: 'Encumbered',
+  heavy: 'Heavily Encumbered',
+  overloaded: 'Overloaded',
+};
+
+// Up to a third of capacity is free; past two thirds DEX suffers too; past capacity the crawler crawls
+const TIER_PENALTIES: Record<EncumbranceTier, StatModifiers> = {
+  unencumbered: {},
+  encumbered: { speed: -10 },
+  heavy: { speed: -20, dex: -2 },
+  overloaded: { speed: -25, dex: -5 },
+};
+
+export interface Encumbrance {
+  weight: number; // lb carried
+  capacity: number; // lb before overloaded
+  tier: EncumbranceTier;
+  penalties: StatModifiers;
+}
+
+export const getItemWeight = (item: InventoryItem) => (item.weight ?? 0) * getItemQuantity(item);
+
+export const getCarriedWeight = (items: InventoryItem[]) =>
+  Math.round(items.reduce((sum, item) => sum + getItemWeight(item), 0) * 10) / 10;
+
+export const getCarryCapacity = (str: number) => Math.max(0, str) * CARRY_CAPACITY_PER_STR;
+
+export function getEncumbrance(items: InventoryItem[], str: number): Encumbrance {
+  const weight = getCarriedWeight(items);
+  const capacity = getCarryCapacity(str);
+  const tier: EncumbranceTier = weight > capacity ? 'overloaded'
+    : weight > (capacity * 2) / 3 ? 'heavy'
+    : weight > capacity / 3 ? 'encumbered'
+    : 'unencumbered';
+  return { weight, capacity, tier, penalties: TIER_PENALTIES[tier] };
+}
+
+export function describeEncumbrancePenalties(tier: EncumbranceTier): string {
+  const { speed, dex } = TIER_PENALTIES[tier];
+  return [
+    speed && `${speed} ft speed`,
+    dex && `${dex} DEX`,
+    tier === 'overloaded' && 'disadvantage on attacks',
+  ].filter(Boolean).join(', ') || 'No penalties';
+}
+
+// Overloaded crawlers attack with disadvantage; advantage from elsewhere cancels it out
+export function getEncumberedAttackAdvantage(
+  tier: EncumbranceTier,
+  advantage?: 'advantage' | 'disadvantage',
+): 'advantage' | 'disadvantage' | undefined {
+  if (tier !== 'overloaded') return advantage;
+  return advantage === 'advantage' ? undefined : 'disadvantage';
+}
+
+export const formatWeight = (lb: number) => `${Math.round(lb * 10) / 10} lb`;
@@ -1,3 +1,5 @@
+import { getEncumbrance, type Encumbrance } from "@/lib/encumbrance";
+
 export type EquipmentSlot = 'head' | 'chest' | 'legs' | 'feet' | 'leftHand' | 'rightHand' | 'ringFinger' | 'weapon';
 
 export interface EquippedItems {
@@ -16,7 +18,10 @@ export interface Crawler {
   name: string;
   race: string;
   job: string;
+  raceId?: string; // race definition the crawler was built from (see lib/characterOptions); '' once renamed by hand
+  jobId?: string;
   level: number;
+  xp?: number; // total experience earned; see lib/progression for the level thresholds
   hp: number;
   maxHP: number;
   mana: number;
@@ -31,14 +36,24 @@ export interface Crawler {
   avatar?: string;
   equippedItems?: EquippedItems;
   knownSpells?: KnownSpell[];
+  damageAffinities?: DamageAffinities; // innate resistances/vulnerabilities/immunities (e.g. from race)
+  conditions?: ActiveCondition[]; // status effects; persist between combat and noncombat turns
+  armorClass?: number; // base defense; defaults to 10 + DEX modifier when unset
+  darkvisionFt?: number; // vision profile: 0 = normal sight; unset falls back to the race default
+  speed?: number; // feet per combat turn (defaults to DEFAULT_CRAWLER_SPEED)
 }
 
-export type StatModifiers = Partial<Record<'str' | 'dex' | 'con' | 'int' | 'cha' | 'hp' | 'maxHP' | 'mana' | 'maxMana', number>>;
+export type StatModifiers = Partial<Record<'str' | 'dex' | 'con' | 'int' | 'cha' | 'hp' | 'maxHP' | 'mana' | 'maxMana' | 'speed', number>>;
 
 // Weapon system types
 export const DAMAGE_TYPES = ['Basic', 'Poison', 'Disease', 'Spiritual', 'Radiation', 'Fire', 'Electric', 'Emotional'] as const;
 export type DamageType = typeof DAMAGE_TYPES[number];
 
+// Per-damage-type defenses: resistant halves, vulnerable doubles, immune zeroes
+export const DAMAGE_AFFINITIES = ['resistant', 'vulnerable', 'immune'] as const;
+export type DamageAffinity = typeof DAMAGE_AFFINITIES[number];
+export type DamageAffinities = Partial<Record<DamageType, DamageAffinity>>;
+
 export const WEAPON_TYPES = ['Arcane', 'Body Upgrade', 'Bows', 'Crossbows', 'Firearms', 'Heavy weapons', 'Improvised', 'Light weapons', 'Mechanical', 'Polearms', 'Throwing', 'Whips'] as const;
 export type WeaponType = typeof WEAPON_TYPES[number];
 
@@ -85,7 +100,7 @@ export interface SpellData {
   range: number | 'Self' | 'Touch'; // feet or keyword
   canTargetSelf: boolean; // whether caster can target themselves
   target: 'Single' | 'Area' | 'Self' | 'Multiple';
-  areaOfEffect?: { shape: 'sphere' | 'cone' | 'line' | 'cube'; size: number };
+  areaOfEffect?: AreaOfEffect;
   damageDice?: WeaponDie[]; // reuses existing WeaponDie type
   damageType?: SpellDamageType;
   hitDie?: WeaponDie; // bonus die on spell attack roll
@@ -96,6 +111,72 @@ export interface SpellData {
   specialEffect?: string;
   splashDamage?: boolean;
   reactionTrigger?: string; // For Reaction spells: describes what triggers the reaction (e.g. "when you are hit by an attack")
+  reactionTriggerRule?: ReactionTriggerRule; // structured trigger the combat engine prompts on
+  light?: LightRadius; // duration spells: the bearer of the lingering condition sheds this light
+}
+
+// --- Area of effect ---
+export const AOE_SHAPES = ['sphere', 'cone', 'line', 'cube'] as const;
+export type AoeShape = typeof AOE_SHAPES[number];
+
+// Size in feet: sphere radius, cone/line length, cube side
+export interface AreaOfEffect {
+  shape: AoeShape;
+  size: number;
+}
+
+// Creatures caught in a map template, handed from ShowTime to the splash-damage flow
+export interface AoeTargetList {
+  id: string;
+  sourceName: string; // spell name or "Area template"
+  spellId?: string;
+  casterId?: string; // crawler who placed the template (unset for the DM)
+  targets: { id: string; type: 'crawler' | 'mob'; name: string }[];
+}
+
+// --- Reactions ---
+export const REACTION_TRIGGERS = ['when-hit', 'ally-attacked', 'enemy-leaves-reach'] as const;
+export type ReactionTriggerKind = typeof REACTION_TRIGGERS[number];
+
+export interface ReactionTriggerRule {
+  kind: ReactionTriggerKind;
+  rangeFt?: number; // 'ally-attacked': how close the ally must be (any distance when unset)
+}
+
+export const REACTION_TRIGGER_LABELS: Record<ReactionTriggerKind, string> = {
+  'when-hit': 'When you are hit',
+  'ally-attacked': 'When an ally is attacked',
+  'enemy-leaves-reach': 'When an enemy leaves your reach',
+};
+
+export const DEFAULT_REACH_FT = 5;
+export const REACTION_PROMPT_SECONDS = 15;
+
+export function describeReactionTrigger(rule: ReactionTriggerRule): string {
+  if (rule.kind === 'ally-attacked' && rule.rangeFt !== undefined) {
+    return `When an ally within ${rule.rangeFt} ft is attacked`;
+  }
+  return REACTION_TRIGGER_LABELS[rule.kind];
+}
+
+export interface ReactionOption {
+  name: string;
+  spellId?: string; // unset = opportunity attack with the crawler's weapon
+}
+
+// Offer to a crawler whose reaction can fire; lives on CombatState until answered or expired
+export interface ReactionPrompt {
+  id: string;
+  crawlerId: string;
+  crawlerName: string;
+  trigger: ReactionTriggerKind;
+  sourceId: string; // combatant that caused the trigger (attacker or mover); reactions target it
+  sourceName: string;
+  sourceType: 'crawler' | 'mob';
+  allyName?: string; // 'ally-attacked': who was attacked
+  options: ReactionOption[];
+  round: number;
+  expiresAt: number; // epoch ms
 }
 
 export interface Spell {
@@ -142,18 +223,34 @@ export function getCastsUntilNextMastery(castCount: number): number {
   return nextThreshold - castCount;
 }
 
+// Consumable effects: what using an item does, applied in order (see lib/consumables)
+export const CONSUMABLE_EFFECT_TYPES = ['heal', 'mana', 'buff', 'cure', 'teleport'] as const;
+export type ConsumableEffectType = typeof CONSUMABLE_EFFECT_TYPES[number];
+
+export type ConsumableEffect =
+  | { type: 'heal'; dice: string } // restores HP, capped at max
+  | { type: 'mana'; dice: string } // restores mana, capped at max
+  | { type: 'buff'; statModifiers: StatModifiers; combatTurns?: number; noncombatTurns?: number } // timed condition named after the item
+  | { type: 'cure'; conditionName?: string } // blank cures every debuff
+  | { type: 'teleport'; linkKind?: MapLinkKind }; // to a random map link on the bearer's map
+
 export interface InventoryItem {
   id: string;
   name: string;
   description: string;
   equipSlot?: EquipmentSlot; // Which slot this item can be equipped to
   goldValue?: number; // Value of the item in gold
+  weight?: number; // Pounds per unit; counts against carry capacity (see lib/encumbrance)
   equipped?: boolean; // Deprecated - use equippedItems in Crawler instead
+  quantity?: number; // Units in this stack; missing means one (see lib/inventoryStacks)
   statModifiers?: StatModifiers; // Stat adjustments when equipped
+  damageAffinities?: DamageAffinities; // Resistances/vulnerabilities/immunities granted when equipped
   tags?: string[]; // Custom tags for filtering (e.g., "magic", "cursed", "quest")
   weaponData?: WeaponData; // Weapon-specific data (only for items with "weapon" tag or weapon equipSlot)
   isUpgraded?: boolean; // Whether this item has been upgraded by a crawler
   isSpellTome?: boolean; // Consumable that teaches a spell when used
+  consumableEffects?: ConsumableEffect[]; // Applied when used; each use takes one from the stack
+  light?: LightRadius; // Light shed while equipped (torch, lantern)
   spellTomeData?: {
     entries: Array<{
       spellId?: string; // References a spell in the library
@@ -165,8 +262,8 @@ export interface InventoryItem {
   isPublic?: boolean;        // Whether visible to players outside the campaign
 }
 
-// Compute total stat modifiers from all equipped items on a crawler
-export function getEquippedModifiers(crawler: Crawler, inventory: InventoryItem[]): StatModifiers {
+// Stat modifiers from equipped items and active conditions, before encumbrance
+function getGearAndConditionModifiers(crawler: Crawler, inventory: InventoryItem[]): StatModifiers {
   const equipped = crawler.equippedItems ?? {};
   const totals: StatModifiers = {};
   for (const itemId of Object.values(equipped)) {
@@ -176,9 +273,225 @@ export function getEquippedModifiers(crawler: Crawler, inventory: InventoryItem[
       totals[stat as keyof StatModifiers] = (totals[stat as keyof StatModifiers] ?? 0) + (val as number);
     }
   }
+  for (const [stat, val] of Object.entries(getConditionModifiers(crawler.conditions))) {
+    totals[stat as keyof StatModifiers] = (totals[stat as keyof StatModifiers] ?? 0) + (val as number);
+  }
+  return totals;
+}
+
+// Carried weight against capacity from effective STR; `inventory` must be the crawler's whole inventory
+export function getCrawlerEncumbrance(crawler: Crawler, inventory: InventoryItem[]): Encumbrance {
+  const strBonus = getGearAndConditionModifiers(crawler, inventory).str ?? 0;
+  return getEncumbrance(inventory, (crawler.str || 0) + strBonus);
+}
+
+// Compute total stat modifiers from all equipped items on a crawler, plus any active conditions
+// and the penalties of the crawler's encumbrance tier
+export function getEquippedModifiers(crawler: Crawler, inventory: InventoryItem[]): StatModifiers {
+  const totals = getGearAndConditionModifiers(crawler, inventory);
+  const { penalties } = getEncumbrance(inventory, (crawler.str || 0) + (totals.str ?? 0));
+  for (const [stat, val] of Object.entries(penalties)) {
+    totals[stat as keyof StatModifiers] = (totals[stat as keyof StatModifiers] ?? 0) + (val as number);
+  }
+  return totals;
+}
+
+// --- Status conditions ---
+export interface ActiveCondition {
+  id: string;
+  name: string;
+  icon: string; // emoji shown on map tokens and in the combat tracker
+  kind: 'buff' | 'debuff';
+  statModifiers?: StatModifiers;
+  damagePerTurn?: string; // dice expression rolled at the end of each of the bearer's turns
+  damageType?: DamageType;
+  healPerTurn?: string; // dice expression
+  skipsTurn?: boolean; // bearer's combat turns are skipped (e.g. stunned)
+  combatTurnsRemaining?: number; // undefined = does not expire during combat
+  noncombatTurnsRemaining?: number; // undefined = does not expire outside combat
+  source?: string; // spell, item or "DM"
+  light?: LightRadius; // bearer sheds light (e.g. a light spell)
+}
+
+export type ConditionTemplate = Omit<ActiveCondition, 'id' | 'combatTurnsRemaining' | 'noncombatTurnsRemaining' | 'source'> & {
+  combatTurns?: number;
+  noncombatTurns?: number;
+};
+
+export const CONDITION_PRESETS: ConditionTemplate[] = [
+  { name: 'Poisoned', icon: '🤢', kind: 'debuff', statModifiers: { str: -2, con: -2 }, damagePerTurn: '1d4', damageType: 'Poison', combatTurns: 3 },
+  { name: 'Burning', icon: '🔥', kind: 'debuff', damagePerTurn: '1d6', damageType: 'Fire', combatTurns: 2 },
+  { name: 'Stunned', icon: '💫', kind: 'debuff', skipsTurn: true, combatTurns: 1 },
+  { name: 'Weakened', icon: '🥀', kind: 'debuff', statModifiers: { str: -4 }, combatTurns: 3, noncombatTurns: 1 },
+  { name: 'Blessed', icon: '✨', kind: 'buff', statModifiers: { con: 2, cha: 2 }, combatTurns: 5, noncombatTurns: 1 },
+  { name: 'Hasted', icon: '⚡', kind: 'buff', statModifiers: { dex: 4 }, combatTurns: 3 },
+  { name: 'Regenerating', icon: '💚', kind: 'buff', healPerTurn: '1d4', combatTurns: 3 },
+];
+
+export function createCondition(template: ConditionTemplate, source?: string): ActiveCondition {
+  const { combatTurns, noncombatTurns, ...rest } = template;
+  return {
+    ...rest,
+    id: crypto.randomUUID(),
+    combatTurnsRemaining: combatTurns,
+    noncombatTurnsRemaining: noncombatTurns,
+    source,
+  };
+}
+
+// Lingering effect for a spell with a duration, or null for instantaneous spells
+export function createSpellCondition(spell: Spell): ActiveCondition | null {
+  const duration = spell.spellData.duration;
+  if (!duration || (duration.combatTurns === undefined && duration.noncombatTurns === undefined)) return null;
+  const isHealing = spell.spellData.damageType === 'Healing';
+  const light = spell.spellData.light;
+  return createCondition({
+    name: spell.name,
+    icon: isHealing ? '💚' : light ? '💡' : '🔮',
+    kind: isHealing || !spell.spellData.damageDice?.length ? 'buff' : 'debuff',
+    combatTurns: duration.combatTurns,
+    noncombatTurns: duration.noncombatTurns,
+    ...(light ? { light } : {}),
+  }, spell.name);
+}
+
+export function getConditionModifiers(conditions: ActiveCondition[] | undefined): StatModifiers {
+  const totals: StatModifiers = {};
+  for (const condition of conditions ?? []) {
+    for (const [stat, val] of Object.entries(condition.statModifiers ?? {})) {
+      totals[stat as keyof StatModifiers] = (totals[stat as keyof StatModifiers] ?? 0) + (val as number);
+    }
+  }
   return totals;
 }
 
+// A condition timed in only one mode has no business outside it: combat-only ones end with the
+// combat, and their per-turn effects never fire between combats
+export function isConditionTimedOnlyIn(condition: ActiveCondition, mode: 'combat' | 'noncombat'): boolean {
+  return mode === 'combat'
+    ? condition.combatTurnsRemaining !== undefined && condition.noncombatTurnsRemaining === undefined
+    : condition.noncombatTurnsRemaining !== undefined && condition.combatTurnsRemaining === undefined;
+}
+
+// Count one turn down for the given mode; conditions reaching 0 expire. A noncombat turn also
+// ends combat-only conditions applied outside combat, which would otherwise never count down.
+export function tickConditions(conditions: ActiveCondition[] | undefined, mode: 'combat' | 'noncombat'): { remaining: ActiveCondition[]; expired: ActiveCondition[] } {
+  const key = mode === 'combat' ? 'combatTurnsRemaining' : 'noncombatTurnsRemaining';
+  const remaining: ActiveCondition[] = [];
+  const expired: ActiveCondition[] = [];
+  for (const condition of conditions ?? []) {
+    const turns = condition[key];
+    if (mode === 'noncombat' && isConditionTimedOnlyIn(condition, 'combat')) {
+      expired.push(condition);
+    } else if (turns === undefined) {
+      remaining.push(condition);
+    } else if (turns <= 1) {
+      expired.push(condition);
+    } else {
+      remaining.push({ ...condition, [key]: turns - 1 });
+    }
+  }
+  return { remaining, expired };
+}
+
+// Merge affinity maps from several sources (innate + each equipped item). Immunity always wins;
+// a resistance and a vulnerability to the same type cancel out.
+export function combineDamageAffinities(...sources: (DamageAffinities | undefined)[]): DamageAffinities {
+  const seen: Partial<Record<DamageType, Set<DamageAffinity>>> = {};
+  for (const source of sources) {
+    if (!source) continue;
+    for (const [type, affinity] of Object.entries(source) as [DamageType, DamageAffinity][]) {
+      if (!affinity) continue;
+      if (!seen[type]) seen[type] = new Set();
+      seen[type]!.add(affinity);
+    }
+  }
+  const combined: DamageAffinities = {};
+  for (const [type, set] of Object.entries(seen) as [DamageType, Set<DamageAffinity>][]) {
+    if (set.has('immune')) combined[type] = 'immune';
+    else if (set.has('resistant') && !set.has('vulnerable')) combined[type] = 'resistant';
+    else if (set.has('vulnerable') && !set.has('resistant')) combined[type] = 'vulnerable';
+  }
+  return combined;
+}
+
+// Affinities from every item occupying an equipment slot
+export function getEquippedDamageAffinities(equippedItems: EquippedItems | undefined, inventory: InventoryItem[]): DamageAffinities {
+  const items = Object.values(equippedItems ?? {})
+    .map(itemId => inventory.find(i => i.id === itemId)?.damageAffinities);
+  return combineDamageAffinities(...items);
+}
+
+export interface DamageAdjustment {
+  baseDamage: number;
+  finalDamage: number;
+  damageType?: DamageType | SpellDamageType;
+  affinity?: DamageAffinity; // set only when the damage was changed
+}
+
+export function applyDamageAffinity(damage: number, damageType: DamageType | SpellDamageType | undefined, affinities: DamageAffinities): DamageAdjustment {
+  const affinity = damageType ? affinities[damageType as DamageType] : undefined;
+  if (!affinity) return { baseDamage: damage, finalDamage: damage, damageType };
+  const finalDamage = affinity === 'immune' ? 0 : affinity === 'resistant' ? Math.floor(damage / 2) : damage * 2;
+  return { baseDamage: damage, finalDamage, damageType, affinity };
+}
+
+// --- Attack resolution ---
+export const DEFAULT_ARMOR_CLASS = 10;
+
+export type AttackOutcome = 'hit' | 'miss' | 'critical';
+
+export interface AttackResolution {
+  outcome: AttackOutcome;
+  targetName: string;
+  armorClass: number;
+  attackTotal: number;
+  damage?: number; // damage applied to the target (hits and criticals only)
+}
+
+// Ability score → modifier, e.g. 14 → +2, 7 → -2
+export function getStatModifier(score: number): number {
+  return Math.floor((score - 10) / 2);
+}
+
+// Sum the crawler's stat scores for every stat flagged in a weapon/spell hit or damage modifier map
+export function getStatModifierBonus(crawler: Crawler, mods: StatModifiers | undefined): number {
+  if (!mods) return 0;
+  let total = 0;
+  for (const [stat, val] of Object.entries(mods)) {
+    if (val && ['str', 'dex', 'con', 'int', 'cha'].includes(stat)) {
+      total += (crawler as unknown as Record<string, number>)[stat] ?? 0;
+    }
+  }
+  return total;
+}
+
+// To-hit bonus on the same scale as armor class: the ability modifier of every stat flagged in a
+// weapon/spell hit modifier map, counting equipment bonuses to those stats
+export function getStatHitBonus(crawler: Crawler, mods: StatModifiers | undefined, equippedMods: StatModifiers = {}): number {
+  if (!mods) return 0;
+  let total = 0;
+  for (const [stat, val] of Object.entries(mods)) {
+    if (val && ['str', 'dex', 'con', 'int', 'cha'].includes(stat)) {
+      const score = (crawler as unknown as Record<string, number>)[stat] ?? 10;
+      total += getStatModifier(score + (equippedMods[stat as keyof StatModifiers] ?? 0));
+    }
+  }
+  return total;
+}
+
+export function getCrawlerArmorClass(crawler: Crawler, equippedMods: StatModifiers = {}): number {
+  if (crawler.armorClass !== undefined) return crawler.armorClass;
+  return DEFAULT_ARMOR_CLASS + getStatModifier((crawler.dex || 0) + (equippedMods.dex ?? 0));
+}
+
+// Natural 20 always crits, natural 1 always misses, otherwise the total must meet or beat AC
+export function resolveAttackOutcome(naturalRoll: number, attackTotal: number, armorClass: number): AttackOutcome {
+  if (naturalRoll >= 20) return 'critical';
+  if (naturalRoll <= 1) return 'miss';
+  return attackTotal >= armorClass ? 'hit' : 'miss';
+}
+
 export interface Mob {
   id: string;
   name: string;
@@ -191,17 +504,88 @@ export interface Mob {
   weaknesses?: string;
   strengths?: string;
   hitPoints?: number;
+  armorClass?: number; // defense attack rolls must meet or beat (defaults to DEFAULT_ARMOR_CLASS)
+  damageAffinities?: DamageAffinities; // structured counterpart to the free-text weaknesses/strengths
   hideWeaknesses?: boolean;
   hideStrengths?: boolean;
   hideHitPoints?: boolean;
   defaultInventory?: InventoryItem[]; // Default items this mob type carries
   defaultGold?: number; // Default gold this mob type carries
   equippedItems?: EquippedItems; // Equipment mapping (slot → item ID)
+  // Stat block; missing scores count as DEFAULT_MOB_STAT
+  str?: number;
+  dex?: number;
+  con?: number;
+  int?: number;
+  cha?: number;
+  speed?: number; // feet per turn (defaults to DEFAULT_MOB_SPEED)
+  actions?: MobAction[];
+  behavior?: MobBehavior; // auto-pilot profile; unset means the DM drives the mob by hand
+}
+
+export const MOB_BEHAVIORS = ['aggressive', 'defensive', 'ranged-kiter', 'support'] as const;
+export type MobBehavior = typeof MOB_BEHAVIORS[number];
+
+export const MOB_BEHAVIOR_LABELS: Record<MobBehavior, string> = {
+  aggressive: 'Aggressive — closes on the nearest crawler',
+  defensive: 'Defensive — holds ground, retreats when hurt',
+  'ranged-kiter': 'Ranged kiter — stays at max reach',
+  support: 'Support — sticks to wounded allies',
+};
+
+export const MOB_STATS = ['str', 'dex', 'con', 'int', 'cha'] as const;
+export type MobStat = typeof MOB_STATS[number];
+export const DEFAULT_MOB_STAT = 10;
+export const DEFAULT_MOB_SPEED = 30;
+
+// Named attack on a mob's stat block; rolled by the DM against a crawler
+export interface MobAction {
+  id: string;
+  name: string;
+  hitStat?: MobStat; // stat modifier added to the d20 (defaults to str)
+  hitBonus?: number; // flat to-hit bonus on top of the stat modifier
+  damageDice: WeaponDie[];
+  damageStat?: MobStat; // stat modifier added to damage (none when unset)
+  damageBonus?: number;
+  damageType: DamageType;
+  reachFt?: number; // informational: melee reach or range
+  description?: string;
+}
+
+export function createMobAction(): MobAction {
+  return {
+    id: crypto.randomUUID(),
+    name: 'Attack',
+    hitStat: 'str',
+    damageDice: [{ count: 1, sides: 6 }],
+    damageStat: 'str',
+    damageType: 'Basic',
+  };
+}
+
+export function getMobStatModifier(mob: Pick<Mob, MobStat>, stat: MobStat): number {
+  return getStatModifier(mob[stat] ?? DEFAULT_MOB_STAT);
+}
+
+// Total flat to-hit and damage bonuses for a mob action
+export function getMobActionBonuses(mob: Pick<Mob, MobStat>, action: MobAction): { attackModifier: number; damageBonus: number } {
+  return {
+    attackModifier: getMobStatModifier(mob, action.hitStat ?? 'str') + (action.hitBonus ?? 0),
+    damageBonus: (action.damageStat ? getMobStatModifier(mob, action.damageStat) : 0) + (action.damageBonus ?? 0),
+  };
+}
+
+// One-line summary, e.g. "Claw: +4 to hit, 2d6+2 Basic"
+export function describeMobAction(mob: Pick<Mob, MobStat>, action: MobAction): string {
+  const { attackModifier, damageBonus } = getMobActionBonuses(mob, action);
+  const signed = (n: number) => (n >= 0 ? `+${n}` : `${n}`);
+  const dice = action.damageDice.map(d => `${d.count}d${d.sides}`).join(' + ');
+  return `${action.name}: ${signed(attackModifier)} to hit, ${dice}${damageBonus !== 0 ? signed(damageBonus) : ''} ${action.damageType}`;
 }
 
 export interface EpisodeMobPlacement {
   mobId: string;
-  mapId: string; // The map this mob is placed on (index as string)
+  mapId: string; // Firestore id of the map doc this mob is placed on
   x: number; // Percentage of map width (0-100)
   y: number; // Percentage of map height (0-100)
   scale?: number; // Optional scale multiplier for display (1 = normal size)
@@ -213,7 +597,7 @@ export interface EpisodeMobPlacement {
 
 export interface CrawlerPlacement {
   crawlerId: string;
-  mapId: string; // The map this crawler is placed on
+  mapId: string; // Firestore id of the map doc this crawler is placed on
   x: number; // Percentage of map width (0-100)
   y: number; // Percentage of map height (0-100)
 }
@@ -222,19 +606,191 @@ export interface MapData {
   id: string;
   name: string;
   imageUrl: string;
+  assetId?: string; // MapAsset id; maps uploaded before the asset pipeline have none
   createdAt?: string;
   updatedAt?: string;
 }
 
+// One zoom level of a tile pyramid; level 0 is full resolution and each level after it is half the size
+export interface MapTileLevel {
+  width: number;
+  height: number;
+  columns: number;
+  rows: number;
+  urls: string[]; // row-major
+}
+
+export interface MapTilePyramid {
+  tileSize: number;
+  levels: MapTileLevel[];
+}
+
+// Processed map image, keyed by the SHA-256 of the uploaded file so re-uploads share one copy
+export interface MapAsset {
+  id: string; // SHA-256 hex digest
+  width: number; // original pixels
+  height: number;
+  byteSize: number;
+  mimeType: string;
+  originalUrl?: string; // Storage URL; when Storage is unavailable the map doc carries the image itself
+  previewUrl?: string; // downscaled for first paint; absent when the original is already small
+  thumbnailUrl: string;
+  tiles?: MapTilePyramid; // large maps only
+  storagePaths?: string[]; // every Storage object, for cleanup when the last map using it is deleted
+  createdAt: string;
+}
+
 export interface FogOfWarData {
   enabled: boolean;
   // Array of revealed areas as circles (x, y, radius in percentages)
   revealedAreas: { x: number; y: number; radius: number }[];
+  lineOfSight?: boolean; // fog follows each crawler's sight through the map's walls
+}
+
+// Wall or door segment drawn in the map designer (endpoints in map percentages)
+export interface MapWall {
+  id: string;
+  kind: 'wall' | 'door';
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  open?: boolean; // doors only; open doors don't block sight
 }
 
 export interface MapSettings {
   fogOfWar: FogOfWarData;
   scale: number; // Scale percentage (100 = normal)
+  walls?: MapWall[];
+  ambientLight?: AmbientLight; // unset = bright (lighting layer off)
+  lights?: MapLight[];
+  diagonalRule?: DiagonalRule; // unset = 5-5-5
+  grid?: MapGrid; // unset = square cells sized to the token icons
+  links?: MapLink[];
+}
+
+// --- Map links ---
+// Transition points between maps of an episode; a crawler dropped on one arrives at the target map
+export const MAP_LINK_KINDS = ['stairs', 'door', 'teleporter'] as const;
+export type MapLinkKind = typeof MAP_LINK_KINDS[number];
+
+export const MAP_LINK_KIND_LABELS: Record<MapLinkKind, string> = {
+  stairs: 'Stairs',
+  door: 'Door',
+  teleporter: 'Teleporter',
+};
+
+export interface MapLink {
+  id: string;
+  kind: MapLinkKind;
+  x: number; // map percentages
+  y: number;
+  targetMapId: string;
+  targetLinkId?: string; // arrival point on the target map; its center until one is placed
+}
+
+// --- Map grid ---
+export const GRID_TYPES = ['square', 'hex-flat', 'hex-pointy', 'none'] as const;
+export type GridType = typeof GRID_TYPES[number];
+
+export const GRID_TYPE_LABELS: Record<GridType, string> = {
+  square: 'Square',
+  'hex-flat': 'Hex (flat top)',
+  'hex-pointy': 'Hex (pointy top)',
+  none: 'Gridless',
+};
+
+// Lined up with the map image's own printed grid; lengths in image pixels
+export interface MapGrid {
+  type: GridType;
+  cellSize: number; // between neighbouring cell centers (a hex's flat-to-flat width)
+  offsetX: number; // a square's corner or a hex's center
+  offsetY: number;
+  feetPerCell: number;
+}
+
+export const DEFAULT_FEET_PER_CELL = 5;
+
+// --- Grid movement ---
+// How a diagonal step is counted when tokens move square by square
+export const DIAGONAL_RULES = ['5-5-5', '5-10-5', 'euclidean'] as const;
+export type DiagonalRule = typeof DIAGONAL_RULES[number];
+
+export const DIAGONAL_RULE_LABELS: Record<DiagonalRule, string> = {
+  '5-5-5': '5-5-5 (every square 5ft)',
+  '5-10-5': '5-10-5 (every other diagonal 10ft)',
+  euclidean: 'Euclidean (true distance)',
+};
+
+export const DEFAULT_CRAWLER_SPEED = 30;
+
+// Feet per combat turn after equipment, conditions and encumbrance (pass getEquippedModifiers)
+export function getCrawlerSpeed(crawler: Pick<Crawler, 'speed'>, equippedMods: StatModifiers = {}): number {
+  return Math.max(0, (crawler.speed ?? DEFAULT_CRAWLER_SPEED) + (equippedMods.speed ?? 0));
+}
+
+// --- Lighting ---
+// Bright and dim radii in feet; dim light extends past the bright radius
+export interface LightRadius {
+  brightFt: number;
+  dimFt: number;
+}
+
+export const AMBIENT_LIGHTS = ['bright', 'dim', 'dark'] as const;
+export type AmbientLight = typeof AMBIENT_LIGHTS[number];
+
+export const AMBIENT_LIGHT_LABELS: Record<AmbientLight, string> = {
+  bright: 'Bright (no lighting)',
+  dim: 'Dim',
+  dark: 'Dark',
+};
+
+export const LIGHT_PRESETS: { name: string; light: LightRadius }[] = [
+  { name: 'Candle', light: { brightFt: 5, dimFt: 10 } },
+  { name: 'Torch', light: { brightFt: 20, dimFt: 40 } },
+  { name: 'Lantern', light: { brightFt: 30, dimFt: 60 } },
+];
+
+// Fixed light source placed in the map designer (position in map percentages)
+export interface MapLight extends LightRadius {
+  id: string;
+  x: number;
+  y: number;
+  name?: string;
+}
+
+// Darkvision by race (lowercase); races not listed see normally
+export const RACE_DARKVISION_FT: Record<string, number> = {
+  dwarf: 60,
+  elf: 60,
+  'half-elf': 60,
+  gnome: 60,
+  goblin: 60,
+  orc: 60,
+  'half-orc': 60,
+  tiefling: 60,
+  cat: 60,
+};
+
+export function getCrawlerDarkvision(crawler: Pick<Crawler, 'race' | 'darkvisionFt'>): number {
+  return crawler.darkvisionFt ?? RACE_DARKVISION_FT[crawler.race?.trim().toLowerCase()] ?? 0;
+}
+
+// Strongest light a crawler carries: equipped items plus lingering light conditions
+export function getCrawlerLight(crawler: Crawler, inventory: InventoryItem[]): LightRadius | null {
+  const sources: LightRadius[] = [];
+  for (const itemId of Object.values(crawler.equippedItems ?? {})) {
+    const light = inventory.find(i => i.id === itemId)?.light;
+    if (light) sources.push(light);
+  }
+  for (const condition of crawler.conditions ?? []) {
+    if (condition.light) sources.push(condition.light);
+  }
+  if (sources.length === 0) return null;
+  return {
+    brightFt: Math.max(...sources.map(s => s.brightFt)),
+    dimFt: Math.max(...sources.map(s => Math.max(s.dimFt, s.brightFt))),
+  };
 }
 
 // Loot Box Types
@@ -308,6 +864,9 @@ export interface CombatantEntry {
   hasUsedBonusAction: boolean;
   avatar?: string; // cached avatar/image for display
   currentHP?: number; // per-combatant HP tracking (used for mob instances)
+  conditions?: ActiveCondition[]; // mob instance status effects (crawler conditions live on the Crawler doc)
+  reactionUsedRound?: number; // combatRound in which the reaction was spent (one reaction per round)
+  movementUsedFt?: number; // feet moved on the map this turn; reset when the turn ends
 }
 
 // Combat state - synced via Firebase (singleton doc, id = 'current')
@@ -324,16 +883,168 @@ export interface CombatState {
   turnTimerDuration?: number; // countdown seconds, default: 60
   turnTimerPaused?: boolean; // DM can pause the timer
   turnStartedAt?: number; // epoch ms when current turn started
+  combatId?: string; // groups this combat's combatLogs entries
+  reactionPrompts?: ReactionPrompt[];
+}
+
+// --- Combat Log ---
+// One doc per event in the `combatLogs` collection, grouped by CombatState.combatId
+
+export type CombatLogEventType =
+  | 'start'
+  | 'initiative'
+  | 'turn'
+  | 'action'
+  | 'bonus-action'
+  | 'damage'
+  | 'healing'
+  | 'hp-override'
+  | 'kill'
+  | 'combatant-added'
+  | 'combatant-removed'
+  | 'reaction'
+  | 'xp'
+  | 'end';
+
+export interface CombatLogEntry {
+  id: string;
+  combatId: string;
+  combatNumber?: number; // CombatState.combatCount when the combat started
+  episodeId?: string;
+  round: number;
+  timestamp: number;
+  type: CombatLogEventType;
+  actorId?: string; // who acted / dealt damage (a condition name for ticking effects)
+  actorName?: string;
+  actorType?: 'crawler' | 'mob';
+  targetId?: string;
+  targetName?: string;
+  targetType?: 'crawler' | 'mob';
+  amount?: number; // initiative roll, damage, healing or new HP
+  detail?: string;
+}
+
+export interface CombatantSummary {
+  id: string;
+  name: string;
+  damageDealt: number;
+  damageTaken: number;
+  kills: string[];
+  xpGained: number;
+}
+
+export interface CombatSummary {
+  combatId: string;
+  combatNumber?: number;
+  startedAt: number;
+  endedAt?: number;
+  cancelled: boolean;
+  rounds: number;
+  crawlers: CombatantSummary[];
+  mobsDefeated: string[];
+}
+
+// Roll one combat's events up into per-crawler totals
+export function summarizeCombat(entries: CombatLogEntry[]): CombatSummary | null {
+  if (entries.length === 0) return null;
+  const sorted = [...entries].sort((a, b) => a.timestamp - b.timestamp);
+  const byCrawler = new Map<string, CombatantSummary>();
+  const crawlerSummary = (id: string, name?: string) => {
+    let summary = byCrawler.get(id);
+    if (!summary) {
+      summary = { id, name: name ?? 'Unknown', damageDealt: 0, damageTaken: 0, kills: [], xpGained: 0 };
+      byCrawler.set(id, summary);
+    }
+    return summary;
+  };
+  const mobsDefeated: string[] = [];
+
+  for (const e of sorted) {
+    if ((e.type === 'start' || e.type === 'combatant-added') && e.targetType === 'crawler' && e.targetId) {
+      crawlerSummary(e.targetId, e.targetName);
+    } else if (e.type === 'damage' && e.amount) {
+      if (e.actorType === 'crawler' && e.actorId) crawlerSummary(e.actorId, e.actorName).damageDealt += e.amount;
+      if (e.targetType === 'crawler' && e.targetId) crawlerSummary(e.targetId, e.targetName).damageTaken += e.amount;
+    } else if (e.type === 'kill') {
+      if (e.actorType === 'crawler' && e.actorId) crawlerSummary(e.actorId, e.actorName).kills.push(e.targetName ?? 'Unknown');
+      if (e.targetType === 'mob') mobsDefeated.push(e.targetName ?? 'Unknown');
+    } else if (e.type === 'xp' && e.targetId && e.amount) {
+      crawlerSummary(e.targetId, e.targetName).xpGained += e.amount;
+    }
+  }
+
+  const end = sorted.find(e => e.type === 'end');
+  return {
+    combatId: sorted[0].combatId,
+    combatNumber: sorted.find(e => e.combatNumber !== undefined)?.combatNumber,
+    startedAt: sorted[0].timestamp,
+    endedAt: end?.timestamp,
+    cancelled: end?.detail === 'cancelled',
+    rounds: Math.max(...sorted.map(e => e.round)),
+    crawlers: [...byCrawler.values()],
+    mobsDefeated,
+  };
+}
+
+const describeCombatLogEntry = (e: CombatLogEntry): string => {
+  const actor = e.actorName ?? 'Someone';
+  const target = e.targetName ?? 'someone';
+  switch (e.type) {
+    case 'start': return `${target} joined the fight`;
+    case 'initiative': return `${actor} rolled ${e.amount} for initiative`;
+    case 'turn': return `${actor}'s turn`;
+    case 'action': return `${actor} used their action${e.detail ? ` (${e.detail})` : ''}`;
+    case 'bonus-action': return `${actor} used their bonus action${e.detail ? ` (${e.detail})` : ''}`;
+    case 'damage': return `${actor} dealt ${e.amount} damage to ${target}${e.detail ? ` (${e.detail})` : ''}`;
+    case 'healing': return `${actor} healed ${target} for ${e.amount}`;
+    case 'hp-override': return `DM set ${target}'s HP to ${e.amount}`;
+    case 'kill': return `${target} was defeated${e.actorName ? ` by ${e.actorName}` : ''}`;
+    case 'combatant-added': return `${target} joined mid-combat`;
+    case 'combatant-removed': return `${target} left combat`;
+    case 'reaction': return `${actor} reacted with ${e.detail ?? 'a reaction'}${e.targetName ? ` against ${target}` : ''}`;
+    case 'xp': return `${target} gained ${e.amount} XP`;
+    case 'end': return e.detail === 'cancelled' ? 'Combat cancelled' : 'Combat ended';
+  }
+};
+
+// Session recap: summary table plus a per-round timeline
+export function combatLogToMarkdown(entries: CombatLogEntry[], title?: string): string {
+  const summary = summarizeCombat(entries);
+  if (!summary) return '';
+  const sorted = [...entries].sort((a, b) => a.timestamp - b.timestamp);
+  const lines: string[] = [
+    `# ${title ?? `Combat #${summary.combatNumber ?? '?'}`}`,
+    '',
+    `- **Started:** ${new Date(summary.startedAt).toLocaleString()}`,
+    `- **Rounds:** ${summary.rounds}`,
+  ];
+  if (summary.cancelled) lines.push('- **Cancelled**');
+  if (summary.mobsDefeated.length > 0) lines.push(`- **Defeated:** ${summary.mobsDefeated.join(', ')}`);
+  lines.push('', '## Crawlers', '', '| Crawler | Damage dealt | Damage taken | Kills | XP |', '| --- | --- | --- | --- | --- |');
+  for (const c of summary.crawlers) {
+    lines.push(`| ${c.name} | ${c.damageDealt} | ${c.damageTaken} | ${c.kills.length > 0 ? c.kills.join(', ') : '—'} | ${c.xpGained} |`);
+  }
+  lines.push('', '## Timeline');
+  let round = 0;
+  for (const e of sorted) {
+    if (e.round !== round) {
+      round = e.round;
+      lines.push('', `### Round ${round}`, '');
+    }
+    lines.push(`- ${describeCombatLogEntry(e)}`);
+  }
+  return lines.join('\n') + '\n';
 }
 
 export interface Episode {
   id: string;
   name: string;
   description: string;
-  mapIds: string[]; // Indices of maps in the maps array
+  mapIds: string[]; // Firestore ids of the episode's map docs, in play order
   mobPlacements: EpisodeMobPlacement[]; // Mobs with positions
   crawlerPlacements?: CrawlerPlacement[]; // Pre-placed crawlers with positions
-  mapSettings?: { [mapId: string]: MapSettings }; // Per-map settings
+  mapSettings?: { [mapId: string]: MapSettings }; // Per-map settings, keyed by map doc id
+  allowSplitParty?: boolean; // crawlers taking a map link travel alone instead of bringing the party
   defaultFogOfWar?: boolean; // Default fog of war setting for new maps
   lootBoxes?: LootBoxTemplate[]; // Deprecated: embedded templates (for backwards compatibility)
   lootBoxIds?: string[]; // IDs of loot box templates assigned to this episode
@@ -376,6 +1087,7 @@ export interface Quest {
   rewards: QuestReward[];
   actionItems: QuestActionItem[];
   notes: QuestNote[];
+  xpReward?: number; // split between the assigned crawlers when the quest is completed
   createdAt: string;
   updatedAt: string;
 }
@@ -0,0 +1,157 @@
+// Map grids and grid-aware token movement: square, hex (flat or pointy top) and gridless maps.
+//
+// Grid settings are calibrated in map image pixels and resolved to display pixels, where the grid is
+// isotropic; callers convert token percentages to display pixels before snapping or measuring.
+
+import { DEFAULT_FEET_PER_CELL, type DiagonalRule, type GridType, type MapGrid } from "@/lib/gameData";
+
+export interface GridPoint {
+  x: number;
+  y: number;
+}
+
+// A map grid in display pixels
+export interface GridSpec {
+  type: GridType;
+  size: number; // between neighbouring cell centers (a hex's flat-to-flat width)
+  offset: GridPoint; // a square's corner or a hex's center
+  feetPerCell: number;
+}
+
+// Per-map settings scaled to the displayed image; maps without them keep the legacy square grid
+export function resolveGridSpec(grid: MapGrid | undefined, displayPerImagePx: number, legacyCellPx: number): GridSpec {
+  if (!grid) return { type: 'square', size: legacyCellPx, offset: { x: 0, y: 0 }, feetPerCell: DEFAULT_FEET_PER_CELL };
+  return {
+    type: grid.type,
+    size: grid.cellSize * displayPerImagePx,
+    offset: { x: grid.offsetX * displayPerImagePx, y: grid.offsetY * displayPerImagePx },
+    feetPerCell: grid.feetPerCell,
+  };
+}
+
+// --- Hex math (axial coordinates, circumradius = size / √3) ---
+interface Axial {
+  q: number;
+  r: number;
+}
+
+const SQRT3 = Math.sqrt(3);
+
+const pixelToAxial = (point: GridPoint, grid: GridSpec): Axial => {
+  const radius = grid.size / SQRT3;
+  const x = point.x - grid.offset.x;
+  const y = point.y - grid.offset.y;
+  return grid.type === 'hex-pointy'
+    ? { q: ((SQRT3 / 3) * x - y / 3) / radius, r: ((2 / 3) * y) / radius }
+    : { q: ((2 / 3) * x) / radius, r: (-x / 3 + (SQRT3 / 3) * y) / radius };
+};
+
+const axialToPixel = ({ q, r }: Axial, grid: GridSpec): GridPoint => {
+  const radius = grid.size / SQRT3;
+  return grid.type === 'hex-pointy'
+    ? { x: grid.offset.x + radius * SQRT3 * (q + r / 2), y: grid.offset.y + radius * 1.5 * r }
+    : { x: grid.offset.x + radius * 1.5 * q, y: grid.offset.y + radius * SQRT3 * (r + q / 2) };
+};
+
+const roundAxial = ({ q, r }: Axial): Axial => {
+  const s = -q - r;
+  let rq = Math.round(q);
+  let rr = Math.round(r);
+  const rs = Math.round(s);
+  const dq = Math.abs(rq - q);
+  const dr = Math.abs(rr - r);
+  const ds = Math.abs(rs - s);
+  if (dq > dr && dq > ds) rq = -rr - rs;
+  else if (dr > ds) rr = -rq - rs;
+  return { q: rq, r: rr };
+};
+
+const hexDistance = (a: Axial, b: Axial) =>
+  (Math.abs(a.q - b.q) + Math.abs(a.r - b.r) + Math.abs(a.q + a.r - b.q - b.r)) / 2;
+
+// --- Squares ---
+const getSquareSteps = (from: GridPoint, to: GridPoint, grid: GridSpec) => ({
+  x: grid.size > 0 ? Math.round((to.x - from.x) / grid.size) : 0,
+  y: grid.size > 0 ? Math.round((to.y - from.y) / grid.size) : 0,
+});
+
+// Center of the cell containing `point`; gridless maps don't snap
+export function snapToCell(point: GridPoint, grid: GridSpec): GridPoint {
+  if (grid.type === 'none' || grid.size <= 0) return { ...point };
+  if (grid.type === 'square') {
+    const snap = (value: number, offset: number) => offset + (Math.floor((value - offset) / grid.size) + 0.5) * grid.size;
+    return { x: snap(point.x, grid.offset.x), y: snap(point.y, grid.offset.y) };
+  }
+  return axialToPixel(roundAxial(pixelToAxial(point, grid)), grid);
+}
+
+// Feet for a move: whole cells on square (under the diagonal rule) and hex grids, straight line when gridless
+export function measureGridMove(from: GridPoint, to: GridPoint, grid: GridSpec, rule: DiagonalRule = '5-5-5'): number {
+  if (grid.size <= 0) return 0;
+  if (grid.type === 'none') {
+    return Math.round((Math.hypot(to.x - from.x, to.y - from.y) / grid.size) * grid.feetPerCell);
+  }
+  if (grid.type !== 'square') {
+    return hexDistance(roundAxial(pixelToAxial(from, grid)), roundAxial(pixelToAxial(to, grid))) * grid.feetPerCell;
+  }
+  const steps = getSquareSteps(from, to, grid);
+  const dx = Math.abs(steps.x);
+  const dy = Math.abs(steps.y);
+  const diagonals = Math.min(dx, dy);
+  const straights = Math.max(dx, dy) - diagonals;
+  switch (rule) {
+    case '5-10-5':
+      return (straights + diagonals + Math.floor(diagonals / 2)) * grid.feetPerCell;
+    case 'euclidean':
+      return Math.round(Math.hypot(dx, dy) * grid.feetPerCell);
+    case '5-5-5':
+    default:
+      return Math.max(dx, dy) * grid.feetPerCell;
+  }
+}
+
+// Cell-by-cell path for drawing a move, start included (squares take diagonals first)
+export function getGridPath(from: GridPoint, to: GridPoint, grid: GridSpec): GridPoint[] {
+  if (grid.type === 'none' || grid.size <= 0) return [{ ...from }, { ...to }];
+  const path: GridPoint[] = [{ ...from }];
+  if (grid.type !== 'square') {
+    const a = pixelToAxial(from, grid);
+    const b = pixelToAxial(to, grid);
+    const count = hexDistance(roundAxial(a), roundAxial(b));
+    for (let i = 1; i <= count; i++) {
+      // Nudge off exact hex edges so rounding is consistent along the line
+      const t = i / count;
+      path.push(axialToPixel(roundAxial({ q: a.q + (b.q - a.q) * t + 1e-6, r: a.r + (b.r - a.r) * t + 1e-6 }), grid));
+    }
+    return path;
+  }
+  const steps = getSquareSteps(from, to, grid);
+  let { x, y } = from;
+  for (let i = 0; i < Math.max(Math.abs(steps.x), Math.abs(steps.y)); i++) {
+    if (i < Math.abs(steps.x)) x += Math.sign(steps.x) * grid.size;
+    if (i < Math.abs(steps.y)) y += Math.sign(steps.y) * grid.size;
+    path.push({ x, y });
+  }
+  return path;
+}
+
+// Grid settings from a calibration drag across `cells` cells, in image pixels. Squares: drag between
+// two grid-line corners. Hexes: drag from one flat edge straight across to the matching edge.
+export function calibrateGrid(
+  type: GridType,
+  start: GridPoint,
+  end: GridPoint,
+  cells: number,
+  feetPerCell: number,
+): MapGrid | null {
+  const span = type === 'square'
+    ? Math.max(Math.abs(end.x - start.x), Math.abs(end.y - start.y))
+    : Math.hypot(end.x - start.x, end.y - start.y);
+  if (type === 'none' || cells <= 0 || span <= 0) return null;
+  const cellSize = span / cells;
+  // A hex's center sits half a cell in from the edge the drag started on
+  const origin = type === 'square'
+    ? start
+    : { x: start.x + (end.x - start.x) / cells / 2, y: start.y + (end.y - start.y) / cells / 2 };
+  return { type, cellSize, offsetX: origin.x, offsetY: origin.y, feetPerCell };
+}
@@ -0,0 +1,121 @@
+// Inventory stacks: identical consumables (potions, tomes, ammo) share one entry with a
+// `quantity` instead of one copy per unit. Anything that can be equipped, carries weapon data or
+// has been upgraded stays one-entry-per-item, because equipment slots and upgrades point at a
+// specific item id.
+//
+// Entries without `quantity` count as one, so older inventories keep working until migrated.
+
+import type { InventoryItem } from "@/lib/gameData";
+
+export const getItemQuantity = (item: InventoryItem) => Math.max(1, item.quantity ?? 1);
+
+export const isStackable = (item: InventoryItem) => !item.equipSlot && !item.weaponData && !item.isUpgraded;
+
+// Loose identity used to group look-alike items in lists and to sync library edits
+export const getItemSignature = (item: InventoryItem): string => {
+  const modifiersStr = item.statModifiers
+    ? JSON.stringify(Object.entries(item.statModifiers).filter(([, v]) => v !== 0).sort())
+    : '';
+  return `${item.name}|${item.description || ''}|${item.equipSlot || ''}|${item.goldValue ?? 0}|${modifiersStr}`;
+};
+
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .filter(key => record[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+// Strict identity for merging: every field except the entry's id and count must match
+const getStackKey = (item: InventoryItem) => {
+  const { id: _id, quantity: _quantity, equipped: _equipped, ...rest } = item;
+  return stableStringify(rest);
+};
+
+const withQuantity = (item: InventoryItem, quantity: number): InventoryItem => ({ ...item, quantity });
+
+// Add `quantity` units of an item, topping up a matching stack when there is one.
+// New entries always get fresh ids so the source inventory keeps its own.
+export function addToInventory(items: InventoryItem[], incoming: InventoryItem, quantity = getItemQuantity(incoming)): InventoryItem[] {
+  if (quantity <= 0) return items;
+  const { quantity: _quantity, ...base } = incoming;
+  if (!isStackable(incoming)) {
+    return [...items, ...Array.from({ length: quantity }, () => ({ ...base, id: crypto.randomUUID() }))];
+  }
+  const key = getStackKey(incoming);
+  const index = items.findIndex(item => isStackable(item) && getStackKey(item) === key);
+  if (index === -1) return [...items, withQuantity({ ...base, id: crypto.randomUUID() }, quantity)];
+  return items.map((item, i) => (i === index ? withQuantity(item, getItemQuantity(item) + quantity) : item));
+}
+
+export const addAllToInventory = (items: InventoryItem[], incoming: InventoryItem[]) =>
+  incoming.reduce((acc, item) => addToInventory(acc, item), items);
+
+// Remove up to `quantity` units from one entry, dropping it once empty
+export function removeFromInventory(items: InventoryItem[], itemId: string, quantity = 1): InventoryItem[] {
+  return items.flatMap(item => {
+    if (item.id !== itemId) return [item];
+    const left = getItemQuantity(item) - quantity;
+    return left > 0 ? [withQuantity(item, left)] : [];
+  });
+}
+
+// Take `quantity` units spread across the given entries (in order), e.g. every stack of a
+// grouped row. `taken` holds the removed units as entries ready for addToInventory.
+export function takeFromInventory(items: InventoryItem[], itemIds: string[], quantity: number) {
+  let remaining = items;
+  const taken: InventoryItem[] = [];
+  let left = quantity;
+  for (const id of itemIds) {
+    if (left <= 0) break;
+    const item = remaining.find(i => i.id === id);
+    if (!item) continue;
+    const count = Math.min(left, getItemQuantity(item));
+    remaining = removeFromInventory(remaining, id, count);
+    taken.push(withQuantity(item, count));
+    left -= count;
+  }
+  return { remaining, taken };
+}
+
+// Move `quantity` units of a stack into a new entry placed right after it
+export function splitStack(items: InventoryItem[], itemId: string, quantity: number): InventoryItem[] {
+  return items.flatMap(item => {
+    const total = getItemQuantity(item);
+    if (item.id !== itemId || quantity <= 0 || quantity >= total) return [item];
+    return [withQuantity(item, total - quantity), withQuantity({ ...item, id: crypto.randomUUID() }, quantity)];
+  });
+}
+
+// Fold identical stackable entries into the first of each, keeping list order.
+// Returns the same array when nothing merged.
+export function mergeStacks(items: InventoryItem[]): InventoryItem[] {
+  const merged: InventoryItem[] = [];
+  const stackIndex = new Map<string, number>();
+  let changed = false;
+  for (const item of items) {
+    if (!isStackable(item)) {
+      merged.push(item);
+      continue;
+    }
+    const key = getStackKey(item);
+    const index = stackIndex.get(key);
+    if (index === undefined) {
+      stackIndex.set(key, merged.length);
+      merged.push(item);
+    } else {
+      merged[index] = withQuantity(merged[index], getItemQuantity(merged[index]) + getItemQuantity(item));
+      changed = true;
+    }
+  }
+  return changed ? merged : items;
+}
+
+export const countInventoryItems = (items: InventoryItem[]) =>
+  items.reduce((sum, item) => sum + getItemQuantity(item), 0);
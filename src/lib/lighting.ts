@@ -0,0 +1,75 @@
+// Lighting layer: light sources with bright/dim radii and darkvision, resolved into map-space ellipses.
+//
+// Radii are authored in feet. On a non-square map a circle of feet is an ellipse in map percentages,
+// so each area carries its own x and y radius. Light is blocked by the same walls and closed doors as
+// line of sight, so a torch never lights the far side of a wall.
+
+import type { AmbientLight, LightRadius, MapWall } from "@/lib/gameData";
+import { computeVisibilityPolygon, getBlockingSegments, isPointInPolygon, type Point } from "@/lib/lineOfSight";
+
+// Lit area in map percentages; `region` clips it to what the source can reach
+export interface LightEllipse {
+  x: number;
+  y: number;
+  rx: number;
+  ry: number;
+  region?: Point[];
+}
+
+export interface LightingLayer {
+  ambient: AmbientLight;
+  bright: LightEllipse[];
+  dim: LightEllipse[];
+  darkvision: LightEllipse[]; // darkness inside these reads as dim light
+}
+
+// Light source or viewer position in map percentages
+export interface LightEmitter extends LightRadius {
+  x: number;
+  y: number;
+}
+
+export interface DarkvisionViewer {
+  x: number;
+  y: number;
+  darkvisionFt: number;
+}
+
+export function buildLightingLayer(
+  ambient: AmbientLight,
+  emitters: LightEmitter[],
+  viewers: DarkvisionViewer[],
+  feetPerPercent: { x: number; y: number },
+  walls: MapWall[] = [],
+): LightingLayer {
+  const hasWalls = getBlockingSegments(walls).length > 0;
+  const toEllipse = (origin: Point, radiusFt: number): LightEllipse => ({
+    x: origin.x,
+    y: origin.y,
+    rx: radiusFt / feetPerPercent.x,
+    ry: radiusFt / feetPerPercent.y,
+    region: hasWalls ? computeVisibilityPolygon(origin, walls) : undefined,
+  });
+
+  const layer: LightingLayer = { ambient, bright: [], dim: [], darkvision: [] };
+  for (const emitter of emitters) {
+    if (emitter.dimFt > emitter.brightFt) layer.dim.push(toEllipse(emitter, emitter.dimFt));
+    if (emitter.brightFt > 0) layer.bright.push(toEllipse(emitter, emitter.brightFt));
+  }
+  for (const viewer of viewers) {
+    if (viewer.darkvisionFt > 0) layer.darkvision.push(toEllipse(viewer, viewer.darkvisionFt));
+  }
+  return layer;
+}
+
+const isInsideEllipse = (point: Point, e: LightEllipse) =>
+  e.rx > 0 && e.ry > 0 &&
+  ((point.x - e.x) / e.rx) ** 2 + ((point.y - e.y) / e.ry) ** 2 <= 1 &&
+  (!e.region || isPointInPolygon(point, e.region));
+
+export function getLightLevelAt(point: Point, layer: LightingLayer): AmbientLight {
+  if (layer.ambient === 'bright' || layer.bright.some(e => isInsideEllipse(point, e))) return 'bright';
+  if (layer.ambient === 'dim' || layer.dim.some(e => isInsideEllipse(point, e))) return 'dim';
+  if (layer.darkvision.some(e => isInsideEllipse(point, e))) return 'dim';
+  return 'dark';
+}
@@ -0,0 +1,126 @@
+// Line-of-sight visibility for dynamic fog of war.
+//
+// Works directly in map percentage space (0-100 on both axes). Visibility through straight walls is
+// preserved by any affine stretch, so a non-square map needs no aspect correction.
+
+import type { MapWall } from "@/lib/gameData";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+type Segment = [Point, Point];
+
+// Explored memory is a coarse grid of cells over the map
+export const EXPLORED_GRID_SIZE = 64;
+
+const MAP_EDGES: Segment[] = [
+  [{ x: 0, y: 0 }, { x: 100, y: 0 }],
+  [{ x: 100, y: 0 }, { x: 100, y: 100 }],
+  [{ x: 100, y: 100 }, { x: 0, y: 100 }],
+  [{ x: 0, y: 100 }, { x: 0, y: 0 }],
+];
+
+// Walls and closed doors block sight; open doors don't
+export function getBlockingSegments(walls: MapWall[] = []): Segment[] {
+  return walls
+    .filter(w => w.kind === 'wall' || !w.open)
+    .map(w => [{ x: w.x1, y: w.y1 }, { x: w.x2, y: w.y2 }] as Segment);
+}
+
+// Distance along the ray (origin + t * dir) to a segment, or null when it misses
+function raySegmentDistance(origin: Point, dir: Point, [a, b]: Segment): number | null {
+  const sx = b.x - a.x;
+  const sy = b.y - a.y;
+  const denom = dir.x * sy - dir.y * sx;
+  if (Math.abs(denom) < 1e-12) return null; // parallel
+  const t = ((a.x - origin.x) * sy - (a.y - origin.y) * sx) / denom;
+  const u = ((a.x - origin.x) * dir.y - (a.y - origin.y) * dir.x) / denom;
+  if (t < 0 || u < 0 || u > 1) return null;
+  return t;
+}
+
+// Visibility polygon around `origin`: rays cast at every segment endpoint (and just either side of it)
+export function computeVisibilityPolygon(origin: Point, walls: MapWall[] = []): Point[] {
+  const segments = [...MAP_EDGES, ...getBlockingSegments(walls)];
+  const angles: number[] = [];
+  for (const [a, b] of segments) {
+    for (const p of [a, b]) {
+      const angle = Math.atan2(p.y - origin.y, p.x - origin.x);
+      angles.push(angle - 1e-5, angle, angle + 1e-5);
+    }
+  }
+  angles.sort((a, b) => a - b);
+
+  const polygon: Point[] = [];
+  for (const angle of angles) {
+    const dir = { x: Math.cos(angle), y: Math.sin(angle) };
+    let nearest = Infinity;
+    for (const segment of segments) {
+      const t = raySegmentDistance(origin, dir, segment);
+      if (t !== null && t < nearest) nearest = t;
+    }
+    if (nearest !== Infinity) {
+      polygon.push({ x: origin.x + dir.x * nearest, y: origin.y + dir.y * nearest });
+    }
+  }
+  return polygon;
+}
+
+export function isPointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Mark every grid cell whose center lies inside one of the polygons; returns a new cell array
+export function markExploredCells(explored: boolean[] | undefined, polygons: Point[][]): boolean[] {
+  const cellCount = EXPLORED_GRID_SIZE * EXPLORED_GRID_SIZE;
+  const next = explored && explored.length === cellCount ? [...explored] : new Array<boolean>(cellCount).fill(false);
+  const cell = 100 / EXPLORED_GRID_SIZE;
+  for (let row = 0; row < EXPLORED_GRID_SIZE; row++) {
+    for (let col = 0; col < EXPLORED_GRID_SIZE; col++) {
+      const index = row * EXPLORED_GRID_SIZE + col;
+      if (next[index]) continue;
+      const center = { x: (col + 0.5) * cell, y: (row + 0.5) * cell };
+      if (polygons.some(polygon => isPointInPolygon(center, polygon))) next[index] = true;
+    }
+  }
+  return next;
+}
+
+// Compact storage form: one '0'/'1' per cell
+export function encodeExploredCells(cells: boolean[]): string {
+  return cells.map(c => (c ? '1' : '0')).join('');
+}
+
+export function decodeExploredCells(encoded: string | null | undefined): boolean[] | undefined {
+  if (!encoded || encoded.length !== EXPLORED_GRID_SIZE * EXPLORED_GRID_SIZE) return undefined;
+  return encoded.split('').map(c => c === '1');
+}
+
+// Explored cells as SVG rects (percent units), merging horizontal runs to keep the DOM small
+export function getExploredRuns(cells: boolean[] | undefined): { x: number; y: number; width: number; height: number }[] {
+  if (!cells) return [];
+  const cell = 100 / EXPLORED_GRID_SIZE;
+  const runs: { x: number; y: number; width: number; height: number }[] = [];
+  for (let row = 0; row < EXPLORED_GRID_SIZE; row++) {
+    let start = -1;
+    for (let col = 0; col <= EXPLORED_GRID_SIZE; col++) {
+      const on = col < EXPLORED_GRID_SIZE && cells[row * EXPLORED_GRID_SIZE + col];
+      if (on && start === -1) start = col;
+      if (!on && start !== -1) {
+        runs.push({ x: start * cell, y: row * cell, width: (col - start) * cell, height: cell });
+        start = -1;
+      }
+    }
+  }
+  return runs;
+}
@@ -0,0 +1,264 @@
+// Map image pipeline: content hashing, thumbnails, previews and tile pyramids.
+//
+// Uploads are keyed by the SHA-256 of the file, so uploading the same image twice reuses the stored
+// copy. With Firebase Storage every rendition lives under `rooms/{roomId}/map-assets/{hash}/` and is
+// immutable, so browsers can cache it indefinitely; without Storage the map doc carries a (compressed)
+// data URL and the asset only holds the thumbnail. Files belong to one campaign: copying a campaign
+// copies them, and a campaign only ever deletes files under its own folder.
+
+import { storage } from "@/lib/firebase";
+import { ref as storageRef, uploadBytes, getDownloadURL, getBlob } from "firebase/storage";
+import type { MapAsset, MapTileLevel, MapTilePyramid } from "@/lib/gameData";
+
+export const MAP_THUMBNAIL_PX = 320;
+export const MAP_PREVIEW_PX = 2048;
+export const MAP_TILE_PX = 512;
+// Maps longer than this on either side also get a tile pyramid
+export const MAP_TILING_MIN_PX = 4096;
+// Firestore has a hard ~1MB per-field limit (1,048,487 bytes)
+export const FIRESTORE_IMAGE_LIMIT = 950_000;
+
+const TILE_UPLOAD_BATCH = 4;
+const IMMUTABLE_CACHE = 'public, max-age=31536000, immutable';
+
+export interface MapUpload {
+  asset: MapAsset;
+  image: string; // full-resolution URL for the map doc
+  isNewAsset: boolean;
+}
+
+export const getMapAssetFolder = (roomId: string, assetId: string) => `rooms/${roomId}/map-assets/${assetId}`;
+
+// Whether a campaign may delete a Storage file: anything under its own folder, plus the per-map files
+// of maps uploaded before the asset pipeline. Older assets under the shared `map-assets/` folder are
+// left alone since another campaign may use the same hash.
+export const ownsStoragePath = (roomId: string, path: string) => path.startsWith(`rooms/${roomId}/`) || path.startsWith('maps/');
+
+export async function hashMapFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Size that fits inside a `maxPx` square, never upscaled
+const fitWithin = (width: number, height: number, maxPx: number) => {
+  const scale = Math.min(1, maxPx / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+const drawToCanvas = (
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  crop?: { x: number; y: number; width: number; height: number },
+): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+  ctx.imageSmoothingQuality = 'high';
+  if (crop) ctx.drawImage(source, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height);
+  else ctx.drawImage(source, 0, 0, width, height);
+  return canvas;
+};
+
+const canvasToJpeg = (canvas: HTMLCanvasElement, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode map image'))), 'image/jpeg', quality);
+  });
+
+const uploadRendition = async (path: string, blob: Blob, contentType: string): Promise<string> => {
+  if (!storage) throw new Error('Firebase Storage is not available');
+  const fileRef = storageRef(storage, path);
+  await uploadBytes(fileRef, blob, { contentType, cacheControl: IMMUTABLE_CACHE });
+  return getDownloadURL(fileRef);
+};
+
+const readAsDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+
+// JPEG data URL under `maxBytes`: lower quality first, then resolution
+function compressToDataUrl(bitmap: ImageBitmap, maxBytes: number): string {
+  const canvas = drawToCanvas(bitmap, bitmap.width, bitmap.height);
+  let quality = 0.92;
+  let compressed = canvas.toDataURL('image/jpeg', quality);
+  while (compressed.length > maxBytes && quality > 0.1) {
+    quality -= 0.05;
+    compressed = canvas.toDataURL('image/jpeg', quality);
+  }
+  if (compressed.length > maxBytes) {
+    const scale = Math.sqrt(maxBytes / compressed.length) * 0.9; // 10% margin
+    const scaled = drawToCanvas(bitmap, Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+    compressed = scaled.toDataURL('image/jpeg', 0.85);
+  }
+  return compressed;
+}
+
+// Level 0 is full resolution; halve until the preview covers the rest
+export function planTilePyramid(width: number, height: number, tileSize = MAP_TILE_PX): Omit<MapTileLevel, 'urls'>[] {
+  const levels: Omit<MapTileLevel, 'urls'>[] = [];
+  let levelWidth = width;
+  let levelHeight = height;
+  while (Math.max(levelWidth, levelHeight) > MAP_PREVIEW_PX) {
+    levels.push({ width: levelWidth, height: levelHeight, columns: Math.ceil(levelWidth / tileSize), rows: Math.ceil(levelHeight / tileSize) });
+    levelWidth = Math.max(1, Math.round(levelWidth / 2));
+    levelHeight = Math.max(1, Math.round(levelHeight / 2));
+  }
+  return levels;
+}
+
+async function buildTilePyramid(bitmap: ImageBitmap, folder: string, storagePaths: string[]): Promise<MapTilePyramid> {
+  const levels: MapTileLevel[] = [];
+  const plan = planTilePyramid(bitmap.width, bitmap.height);
+  for (const [levelIndex, level] of plan.entries()) {
+    // Each tile covers tileSize level pixels, i.e. tileSize * scale source pixels
+    const scale = bitmap.width / level.width;
+    const jobs: { path: string; index: number; canvas: () => HTMLCanvasElement }[] = [];
+    for (let row = 0; row < level.rows; row++) {
+      for (let col = 0; col < level.columns; col++) {
+        const width = Math.min(MAP_TILE_PX, level.width - col * MAP_TILE_PX);
+        const height = Math.min(MAP_TILE_PX, level.height - row * MAP_TILE_PX);
+        const crop = { x: col * MAP_TILE_PX * scale, y: row * MAP_TILE_PX * scale, width: width * scale, height: height * scale };
+        jobs.push({
+          path: `${folder}/tiles/${levelIndex}/${col}_${row}.jpg`,
+          index: row * level.columns + col,
+          canvas: () => drawToCanvas(bitmap, width, height, crop),
+        });
+      }
+    }
+    const urls: string[] = new Array(jobs.length);
+    for (let i = 0; i < jobs.length; i += TILE_UPLOAD_BATCH) {
+      await Promise.all(jobs.slice(i, i + TILE_UPLOAD_BATCH).map(async job => {
+        urls[job.index] = await uploadRendition(job.path, await canvasToJpeg(job.canvas(), 0.85), 'image/jpeg');
+        storagePaths.push(job.path);
+      }));
+    }
+    levels.push({ ...level, urls });
+  }
+  return { tileSize: MAP_TILE_PX, levels };
+}
+
+// Hash, render and store an uploaded map; an asset already stored under the same hash is reused
+export async function processMapUpload(file: File, roomId: string, findAsset: (id: string) => MapAsset | undefined): Promise<MapUpload> {
+  const id = await hashMapFile(file);
+  const existing = findAsset(id);
+  if (existing?.originalUrl) return { asset: existing, image: existing.originalUrl, isNewAsset: false };
+
+  const bitmap = await createImageBitmap(file);
+  try {
+    const thumbSize = fitWithin(bitmap.width, bitmap.height, MAP_THUMBNAIL_PX);
+    const thumbnail = await canvasToJpeg(drawToCanvas(bitmap, thumbSize.width, thumbSize.height), 0.8);
+
+    if (!storage) {
+      // Firestore only: the map doc carries the image, the asset only the thumbnail
+      const original = await readAsDataUrl(file);
+      const image = original.length > FIRESTORE_IMAGE_LIMIT ? compressToDataUrl(bitmap, FIRESTORE_IMAGE_LIMIT) : original;
+      const asset: MapAsset = existing ?? {
+        id,
+        width: bitmap.width,
+        height: bitmap.height,
+        byteSize: file.size,
+        mimeType: file.type || 'image/png',
+        thumbnailUrl: await readAsDataUrl(thumbnail),
+        createdAt: new Date().toISOString(),
+      };
+      return { asset, image, isNewAsset: !existing };
+    }
+
+    const folder = getMapAssetFolder(roomId, id);
+    const storagePaths: string[] = [];
+    const upload = async (name: string, blob: Blob, contentType: string) => {
+      const url = await uploadRendition(`${folder}/${name}`, blob, contentType);
+      storagePaths.push(`${folder}/${name}`);
+      return url;
+    };
+
+    const asset: MapAsset = {
+      id,
+      width: bitmap.width,
+      height: bitmap.height,
+      byteSize: file.size,
+      mimeType: file.type || 'image/png',
+      originalUrl: await upload('original', file, file.type || 'image/png'),
+      thumbnailUrl: await upload('thumbnail.jpg', thumbnail, 'image/jpeg'),
+      createdAt: new Date().toISOString(),
+    };
+    if (Math.max(bitmap.width, bitmap.height) > MAP_PREVIEW_PX) {
+      const previewSize = fitWithin(bitmap.width, bitmap.height, MAP_PREVIEW_PX);
+      asset.previewUrl = await upload('preview.jpg', await canvasToJpeg(drawToCanvas(bitmap, previewSize.width, previewSize.height), 0.85), 'image/jpeg');
+    }
+    if (Math.max(bitmap.width, bitmap.height) > MAP_TILING_MIN_PX) {
+      asset.tiles = await buildTilePyramid(bitmap, folder, storagePaths);
+    }
+    asset.storagePaths = storagePaths;
+    return { asset, image: asset.originalUrl, isNewAsset: true };
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Copy one Storage file (e.g. a pre-asset map upload) and return the copy's URL
+export async function copyStorageFile(fromPath: string, toPath: string): Promise<string> {
+  const blob = await getBlob(storageRef(storage!, fromPath));
+  return uploadRendition(toPath, blob, blob.type || 'image/png');
+}
+
+// Copy an asset's Storage files into another campaign's folder and point the asset at the copies
+export async function copyMapAssetFiles(asset: MapAsset, toRoomId: string): Promise<MapAsset> {
+  if (!storage || !asset.storagePaths?.length) return asset;
+  const marker = `map-assets/${asset.id}/`;
+  const folder = getMapAssetFolder(toRoomId, asset.id);
+  const urls = new Map<string, string>(); // path within the asset folder → new URL
+  const storagePaths: string[] = [];
+  for (let i = 0; i < asset.storagePaths.length; i += TILE_UPLOAD_BATCH) {
+    await Promise.all(asset.storagePaths.slice(i, i + TILE_UPLOAD_BATCH).map(async path => {
+      const name = path.slice(path.indexOf(marker) + marker.length);
+      urls.set(name, await copyStorageFile(path, `${folder}/${name}`));
+      storagePaths.push(`${folder}/${name}`);
+    }));
+  }
+  const copy: MapAsset = { ...asset, storagePaths };
+  const urlFor = (name: string, url: string) => urls.get(name) ?? url;
+  if (asset.originalUrl) copy.originalUrl = urlFor('original', asset.originalUrl);
+  copy.thumbnailUrl = urlFor('thumbnail.jpg', asset.thumbnailUrl);
+  if (asset.previewUrl) copy.previewUrl = urlFor('preview.jpg', asset.previewUrl);
+  if (asset.tiles) {
+    copy.tiles = {
+      ...asset.tiles,
+      levels: asset.tiles.levels.map((level, levelIndex) => ({
+        ...level,
+        urls: level.urls.map((url, index) =>
+          urlFor(`tiles/${levelIndex}/${index % level.columns}_${Math.floor(index / level.columns)}.jpg`, url)),
+      })),
+    };
+  }
+  return copy;
+}
+
+// Responsive candidates for an <img> so lists fetch the smallest rendition that looks sharp
+export function getMapSrcSet(asset: MapAsset | null | undefined, image: string): string | undefined {
+  if (!asset) return undefined;
+  const thumbWidth = fitWithin(asset.width, asset.height, MAP_THUMBNAIL_PX).width;
+  const candidates = [`${asset.thumbnailUrl} ${thumbWidth}w`];
+  if (asset.previewUrl) candidates.push(`${asset.previewUrl} ${fitWithin(asset.width, asset.height, MAP_PREVIEW_PX).width}w`);
+  if (asset.width > thumbWidth) candidates.push(`${image} ${asset.width}w`);
+  return candidates.join(', ');
+}
+
+// Pyramid level to draw at `screenWidth` pixels across, or null when the preview is sharp enough
+export function pickTileLevel(asset: MapAsset, screenWidth: number): MapTileLevel | null {
+  const levels = asset.tiles?.levels;
+  if (!levels?.length) return null;
+  const previewWidth = fitWithin(asset.width, asset.height, MAP_PREVIEW_PX).width;
+  if (screenWidth <= previewWidth) return null;
+  // Smallest level that still has a pixel per screen pixel; full resolution beyond that
+  for (let i = levels.length - 1; i >= 0; i--) {
+    if (levels[i].width >= screenWidth) return levels[i];
+  }
+  return levels[0];
+}
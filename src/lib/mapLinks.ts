@@ -0,0 +1,48 @@
+// Map links: stairs, doors and teleporters that move crawlers between the maps of an episode.
+//
+// Links live in each map's settings and point at a target map and, once the DM has placed one, an
+// arrival link on it. Where each crawler currently is, for a split party, is kept in the episode's
+// `crawler-locations` doc.
+
+import type { MapLink, MapSettings } from "@/lib/gameData";
+
+export interface CrawlerLocations {
+  locations: Record<string, string>; // crawlerId -> map doc id
+  partyTravelId?: string; // changes every time the whole party takes a link
+  partyMapId?: string;
+}
+
+export const getCrawlerLocationsPath = (roomId: string | null | undefined, episodeId: string) =>
+  (roomId ? `rooms/${roomId}/` : '') + `crawler-locations/${episodeId}`;
+
+// Link under a dropped token; `radius` is the hit distance in map percentages on each axis
+export function findLinkAt(point: { x: number; y: number }, links: MapLink[], radius: { x: number; y: number }): MapLink | null {
+  let nearest: MapLink | null = null;
+  let nearestDist = 1;
+  for (const link of links) {
+    const dist = Math.hypot((point.x - link.x) / radius.x, (point.y - link.y) / radius.y);
+    if (dist <= nearestDist) {
+      nearest = link;
+      nearestDist = dist;
+    }
+  }
+  return nearest;
+}
+
+// Where a link lands on its target map: the arrival link, or the map's center until one is placed
+export function getLinkArrival(link: MapLink, targetSettings: MapSettings | undefined): { x: number; y: number } {
+  const arrival = targetSettings?.links?.find(l => l.id === link.targetLinkId);
+  return arrival ? { x: arrival.x, y: arrival.y } : { x: 50, y: 50 };
+}
+
+// Arrival spots for several crawlers: the first on the link, the rest in a ring around it
+export function spreadArrivals(origin: { x: number; y: number }, count: number, step: { x: number; y: number }): { x: number; y: number }[] {
+  return Array.from({ length: count }, (_, i) => {
+    if (i === 0) return { ...origin };
+    const angle = ((i - 1) / Math.max(1, count - 1)) * Math.PI * 2;
+    return {
+      x: Math.max(0, Math.min(100, origin.x + Math.cos(angle) * step.x)),
+      y: Math.max(0, Math.min(100, origin.y + Math.sin(angle) * step.y)),
+    };
+  });
+}
@@ -0,0 +1,71 @@
+// Map references held by episodes: mapIds, mob/crawler placements, mapSettings keys, map link
+// targets and the per-map Firestore docs keyed `${episodeId}-${mapId}`.
+//
+// Maps are addressed by their Firestore doc id. Episodes created before that stored the map's
+// position in the maps array as a string; those are rewritten once by the DM's client.
+
+import type { Episode } from "@/lib/gameData";
+
+// Per-map docs that persist between sessions (pings and rulers are transient)
+export const PER_MAP_DOC_COLLECTIONS = ['fog-of-war', 'crawler-placements', 'runtime-mob-placements', 'name-overrides', 'map-boxes', 'map-annotations', 'dm-map-annotations'] as const;
+
+export const getPerMapDocPath = (
+  roomId: string | null | undefined,
+  collectionName: string,
+  episodeId: string,
+  mapId: string,
+) => (roomId ? `rooms/${roomId}/` : '') + `${collectionName}/${episodeId}-${mapId}`;
+
+// Doc ids are UUIDs, so a bare number can only be a legacy array index
+export const isLegacyMapIndex = (mapId: string) => /^\d+$/.test(mapId);
+
+// Rewrite every map reference in an episode; `resolve` returns the new id, or null to drop the map.
+// Returns only the changed fields, or null when nothing references a changed map.
+export function remapEpisodeMaps(
+  episode: Episode,
+  resolve: (mapId: string) => string | null,
+): Pick<Episode, 'mapIds' | 'mobPlacements' | 'crawlerPlacements' | 'mapSettings'> | null {
+  const referenced = new Set([
+    ...episode.mapIds,
+    ...(episode.mobPlacements || []).map(p => p.mapId),
+    ...(episode.crawlerPlacements || []).map(p => p.mapId),
+    ...Object.keys(episode.mapSettings || {}),
+    ...Object.values(episode.mapSettings || {}).flatMap(settings => (settings.links || []).map(l => l.targetMapId)),
+  ]);
+  if (![...referenced].some(id => id && resolve(id) !== id)) return null;
+
+  const mapIds: string[] = [];
+  for (const id of episode.mapIds) {
+    const next = resolve(id);
+    if (next && !mapIds.includes(next)) mapIds.push(next);
+  }
+  const remap = <T extends { mapId: string }>(placements: T[] = []) =>
+    placements.flatMap(p => {
+      // Placements saved before per-map placement belong to the first map
+      const next = resolve(p.mapId || episode.mapIds[0] || '');
+      return next ? [{ ...p, mapId: next }] : [];
+    });
+  const mapSettings: Episode['mapSettings'] = {};
+  for (const [id, settings] of Object.entries(episode.mapSettings || {})) {
+    const next = resolve(id);
+    if (!next) continue;
+    // Links follow their target map, or go with it
+    mapSettings[next] = settings.links
+      ? {
+        ...settings,
+        links: settings.links.flatMap(link => {
+          const targetMapId = resolve(link.targetMapId);
+          return targetMapId ? [{ ...link, targetMapId }] : [];
+        }),
+      }
+      : settings;
+  }
+
+  const changes: Pick<Episode, 'mapIds' | 'mobPlacements' | 'crawlerPlacements' | 'mapSettings'> = {
+    mapIds,
+    mobPlacements: remap(episode.mobPlacements),
+    mapSettings,
+  };
+  if (episode.crawlerPlacements) changes.crawlerPlacements = remap(episode.crawlerPlacements);
+  return changes;
+}
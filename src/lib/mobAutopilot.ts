@@ -0,0 +1,163 @@
+// Mob auto-pilot: suggests a mob's combat turn (target, movement, attack) from its behavior profile.
+//
+// Everything here works in feet on the map plane so the planner stays independent of map pixels;
+// ShowTimeView converts token percentages to feet and back. The DM always approves or overrides the plan.
+
+import { DEFAULT_MOB_SPEED, DEFAULT_REACH_FT, getMobActionBonuses, type Mob, type MobAction, type MobBehavior } from "@/lib/gameData";
+
+export interface AutopilotToken {
+  id: string;
+  name: string;
+  x: number; // feet from the map's left edge
+  y: number; // feet from the map's top edge
+  hp: number;
+  maxHP: number;
+}
+
+export interface MobTurnPlan {
+  combatantId: string;
+  behavior: MobBehavior;
+  targetId?: string;
+  targetName?: string;
+  to: { x: number; y: number }; // destination in feet (equals the start when holding position)
+  moveFt: number;
+  actionId?: string; // set only when the target is in reach after moving
+  summary: string;
+}
+
+export interface MobTurnInput {
+  self: AutopilotToken;
+  mob: Mob;
+  crawlers: AutopilotToken[]; // living crawlers on the current map
+  allies: AutopilotToken[]; // other living mobs on the current map
+  bounds: { width: number; height: number }; // map size in feet
+  forcedTargetId?: string; // DM override
+}
+
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const getReach = (action: MobAction) => action.reachFt ?? DEFAULT_REACH_FT;
+
+const averageDamage = (mob: Mob, action: MobAction) =>
+  action.damageDice.reduce((sum, d) => sum + (d.count * (d.sides + 1)) / 2, 0) + getMobActionBonuses(mob, action).damageBonus;
+
+// Step from `from` along the line to `toward` by `step` feet (negative steps move away), clamped to the map
+const stepToward = (
+  from: { x: number; y: number },
+  toward: { x: number; y: number },
+  step: number,
+  bounds: { width: number; height: number },
+) => {
+  const dist = distance(from, toward);
+  if (dist === 0 || step === 0) return { ...from };
+  const ratio = step / dist;
+  return {
+    x: Math.max(0, Math.min(bounds.width, from.x + (toward.x - from.x) * ratio)),
+    y: Math.max(0, Math.min(bounds.height, from.y + (toward.y - from.y) * ratio)),
+  };
+};
+
+// Hardest-hitting action that reaches `rangeFt`, else undefined
+const pickAction = (mob: Mob, rangeFt: number) => {
+  // Half a foot of slack absorbs rounding after a move
+  const inReach = (mob.actions ?? []).filter(a => getReach(a) + 0.5 >= rangeFt);
+  return inReach.sort((a, b) => averageDamage(mob, b) - averageDamage(mob, a))[0];
+};
+
+const nearest = (from: { x: number; y: number }, tokens: AutopilotToken[]) =>
+  [...tokens].sort((a, b) => distance(from, a) - distance(from, b) || a.hp - b.hp)[0];
+
+const weakest = (tokens: AutopilotToken[]) =>
+  [...tokens].sort((a, b) => a.hp / Math.max(1, a.maxHP) - b.hp / Math.max(1, b.maxHP))[0];
+
+export function planMobTurn({ self, mob, crawlers, allies, bounds, forcedTargetId }: MobTurnInput): MobTurnPlan | null {
+  const behavior = mob.behavior ?? 'aggressive';
+  if (crawlers.length === 0) return null;
+  const speed = mob.speed ?? DEFAULT_MOB_SPEED;
+  const actions = mob.actions ?? [];
+  const meleeReach = actions.length > 0 ? Math.min(...actions.map(getReach)) : DEFAULT_REACH_FT;
+  const maxReach = actions.length > 0 ? Math.max(...actions.map(getReach)) : DEFAULT_REACH_FT;
+  const forced = forcedTargetId ? crawlers.find(c => c.id === forcedTargetId) : undefined;
+
+  let target: AutopilotToken;
+  let to = { x: self.x, y: self.y };
+  let intent: string;
+
+  switch (behavior) {
+    case 'defensive': {
+      target = forced ?? nearest(self, crawlers);
+      const gap = distance(self, target);
+      if (!forced && self.hp <= self.maxHP / 2) {
+        // Badly hurt: fall back at full speed and skip the attack
+        to = stepToward(self, target, -speed, bounds);
+        const moveFt = distance(self, to);
+        return {
+          combatantId: self.id,
+          behavior,
+          targetId: target.id,
+          targetName: target.name,
+          to,
+          moveFt,
+          summary: moveFt >= 1 ? `Retreats ${Math.round(moveFt)}ft from ${target.name}` : `Cornered by ${target.name}: holds position`,
+        };
+      }
+      // Only engage threats that are already close; otherwise hold position
+      if (gap > meleeReach && gap <= meleeReach + speed) {
+        to = stepToward(self, target, gap - meleeReach, bounds);
+      }
+      intent = 'Guards against';
+      break;
+    }
+    case 'ranged-kiter': {
+      target = forced ?? nearest(self, crawlers);
+      const gap = distance(self, target);
+      const preferred = maxReach;
+      if (gap < preferred) {
+        to = stepToward(self, target, -Math.min(speed, preferred - gap), bounds);
+      } else if (gap > preferred) {
+        to = stepToward(self, target, Math.min(speed, gap - preferred), bounds);
+      }
+      intent = 'Keeps its distance from';
+      break;
+    }
+    case 'support': {
+      target = forced ?? weakest(crawlers);
+      // Stay beside the most wounded ally; attack whoever ends up in reach
+      const ward = allies.length > 0 ? weakest(allies) : undefined;
+      if (ward && ward.hp < ward.maxHP) {
+        const gap = distance(self, ward);
+        if (gap > DEFAULT_REACH_FT) to = stepToward(self, ward, Math.min(speed, gap - DEFAULT_REACH_FT), bounds);
+        if (!forced) target = nearest(to, crawlers);
+        intent = `Covers ${ward.name} and strikes`;
+      } else {
+        const gap = distance(self, target);
+        if (gap > meleeReach) to = stepToward(self, target, Math.min(speed, gap - meleeReach), bounds);
+        intent = 'Harries';
+      }
+      break;
+    }
+    case 'aggressive':
+    default: {
+      target = forced ?? nearest(self, crawlers);
+      const gap = distance(self, target);
+      if (gap > meleeReach) to = stepToward(self, target, Math.min(speed, gap - meleeReach), bounds);
+      intent = 'Charges';
+      break;
+    }
+  }
+
+  const moveFt = distance(self, to);
+  const action = pickAction(mob, distance(to, target));
+  const movePart = moveFt >= 1 ? `moves ${Math.round(moveFt)}ft` : 'holds position';
+  const attackPart = action ? `uses ${action.name}` : 'out of reach';
+  return {
+    combatantId: self.id,
+    behavior,
+    targetId: target.id,
+    targetName: target.name,
+    to,
+    moveFt,
+    actionId: action?.id,
+    summary: `${intent} ${target.name}: ${movePart}, ${attackPart}`,
+  };
+}
@@ -0,0 +1,71 @@
+// Experience and leveling: crawlers bank XP from mob kills and completed quests, and each campaign
+// sets how much XP every level takes and what a level-up grants.
+//
+// Settings live in a room singleton doc (`progression/current`) like the game clock; until the DM
+// saves their own, DEFAULT_PROGRESSION applies.
+
+import type { Crawler } from "@/lib/gameData";
+
+export interface ProgressionSettings {
+  id: string; // always 'current'
+  levelThresholds: number[]; // total XP to reach level 2, 3, 4, ...; the list length caps the level
+  xpPerMobLevel: number; // a kill is worth the mob's level times this, split between the crawlers left standing
+  hpPerLevel: number;
+  manaPerLevel: number;
+  statPointsPerLevel: number;
+}
+
+export const DEFAULT_PROGRESSION: ProgressionSettings = {
+  id: 'current',
+  levelThresholds: [300, 900, 2700, 6500, 14000, 23000, 34000, 48000, 64000, 85000, 100000, 120000, 140000, 165000, 195000, 225000, 265000, 305000, 355000],
+  xpPerMobLevel: 50,
+  hpPerLevel: 5,
+  manaPerLevel: 3,
+  statPointsPerLevel: 2,
+};
+
+export const getMaxLevel = (settings: ProgressionSettings) => settings.levelThresholds.length + 1;
+
+export function getLevelForXp(xp: number, settings: ProgressionSettings): number {
+  return 1 + settings.levelThresholds.filter(threshold => xp >= threshold).length;
+}
+
+// Total XP at which `level` starts; null past the cap
+export function getXpForLevel(level: number, settings: ProgressionSettings): number | null {
+  if (level <= 1) return 0;
+  return settings.levelThresholds[level - 2] ?? null;
+}
+
+// Crawlers created before XP tracking have no `xp`; they count as having exactly reached their level
+export const getCrawlerXp = (crawler: Pick<Crawler, 'xp' | 'level'>, settings: ProgressionSettings) =>
+  crawler.xp ?? getXpForLevel(crawler.level, settings) ?? settings.levelThresholds[settings.levelThresholds.length - 1] ?? 0;
+
+// Levels the crawler's XP has earned but that haven't been taken through the level-up wizard yet
+export const getPendingLevelUps = (crawler: Pick<Crawler, 'xp' | 'level'>, settings: ProgressionSettings) =>
+  Math.max(0, getLevelForXp(getCrawlerXp(crawler, settings), settings) - crawler.level);
+
+export const getMobKillXp = (mobLevel: number, settings: ProgressionSettings) =>
+  Math.max(1, mobLevel) * settings.xpPerMobLevel;
+
+// Even split of an award; the remainder goes to the first crawlers so no XP is lost
+export function splitXp(total: number, crawlerIds: string[]): Record<string, number> {
+  const shares: Record<string, number> = {};
+  if (crawlerIds.length === 0 || total <= 0) return shares;
+  const base = Math.floor(total / crawlerIds.length);
+  const remainder = total - base * crawlerIds.length;
+  crawlerIds.forEach((id, i) => {
+    shares[id] = base + (i < remainder ? 1 : 0);
+  });
+  return shares;
+}
+
+// Thresholds from the settings editor: drop entries that don't climb past the previous one
+export function normalizeThresholds(thresholds: number[]): number[] {
+  const result: number[] = [];
+  for (const value of thresholds) {
+    const rounded = Math.floor(value);
+    if (!Number.isFinite(rounded) || rounded <= (result[result.length - 1] ?? 0)) continue;
+    result.push(rounded);
+  }
+  return result;
+}
@@ -0,0 +1,104 @@
+// Pluggable, auditable randomness for dice rolls.
+//
+// Every client session rolls from its own stream: a secret seed that only that client knows, committed
+// up front by publishing its SHA-256 hash in the room's `rngStreams` collection. Each roll takes the
+// stream's next counter and draws from a PRNG seeded with `${secret}:${stream}:${counter}`, so nobody
+// else can predict it. When the session ends (or the client next opens the campaign) the secret is
+// revealed; anyone holding the diceRolls log can then check it against the commitment and replay every
+// roll from its notation + audit stamp.
+//
+// Rolls made before streams were introduced carry the campaign seed from the `rngState` singleton.
+
+// Random number source returning a float in [0, 1), same contract as Math.random
+export type RandomSource = () => number;
+
+export interface RollAudit {
+  stream: string;
+  counter: number; // position in the stream, strictly increasing
+  seed?: string; // legacy rolls only: the public campaign seed from rngState
+}
+
+export interface RollRandomness {
+  rng: RandomSource;
+  audit?: RollAudit; // absent when rolling with an unseeded source (e.g. offline Math.random)
+}
+
+export type RngProvider = () => RollRandomness;
+
+// One client session's committed stream (doc id = stream id)
+export interface RngStream {
+  id: string;
+  seedHash: string; // SHA-256 of the secret, published before the first roll
+  counter: number; // last counter handed out, published with the seed
+  seed?: string; // the secret, published once the stream is retired
+  createdAt: string;
+  revealedAt?: string;
+}
+
+// Legacy seed/counter singleton doc (id = 'current'); kept to verify rolls made before streams
+export interface RngState {
+  id: string; // always 'current'
+  seed: string;
+  counter: number; // last counter handed out
+  createdAt?: string;
+}
+
+const mathRandomProvider: RngProvider = () => ({ rng: Math.random });
+
+let activeProvider: RngProvider = mathRandomProvider;
+
+// Install a provider (pass null to fall back to Math.random). Returns the previous provider so
+// callers such as tests can restore it.
+export function setRngProvider(provider: RngProvider | null): RngProvider {
+  const previous = activeProvider;
+  activeProvider = provider ?? mathRandomProvider;
+  return previous;
+}
+
+export function nextRollRandomness(): RollRandomness {
+  return activeProvider();
+}
+
+// cyrb128 string hash → four 32-bit words used to seed sfc32
+const hashSeed = (str: string): [number, number, number, number] => {
+  let h1 = 1779033703, h2 = 3144134277, h3 = 1013904242, h4 = 2773480762;
+  for (let i = 0; i < str.length; i++) {
+    const k = str.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+  h1 ^= (h2 ^ h3 ^ h4); h2 ^= h1; h3 ^= h1; h4 ^= h1;
+  return [h1 >>> 0, h2 >>> 0, h3 >>> 0, h4 >>> 0];
+};
+
+// Deterministic PRNG (sfc32) for one roll; the same seed and audit stamp always yield the same numbers
+export function createSeededRng(audit: RollAudit & { seed: string }): RandomSource {
+  let [a, b, c, d] = hashSeed(`${audit.seed}:${audit.stream}:${audit.counter}`);
+  return () => {
+    a |= 0; b |= 0; c |= 0; d |= 0;
+    const t = (((a + b) | 0) + d) | 0;
+    d = (d + 1) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    c = (c + t) | 0;
+    return (t >>> 0) / 4294967296;
+  };
+}
+
+export function generateRngSeed(bytesLength = 16): string {
+  const bytes = new Uint8Array(bytesLength);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function hashRngSeed(seed: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(seed));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
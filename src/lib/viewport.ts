@@ -0,0 +1,59 @@
+// Shared ShowTime viewports: the DM can push their pan/zoom to players or lock players to it,
+// players can keep their own crawler centered, and anyone can call the DM's attention to a spot.
+//
+// A viewport travels as the map point in the middle of the screen plus the zoom, so it carries over
+// between screens of different sizes; pan offsets stay local pixels.
+
+import type { Point } from "@/lib/lineOfSight";
+
+export type ViewportMode = 'off' | 'follow' | 'lock';
+
+export interface SharedViewport {
+  mode: ViewportMode;
+  episodeId: string | null;
+  mapId: string | null;
+  center: Point; // map %
+  zoom: number; // mapScale %
+}
+
+export interface AttentionRequest {
+  id: string;
+  episodeId: string;
+  mapId: string;
+  x: number; // map %
+  y: number;
+  name: string; // who is asking
+  createdAt: number;
+}
+
+export const getShowtimeViewportPath = (roomId: string | null | undefined) =>
+  (roomId ? `rooms/${roomId}/` : '') + 'showtime-viewport/current';
+
+export const getAttentionRequestPath = (roomId: string | null | undefined) =>
+  (roomId ? `rooms/${roomId}/` : '') + 'showtime-attention/current';
+
+// Layout size of the map at zoom 100 (after the episode's base scale) and of the container showing it
+export interface ViewportFrame {
+  mapWidth: number;
+  mapHeight: number;
+  containerWidth: number;
+  containerHeight: number;
+}
+
+// The map is translated by the pan offset, then scaled about its own center
+export function getViewportCenter(pan: { x: number; y: number }, zoom: number, frame: ViewportFrame): Point {
+  const scale = zoom / 100;
+  const localX = (frame.containerWidth / 2 - pan.x - frame.mapWidth / 2) / scale + frame.mapWidth / 2;
+  const localY = (frame.containerHeight / 2 - pan.y - frame.mapHeight / 2) / scale + frame.mapHeight / 2;
+  return { x: (localX / frame.mapWidth) * 100, y: (localY / frame.mapHeight) * 100 };
+}
+
+export function getPanForCenter(center: Point, zoom: number, frame: ViewportFrame): { x: number; y: number } {
+  const scale = zoom / 100;
+  const localX = (center.x / 100) * frame.mapWidth;
+  const localY = (center.y / 100) * frame.mapHeight;
+  return {
+    x: frame.containerWidth / 2 - frame.mapWidth / 2 - scale * (localX - frame.mapWidth / 2),
+    y: frame.containerHeight / 2 - frame.mapHeight / 2 - scale * (localY - frame.mapHeight / 2),
+  };
+}
@@ -203,6 +203,7 @@ Each item can have:
 - **Name** and **Description**
 - **Equipment Slot** (if equippable)
 - **Gold Value**
+- **Weight** (pounds per unit)
 - **Stat Modifiers** (when equipped)
 - **Weapon Data** (for weapons)
 - **Tags** (for categorization)
@@ -212,16 +213,49 @@ Each item can have:
 - Click "Edit" on the inventory page to enter edit mode
 - Search the item library to find items to add
 - Set a quantity before adding (for bulk adds)
-- Remove items with the trash icon
+- Remove items with the trash icon (one at a time from a stack)
 - Edit item names and descriptions inline
 
+## Stacks
+
+Identical consumables (potions, spell tomes, anything without an equipment slot or weapon data) share a single stack with a quantity, shown as **x3** next to the name. Using a tome or removing one takes a single unit off the stack. Equipment and upgraded items always stay one per entry so they can be equipped individually.
+
+In edit mode, the split icon divides a stack in half, and **Merge stacks** next to a crawler's name folds identical stacks back together. Older inventories with duplicate copies are merged into stacks automatically the next time the DM opens the campaign.
+
+## Consumables
+
+Library items can carry **consumable effects**, applied in order when a crawler uses the item:
+
+| Effect | What it does |
+|--------|--------------|
+| **Heal HP** | Rolls the dice and restores that much HP, up to max |
+| **Restore Mana** | Rolls the dice and restores that much mana, up to max |
+| **Timed Buff** | Adds stat bonuses as a condition named after the item, for the set number of combat and/or noncombat turns |
+| **Cure Condition** | Removes a named condition, or every debuff when left blank |
+| **Teleport** | Moves the crawler's token to a random stairs, door or teleporter on their current map (optionally only one kind) |
+
+Press **Use** on the Inventory page, or in an item's details on the Profiles page. Rolls and the outcome appear in the dice feed, and one unit is taken from the stack. A teleport only works once the crawler's token is on a Show Time map with a matching link; otherwise nothing is used up.
+
+## Encumbrance
+
+Every carried unit counts its **weight** against the crawler's carry capacity: **15 lb per point of STR**, including STR bonuses from equipped items and conditions. Items without a weight count as weightless. The capacity bar on the Profiles and Inventory pages shows the load and the current tier:
+
+| Load | Tier | Penalty |
+|------|------|---------|
+| Up to 1/3 of capacity | **Unencumbered** | None |
+| Up to 2/3 of capacity | **Encumbered** | -10 ft speed |
+| Up to full capacity | **Heavily Encumbered** | -20 ft speed, -2 DEX |
+| Over capacity | **Overloaded** | -25 ft speed, -5 DEX, disadvantage on attack rolls |
+
+Penalties apply like equipment modifiers, so the lower DEX also lowers AC, initiative and DEX rolls, and the lower speed limits token movement in combat. Advantage on an attack cancels the overloaded disadvantage.
+
 ## Gold
 
 Each crawler has their own gold balance. The total party gold is displayed at the top of the inventory page. In edit mode, you can adjust gold with +10/-10 buttons or type a specific amount.
 
 ## Sending Items Between Crawlers
 
-From the Profiles page, you can send gold and items to other crawlers. Select a recipient, choose what to send, and confirm.
+From the Profiles page, you can send gold and items to other crawlers. Select a recipient, choose what to send, and confirm. When sending part of a stack, only the chosen quantity moves; it joins a matching stack in the recipient's inventory.
 
 ## Expandable Item Details
 
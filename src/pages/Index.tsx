@@ -6,6 +6,7 @@ import MainMenu from "@/components/MainMenu";
 import Navigation from "@/components/Navigation";
 import DiceRoller from "@/components/DiceRoller";
 import PingPanel from "@/components/PingPanel";
+import ReactionPromptDialog from "@/components/ReactionPromptDialog";
 import ChangelogViewer from "@/components/ChangelogViewer";
 import CampaignSelectView from "@/views/CampaignSelectView";
 import ProfilesView from "@/views/ProfilesView";
@@ -24,7 +25,8 @@ import { useCampaigns } from "@/hooks/useCampaigns";
 import { useFriends } from "@/hooks/useFriends";
 import { usePublicContent } from "@/hooks/usePublicContent";
 import { toast } from "sonner";
-import type { Episode, Campaign, CrawlerPlacement, EpisodeMobPlacement } from "@/lib/gameData";
+import { rollDiceExpression, toDiceResults } from "@/lib/dice";
+import type { Episode, Campaign, CrawlerPlacement, EpisodeMobPlacement, AoeTargetList } from "@/lib/gameData";
 
 type AppScreen = "splash" | "menu" | "game";
 type GameView = "profiles" | "maps" | "inventory" | "mobs" | "dungeonai" | "showtime" | "sounds" | "wiki" | "spells";
@@ -110,12 +112,16 @@ const Index = () => {
     type: "crawler" | "ai" | "npc";
   } | null>(() => loadSavedPlayer());
 
-  const [mapVisibility, setMapVisibility] = useState<boolean[]>(() => {
+  // Keyed by map doc id; the old positional array format is discarded
+  const [mapVisibility, setMapVisibility] = useState<Record<string, boolean>>(() => {
     const saved = localStorage.getItem(STORAGE_KEY_MAP_VISIBILITY);
     if (saved) {
-      try { return JSON.parse(saved); } catch { return []; }
+      try {
+        const parsed = JSON.parse(saved);
+        return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+      } catch { return {}; }
     }
-    return [];
+    return {};
   });
 
   const [isNavVisible, setIsNavVisible] = useState(true);
@@ -125,6 +131,8 @@ const Index = () => {
   const [activeEpisode, setActiveEpisode] = useState<Episode | null>(null);
   const [runtimeCrawlerPlacements, setRuntimeCrawlerPlacements] = useState<CrawlerPlacement[]>([]);
   const [runtimeMobPlacements, setRuntimeMobPlacements] = useState<EpisodeMobPlacement[]>([]);
+  // Area template targets waiting for the splash-damage roll on the profile page
+  const [aoeTargets, setAoeTargets] = useState<AoeTargetList | null>(null);
   const [isGameActive, setIsGameActive] = useState(false);
   const setGameActiveRef = useRef<((active: boolean) => Promise<void>) | null>(null);
 
@@ -141,8 +149,13 @@ const Index = () => {
     setMobs,
     maps,
     mapNames: firestoreMapNames,
+    mapAssets,
+    mapIds,
     updateMapName,
-    setMaps,
+    addMap,
+    deleteMap,
+    migrateLegacyMapReferences,
+    migrateInventoryStacks,
     cleanupEmptyMaps,
     episodes,
     addEpisode,
@@ -161,6 +174,7 @@ const Index = () => {
     deleteLootBoxTemplate,
     addDiceRoll,
     diceRolls,
+    verifyDiceRollLog,
     noncombatTurnState,
     startNoncombatTurn,
     resetNoncombatTurns,
@@ -168,6 +182,8 @@ const Index = () => {
     getNoncombatRollsRemaining,
     gameClockState,
     setGameClock,
+    progressionSettings,
+    updateProgressionSettings,
     performShortRest,
     performLongRest,
     combatState,
@@ -176,7 +192,21 @@ const Index = () => {
     confirmInitiative,
     advanceCombatTurn,
     recordCombatAction,
+    recordCombatMovement,
     applyCombatDamage,
+    applyCombatDamageToTargets,
+    resolveAttack,
+    resolveMobAction,
+    addCondition,
+    removeCondition,
+    combatLogs,
+    undoCombatAction,
+    redoCombatAction,
+    combatUndoLabel,
+    combatRedoLabel,
+    registerCombatDistance,
+    triggerLeftReach,
+    respondToReaction,
     overrideMobHealth,
     endCombat,
     cancelCombat,
@@ -194,7 +224,16 @@ const Index = () => {
     forgetSpell,
     castSpell,
     consumeSpellTome,
+    consumeItem,
     promoteSpellToLibrary,
+    races,
+    addRace,
+    updateRace,
+    deleteRace,
+    jobs,
+    addJob,
+    updateJob,
+    deleteJob,
     quests,
     addQuest,
     updateQuest,
@@ -204,6 +243,7 @@ const Index = () => {
     updateAssignedQuest,
     deleteAssignedQuest,
     getCrawlerAssignedQuests,
+    completeAssignedQuest,
     roomId,
     setRoomId,
     isLoaded
@@ -354,6 +394,12 @@ const Index = () => {
     navigate('/app/' + view);
   };
 
+  const handleSendAoeTargets = (list: AoeTargetList) => {
+    setAoeTargets(list);
+    toast(`${list.sourceName}: ${list.targets.length} target${list.targets.length === 1 ? '' : 's'} ready for splash damage`, { icon: '🎯' });
+    handleNavigate('profiles');
+  };
+
   const handleDungeonAI = () => {
     navigate('/app/dungeonai');
   };
@@ -394,39 +440,50 @@ const Index = () => {
 
   const handleStatRoll = (crawlerName: string, crawlerId: string, stat: string, totalStat: number) => {
     const modifier = Math.floor((totalStat - 10) / 2);
-    const rawRoll = Math.floor(Math.random() * 20) + 1;
+    const roll = rollDiceExpression('1d20');
+    const rawRoll = roll.total;
     const total = rawRoll + modifier;
     const entry: DiceRollEntry = {
       id: crypto.randomUUID(),
       crawlerName,
       crawlerId,
       timestamp: Date.now(),
-      results: [{ dice: 'D20', result: rawRoll }],
+      results: toDiceResults(roll),
       total,
+      notation: roll.notation,
+      breakdown: roll.terms,
+      rollAudit: roll.audit,
       statRoll: { stat, modifier, rawRoll },
     };
     addDiceRoll(entry);
   };
 
-  const handleToggleMapVisibility = (index: number) => {
-    setMapVisibility((prev) => {
-      const newVisibility = [...prev];
-      newVisibility[index] = !newVisibility[index];
-      return newVisibility;
-    });
+  const handleToggleMapVisibility = (mapId: string) => {
+    setMapVisibility((prev) => ({ ...prev, [mapId]: !(prev[mapId] ?? true) }));
   };
 
-  const handleUpdateMapName = (index: number, name: string) => {
-    updateMapName(index, name);
+  // Teleport effects look for the crawler's token in the episode last opened in Show Time
+  const handleConsumeItem = (crawlerId: string, itemId: string) => consumeItem(crawlerId, itemId, activeEpisode);
+
+  const handleUpdateMapName = (mapId: string, name: string) => {
+    updateMapName(mapId, name);
   };
 
+  // Rewrite episodes that still point at maps by array index (DM only, once per campaign per session)
+  const migratedMapReferencesRoom = useRef<string | null | undefined>(undefined);
   useEffect(() => {
-    if (maps.length > mapVisibility.length) {
-      setMapVisibility((prev) => [...prev, ...Array(maps.length - prev.length).fill(true)]);
-    } else if (maps.length < mapVisibility.length) {
-      setMapVisibility((prev) => prev.slice(0, maps.length));
-    }
-  }, [maps.length, mapVisibility.length]);
+    if (!isLoaded || !isAdmin || migratedMapReferencesRoom.current === roomId) return;
+    migratedMapReferencesRoom.current = roomId;
+    migrateLegacyMapReferences().catch(err => console.error('[Index] ❌ Map reference migration failed:', err));
+  }, [isLoaded, isAdmin, roomId]);
+
+  // Fold duplicate inventory entries into stacks (once per room, DM only)
+  const migratedInventoryRoom = useRef<string | null | undefined>(undefined);
+  useEffect(() => {
+    if (!isLoaded || !isAdmin || migratedInventoryRoom.current === roomId) return;
+    migratedInventoryRoom.current = roomId;
+    migrateInventoryStacks().catch(err => console.error('[Index] ❌ Inventory stack migration failed:', err));
+  }, [isLoaded, isAdmin, roomId]);
 
   // Loot box notifications
   const seenLootBoxIds = useRef<Set<string>>(new Set());
@@ -672,17 +729,29 @@ const Index = () => {
                 onRecordCombatInitiative={recordCombatInitiative}
                 onRecordCombatAction={recordCombatAction}
                 onApplyCombatDamage={applyCombatDamage}
+                onApplyCombatDamageToTargets={applyCombatDamageToTargets}
+                onResolveAttack={resolveAttack}
                 addDiceRoll={addDiceRoll}
                 mobs={mobs}
                 getCrawlerAssignedQuests={getCrawlerAssignedQuests}
                 quests={quests}
                 onUpdateQuest={updateQuest}
+                spells={spells}
+                progressionSettings={progressionSettings}
+                races={races}
+                jobs={jobs}
+                aoeTargets={aoeTargets}
+                onClearAoeTargets={() => setAoeTargets(null)}
+                onCastSpell={castSpell}
+                onConsumeItem={handleConsumeItem}
               />
             )}
             {currentView === "maps" && (
               <MapsView
                 maps={maps}
+                mapIds={mapIds}
                 mapNames={mapNames}
+                mapAssets={mapAssets}
                 onUpdateMapName={handleUpdateMapName}
                 mapVisibility={mapVisibility}
                 onToggleVisibility={handleToggleMapVisibility}
@@ -700,6 +769,7 @@ const Index = () => {
                 onUpdateSharedInventory={updateSharedInventory}
                 spells={spells}
                 onConsumeSpellTome={consumeSpellTome}
+                onConsumeItem={handleConsumeItem}
                 onPromoteSpellToLibrary={promoteSpellToLibrary}
                 isAdmin={isAdmin}
                 currentUserId={user?.uid}
@@ -719,6 +789,7 @@ const Index = () => {
                 onLearnSpell={learnSpell}
                 onForgetSpell={forgetSpell}
                 onCastSpell={castSpell}
+                combatState={activeCombatState}
                 onPromoteSpellToLibrary={promoteSpellToLibrary}
                 isAdmin={isAdmin}
                 currentUserId={user?.uid}
@@ -734,7 +805,11 @@ const Index = () => {
                 mobs={mobs}
                 onUpdateMobs={setMobs}
                 maps={maps}
-                onUpdateMaps={setMaps}
+                mapIds={mapIds}
+                mapAssets={mapAssets}
+                onAddMap={addMap}
+                roomId={roomId}
+                onDeleteMap={deleteMap}
                 mapNames={mapNames}
                 onUpdateMapName={handleUpdateMapName}
                 crawlers={crawlers}
@@ -753,12 +828,25 @@ const Index = () => {
                 onAddQuest={addQuest}
                 onUpdateQuest={updateQuest}
                 onDeleteQuest={deleteQuest}
+                progressionSettings={progressionSettings}
+                onUpdateProgressionSettings={updateProgressionSettings}
+                spells={spells}
+                races={races}
+                onAddRace={addRace}
+                onUpdateRace={updateRace}
+                onDeleteRace={deleteRace}
+                jobs={jobs}
+                onAddJob={addJob}
+                onUpdateJob={updateJob}
+                onDeleteJob={deleteJob}
               />
             )}
             {currentView === "showtime" && (
               <ShowTimeView
                 maps={maps}
+                mapIds={mapIds}
                 mapNames={mapNames}
+                mapAssets={mapAssets}
                 episodes={episodes}
                 mobs={mobs}
                 crawlers={crawlers}
@@ -785,13 +873,23 @@ const Index = () => {
                 resetNoncombatTurns={resetNoncombatTurns}
                 combatState={activeCombatState}
                 onRemoveCombatant={removeCombatant}
+                onRegisterCombatDistance={registerCombatDistance}
+                onCombatantLeftReach={triggerLeftReach}
+                onRecordCombatMovement={recordCombatMovement}
+                onResolveMobAction={resolveMobAction}
+                viewerCrawlerId={currentPlayer.id}
+                spells={spells}
+                onSendAoeTargets={handleSendAoeTargets}
                 roomId={roomId}
+                currentUserId={user?.uid}
+                currentUsername={userProfile?.username}
                 quests={quests}
                 assignedQuests={assignedQuests}
                 onAssignQuest={assignQuest}
                 onUpdateQuest={updateQuest}
                 onUpdateAssignedQuest={updateAssignedQuest}
                 onDeleteAssignedQuest={deleteAssignedQuest}
+                onCompleteAssignedQuest={completeAssignedQuest}
               />
             )}
             {currentView === "sounds" && <SoundEffectsView />}
@@ -810,6 +908,7 @@ const Index = () => {
             crawlerId={currentPlayer.id}
             diceRolls={diceRolls}
             addDiceRoll={addDiceRoll}
+            onVerifyRolls={verifyDiceRollLog}
             onExpandedChange={setIsDiceExpanded}
           />
 
@@ -865,6 +964,23 @@ const Index = () => {
               runtimeMobPlacements={runtimeMobPlacements}
               onAddCombatant={addCombatant}
               onUpdateCombatTimer={updateCombatTimer}
+              onAddCondition={addCondition}
+              onRemoveCondition={removeCondition}
+              combatLogs={combatLogs}
+              onUndoCombatAction={undoCombatAction}
+              onRedoCombatAction={redoCombatAction}
+              combatUndoLabel={combatUndoLabel}
+              combatRedoLabel={combatRedoLabel}
+              onResolveMobAction={resolveMobAction}
+            />
+          )}
+
+          {isShowtimeActive && (
+            <ReactionPromptDialog
+              combatState={activeCombatState}
+              crawlerId={currentPlayer.id}
+              isAdmin={isAdmin}
+              onRespond={respondToReaction}
             />
           )}
 
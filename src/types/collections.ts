@@ -29,6 +29,13 @@ export type CollectionName =
   | 'userProfiles'
   | 'campaigns'
   | 'friendRequests'
+  | 'rngState'
+  | 'rngStreams'
+  | 'combatLogs'
+  | 'mapAssets'
+  | 'progression'
+  | 'races'
+  | 'jobs'
   | string; // Allow any string for flexibility
 
 /**
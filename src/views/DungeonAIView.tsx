@@ -2,20 +2,42 @@ import { useState, useRef, useEffect } from "react";
 import { motion } from "framer-motion";
 import { DungeonCard } from "@/components/ui/DungeonCard";
 import { DungeonButton } from "@/components/ui/DungeonButton";
+import { DamageAffinityEditor, DamageAffinityBadges } from "@/components/ui/DamageAffinityEditor";
+import { MobStatBlockEditor } from "@/components/ui/MobStatBlockEditor";
 import MapMobPlacementEditor from "@/components/ui/MapMobPlacementEditor";
-import MapDesignerPopout from "@/components/ui/MapDesignerPopout";
-import { Mob, Episode, EpisodeMobPlacement, Crawler, CrawlerPlacement, InventoryItem, LootBoxTemplate, LootBoxTier, getLootBoxTierColor, type EquipmentSlot, type EquippedItems, Quest, QuestReward, QuestActionItem, QuestRewardTier } from "@/lib/gameData";
+import MapDesignerPopout, { type IncomingMapLink } from "@/components/ui/MapDesignerPopout";
+import { Mob, Episode, type Spell, EpisodeMobPlacement, Crawler, CrawlerPlacement, InventoryItem, LootBoxTemplate, LootBoxTier, getLootBoxTierColor, DEFAULT_ARMOR_CLASS, type MapSettings, type MapAsset, type MapLink, type MapWall, type MapLight, type AmbientLight, AMBIENT_LIGHTS, AMBIENT_LIGHT_LABELS, type DiagonalRule, type MapGrid, DIAGONAL_RULES, DIAGONAL_RULE_LABELS, DEFAULT_MOB_SPEED, DEFAULT_MOB_STAT, MOB_STATS, describeMobAction, type EquipmentSlot, type EquippedItems, Quest, QuestReward, QuestActionItem, QuestRewardTier } from "@/lib/gameData";
 import { Brain, Upload, Plus, Trash2, Map, Skull, Image as ImageIcon, Save, Edit2, X, Layers, ChevronLeft, ChevronRight, User, Package, Search, Maximize2, Shield, ChevronDown as ChevronDownIcon, ScrollText, Eye, EyeOff, CheckSquare, GripVertical } from "lucide-react";
-import { storage } from "@/lib/firebase";
-import { ref as storageRef, uploadBytes, getDownloadURL } from "firebase/storage";
+import { processMapUpload, getMapSrcSet, type MapUpload } from "@/lib/mapAssets";
+import { ProgressionSettingsEditor } from "@/components/ui/ProgressionSettingsEditor";
+import { CharacterOptionEditor } from "@/components/ui/CharacterOptionEditor";
+import { ABILITY_SCORE_LABELS, createEmptyCharacterOption, type AbilityScore, type JobDefinition, type RaceDefinition } from "@/lib/characterOptions";
+import type { ProgressionSettings } from "@/lib/progression";
+
+// Editor-side per-map settings, flattened; saved into Episode.mapSettings
+interface EpisodeMapDraft {
+  fogOfWar: boolean;
+  scale: number;
+  lineOfSight?: boolean;
+  walls?: MapWall[];
+  ambientLight?: AmbientLight;
+  lights?: MapLight[];
+  diagonalRule?: DiagonalRule;
+  grid?: MapGrid;
+  links?: MapLink[];
+}
 
 interface DungeonAIViewProps {
   mobs: Mob[];
   onUpdateMobs: (mobs: Mob[]) => void;
   maps: string[];
-  onUpdateMaps: (maps: string[]) => Promise<void> | void;
+  mapIds: string[];
+  mapAssets?: (MapAsset | null)[];
+  onAddMap: (upload: MapUpload) => Promise<void>;
+  roomId: string;
+  onDeleteMap: (mapId: string) => Promise<void>;
   mapNames?: string[];
-  onUpdateMapName?: (index: number, name: string) => void;
+  onUpdateMapName?: (mapId: string, name: string) => void;
   crawlers: Crawler[];
   episodes: Episode[];
   onAddEpisode: (episode: Episode) => void;
@@ -32,13 +54,28 @@ interface DungeonAIViewProps {
   onAddQuest?: (quest: Quest) => void;
   onUpdateQuest?: (id: string, updates: Partial<Quest>) => void;
   onDeleteQuest?: (id: string) => void;
+  progressionSettings?: ProgressionSettings;
+  onUpdateProgressionSettings?: (updates: Partial<ProgressionSettings>) => Promise<void>;
+  spells?: Spell[];
+  races?: RaceDefinition[];
+  onAddRace?: (race: RaceDefinition) => void;
+  onUpdateRace?: (id: string, updates: Partial<RaceDefinition>) => void;
+  onDeleteRace?: (id: string) => void;
+  jobs?: JobDefinition[];
+  onAddJob?: (job: JobDefinition) => void;
+  onUpdateJob?: (id: string, updates: Partial<JobDefinition>) => void;
+  onDeleteJob?: (id: string) => void;
 }
 
 const DungeonAIView: React.FC<DungeonAIViewProps> = ({
   mobs,
   onUpdateMobs,
   maps,
-  onUpdateMaps,
+  mapIds,
+  mapAssets = [],
+  onAddMap,
+  roomId,
+  onDeleteMap,
   mapNames,
   onUpdateMapName,
   crawlers,
@@ -57,8 +94,19 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
   onAddQuest,
   onUpdateQuest,
   onDeleteQuest,
+  progressionSettings,
+  onUpdateProgressionSettings,
+  spells = [],
+  races = [],
+  onAddRace,
+  onUpdateRace,
+  onDeleteRace,
+  jobs = [],
+  onAddJob,
+  onUpdateJob,
+  onDeleteJob,
 }) => {
-  const [activeTab, setActiveTab] = useState<"mobs" | "maps" | "episodes" | "lootboxes" | "quests">("mobs");
+  const [activeTab, setActiveTab] = useState<"mobs" | "maps" | "episodes" | "lootboxes" | "quests" | "origins">("mobs");
   const [newMob, setNewMob] = useState<Partial<Mob>>({
     name: "",
     level: 1,
@@ -70,6 +118,7 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
   });
   const mobImageRef = useRef<HTMLInputElement>(null);
   const mapImageRef = useRef<HTMLInputElement>(null);
+  const [isUploadingMap, setIsUploadingMap] = useState(false);
   const [editingMobId, setEditingMobId] = useState<string | null>(null);
   const [editedMobData, setEditedMobData] = useState<Mob | null>(null);
   const [mobDefaultInvSearch, setMobDefaultInvSearch] = useState('');
@@ -86,8 +135,8 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
   const [selectedCrawlersForEpisode, setSelectedCrawlersForEpisode] = useState<CrawlerPlacement[]>([]);
   const [editingEpisodeId, setEditingEpisodeId] = useState<string | null>(null);
   const [currentMapIndexForEditor, setCurrentMapIndexForEditor] = useState(0);
-  // Per-map settings: { [mapId]: { fogOfWar: boolean, scale: number } }
-  const [mapSettingsForEpisode, setMapSettingsForEpisode] = useState<{ [mapId: string]: { fogOfWar: boolean; scale: number } }>({});
+  // Per-map settings: { [mapId]: { fogOfWar: boolean, scale: number, lineOfSight?, walls? } }
+  const [mapSettingsForEpisode, setMapSettingsForEpisode] = useState<{ [mapId: string]: EpisodeMapDraft }>({});
   const [newEpisodeStartingTime, setNewEpisodeStartingTime] = useState("");
   // Map designer popout
   const [isMapDesignerOpen, setIsMapDesignerOpen] = useState(false);
@@ -112,11 +161,15 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
   const [newQuestDescription, setNewQuestDescription] = useState("");
   const [newQuestRewards, setNewQuestRewards] = useState<QuestReward[]>([]);
   const [newQuestActionItems, setNewQuestActionItems] = useState<QuestActionItem[]>([]);
+  const [newQuestXpReward, setNewQuestXpReward] = useState(0);
   const [questRewardSearch, setQuestRewardSearch] = useState("");
   const [questRewardTier, setQuestRewardTier] = useState<QuestRewardTier>("Copper");
   const [newActionItemText, setNewActionItemText] = useState("");
   const [editingQuestId, setEditingQuestId] = useState<string | null>(null);
   const [dragActionIdx, setDragActionIdx] = useState<number | null>(null);
+
+  // Race/job definition being edited (origins tab)
+  const [editingOrigin, setEditingOrigin] = useState<{ kind: "race" | "job"; value: RaceDefinition; isNew: boolean } | null>(null);
   const [dragRewardIdx, setDragRewardIdx] = useState<number | null>(null);
 
   // Close mob item context menu on outside click
@@ -162,12 +215,22 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
       image: newMob.image,
       weaknesses: newMob.weaknesses,
       strengths: newMob.strengths,
+      damageAffinities: newMob.damageAffinities,
       hitPoints: newMob.hitPoints || 50,
+      armorClass: newMob.armorClass,
       hideHitPoints: false,
       hideWeaknesses: false,
       hideStrengths: false,
       defaultInventory: newMob.defaultInventory,
       defaultGold: newMob.defaultGold,
+      str: newMob.str,
+      dex: newMob.dex,
+      con: newMob.con,
+      int: newMob.int,
+      cha: newMob.cha,
+      speed: newMob.speed,
+      actions: newMob.actions,
+      behavior: newMob.behavior,
     };
     console.log('[DungeonAI] ➕ Add Mob clicked', mob);
     try {
@@ -308,95 +371,26 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
   };
 
   // Compress a map image as a fallback when Firebase Storage is unavailable
-  const compressMapImage = async (dataUrl: string, targetMaxBytes: number): Promise<string> => {
-    const img = new window.Image();
-    const loaded: Promise<void> = new Promise((resolve, reject) => {
-      img.onload = () => resolve();
-      img.onerror = reject;
-    });
-    img.src = dataUrl;
-    await loaded;
-
-    const canvas = document.createElement('canvas');
-    canvas.width = img.width;
-    canvas.height = img.height;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) throw new Error('Failed to get canvas context');
-    ctx.drawImage(img, 0, 0);
-
-    // Try progressively lower JPEG quality to fit under the limit
-    let quality = 0.92;
-    let compressed = canvas.toDataURL('image/jpeg', quality);
-    console.log('[DungeonAI] 📦 Compressing map at full resolution, quality', quality.toFixed(2), ', size:', (compressed.length / 1_000_000).toFixed(2) + 'MB');
-
-    while (compressed.length > targetMaxBytes && quality > 0.1) {
-      quality -= 0.05;
-      compressed = canvas.toDataURL('image/jpeg', quality);
-      console.log('[DungeonAI] 📉 Reduced quality to', quality.toFixed(2), ', size:', (compressed.length / 1_000_000).toFixed(2) + 'MB');
-    }
-
-    // If still too large at minimum quality, scale down resolution
-    if (compressed.length > targetMaxBytes) {
-      const scaleFactor = Math.sqrt(targetMaxBytes / compressed.length) * 0.9; // 10% margin
-      canvas.width = Math.round(img.width * scaleFactor);
-      canvas.height = Math.round(img.height * scaleFactor);
-      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-      compressed = canvas.toDataURL('image/jpeg', 0.85);
-      console.log('[DungeonAI] 📐 Scaled down to', canvas.width, 'x', canvas.height, ', size:', (compressed.length / 1_000_000).toFixed(2) + 'MB');
-    }
-
-    return compressed;
-  };
-
   const handleMapUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      console.log('[DungeonAI] 📤 Uploading map (full resolution)...');
+      console.log('[DungeonAI] 📤 Processing map upload...', '(' + (file.size / 1_000_000).toFixed(2) + 'MB)');
+      setIsUploadingMap(true);
       try {
-        // Read the file at full resolution as base64
-        const base64: string = await new Promise((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onload = () => resolve(reader.result as string);
-          reader.onerror = reject;
-          reader.readAsDataURL(file);
+        // Hash, thumbnail, preview and (for large maps) tile the image; a known hash reuses the stored asset
+        const upload = await processMapUpload(file, roomId, (id) => mapAssets.find(a => a?.id === id) ?? undefined);
+        console.log('[DungeonAI] ✅ Map processed', {
+          assetId: upload.asset.id.substring(0, 12),
+          size: `${upload.asset.width}x${upload.asset.height}`,
+          tileLevels: upload.asset.tiles?.levels.length ?? 0,
+          reused: !upload.isNewAsset,
         });
-        console.log('[DungeonAI] ✅ Map loaded, size:', base64.length, '(' + (base64.length / 1_000_000).toFixed(2) + 'MB)');
-
-        let mapImage: string;
-
-        // Firestore has a hard ~1MB per-field limit (1,048,487 bytes).
-        // For images exceeding this, upload to Firebase Storage instead.
-        const FIRESTORE_FIELD_LIMIT = 950_000;
-        if (base64.length > FIRESTORE_FIELD_LIMIT) {
-          if (storage) {
-            console.log('[DungeonAI] 📦 Map exceeds Firestore field limit, uploading to Firebase Storage...');
-            const mapId = crypto.randomUUID();
-            const path = `maps/${mapId}`;
-            const fileRef = storageRef(storage, path);
-            await uploadBytes(fileRef, file);
-            const url = await getDownloadURL(fileRef);
-            console.log('[DungeonAI] ✅ Map uploaded to Firebase Storage:', path, '(' + (file.size / 1_000_000).toFixed(2) + 'MB)');
-            mapImage = url;
-          } else {
-            // Fallback: compress to fit in Firestore when Storage is unavailable
-            console.warn('[DungeonAI] ⚠️ Firebase Storage not available, compressing map to fit in Firestore...');
-            mapImage = await compressMapImage(base64, FIRESTORE_FIELD_LIMIT);
-            console.log('[DungeonAI] ✅ Map compressed to:', (mapImage.length / 1_000_000).toFixed(2) + 'MB');
-          }
-        } else {
-          mapImage = base64;
-        }
-
-        const updatedMaps = [...maps, mapImage];
-        console.log('[DungeonAI] 📊 Calling onUpdateMaps with', updatedMaps.length, 'maps');
-        const result = onUpdateMaps(updatedMaps);
-        if (result instanceof Promise) {
-          await result;
-        }
+        await onAddMap(upload);
         console.log('[DungeonAI] ✅ Map upload completed successfully');
       } catch (err) {
         console.error('[DungeonAI] ❌ Failed to process map file', err);
       } finally {
+        setIsUploadingMap(false);
         // Reset the file input so the same file can be selected again
         if (mapImageRef.current) {
           mapImageRef.current.value = '';
@@ -407,13 +401,14 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
 
   const handleDeleteMap = (index: number) => {
     const mapName = (mapNames && mapNames[index]) || `Map ${index + 1}`;
-    if (!confirm(`Are you sure you want to delete "${mapName}"? This cannot be undone.`)) return;
-    const result = onUpdateMaps(maps.filter((_, i) => i !== index));
-    // If onUpdateMaps returns a Promise, we could await it here if needed
-    // For now, just call it and let it handle async internally
-    if (result instanceof Promise) {
-      result.catch(err => console.error('[DungeonAI] ❌ Failed to delete map:', err));
-    }
+    const mapId = mapIds[index];
+    // Episodes using the map lose it along with its placements, settings and fog
+    const usedBy = episodes.filter(e => e.mapIds.includes(mapId)).map(e => `"${e.name}"`);
+    const usage = usedBy.length > 0
+      ? `\n\nIt is used by ${usedBy.join(', ')}; it will be removed from ${usedBy.length === 1 ? 'that episode' : 'those episodes'} along with its placements, settings and fog.`
+      : '';
+    if (!confirm(`Are you sure you want to delete "${mapName}"? This cannot be undone.${usage}`)) return;
+    onDeleteMap(mapId).catch(err => console.error('[DungeonAI] ❌ Failed to delete map:', err));
   };
 
   const startEditingMapName = (index: number) => {
@@ -423,7 +418,7 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
 
   const saveEditingMapName = (index: number) => {
     if (onUpdateMapName && editingMapName.trim()) {
-      onUpdateMapName(index, editingMapName.trim());
+      onUpdateMapName(mapIds[index], editingMapName.trim());
     }
     setEditingMapIndex(null);
     setEditingMapName('');
@@ -438,12 +433,21 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
     }
 
     // Create map settings with fog of war and scale from per-map settings
-    const mapSettings: { [mapId: string]: { fogOfWar: { enabled: boolean; revealedAreas: { x: number; y: number; radius: number }[] }; scale: number } } = {};
+    const mapSettings: { [mapId: string]: MapSettings } = {};
     selectedMapsForEpisode.forEach(mapId => {
       const settings = mapSettingsForEpisode[mapId] || { fogOfWar: false, scale: 100 };
       mapSettings[mapId] = {
-        fogOfWar: { enabled: settings.fogOfWar, revealedAreas: [] },
-        scale: settings.scale
+        fogOfWar: { enabled: settings.fogOfWar, revealedAreas: [], lineOfSight: settings.lineOfSight },
+        scale: settings.scale,
+        walls: settings.walls?.length ? settings.walls : undefined,
+        ambientLight: settings.ambientLight,
+        lights: settings.lights?.length ? settings.lights : undefined,
+        diagonalRule: settings.diagonalRule,
+        grid: settings.grid,
+        // Links to maps no longer in the episode are dropped
+        links: settings.links?.some(l => selectedMapsForEpisode.includes(l.targetMapId))
+          ? settings.links.filter(l => selectedMapsForEpisode.includes(l.targetMapId))
+          : undefined,
       };
     });
 
@@ -500,8 +504,7 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
     setNewEpisodeStartingTime("");
   };
 
-  const handleToggleMapForEpisode = (mapIndex: number) => {
-    const mapIdStr = mapIndex.toString();
+  const handleToggleMapForEpisode = (mapIdStr: string) => {
     setSelectedMapsForEpisode(prev => {
       const isRemoving = prev.includes(mapIdStr);
       const newMaps = isRemoving ? prev.filter(i => i !== mapIdStr) : [...prev, mapIdStr];
@@ -571,7 +574,7 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
     // Load mob placements - add mapId if missing (backwards compatibility)
     setSelectedMobsForEpisode(episode.mobPlacements.map(p => ({
       mobId: p.mobId,
-      mapId: p.mapId || episode.mapIds[0] || '0', // Default to first map if no mapId
+      mapId: p.mapId || episode.mapIds[0] || '', // Default to first map if no mapId
       x: p.x,
       y: p.y,
       scale: p.scale,
@@ -583,18 +586,25 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
     // Load crawler placements
     setSelectedCrawlersForEpisode(episode.crawlerPlacements?.map(p => ({
       crawlerId: p.crawlerId,
-      mapId: p.mapId || episode.mapIds[0] || '0',
+      mapId: p.mapId || episode.mapIds[0] || '',
       x: p.x,
       y: p.y,
     })) || []);
 
     // Load per-map settings
-    const loadedMapSettings: { [mapId: string]: { fogOfWar: boolean; scale: number } } = {};
+    const loadedMapSettings: { [mapId: string]: EpisodeMapDraft } = {};
     episode.mapIds.forEach(mapId => {
       const settings = episode.mapSettings?.[mapId];
       loadedMapSettings[mapId] = {
         fogOfWar: settings?.fogOfWar?.enabled ?? false,
-        scale: settings?.scale ?? 100
+        scale: settings?.scale ?? 100,
+        lineOfSight: settings?.fogOfWar?.lineOfSight,
+        walls: settings?.walls,
+        ambientLight: settings?.ambientLight,
+        lights: settings?.lights,
+        diagonalRule: settings?.diagonalRule,
+        grid: settings?.grid,
+        links: settings?.links,
       };
     });
     setMapSettingsForEpisode(loadedMapSettings);
@@ -684,6 +694,13 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
           >
             <ScrollText className="w-4 h-4 mr-2" /> Quests
           </DungeonButton>
+          <DungeonButton
+            variant={activeTab === "origins" ? "admin" : "default"}
+            onClick={() => setActiveTab("origins")}
+            className="flex-1"
+          >
+            <User className="w-4 h-4 mr-2" /> Races & Jobs
+          </DungeonButton>
         </div>
 
         {activeTab === "mobs" && (
@@ -703,7 +720,7 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
                       className="w-full bg-muted border border-border px-3 py-2"
                     />
                   </div>
-                  <div className="grid grid-cols-3 gap-2">
+                  <div className="grid grid-cols-4 gap-2">
                     <div>
                       <label className="text-xs text-muted-foreground mb-1 block">Level</label>
                       <input
@@ -724,6 +741,16 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
                         className="w-full bg-muted border border-border px-3 py-2"
                       />
                     </div>
+                    <div>
+                      <label className="text-xs text-muted-foreground mb-1 block">Armor Class</label>
+                      <input
+                        type="number"
+                        placeholder={String(DEFAULT_ARMOR_CLASS)}
+                        value={newMob.armorClass || ""}
+                        onChange={(e) => setNewMob({ ...newMob, armorClass: parseInt(e.target.value) || undefined })}
+                        className="w-full bg-muted border border-border px-3 py-2"
+                      />
+                    </div>
                     <div>
                       <label className="text-xs text-muted-foreground mb-1 block">Type</label>
                       <select
@@ -766,6 +793,20 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
                       className="w-full bg-muted border border-border px-3 py-2"
                     />
                   </div>
+                  <div>
+                    <label className="text-xs text-muted-foreground mb-1 block">Damage Resistances</label>
+                    <DamageAffinityEditor
+                      value={newMob.damageAffinities}
+                      onChange={(damageAffinities) => setNewMob({ ...newMob, damageAffinities })}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs text-muted-foreground mb-1 block">Stat Block</label>
+                    <MobStatBlockEditor
+                      value={newMob}
+                      onChange={(updates) => setNewMob({ ...newMob, ...updates })}
+                    />
+                  </div>
                 </div>
                 <div className="flex flex-col items-center justify-center border border-dashed border-border p-4">
                   <label className="text-xs text-muted-foreground mb-2">Mob Image</label>
@@ -824,7 +865,7 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
                               className="w-full bg-muted border border-border px-2 py-1 text-sm"
                             />
                           </div>
-                          <div className="grid grid-cols-3 gap-2">
+                          <div className="grid grid-cols-4 gap-2">
                             <div>
                               <label className="text-xs text-muted-foreground mb-1 block">Level</label>
                               <input
@@ -843,6 +884,16 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
                                 className="w-full bg-muted border border-border px-2 py-1 text-sm"
                               />
                             </div>
+                            <div>
+                              <label className="text-xs text-muted-foreground mb-1 block">AC</label>
+                              <input
+                                type="number"
+                                placeholder={String(DEFAULT_ARMOR_CLASS)}
+                                value={editedMob.armorClass || ""}
+                                onChange={(e) => setEditedMobData(prev => prev ? { ...prev, armorClass: parseInt(e.target.value) || undefined } : prev)}
+                                className="w-full bg-muted border border-border px-2 py-1 text-sm"
+                              />
+                            </div>
                             <div>
                               <label className="text-xs text-muted-foreground mb-1 block">Type</label>
                               <select
@@ -918,6 +969,20 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
                               className="w-full bg-muted border border-border px-2 py-1 text-sm"
                             />
                           </div>
+                          <div className="col-span-2">
+                            <label className="text-xs text-muted-foreground mb-1 block">Damage Resistances</label>
+                            <DamageAffinityEditor
+                              value={editedMob.damageAffinities}
+                              onChange={(damageAffinities) => setEditedMobData(prev => prev ? { ...prev, damageAffinities } : prev)}
+                            />
+                          </div>
+                          <div className="col-span-2">
+                            <label className="text-xs text-muted-foreground mb-1 block">Stat Block</label>
+                            <MobStatBlockEditor
+                              value={editedMob}
+                              onChange={(updates) => setEditedMobData(prev => prev ? { ...prev, ...updates } : prev)}
+                            />
+                          </div>
                         </div>
 
                         {/* Hide Detail Toggles */}
@@ -1205,6 +1270,7 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
                             {mob.hitPoints !== undefined && (
                               <span className="text-xs text-muted-foreground">HP: {mob.hitPoints}</span>
                             )}
+                            <span className="text-xs text-muted-foreground">AC: {mob.armorClass ?? DEFAULT_ARMOR_CLASS}</span>
                             {mob.type === "boss" && (
                               <span className="text-xs bg-destructive/20 text-destructive px-2 py-0.5">BOSS</span>
                             )}
@@ -1227,6 +1293,13 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
                               <span className="text-primary">Strengths:</span> {mob.strengths}
                             </p>
                           )}
+                          <DamageAffinityBadges value={mob.damageAffinities} className="mt-1" />
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {MOB_STATS.map(stat => `${stat.toUpperCase()} ${mob[stat] ?? DEFAULT_MOB_STAT}`).join(' · ')} · Speed {mob.speed ?? DEFAULT_MOB_SPEED}ft
+                          </p>
+                          {mob.actions?.map(action => (
+                            <p key={action.id} className="text-xs text-accent">{describeMobAction(mob, action)}</p>
+                          ))}
                           {((mob.defaultInventory && mob.defaultInventory.length > 0) || (mob.defaultGold && mob.defaultGold > 0)) && (
                             <div className="text-xs text-muted-foreground mt-1">
                               <span className="text-accent">Inventory:</span>{' '}
@@ -1279,8 +1352,8 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
                   onChange={handleMapUpload}
                   className="hidden"
                 />
-                <DungeonButton variant="admin" onClick={() => mapImageRef.current?.click()}>
-                  <Upload className="w-4 h-4 mr-2" /> Upload Map Image
+                <DungeonButton variant="admin" onClick={() => mapImageRef.current?.click()} disabled={isUploadingMap}>
+                  <Upload className="w-4 h-4 mr-2" /> {isUploadingMap ? 'Processing Map...' : 'Upload Map Image'}
                 </DungeonButton>
               </div>
               {onCleanupEmptyMaps && (
@@ -1300,9 +1373,16 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
             {/* Maps grid */}
             <div className="grid sm:grid-cols-1 md:grid-cols-2 gap-4">
               {maps.map((map, index) => (
-                <div key={index} className="border border-border p-2 relative group w-full bg-muted/20">
+                <div key={mapIds[index] ?? index} className="border border-border p-2 relative group w-full bg-muted/20">
                   {/* Map image */}
-                  <img src={map} alt={`Map ${index + 1}`} className="w-full h-auto object-contain max-h-[40vh]" />
+                  <img
+                    src={mapAssets[index]?.thumbnailUrl ?? map}
+                    srcSet={getMapSrcSet(mapAssets[index], map)}
+                    sizes="(min-width: 768px) 50vw, 100vw"
+                    loading="lazy"
+                    alt={`Map ${index + 1}`}
+                    className="w-full h-auto object-contain max-h-[40vh]"
+                  />
                   
                   {/* Map name display/edit */}
                   <div className="mt-2 p-2 bg-background border-t border-border">
@@ -1426,20 +1506,20 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
                     ) : (
                       maps.map((map, index) => (
                         <label
-                          key={index}
+                          key={mapIds[index] ?? index}
                           className={`flex items-center gap-2 p-2 border cursor-pointer transition-colors ${
-                            selectedMapsForEpisode.includes(index.toString())
+                            selectedMapsForEpisode.includes(mapIds[index])
                               ? "border-primary bg-primary/10"
                               : "border-border hover:border-primary/50"
                           }`}
                         >
                           <input
                             type="checkbox"
-                            checked={selectedMapsForEpisode.includes(index.toString())}
-                            onChange={() => handleToggleMapForEpisode(index)}
+                            checked={selectedMapsForEpisode.includes(mapIds[index])}
+                            onChange={() => handleToggleMapForEpisode(mapIds[index])}
                             className="w-4 h-4"
                           />
-                          <img src={map} alt={mapNames?.[index] || `Map ${index + 1}`} className="w-12 h-12 object-cover" />
+                          <img src={mapAssets[index]?.thumbnailUrl ?? map} loading="lazy" alt={mapNames?.[index] || `Map ${index + 1}`} className="w-12 h-12 object-cover" />
                           <span className="text-sm">{mapNames?.[index] || `Map ${index + 1}`}</span>
                         </label>
                       ))
@@ -1484,7 +1564,7 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
 
                     {/* Current map name */}
                     <div className="text-sm font-medium text-primary">
-                      {mapNames?.[parseInt(selectedMapsForEpisode[currentMapIndexForEditor], 10)] || `Map ${parseInt(selectedMapsForEpisode[currentMapIndexForEditor], 10) + 1}`}
+                      {mapNames?.[mapIds.indexOf(selectedMapsForEpisode[currentMapIndexForEditor])] || `Map ${mapIds.indexOf(selectedMapsForEpisode[currentMapIndexForEditor]) + 1}`}
                     </div>
 
                     {/* Per-map settings controls */}
@@ -1508,6 +1588,84 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
                         />
                         <span className="text-sm">Fog of War</span>
                       </label>
+                      <label className="flex items-center gap-2 cursor-pointer" title="Fog follows each crawler's line of sight through walls drawn in the Designer">
+                        <input
+                          type="checkbox"
+                          checked={mapSettingsForEpisode[selectedMapsForEpisode[currentMapIndexForEditor]]?.lineOfSight ?? false}
+                          onChange={(e) => {
+                            const mapId = selectedMapsForEpisode[currentMapIndexForEditor];
+                            setMapSettingsForEpisode(prev => ({
+                              ...prev,
+                              [mapId]: {
+                                ...prev[mapId],
+                                fogOfWar: prev[mapId]?.fogOfWar ?? false,
+                                scale: prev[mapId]?.scale ?? 100,
+                                lineOfSight: e.target.checked || undefined,
+                              }
+                            }));
+                          }}
+                          className="w-4 h-4"
+                        />
+                        <span className="text-sm">Line of Sight</span>
+                        {(mapSettingsForEpisode[selectedMapsForEpisode[currentMapIndexForEditor]]?.walls?.length ?? 0) > 0 && (
+                          <span className="text-xs text-muted-foreground">
+                            ({mapSettingsForEpisode[selectedMapsForEpisode[currentMapIndexForEditor]]?.walls?.length} walls/doors)
+                          </span>
+                        )}
+                      </label>
+                      <div className="flex items-center gap-2" title="Dim and dark maps hide what no light or darkvision reaches; place lights in the Designer">
+                        <label className="text-sm text-muted-foreground">Lighting:</label>
+                        <select
+                          value={mapSettingsForEpisode[selectedMapsForEpisode[currentMapIndexForEditor]]?.ambientLight ?? 'bright'}
+                          onChange={(e) => {
+                            const mapId = selectedMapsForEpisode[currentMapIndexForEditor];
+                            const ambientLight = e.target.value as AmbientLight;
+                            setMapSettingsForEpisode(prev => ({
+                              ...prev,
+                              [mapId]: {
+                                ...prev[mapId],
+                                fogOfWar: prev[mapId]?.fogOfWar ?? false,
+                                scale: prev[mapId]?.scale ?? 100,
+                                ambientLight: ambientLight === 'bright' ? undefined : ambientLight,
+                              }
+                            }));
+                          }}
+                          className="bg-muted border border-border px-2 py-1 text-sm"
+                        >
+                          {AMBIENT_LIGHTS.map(level => (
+                            <option key={level} value={level}>{AMBIENT_LIGHT_LABELS[level]}</option>
+                          ))}
+                        </select>
+                        {(mapSettingsForEpisode[selectedMapsForEpisode[currentMapIndexForEditor]]?.lights?.length ?? 0) > 0 && (
+                          <span className="text-xs text-muted-foreground">
+                            ({mapSettingsForEpisode[selectedMapsForEpisode[currentMapIndexForEditor]]?.lights?.length} lights)
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2" title="How diagonal steps are counted when tokens move on the grid">
+                        <label className="text-sm text-muted-foreground">Diagonals:</label>
+                        <select
+                          value={mapSettingsForEpisode[selectedMapsForEpisode[currentMapIndexForEditor]]?.diagonalRule ?? '5-5-5'}
+                          onChange={(e) => {
+                            const mapId = selectedMapsForEpisode[currentMapIndexForEditor];
+                            const diagonalRule = e.target.value as DiagonalRule;
+                            setMapSettingsForEpisode(prev => ({
+                              ...prev,
+                              [mapId]: {
+                                ...prev[mapId],
+                                fogOfWar: prev[mapId]?.fogOfWar ?? false,
+                                scale: prev[mapId]?.scale ?? 100,
+                                diagonalRule: diagonalRule === '5-5-5' ? undefined : diagonalRule,
+                              }
+                            }));
+                          }}
+                          className="bg-muted border border-border px-2 py-1 text-sm"
+                        >
+                          {DIAGONAL_RULES.map(rule => (
+                            <option key={rule} value={rule}>{DIAGONAL_RULE_LABELS[rule]}</option>
+                          ))}
+                        </select>
+                      </div>
                       <div className="flex items-center gap-2">
                         <label className="text-sm text-muted-foreground">Scale:</label>
                         <select
@@ -1552,7 +1710,7 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
 
                     {/* Mob and Crawler placement editor */}
                     <MapMobPlacementEditor
-                      mapUrl={maps[parseInt(selectedMapsForEpisode[currentMapIndexForEditor], 10)]}
+                      mapUrl={maps[mapIds.indexOf(selectedMapsForEpisode[currentMapIndexForEditor])]}
                       mapId={selectedMapsForEpisode[currentMapIndexForEditor]}
                       mobs={mobs}
                       placements={selectedMobsForEpisode}
@@ -2141,6 +2299,18 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
                   />
                 </div>
 
+                {/* XP reward */}
+                <div>
+                  <label className="text-xs text-muted-foreground mb-1 block">XP Reward (split between assigned crawlers)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={newQuestXpReward}
+                    onChange={e => setNewQuestXpReward(Math.max(0, parseInt(e.target.value) || 0))}
+                    className="w-32 bg-background border border-border rounded px-3 py-2 text-sm"
+                  />
+                </div>
+
                 {/* Action Items */}
                 <div>
                   <label className="text-xs text-muted-foreground mb-1 block">Action Items</label>
@@ -2345,6 +2515,7 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
                         setNewQuestDescription("");
                         setNewQuestRewards([]);
                         setNewQuestActionItems([]);
+                        setNewQuestXpReward(0);
                       }}
                       className="flex-1"
                     >
@@ -2363,6 +2534,7 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
                           description: newQuestDescription,
                           rewards: newQuestRewards,
                           actionItems: newQuestActionItems,
+                          xpReward: newQuestXpReward,
                         });
                         setEditingQuestId(null);
                       } else if (onAddQuest) {
@@ -2373,6 +2545,7 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
                           rewards: newQuestRewards,
                           actionItems: newQuestActionItems,
                           notes: [],
+                          ...(newQuestXpReward > 0 ? { xpReward: newQuestXpReward } : {}),
                           createdAt: new Date().toISOString(),
                           updatedAt: new Date().toISOString(),
                         });
@@ -2381,6 +2554,7 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
                       setNewQuestDescription("");
                       setNewQuestRewards([]);
                       setNewQuestActionItems([]);
+                      setNewQuestXpReward(0);
                     }}
                   >
                     <Plus className="w-4 h-4 mr-2" />
@@ -2412,6 +2586,7 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
                               setNewQuestDescription(quest.description);
                               setNewQuestRewards([...quest.rewards]);
                               setNewQuestActionItems([...quest.actionItems]);
+                              setNewQuestXpReward(quest.xpReward ?? 0);
                             }}
                             className="p-1 hover:bg-muted rounded"
                           >
@@ -2437,12 +2612,101 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
                       <div className="flex gap-3 text-xs text-muted-foreground">
                         <span>{quest.actionItems.length} action item{quest.actionItems.length !== 1 ? 's' : ''}</span>
                         <span>{quest.rewards.length} reward{quest.rewards.length !== 1 ? 's' : ''}</span>
+                        {quest.xpReward ? <span className="text-accent">{quest.xpReward} XP</span> : null}
                       </div>
                     </div>
                   ))}
                 </div>
               )}
             </div>
+
+            {progressionSettings && onUpdateProgressionSettings && (
+              <ProgressionSettingsEditor settings={progressionSettings} onSave={onUpdateProgressionSettings} />
+            )}
+          </div>
+        )}
+
+        {activeTab === "origins" && (
+          <div className="space-y-6">
+            {editingOrigin && (
+              <CharacterOptionEditor
+                key={editingOrigin.value.id}
+                kind={editingOrigin.kind}
+                value={editingOrigin.value}
+                spells={spells}
+                sharedInventory={getSharedInventory?.() ?? []}
+                onCancel={() => setEditingOrigin(null)}
+                onSave={(value) => {
+                  if (editingOrigin.kind === "race") {
+                    if (editingOrigin.isNew) onAddRace?.(value);
+                    else onUpdateRace?.(value.id, value);
+                  } else {
+                    if (editingOrigin.isNew) onAddJob?.(value);
+                    else onUpdateJob?.(value.id, value);
+                  }
+                  setEditingOrigin(null);
+                }}
+              />
+            )}
+
+            {([
+              { kind: "race" as const, title: "Races", options: races as RaceDefinition[], onDelete: onDeleteRace },
+              { kind: "job" as const, title: "Jobs", options: jobs as RaceDefinition[], onDelete: onDeleteJob },
+            ]).map(({ kind, title, options, onDelete }) => (
+              <div key={kind} className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-display text-primary text-lg">{title}</h3>
+                  <DungeonButton
+                    variant="admin"
+                    size="sm"
+                    onClick={() => setEditingOrigin({ kind, value: createEmptyCharacterOption(), isNew: true })}
+                  >
+                    <Plus className="w-4 h-4 mr-1" /> New {kind === "race" ? "Race" : "Job"}
+                  </DungeonButton>
+                </div>
+                {options.length === 0 ? (
+                  <p className="text-muted-foreground text-sm py-4">No {title.toLowerCase()} defined yet. Crawlers can still type one in by hand.</p>
+                ) : (
+                  <div className="grid sm:grid-cols-2 gap-3">
+                    {options.map(option => (
+                      <div key={option.id} className="border border-border bg-muted/20 p-4 rounded">
+                        <div className="flex items-start justify-between mb-2">
+                          <h4 className="font-display text-foreground">{option.name}</h4>
+                          <div className="flex items-center gap-1">
+                            <button onClick={() => setEditingOrigin({ kind, value: option, isNew: false })} className="p-1 hover:bg-muted rounded">
+                              <Edit2 className="w-4 h-4 text-muted-foreground hover:text-foreground" />
+                            </button>
+                            {onDelete && (
+                              <button
+                                onClick={() => {
+                                  if (confirm(`Delete ${kind} "${option.name}"?`)) onDelete(option.id);
+                                }}
+                                className="p-1 hover:bg-destructive/10 rounded"
+                              >
+                                <Trash2 className="w-4 h-4 text-destructive" />
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                        {option.description && <p className="text-xs text-muted-foreground mb-2">{option.description}</p>}
+                        <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                          {(Object.entries(option.statBonuses) as [AbilityScore, number][]).map(([key, bonus]) => (
+                            <span key={key} className={bonus > 0 ? "text-green-400" : "text-red-400"}>
+                              {ABILITY_SCORE_LABELS[key]} {bonus > 0 ? `+${bonus}` : bonus}
+                            </span>
+                          ))}
+                          {option.hpPerLevel > 0 && <span>+{option.hpPerLevel} HP/lvl</span>}
+                          {option.manaPerLevel > 0 && <span>+{option.manaPerLevel} mana/lvl</span>}
+                          {option.grantedSpells.length > 0 && <span>{option.grantedSpells.length} spell{option.grantedSpells.length !== 1 ? "s" : ""}</span>}
+                          {option.startingItems.length > 0 && <span>{option.startingItems.length} item{option.startingItems.length !== 1 ? "s" : ""}</span>}
+                          {option.startingGold > 0 && <span className="text-accent">{option.startingGold}G</span>}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
           </div>
         )}
       </DungeonCard>
@@ -2452,7 +2716,7 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
         <MapDesignerPopout
           isOpen={isMapDesignerOpen}
           onClose={() => setIsMapDesignerOpen(false)}
-          mapUrl={maps[parseInt(selectedMapsForEpisode[currentMapIndexForEditor], 10)]}
+          mapUrl={maps[mapIds.indexOf(selectedMapsForEpisode[currentMapIndexForEditor])]}
           mapId={selectedMapsForEpisode[currentMapIndexForEditor]}
           mapScale={mapSettingsForEpisode[selectedMapsForEpisode[currentMapIndexForEditor]]?.scale ?? 100}
           mobs={mobs}
@@ -2461,6 +2725,83 @@ const DungeonAIView: React.FC<DungeonAIViewProps> = ({
           crawlers={crawlers}
           crawlerPlacements={selectedCrawlersForEpisode}
           onCrawlerPlacementsChange={setSelectedCrawlersForEpisode}
+          walls={mapSettingsForEpisode[selectedMapsForEpisode[currentMapIndexForEditor]]?.walls}
+          onWallsChange={(walls) => {
+            const mapId = selectedMapsForEpisode[currentMapIndexForEditor];
+            setMapSettingsForEpisode(prev => ({
+              ...prev,
+              [mapId]: {
+                ...prev[mapId],
+                fogOfWar: prev[mapId]?.fogOfWar ?? false,
+                scale: prev[mapId]?.scale ?? 100,
+                walls,
+              }
+            }));
+          }}
+          lights={mapSettingsForEpisode[selectedMapsForEpisode[currentMapIndexForEditor]]?.lights}
+          onLightsChange={(lights) => {
+            const mapId = selectedMapsForEpisode[currentMapIndexForEditor];
+            setMapSettingsForEpisode(prev => ({
+              ...prev,
+              [mapId]: {
+                ...prev[mapId],
+                fogOfWar: prev[mapId]?.fogOfWar ?? false,
+                scale: prev[mapId]?.scale ?? 100,
+                lights,
+              }
+            }));
+          }}
+          grid={mapSettingsForEpisode[selectedMapsForEpisode[currentMapIndexForEditor]]?.grid}
+          onGridChange={(grid) => {
+            const mapId = selectedMapsForEpisode[currentMapIndexForEditor];
+            setMapSettingsForEpisode(prev => ({
+              ...prev,
+              [mapId]: {
+                ...prev[mapId],
+                fogOfWar: prev[mapId]?.fogOfWar ?? false,
+                scale: prev[mapId]?.scale ?? 100,
+                grid,
+              }
+            }));
+          }}
+          links={mapSettingsForEpisode[selectedMapsForEpisode[currentMapIndexForEditor]]?.links}
+          onLinksChange={(links) => {
+            const mapId = selectedMapsForEpisode[currentMapIndexForEditor];
+            const linkIds = new Set(links.map(l => l.id));
+            setMapSettingsForEpisode(prev => {
+              const next = { ...prev, [mapId]: { ...prev[mapId], fogOfWar: prev[mapId]?.fogOfWar ?? false, scale: prev[mapId]?.scale ?? 100, links } };
+              // Links elsewhere that arrived at a removed link fall back to having no arrival point
+              for (const [otherId, draft] of Object.entries(next)) {
+                if (otherId === mapId || !draft.links?.some(l => l.targetMapId === mapId && l.targetLinkId && !linkIds.has(l.targetLinkId))) continue;
+                next[otherId] = {
+                  ...draft,
+                  links: draft.links.map(link => {
+                    if (link.targetMapId !== mapId || !link.targetLinkId || linkIds.has(link.targetLinkId)) return link;
+                    const { targetLinkId: _, ...rest } = link;
+                    return rest;
+                  }),
+                };
+              }
+              return next;
+            });
+          }}
+          linkTargets={selectedMapsForEpisode
+            .filter(id => id !== selectedMapsForEpisode[currentMapIndexForEditor])
+            .map(id => ({ id, name: mapNames?.[mapIds.indexOf(id)] || `Map ${mapIds.indexOf(id) + 1}` }))}
+          incomingLinks={selectedMapsForEpisode.flatMap<IncomingMapLink>(id =>
+            (mapSettingsForEpisode[id]?.links ?? [])
+              .filter(l => l.targetMapId === selectedMapsForEpisode[currentMapIndexForEditor] && !l.targetLinkId)
+              .map(link => ({ mapId: id, mapName: mapNames?.[mapIds.indexOf(id)] || `Map ${mapIds.indexOf(id) + 1}`, link }))
+          )}
+          onLinkArrivalPlaced={(fromMapId, fromLinkId, arrivalLinkId) => {
+            setMapSettingsForEpisode(prev => ({
+              ...prev,
+              [fromMapId]: {
+                ...prev[fromMapId],
+                links: prev[fromMapId]?.links?.map(l => (l.id === fromLinkId ? { ...l, targetLinkId: arrivalLinkId } : l)),
+              },
+            }));
+          }}
         />
       )}
     </motion.div>
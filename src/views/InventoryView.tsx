@@ -2,8 +2,15 @@ import { useState, useEffect, useMemo } from "react";
 import { motion } from "framer-motion";
 import { DungeonCard } from "@/components/ui/DungeonCard";
 import { DungeonButton } from "@/components/ui/DungeonButton";
-import { Crawler, InventoryItem, EquipmentSlot as SlotType, StatModifiers, WeaponData, DAMAGE_TYPES, WEAPON_TYPES, DamageType, WeaponType, Spell, SpellData } from "@/lib/gameData";
-import { Coins, Package, Sword, Shield, Plus, Trash2, Edit2, Save, HardHat, Search, BookOpen, Gem, Footprints, Shirt, Hand, Crosshair, ChevronDown, ChevronUp, Wand2, Globe, Lock, Users } from "lucide-react";
+import { DamageAffinityEditor, DamageAffinityBadges } from "@/components/ui/DamageAffinityEditor";
+import { LightRadiusEditor } from "@/components/ui/LightRadiusEditor";
+import { ConsumableEffectEditor } from "@/components/ui/ConsumableEffectEditor";
+import { CarryCapacityBar } from "@/components/ui/CarryCapacityBar";
+import { Crawler, InventoryItem, EquipmentSlot as SlotType, StatModifiers, DamageAffinities, LightRadius, WeaponData, DAMAGE_TYPES, WEAPON_TYPES, DamageType, WeaponType, Spell, SpellData, ConsumableEffect, getCrawlerEncumbrance } from "@/lib/gameData";
+import { Coins, Package, Sword, Shield, Plus, Trash2, Edit2, Save, HardHat, Search, BookOpen, Gem, Footprints, Shirt, Hand, Crosshair, ChevronDown, ChevronUp, Wand2, Globe, Lock, Users, Split, Layers, FlaskConical, Weight } from "lucide-react";
+import { addToInventory, getItemQuantity, getItemSignature, isStackable, mergeStacks, removeFromInventory, splitStack } from "@/lib/inventoryStacks";
+import { describeConsumableEffect, isConsumable, isConsumableEffectValid } from "@/lib/consumables";
+import { formatWeight, getItemWeight } from "@/lib/encumbrance";
 import { SpellDataEditor } from "@/views/SpellsView";
 
 // Inline SVG for legs/pants slot
@@ -48,6 +55,7 @@ interface InventoryViewProps {
   onUpdateSharedInventory: (items: InventoryItem[]) => void;
   spells?: Spell[];
   onConsumeSpellTome?: (crawlerId: string, itemId: string) => Promise<void>;
+  onConsumeItem?: (crawlerId: string, itemId: string) => Promise<void>;
   onPromoteSpellToLibrary?: (spell: Spell) => Promise<void>;
   isAdmin?: boolean;
   currentUserId?: string;
@@ -57,15 +65,8 @@ interface InventoryViewProps {
   showPublicContent?: boolean;
 }
 
-// Helper to create item signature for grouping
-const getItemSignature = (item: InventoryItem): string => {
-  const modifiersStr = item.statModifiers
-    ? JSON.stringify(Object.entries(item.statModifiers).filter(([, v]) => v !== 0).sort())
-    : '';
-  return `${item.name}|${item.description || ''}|${item.equipSlot || ''}|${item.goldValue ?? 0}|${modifiersStr}`;
-};
-
-// Consolidate items by signature
+// Consolidate items for display: stacks show as their own rows, identical
+// one-per-item entries (equipment) are grouped by signature
 interface ConsolidatedItem {
   item: InventoryItem;
   count: number;
@@ -75,13 +76,13 @@ interface ConsolidatedItem {
 const consolidateItems = (items: InventoryItem[]): ConsolidatedItem[] => {
   const groups = new Map<string, ConsolidatedItem>();
   for (const item of items) {
-    const sig = getItemSignature(item);
+    const sig = isStackable(item) ? `stack:${item.id}` : getItemSignature(item);
     const existing = groups.get(sig);
     if (existing) {
-      existing.count++;
+      existing.count += getItemQuantity(item);
       existing.ids.push(item.id);
     } else {
-      groups.set(sig, { item, count: 1, ids: [item.id] });
+      groups.set(sig, { item, count: getItemQuantity(item), ids: [item.id] });
     }
   }
   return Array.from(groups.values());
@@ -97,6 +98,7 @@ const InventoryView: React.FC<InventoryViewProps> = ({
   onUpdateSharedInventory,
   spells = [],
   onConsumeSpellTome,
+  onConsumeItem,
   onPromoteSpellToLibrary,
   isAdmin = false,
   currentUserId,
@@ -121,6 +123,18 @@ const InventoryView: React.FC<InventoryViewProps> = ({
   const [editingItemId, setEditingItemId] = useState<string | null>(null);
   const [editingItemData, setEditingItemData] = useState<{ name: string; description: string }>({ name: '', description: '' });
 
+  // One consumable at a time per crawler, so a double click can't apply effects twice for one unit
+  const [consumingCrawlerId, setConsumingCrawlerId] = useState<string | null>(null);
+  const handleUseConsumable = async (crawlerId: string, itemId: string) => {
+    if (!onConsumeItem || consumingCrawlerId) return;
+    setConsumingCrawlerId(crawlerId);
+    try {
+      await onConsumeItem(crawlerId, itemId);
+    } finally {
+      setConsumingCrawlerId(null);
+    }
+  };
+
   const handleStartEditItem = (crawlerId: string, item: InventoryItem) => {
     setEditingItemId(`${crawlerId}:${item.id}`);
     setEditingItemData({ name: item.name, description: item.description });
@@ -141,10 +155,14 @@ const InventoryView: React.FC<InventoryViewProps> = ({
     description: string;
     equipSlot?: SlotType;
     goldValue?: number;
+    weight?: number;
     statModifiers?: StatModifiers;
+    damageAffinities?: DamageAffinities;
+    light?: LightRadius;
     weaponData?: WeaponData;
     isSpellTome?: boolean;
     spellTomeData?: { entries: Array<{ spellId?: string; customSpell?: Spell }> };
+    consumableEffects?: ConsumableEffect[];
   }>({
     name: "", description: "", equipSlot: undefined, goldValue: undefined, statModifiers: undefined, weaponData: undefined,
   });
@@ -182,9 +200,22 @@ const InventoryView: React.FC<InventoryViewProps> = ({
     300
   );
 
+  // Removes one unit; a stack shrinks, a single item disappears
   const handleRemoveItem = (crawlerId: string, itemId: string) => {
     const items = getCrawlerInventory(crawlerId);
-    onUpdateInventory(crawlerId, items.filter((i) => i.id !== itemId));
+    onUpdateInventory(crawlerId, removeFromInventory(items, itemId));
+  };
+
+  // Split a stack in half so part of it can be handled separately
+  const handleSplitStack = (crawlerId: string, item: InventoryItem) => {
+    const items = getCrawlerInventory(crawlerId);
+    onUpdateInventory(crawlerId, splitStack(items, item.id, Math.floor(getItemQuantity(item) / 2)));
+  };
+
+  const handleMergeStacks = (crawlerId: string) => {
+    const items = getCrawlerInventory(crawlerId);
+    const merged = mergeStacks(items);
+    if (merged !== items) onUpdateInventory(crawlerId, merged);
   };
 
   const handleGoldChange = (crawlerId: string, delta: number) => {
@@ -215,10 +246,14 @@ const InventoryView: React.FC<InventoryViewProps> = ({
       description: item.description,
       equipSlot: item.equipSlot,
       goldValue: item.goldValue,
+      weight: item.weight,
       statModifiers: item.statModifiers,
+      damageAffinities: item.damageAffinities,
+      light: item.light,
       weaponData: item.weaponData,
       isSpellTome: item.isSpellTome,
       spellTomeData: item.spellTomeData,
+      consumableEffects: item.consumableEffects,
     });
     setShowWeaponConfig(!!item.weaponData);
     setShowSpellTomeConfig(!!item.isSpellTome);
@@ -240,6 +275,10 @@ const InventoryView: React.FC<InventoryViewProps> = ({
       ? { isSpellTome: true as const, spellTomeData: newLibraryItem.spellTomeData }
       : { isSpellTome: undefined, spellTomeData: undefined };
 
+    // Half-filled effects (bad dice, a buff with no bonus) are dropped rather than saved broken
+    const effects = newLibraryItem.consumableEffects?.filter(isConsumableEffectValid);
+    const consumableFields = { consumableEffects: effects && effects.length > 0 ? effects : undefined };
+
     if (editingLibraryItemId) {
       // Get the old item for matching in crawler inventories
       const oldItem = items.find(i => i.id === editingLibraryItemId);
@@ -253,9 +292,13 @@ const InventoryView: React.FC<InventoryViewProps> = ({
               description: newLibraryItem.description,
               equipSlot: newLibraryItem.equipSlot,
               goldValue: newLibraryItem.goldValue,
+              weight: newLibraryItem.weight,
               ...(mods && Object.keys(mods).length > 0 ? { statModifiers: mods } : { statModifiers: undefined }),
+              damageAffinities: newLibraryItem.damageAffinities,
+              light: newLibraryItem.light,
               ...weaponFields,
               ...spellTomeFields,
+              ...consumableFields,
             }
           : item
       );
@@ -279,9 +322,13 @@ const InventoryView: React.FC<InventoryViewProps> = ({
                 description: newLibraryItem.description,
                 equipSlot: newLibraryItem.equipSlot,
                 goldValue: newLibraryItem.goldValue,
+                weight: newLibraryItem.weight,
                 ...(mods && Object.keys(mods).length > 0 ? { statModifiers: mods } : { statModifiers: undefined }),
+                damageAffinities: newLibraryItem.damageAffinities,
+                light: newLibraryItem.light,
                 ...weaponFields,
                 ...spellTomeFields,
+                ...consumableFields,
               };
             }
             return ci;
@@ -299,9 +346,13 @@ const InventoryView: React.FC<InventoryViewProps> = ({
         description: newLibraryItem.description,
         equipSlot: newLibraryItem.equipSlot,
         goldValue: newLibraryItem.goldValue,
+        ...(newLibraryItem.weight !== undefined ? { weight: newLibraryItem.weight } : {}),
         ...(mods && Object.keys(mods).length > 0 ? { statModifiers: mods } : {}),
+        ...(newLibraryItem.damageAffinities ? { damageAffinities: newLibraryItem.damageAffinities } : {}),
+        ...(newLibraryItem.light ? { light: newLibraryItem.light } : {}),
         ...weaponFields,
         ...spellTomeFields,
+        ...(consumableFields.consumableEffects ? consumableFields : {}),
         ...(currentUserId ? { createdBy: currentUserId, createdByUsername: currentUsername } : {}),
         isPublic: false,
       };
@@ -324,11 +375,7 @@ const InventoryView: React.FC<InventoryViewProps> = ({
 
   const handleAddLibraryItemToCrawler = (crawlerId: string, libraryItem: InventoryItem, quantity: number = 1) => {
     const items = getCrawlerInventory(crawlerId);
-    const newItems: InventoryItem[] = [];
-    for (let i = 0; i < quantity; i++) {
-      newItems.push({ ...libraryItem, id: crypto.randomUUID() });
-    }
-    onUpdateInventory(crawlerId, [...items, ...newItems]);
+    onUpdateInventory(crawlerId, addToInventory(items, libraryItem, quantity));
   };
 
   const libraryItems = getSharedInventory();
@@ -348,6 +395,12 @@ const InventoryView: React.FC<InventoryViewProps> = ({
           <span className="text-accent">{item.goldValue}G</span>
         </div>
       )}
+      {(item.weight ?? 0) > 0 && (
+        <div>
+          <span className="text-muted-foreground">Weight: </span>
+          <span className="text-foreground">{formatWeight(item.weight!)}{getItemQuantity(item) > 1 && ` each (${formatWeight(getItemWeight(item))} total)`}</span>
+        </div>
+      )}
       {item.equipSlot && (
         <div>
           <span className="text-muted-foreground">Slot: </span>
@@ -360,6 +413,12 @@ const InventoryView: React.FC<InventoryViewProps> = ({
           </span>
         </div>
       )}
+      {isConsumable(item) && (
+        <div>
+          <span className="text-muted-foreground">When used: </span>
+          <span className="text-green-400">{item.consumableEffects!.map(describeConsumableEffect).join('; ')}</span>
+        </div>
+      )}
       {item.tags && item.tags.length > 0 && (
         <div className="flex items-center gap-1 flex-wrap">
           <span className="text-muted-foreground">Tags: </span>
@@ -380,6 +439,18 @@ const InventoryView: React.FC<InventoryViewProps> = ({
           </div>
         </div>
       )}
+      {item.damageAffinities && Object.keys(item.damageAffinities).length > 0 && (
+        <div>
+          <span className="text-muted-foreground">Damage Resistances: </span>
+          <DamageAffinityBadges value={item.damageAffinities} className="mt-0.5" />
+        </div>
+      )}
+      {item.light && (
+        <div>
+          <span className="text-muted-foreground">Light: </span>
+          <span className="text-amber-300">{item.light.brightFt}ft bright / {item.light.dimFt}ft dim</span>
+        </div>
+      )}
       {item.weaponData && (
         <div className="border border-destructive/20 bg-destructive/5 p-2 rounded space-y-1">
           <span className="text-destructive font-display text-[10px]">WEAPON DATA</span>
@@ -559,7 +630,7 @@ const InventoryView: React.FC<InventoryViewProps> = ({
                               className="text-foreground hover:text-primary transition-colors text-left flex items-center gap-1"
                             >
                               {item.name}
-                              {(item.description || item.statModifiers || item.weaponData || item.tags) && (
+                              {(item.description || item.statModifiers || item.weaponData || item.tags || item.consumableEffects) && (
                                 isExpanded
                                   ? <ChevronUp className="w-3 h-3 text-muted-foreground" />
                                   : <ChevronDown className="w-3 h-3 text-muted-foreground" />
@@ -675,6 +746,12 @@ const InventoryView: React.FC<InventoryViewProps> = ({
                     onChange={(e) => setNewLibraryItem({ ...newLibraryItem, goldValue: e.target.value ? parseInt(e.target.value) : undefined })}
                     className="bg-muted border border-border px-2 py-1 text-sm w-20" />
                 </div>
+                <div className="flex items-center gap-1" title="Weight per unit in pounds">
+                  <Weight className="w-4 h-4 text-muted-foreground" />
+                  <input type="number" min={0} step={0.5} placeholder="lb" value={newLibraryItem.weight !== undefined ? newLibraryItem.weight : ""}
+                    onChange={(e) => setNewLibraryItem({ ...newLibraryItem, weight: e.target.value ? Math.max(0, parseFloat(e.target.value) || 0) : undefined })}
+                    className="bg-muted border border-border px-2 py-1 text-sm w-16" />
+                </div>
                 <DungeonButton variant="default" size="sm" onClick={handleSaveOrAddLibraryItem}>
                   {editingLibraryItemId ? <Save className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
                 </DungeonButton>
@@ -700,6 +777,20 @@ const InventoryView: React.FC<InventoryViewProps> = ({
                   ))}
                 </div>
               </div>
+              <div>
+                <p className="text-xs text-muted-foreground mb-1">Damage Resistances (when equipped)</p>
+                <DamageAffinityEditor
+                  value={newLibraryItem.damageAffinities}
+                  onChange={(damageAffinities) => setNewLibraryItem({ ...newLibraryItem, damageAffinities })}
+                />
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground mb-1">Light (when equipped)</p>
+                <LightRadiusEditor
+                  value={newLibraryItem.light}
+                  onChange={(light) => setNewLibraryItem({ ...newLibraryItem, light })}
+                />
+              </div>
 
               {/* Weapon Configuration */}
               {(newLibraryItem.equipSlot === 'weapon' || newLibraryItem.tags?.includes('weapon')) && (
@@ -1077,6 +1168,18 @@ const InventoryView: React.FC<InventoryViewProps> = ({
               );
             })()}
           </div>
+
+          {/* Consumable effects */}
+          <div className="border border-green-500/30 bg-green-500/5 p-3 rounded space-y-2">
+            <p className="flex items-center gap-2 text-xs text-green-400 font-display">
+              <FlaskConical className="w-4 h-4" /> CONSUMABLE EFFECTS
+            </p>
+            <p className="text-[10px] text-muted-foreground">Applied in order when a crawler uses the item; each use takes one from the stack.</p>
+            <ConsumableEffectEditor
+              value={newLibraryItem.consumableEffects}
+              onChange={(consumableEffects) => setNewLibraryItem(prev => ({ ...prev, consumableEffects }))}
+            />
+          </div>
         </div>
 
         {/* Community Items */}
@@ -1142,12 +1245,22 @@ const InventoryView: React.FC<InventoryViewProps> = ({
         <div className="space-y-6">
           {crawlers.map((crawler) => {
             const items = getCrawlerInventory(crawler.id);
+            const canMerge = editMode && mergeStacks(items) !== items;
             return (
               <div key={crawler.id} className="border border-border bg-muted/20 p-4">
                 <div className="flex items-center justify-between mb-4">
                   <h3 className="font-display text-lg text-primary flex items-center gap-2">
                     <Shield className="w-5 h-5" />
                     {crawler.name}'s Items
+                    {canMerge && (
+                      <button
+                        onClick={() => handleMergeStacks(crawler.id)}
+                        className="text-xs font-sans text-primary border border-primary/50 px-2 py-0.5 hover:bg-primary/10 transition-colors flex items-center gap-1"
+                        title="Combine identical stacks"
+                      >
+                        <Layers className="w-3 h-3" /> Merge stacks
+                      </button>
+                    )}
                   </h3>
                   {/* Individual crawler gold */}
                   <div className="flex items-center gap-2">
@@ -1172,6 +1285,7 @@ const InventoryView: React.FC<InventoryViewProps> = ({
                     )}
                   </div>
                 </div>
+                <CarryCapacityBar encumbrance={getCrawlerEncumbrance(crawler, items)} className="mb-4" />
 
                 {/* Search library items */}
                 {editMode && libraryItems.length > 0 && (
@@ -1292,7 +1406,7 @@ const InventoryView: React.FC<InventoryViewProps> = ({
                                       className="text-foreground hover:text-primary transition-colors text-left flex items-center gap-1"
                                     >
                                       {item.name}
-                                      {(item.description || item.statModifiers || item.weaponData || item.tags) && (
+                                      {(item.description || item.statModifiers || item.weaponData || item.tags || item.consumableEffects) && (
                                         expandedItems.has(`${crawler.id}:${item.id}`)
                                           ? <ChevronUp className="w-3 h-3 text-muted-foreground" />
                                           : <ChevronDown className="w-3 h-3 text-muted-foreground" />
@@ -1317,6 +1431,11 @@ const InventoryView: React.FC<InventoryViewProps> = ({
                                         <Wand2 className="w-3 h-3" /> Spell Tome
                                       </span>
                                     )}
+                                    {isConsumable(item) && (
+                                      <span className="text-xs bg-green-500/10 text-green-400 px-2 py-0.5 rounded flex items-center gap-1">
+                                        <FlaskConical className="w-3 h-3" /> Consumable
+                                      </span>
+                                    )}
                                   </div>
                                   {!expandedItems.has(`${crawler.id}:${item.id}`) && item.description && (
                                     <span className="text-muted-foreground text-xs">({item.description})</span>
@@ -1336,6 +1455,18 @@ const InventoryView: React.FC<InventoryViewProps> = ({
                                   </button>
                                 </div>
                               )}
+                              {isConsumable(item) && onConsumeItem && !editMode && editingItemId !== `${crawler.id}:${item.id}` && (
+                                <div className="shrink-0">
+                                  <button
+                                    onClick={() => handleUseConsumable(crawler.id, item.id)}
+                                    disabled={consumingCrawlerId === crawler.id}
+                                    className="text-xs text-green-400 border border-green-500/50 px-2 py-0.5 hover:bg-green-500/10 transition-colors flex items-center gap-1 disabled:opacity-50"
+                                    title={item.consumableEffects!.map(describeConsumableEffect).join('; ')}
+                                  >
+                                    <FlaskConical className="w-3 h-3" /> Use
+                                  </button>
+                                </div>
+                              )}
                               {editMode && editingItemId !== `${crawler.id}:${item.id}` && (
                                 <div className="flex items-center gap-1 shrink-0">
                                   <button
@@ -1345,6 +1476,15 @@ const InventoryView: React.FC<InventoryViewProps> = ({
                                   >
                                     <Edit2 className="w-4 h-4" />
                                   </button>
+                                  {isStackable(item) && consolidated.count > 1 && (
+                                    <button
+                                      onClick={() => handleSplitStack(crawler.id, item)}
+                                      className="text-primary hover:text-primary/80"
+                                      title="Split stack in half"
+                                    >
+                                      <Split className="w-4 h-4" />
+                                    </button>
+                                  )}
                                   <button
                                     onClick={() => handleRemoveItem(crawler.id, consolidated.ids[0])}
                                     className="text-destructive hover:text-destructive/80"
@@ -3,19 +3,25 @@ import { motion } from "framer-motion";
 import { DungeonCard } from "@/components/ui/DungeonCard";
 import { DungeonButton } from "@/components/ui/DungeonButton";
 import { MapPin, Layers, Eye, EyeOff, Edit2, Check, X } from "lucide-react";
+import type { MapAsset } from "@/lib/gameData";
+import { getMapSrcSet } from "@/lib/mapAssets";
 
 interface MapsViewProps {
   maps: string[];
+  mapIds: string[];
   mapNames?: string[];
-  onUpdateMapName?: (index: number, name: string) => void;
-  mapVisibility: boolean[];
-  onToggleVisibility: (index: number) => void;
+  mapAssets?: (MapAsset | null)[];
+  onUpdateMapName?: (mapId: string, name: string) => void;
+  mapVisibility: Record<string, boolean>; // by map id; maps default to visible
+  onToggleVisibility: (mapId: string) => void;
   isAdmin: boolean;
 }
 
 const MapsView: React.FC<MapsViewProps> = ({ 
   maps, 
+  mapIds,
   mapNames,
+  mapAssets = [],
   onUpdateMapName,
   mapVisibility, 
   onToggleVisibility, 
@@ -31,7 +37,7 @@ const MapsView: React.FC<MapsViewProps> = ({
 
   const saveMapName = (index: number) => {
     if (onUpdateMapName && editingMapName.trim()) {
-      onUpdateMapName(index, editingMapName.trim());
+      onUpdateMapName(mapIds[index], editingMapName.trim());
     }
     setEditingMapIndex(null);
   };
@@ -56,14 +62,14 @@ const MapsView: React.FC<MapsViewProps> = ({
         <div className="space-y-6">
           {maps.length > 0 ? (
             maps.map((map, index) => {
-              const isVisible = mapVisibility[index] ?? true;
+              const isVisible = mapVisibility[mapIds[index]] ?? true;
               const canView = isAdmin || isVisible;
               const displayName = mapNames?.[index] || `Map ${index + 1}`;
               const isEditing = editingMapIndex === index;
 
               return (
                 <div
-                  key={index}
+                  key={mapIds[index] ?? index}
                   className={`border-2 ${
                     isVisible ? "border-primary" : "border-muted"
                   } bg-background/50 p-4`}
@@ -114,7 +120,7 @@ const MapsView: React.FC<MapsViewProps> = ({
                       <DungeonButton
                         variant={isVisible ? "default" : "ghost"}
                         size="sm"
-                        onClick={() => onToggleVisibility(index)}
+                        onClick={() => onToggleVisibility(mapIds[index])}
                       >
                         {isVisible ? (
                           <>
@@ -136,7 +142,10 @@ const MapsView: React.FC<MapsViewProps> = ({
 
                   {canView ? (
                     <img
-                      src={map}
+                      src={mapAssets[index]?.previewUrl ?? map}
+                      srcSet={getMapSrcSet(mapAssets[index], map)}
+                      sizes="(min-width: 896px) 896px, 100vw"
+                      loading="lazy"
                       alt={displayName}
                       className="w-full border border-border"
                     />
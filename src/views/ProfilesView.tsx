@@ -3,10 +3,20 @@ import { motion } from "framer-motion";
 import { DungeonCard } from "@/components/ui/DungeonCard";
 import { DungeonButton } from "@/components/ui/DungeonButton";
 import { HealthBar } from "@/components/ui/HealthBar";
+import { CarryCapacityBar } from "@/components/ui/CarryCapacityBar";
+import LevelUpWizard from "@/components/LevelUpWizard";
+import CrawlerCreationWizard from "@/components/CrawlerCreationWizard";
 import { EquipmentSlot } from "@/components/ui/EquipmentSlot";
-import { Crawler, Mob, InventoryItem, createEmptyCrawler, EquipmentSlot as SlotType, getEquippedModifiers, StatModifiers, SentLootBox, getLootBoxTierColor, NoncombatTurnState, CombatState, WeaponData, DAMAGE_TYPES, WEAPON_TYPES, DamageType, WeaponType, WeaponDie } from "@/lib/gameData";
-import type { DiceRollEntry } from "@/hooks/useGameState";
-import { Shield, Zap, Heart, Brain, Sparkles, Save, Plus, Trash2, Coins, Sword, User, Upload, Backpack, HardHat, Package, Lock, Unlock, ChevronDown, ChevronUp, Check, Search, Send, BookOpen, Filter, X, Gem, Footprints, Shirt, Hand, Target, Swords, RefreshCw, Timer, ScrollText, Eye, EyeOff, CheckSquare } from "lucide-react";
+import { DamageAffinityEditor, DamageAffinityBadges } from "@/components/ui/DamageAffinityEditor";
+import { Crawler, Mob, InventoryItem, EquipmentSlot as SlotType, getEquippedModifiers, getCrawlerEncumbrance, getCrawlerSpeed, getCrawlerArmorClass, getCrawlerDarkvision, DEFAULT_CRAWLER_SPEED, getStatModifierBonus, getStatHitBonus, combineDamageAffinities, getEquippedDamageAffinities, AttackResolution, DamageAdjustment, StatModifiers, SentLootBox, getLootBoxTierColor, NoncombatTurnState, CombatState, WeaponData, DAMAGE_TYPES, WEAPON_TYPES, DamageType, WeaponType, type SpellDamageType, type Spell, type AoeTargetList } from "@/lib/gameData";
+import type { DiceRollEntry, AttackRequest, CombatDamageOptions } from "@/hooks/useGameState";
+import { rollDiceExpression, isValidDiceExpression, toDiceResults, formatWeaponDice, buildAttackNotation, type DiceRollResult } from "@/lib/dice";
+import { DEFAULT_PROGRESSION, getCrawlerXp, getPendingLevelUps, getXpForLevel, type ProgressionSettings } from "@/lib/progression";
+import { findCrawlerJob, findCrawlerRace, type JobDefinition, type RaceDefinition } from "@/lib/characterOptions";
+import { addAllToInventory, addToInventory, countInventoryItems, getItemSignature, takeFromInventory } from "@/lib/inventoryStacks";
+import { formatWeight, getEncumberedAttackAdvantage } from "@/lib/encumbrance";
+import { describeConsumableEffect, isConsumable } from "@/lib/consumables";
+import { Shield, Zap, Heart, Brain, Sparkles, Save, Plus, Trash2, Coins, Sword, User, Upload, Backpack, HardHat, Package, Lock, Unlock, ChevronDown, ChevronUp, Check, Search, Send, BookOpen, Filter, X, Gem, Footprints, Shirt, Hand, Target, Swords, RefreshCw, Timer, ScrollText, Eye, EyeOff, CheckSquare, ArrowUpCircle, FlaskConical, Weight } from "lucide-react";
 
 type SortOption = 'name-asc' | 'name-desc' | 'gold-desc' | 'gold-asc';
 
@@ -88,12 +98,22 @@ interface ProfilesViewProps {
   combatState?: CombatState | null;
   onRecordCombatInitiative?: (combatantId: string, roll: number) => Promise<void>;
   onRecordCombatAction?: (combatantId: string, actionType: 'action' | 'bonus') => Promise<void>;
-  onApplyCombatDamage?: (targetId: string, targetType: 'crawler' | 'mob', damage: number) => Promise<void>;
+  onApplyCombatDamage?: (targetId: string, targetType: 'crawler' | 'mob', damage: number, damageType?: DamageType | SpellDamageType, options?: CombatDamageOptions) => Promise<DamageAdjustment>;
+  onApplyCombatDamageToTargets?: (hits: { targetId: string; targetType: 'crawler' | 'mob'; damage: number }[], damageType?: DamageType | SpellDamageType, options?: CombatDamageOptions) => Promise<DamageAdjustment[]>;
+  onResolveAttack?: (attack: AttackRequest) => Promise<AttackResolution>;
   addDiceRoll?: (entry: DiceRollEntry) => Promise<void>;
   mobs?: Mob[];
   getCrawlerAssignedQuests?: (crawlerId: string) => import("@/lib/gameData").AssignedQuest[];
   quests?: import("@/lib/gameData").Quest[];
   onUpdateQuest?: (id: string, updates: Partial<import("@/lib/gameData").Quest>) => void;
+  spells?: Spell[];
+  progressionSettings?: ProgressionSettings;
+  races?: RaceDefinition[];
+  jobs?: JobDefinition[];
+  aoeTargets?: AoeTargetList | null; // creatures caught in a ShowTime area template
+  onClearAoeTargets?: () => void;
+  onCastSpell?: (crawlerId: string, spellId: string) => Promise<boolean>;
+  onConsumeItem?: (crawlerId: string, itemId: string) => Promise<void>;
 }
 
 // Loot Box display section for crawler profiles
@@ -259,15 +279,30 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
   onRecordCombatInitiative,
   onRecordCombatAction,
   onApplyCombatDamage,
+  onApplyCombatDamageToTargets,
+  onResolveAttack,
   addDiceRoll,
   mobs: mobsProp,
   getCrawlerAssignedQuests,
   quests: questsProp = [],
   onUpdateQuest,
+  spells = [],
+  progressionSettings = DEFAULT_PROGRESSION,
+  races = [],
+  jobs = [],
+  aoeTargets,
+  onClearAoeTargets,
+  onCastSpell,
+  onConsumeItem,
 }) => {
-  const [selectedId, setSelectedId] = useState(crawlers[0]?.id || "");
+  // Arriving from an area template opens the caster's attacks
+  const [selectedId, setSelectedId] = useState(
+    (aoeTargets?.casterId && crawlers.some(c => c.id === aoeTargets.casterId) ? aoeTargets.casterId : crawlers[0]?.id) || ""
+  );
   const [editMode, setEditMode] = useState(false);
   const [editData, setEditData] = useState<Partial<Crawler>>({});
+  const [showLevelUp, setShowLevelUp] = useState(false);
+  const [showCreateCrawler, setShowCreateCrawler] = useState(false);
   const avatarInputRef = useRef<HTMLInputElement>(null);
 
   // Expanded items tracking
@@ -279,7 +314,7 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
   const [questNoteText, setQuestNoteText] = useState('');
 
   // Tab and filtering state
-  const [activeTab, setActiveTab] = useState<ProfileTab>('profile');
+  const [activeTab, setActiveTab] = useState<ProfileTab>(aoeTargets ? 'attacks' : 'profile');
   const [inventorySearch, setInventorySearch] = useState('');
   const [inventoryFilter, setInventoryFilter] = useState<'all' | 'equipment' | 'consumable' | 'valuable'>('all');
   const [inventorySort, setInventorySort] = useState<SortOption>('name-asc');
@@ -288,12 +323,14 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
 
   // Combat targeting state
   const [showDamageTargetModal, setShowDamageTargetModal] = useState(false);
-  const [pendingDamageRoll, setPendingDamageRoll] = useState<{ dice: string; bonus: number; actionName: string; isSplash?: boolean } | null>(null);
+  // attack: when set, the modal rolls the attack against the chosen target's AC before any damage
+  const [pendingDamageRoll, setPendingDamageRoll] = useState<{ dice: string; bonus: number; actionName: string; isSplash?: boolean; damageType?: DamageType | SpellDamageType; attack?: { notation: string; modifier: number } } | null>(null);
   const [damageTargetId, setDamageTargetId] = useState<string>('');
   const [damageTargetType, setDamageTargetType] = useState<'crawler' | 'mob'>('mob');
   const [damageRollResult, setDamageRollResult] = useState<number | null>(null);
   const [splashTargetIds, setSplashTargetIds] = useState<{ id: string; type: 'crawler' | 'mob' }[]>([]);
   const [splashDamageResults, setSplashDamageResults] = useState<Record<string, number>>({});
+  const [attackResolution, setAttackResolution] = useState<AttackResolution | null>(null);
 
   // Weapon advantage/disadvantage menu
   const [weaponAdvMenu, setWeaponAdvMenu] = useState<{ weaponId: string; x: number; y: number } | null>(null);
@@ -303,6 +340,18 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
   const [upgradeForm, setUpgradeForm] = useState<WeaponData | null>(null);
   const [upgradeWeaponName, setUpgradeWeaponName] = useState('');
 
+  // Use stays disabled until the previous use has been written
+  const [consumingCrawlerId, setConsumingCrawlerId] = useState<string | null>(null);
+  const handleUseConsumable = async (crawlerId: string, itemId: string) => {
+    if (!onConsumeItem || consumingCrawlerId) return;
+    setConsumingCrawlerId(crawlerId);
+    try {
+      await onConsumeItem(crawlerId, itemId);
+    } finally {
+      setConsumingCrawlerId(null);
+    }
+  };
+
   // Send items/gold modal state
   const [showSendModal, setShowSendModal] = useState(false);
   const [sendTargetId, setSendTargetId] = useState<string>('');
@@ -389,12 +438,12 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
     }
   };
 
-  const handleNewCrawler = () => {
-    const newCrawler = createEmptyCrawler();
+  const handleCreateCrawler = (newCrawler: Crawler, startingItems: InventoryItem[]) => {
     onAddCrawler(newCrawler);
+    if (startingItems.length > 0) onUpdateCrawlerInventory(newCrawler.id, startingItems);
     setSelectedId(newCrawler.id);
-    setEditData({ ...newCrawler });
-    setEditMode(true);
+    setEditMode(false);
+    setShowCreateCrawler(false);
   };
 
   const handleDelete = () => {
@@ -538,14 +587,6 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
     return inventory.find(item => item.id === itemId);
   };
 
-  // Helper to create item signature for consolidation (must match InventoryView's getItemSignature)
-  const getItemSignature = (item: InventoryItem) => {
-    const modifiersStr = item.statModifiers
-      ? JSON.stringify(Object.entries(item.statModifiers).filter(([, v]) => v !== 0).sort())
-      : '';
-    return `${item.name}|${item.description || ''}|${item.equipSlot || ''}|${item.goldValue ?? 0}|${modifiersStr}`;
-  };
-
   // Consolidated inventory for display (groups identical items)
   const consolidatedInventory = useMemo(() => {
     const equippedItemIds = isOwnProfile 
@@ -565,7 +606,7 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
 
     const displayItems: { item: InventoryItem; count: number; allIds: string[]; isEquipped: boolean; sig: string }[] = [];
     equippedItems.forEach(item => displayItems.push({ item, count: 1, allIds: [item.id], isEquipped: true, sig: getItemSignature(item) + '|equipped' }));
-    groupedItems.forEach((items, sig) => displayItems.push({ item: items[0], count: items.length, allIds: items.map(i => i.id), isEquipped: false, sig }));
+    groupedItems.forEach((items, sig) => displayItems.push({ item: items[0], count: countInventoryItems(items), allIds: items.map(i => i.id), isEquipped: false, sig }));
 
     // Apply sorting to the display items
     displayItems.sort((a, b) => {
@@ -611,7 +652,7 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
     });
 
     const displayItems: { item: InventoryItem; count: number; allIds: string[]; sig: string }[] = [];
-    groupedItems.forEach((items, sig) => displayItems.push({ item: items[0], count: items.length, allIds: items.map(i => i.id), sig }));
+    groupedItems.forEach((items, sig) => displayItems.push({ item: items[0], count: countInventoryItems(items), allIds: items.map(i => i.id), sig }));
     displayItems.sort((a, b) => a.item.name.localeCompare(b.item.name));
     return displayItems;
   }, [inventory, selected?.equippedItems]);
@@ -634,25 +675,24 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
       onUpdateCrawler(sendTargetId, { gold: (targetCrawler.gold || 0) + sendGoldAmount });
     }
 
-    // Transfer items based on sendQuantities (key = item signature, value = quantity)
-    const itemIdsToSend: string[] = [];
+    // Transfer items based on sendQuantities (key = item signature, value = quantity),
+    // splitting stacks so only the chosen units move
+    let remainingItems = inventory;
+    const itemsToSend: InventoryItem[] = [];
     for (const [sig, qty] of Object.entries(sendQuantities)) {
       if (qty <= 0) continue;
       const group = sendConsolidatedInventory.find(g => g.sig === sig);
       if (group) {
-        // Take up to qty item IDs from this group
-        itemIdsToSend.push(...group.allIds.slice(0, qty));
+        const { remaining, taken } = takeFromInventory(remainingItems, group.allIds, qty);
+        remainingItems = remaining;
+        itemsToSend.push(...taken);
       }
     }
 
-    if (itemIdsToSend.length > 0) {
-      const idsToSendSet = new Set(itemIdsToSend);
-      const itemsToSend = inventory.filter(item => idsToSendSet.has(item.id));
-      const remainingItems = inventory.filter(item => !idsToSendSet.has(item.id));
+    if (itemsToSend.length > 0) {
       const targetInventory = getCrawlerInventory(sendTargetId);
-
       onUpdateCrawlerInventory(selected.id, remainingItems);
-      onUpdateCrawlerInventory(sendTargetId, [...targetInventory, ...itemsToSend]);
+      onUpdateCrawlerInventory(sendTargetId, addAllToInventory(targetInventory, itemsToSend));
     }
 
     // Reset modal state
@@ -667,6 +707,7 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
   const currentAvatar = editMode ? (editData.avatar ?? selected.avatar) : selected.avatar;
   const currentGold = editMode ? (editData.gold ?? selected.gold ?? 0) : (selected.gold ?? 0);
   const equippedMods = getEquippedModifiers(editMode ? { ...selected, ...editData } : selected, inventory);
+  const encumbrance = getCrawlerEncumbrance(editMode ? { ...selected, ...editData } : selected, inventory);
 
   return (
     <motion.div
@@ -695,7 +736,7 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
             ))}
           </select>
           
-          <DungeonButton variant="default" size="sm" onClick={handleNewCrawler}>
+          <DungeonButton variant="default" size="sm" onClick={() => setShowCreateCrawler(true)}>
             <Plus className="w-4 h-4 mr-1" /> New
           </DungeonButton>
         </div>
@@ -979,14 +1020,14 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
                 <input
                   type="text"
                   value={editData.race || ""}
-                  onChange={(e) => setEditData({ ...editData, race: e.target.value })}
+                  onChange={(e) => setEditData({ ...editData, race: e.target.value, raceId: '' })}
                   placeholder="Race"
                   className="bg-muted border border-border px-2 py-1 w-24 text-sm"
                 />
                 <input
                   type="text"
                   value={editData.job || ""}
-                  onChange={(e) => setEditData({ ...editData, job: e.target.value })}
+                  onChange={(e) => setEditData({ ...editData, job: e.target.value, jobId: '' })}
                   placeholder="Job"
                   className="bg-muted border border-border px-2 py-1 w-32 text-sm"
                 />
@@ -1003,6 +1044,14 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
                 {selected.race} | {selected.job} | Level {selected.level}
               </p>
             )}
+            {!editMode && isOwnProfile && getPendingLevelUps(selected, progressionSettings) > 0 && (
+              <button
+                onClick={() => setShowLevelUp(true)}
+                className="mt-2 flex items-center gap-1 px-2 py-1 text-xs font-display border border-accent text-accent bg-accent/10 rounded hover:bg-accent/20 transition-colors animate-pulse"
+              >
+                <ArrowUpCircle className="w-4 h-4" /> LEVEL UP!
+              </button>
+            )}
 
             {/* Crawler Gold */}
             <div className="flex items-center gap-2 mt-3">
@@ -1069,7 +1118,7 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
         </div>
 
         {/* Mana Bar */}
-        <div className="mb-8">
+        <div className="mb-4">
           {(() => {
             const baseMana = editMode ? (editData.mana ?? selected.mana) : selected.mana;
             const baseMaxMana = editMode ? (editData.maxMana ?? selected.maxMana) : selected.maxMana;
@@ -1116,6 +1165,37 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
           )}
         </div>
 
+        {/* XP Bar */}
+        <div className="mb-8">
+          {(() => {
+            const level = editMode ? (editData.level ?? selected.level) : selected.level;
+            const xp = getCrawlerXp({ xp: editMode ? (editData.xp ?? selected.xp) : selected.xp, level }, progressionSettings);
+            const levelStart = getXpForLevel(level, progressionSettings) ?? 0;
+            const nextLevelXp = getXpForLevel(level + 1, progressionSettings);
+            return nextLevelXp === null ? (
+              <HealthBar current={1} max={1} label={`XP: ${xp} (max level)`} variant="xp" />
+            ) : (
+              <HealthBar
+                current={Math.max(0, xp - levelStart)}
+                max={nextLevelXp - levelStart}
+                label={`XP: ${xp}/${nextLevelXp}`}
+                variant="xp"
+              />
+            );
+          })()}
+          {editMode && (
+            <div className="flex gap-4 mt-2">
+              <input
+                type="number"
+                value={editData.xp ?? ""}
+                onChange={(e) => setEditData({ ...editData, xp: Math.max(0, parseInt(e.target.value) || 0) })}
+                placeholder="XP"
+                className="bg-muted border border-border px-2 py-1 w-24 text-sm"
+              />
+            </div>
+          )}
+        </div>
+
         {/* Stats and Achievements row */}
         <div className="grid md:grid-cols-2 gap-8 mb-8">
           <div>
@@ -1167,7 +1247,101 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
                   </button>
                 );
               })}
+              {editMode ? (
+                <div className="flex items-center justify-between bg-muted/50 px-4 py-3 rounded">
+                  <span className="text-muted-foreground text-base">AC</span>
+                  <input
+                    type="number"
+                    value={editData.armorClass ?? ""}
+                    placeholder={String(getCrawlerArmorClass({ ...selected, armorClass: undefined }, equippedMods))}
+                    onChange={(e) => {
+                      // Blank clears the override back to 10 + DEX; 0 is a valid AC
+                      const armorClass = parseInt(e.target.value);
+                      setEditData({ ...editData, armorClass: Number.isNaN(armorClass) ? undefined : armorClass });
+                    }}
+                    className="bg-transparent border-b border-primary w-14 text-right text-lg"
+                  />
+                </div>
+              ) : (
+                <div
+                  className="flex items-center justify-between bg-muted/50 px-4 py-3 rounded"
+                  title={selected.armorClass === undefined ? 'Armor class (10 + DEX modifier)' : 'Armor class'}
+                >
+                  <span className="text-muted-foreground text-base">AC</span>
+                  <span className="text-foreground font-bold text-lg">{getCrawlerArmorClass(selected, equippedMods)}</span>
+                </div>
+              )}
+              {editMode ? (
+                <div className="flex items-center justify-between bg-muted/50 px-4 py-3 rounded" title="Darkvision range in feet (0 = normal sight, blank = race default)">
+                  <span className="text-muted-foreground text-base">Darkvision</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={5}
+                    value={editData.darkvisionFt ?? ""}
+                    placeholder={String(getCrawlerDarkvision({ race: editData.race ?? selected.race }))}
+                    onChange={(e) => {
+                      const darkvisionFt = parseInt(e.target.value);
+                      setEditData({ ...editData, darkvisionFt: Number.isNaN(darkvisionFt) ? undefined : Math.max(0, darkvisionFt) });
+                    }}
+                    className="bg-transparent border-b border-primary w-14 text-right text-lg"
+                  />
+                </div>
+              ) : (
+                <div className="flex items-center justify-between bg-muted/50 px-4 py-3 rounded" title="Vision in dim light and darkness">
+                  <span className="text-muted-foreground text-base">Vision</span>
+                  <span className="text-foreground font-bold text-lg">
+                    {getCrawlerDarkvision(selected) > 0 ? `Darkvision ${getCrawlerDarkvision(selected)}ft` : 'Normal'}
+                  </span>
+                </div>
+              )}
+              {editMode ? (
+                <div className="flex items-center justify-between bg-muted/50 px-4 py-3 rounded" title="Feet of movement per combat turn (blank = default)">
+                  <span className="text-muted-foreground text-base">Speed</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={5}
+                    value={editData.speed ?? ""}
+                    placeholder={String(DEFAULT_CRAWLER_SPEED)}
+                    onChange={(e) => {
+                      const speed = parseInt(e.target.value);
+                      setEditData({ ...editData, speed: Number.isNaN(speed) ? undefined : Math.max(0, speed) });
+                    }}
+                    className="bg-transparent border-b border-primary w-14 text-right text-lg"
+                  />
+                </div>
+              ) : (
+                <div className="flex items-center justify-between bg-muted/50 px-4 py-3 rounded" title="Feet of movement per combat turn">
+                  <span className="text-muted-foreground text-base">Speed</span>
+                  {(equippedMods.speed ?? 0) !== 0 ? (
+                    <span className="font-bold text-lg">
+                      <span className="text-foreground">{selected.speed ?? DEFAULT_CRAWLER_SPEED}</span>
+                      <span className={equippedMods.speed! > 0 ? "text-green-400" : "text-red-400"}>
+                        {equippedMods.speed! > 0 ? ` +${equippedMods.speed}` : ` ${equippedMods.speed}`}
+                      </span>
+                      <span className="text-orange-400"> = {getCrawlerSpeed(selected, equippedMods)}ft</span>
+                    </span>
+                  ) : (
+                    <span className="text-foreground font-bold text-lg">{selected.speed ?? DEFAULT_CRAWLER_SPEED}ft</span>
+                  )}
+                </div>
+              )}
             </div>
+            {editMode ? (
+              <div className="mt-4">
+                <p className="text-xs text-muted-foreground mb-1">Innate Damage Resistances</p>
+                <DamageAffinityEditor
+                  value={editData.damageAffinities ?? selected.damageAffinities}
+                  onChange={(damageAffinities) => setEditData({ ...editData, damageAffinities: damageAffinities ?? {} })}
+                />
+              </div>
+            ) : (
+              <DamageAffinityBadges
+                value={combineDamageAffinities(selected.damageAffinities, getEquippedDamageAffinities(selected.equippedItems, inventory))}
+                className="mt-4"
+              />
+            )}
           </div>
 
           <div>
@@ -1222,6 +1396,7 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
               <p className="text-muted-foreground text-xs">Total Value</p>
             </div>
           </div>
+          <CarryCapacityBar encumbrance={encumbrance} className="mt-4" />
         </div>
 
         {/* Loot Boxes section */}
@@ -1261,6 +1436,7 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
                     </DungeonButton>
                   </div>
                 </div>
+                <CarryCapacityBar encumbrance={encumbrance} />
 
                 {/* Filters */}
                 <div className="space-y-3">
@@ -1469,11 +1645,21 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
                                     {item.equipSlot && !isEquipped && (
                                       <span className="text-xs bg-muted text-muted-foreground px-1.5 py-0.5 rounded">{item.equipSlot}</span>
                                     )}
+                                    {isConsumable(item) && (
+                                      <span className="text-xs bg-green-500/20 text-green-400 px-1.5 py-0.5 rounded flex items-center gap-0.5">
+                                        <FlaskConical className="w-3 h-3" /> Consumable
+                                      </span>
+                                    )}
                                     {(item.goldValue ?? 0) > 0 && (
                                       <span className="text-xs text-accent flex items-center gap-0.5">
                                         <Coins className="w-3 h-3" />{item.goldValue}g
                                       </span>
                                     )}
+                                    {(item.weight ?? 0) > 0 && (
+                                      <span className="text-xs text-muted-foreground flex items-center gap-0.5">
+                                        <Weight className="w-3 h-3" />{formatWeight(item.weight!)}
+                                      </span>
+                                    )}
                                   </div>
 
                                   {/* Expanded detail */}
@@ -1491,6 +1677,11 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
                                           ))}
                                         </div>
                                       )}
+                                      {isConsumable(item) && (
+                                        <ul className="text-xs text-green-400 space-y-0.5">
+                                          {item.consumableEffects!.map((effect, i) => <li key={i}>{describeConsumableEffect(effect)}</li>)}
+                                        </ul>
+                                      )}
                                       {item.tags && item.tags.length > 0 && (
                                         <div className="flex flex-wrap gap-1">
                                           {item.tags.map(tag => (
@@ -1517,6 +1708,18 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
                                         </div>
                                       )}
                                       <div className="flex gap-2 mt-1">
+                                        {isOwnProfile && onConsumeItem && isConsumable(item) && (
+                                          <button
+                                            onClick={(e) => {
+                                              e.stopPropagation();
+                                              handleUseConsumable(selected.id, allIds[0]);
+                                            }}
+                                            disabled={consumingCrawlerId === selected.id}
+                                            className="text-xs text-green-400 hover:underline flex items-center gap-0.5 disabled:opacity-50"
+                                          >
+                                            <FlaskConical className="w-3 h-3" /> Use
+                                          </button>
+                                        )}
                                         {isOwnProfile && item.weaponData && (
                                           <button
                                             onClick={(e) => {
@@ -1598,7 +1801,8 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
                 const baseStat = selected.dex;
                 const mod = equippedMods.dex ?? 0;
                 const modifier = Math.floor(((baseStat + mod) - 10) / 2);
-                const rawRoll = Math.floor(Math.random() * 20) + 1;
+                const d20Roll = rollDiceExpression('1d20');
+                const rawRoll = d20Roll.total;
                 const total = rawRoll + modifier;
                 onRecordCombatInitiative?.(selected.id, total);
                 // Also add to dice history
@@ -1608,8 +1812,11 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
                     crawlerName: selected.name,
                     crawlerId: selected.id,
                     timestamp: Date.now(),
-                    results: [{ dice: 'D20', result: rawRoll }],
+                    results: toDiceResults(d20Roll),
                     total,
+                    notation: d20Roll.notation,
+                    breakdown: d20Roll.terms,
+                    rollAudit: d20Roll.audit,
                     statRoll: { stat: 'Initiative', modifier, rawRoll },
                   });
                 }
@@ -1831,7 +2038,8 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
                 const mod = equippedMods[stat as keyof StatModifiers] ?? 0;
                 const total = baseStat + mod;
                 const modifier = Math.floor((total - 10) / 2);
-                const rawRoll = Math.floor(Math.random() * 20) + 1;
+                const d20Roll = rollDiceExpression('1d20');
+                const rawRoll = d20Roll.total;
                 const rollTotal = rawRoll + modifier;
 
                 onStatRoll?.(selected.name, selected.id, actionName, total);
@@ -1841,19 +2049,33 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
                     crawlerName: selected.name,
                     crawlerId: selected.id,
                     timestamp: Date.now(),
-                    results: [{ dice: 'D20', result: rawRoll }],
+                    results: toDiceResults(d20Roll),
                     total: rollTotal,
+                    notation: d20Roll.notation,
+                    breakdown: d20Roll.terms,
+                    rollAudit: d20Roll.audit,
                     statRoll: { stat: actionName, modifier, rawRoll },
                   });
                 }
               };
 
+              // One reaction per round; reaction prompts spend it automatically
+              const reactionCombatant = combatState?.active && combatState.phase === 'combat'
+                ? combatState.combatants.find(c => c.id === selected.id)
+                : undefined;
+              const hasUsedReaction = !!reactionCombatant && reactionCombatant.reactionUsedRound === combatState?.combatRound;
+
               return (
                 <div className="space-y-6">
                   <h2 className="font-display text-xl text-primary flex items-center gap-2">
                     <RefreshCw className="w-6 h-6" /> REACTIONS
                   </h2>
                   <p className="text-xs text-muted-foreground">Reactions can be used at any time, even when it is not your turn.</p>
+                  {reactionCombatant && (
+                    <p className={`text-sm font-display ${hasUsedReaction ? 'text-muted-foreground' : 'text-accent'}`}>
+                      {hasUsedReaction ? 'REACTION USED THIS ROUND' : 'REACTION AVAILABLE'}
+                    </p>
+                  )}
 
                   <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
                     {/* Trip Reaction */}
@@ -1892,23 +2114,31 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
                 }
               }
 
-              // Helper to format dice notation
-              const formatDice = (dice: WeaponDie[]): string => {
-                return dice.map(d => `${d.count}d${d.sides}`).join(' + ');
+              const formatDice = formatWeaponDice;
+
+              // Template targets that are still in the fight, when the template belongs to this crawler
+              const aoeForSelected = aoeTargets && (!aoeTargets.casterId || aoeTargets.casterId === selected.id) ? aoeTargets : null;
+              const aoeSplashTargets = (aoeForSelected?.targets ?? [])
+                .filter(t => combatTargets.some(c => c.id === t.id))
+                .map(t => ({ id: t.id, type: t.type }));
+              const aoeSpell = aoeForSelected?.spellId ? spells.find(sp => sp.id === aoeForSelected.spellId) : undefined;
+
+              // Area spells roll their own damage against every target; plain templates wait for a splash weapon.
+              // Casting goes through the hook first so the spell costs mana and counts toward mastery.
+              const handleAoeSpellDamage = async () => {
+                const sd = aoeSpell?.spellData;
+                if (!sd?.damageDice?.length || aoeSplashTargets.length === 0) return;
+                if (!onCastSpell || !(await onCastSpell(selected.id, aoeSpell.id))) return;
+                setPendingDamageRoll({ dice: formatDice(sd.damageDice), bonus: calcWeaponStatMod(sd.damageModifiers), actionName: aoeSpell.name, isSplash: true, damageType: sd.damageType });
+                setShowDamageTargetModal(true);
+                setDamageRollResult(null);
+                setSplashTargetIds(aoeSplashTargets);
+                setSplashDamageResults({});
+                onClearAoeTargets?.();
               };
 
               // Helper to calculate total modifier from weapon stat modifiers
-              const calcWeaponStatMod = (mods: StatModifiers | undefined): number => {
-                if (!mods) return 0;
-                let total = 0;
-                for (const [stat, val] of Object.entries(mods)) {
-                  if (val && ['str', 'dex', 'con', 'int', 'cha'].includes(stat)) {
-                    const baseStat = (selected as Record<string, unknown>)[stat] as number ?? 0;
-                    total += baseStat;
-                  }
-                }
-                return total;
-              };
+              const calcWeaponStatMod = (mods: StatModifiers | undefined): number => getStatModifierBonus(selected, mods);
 
               const handleAttackRoll = (attackName: string, stat: 'str' | 'dex', damageDice: string, damageBonus: number) => {
                 if (!canAttack) return;
@@ -1916,7 +2146,20 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
                 const mod = equippedMods[stat as keyof StatModifiers] ?? 0;
                 const total = baseStat + mod;
                 const modifier = Math.floor((total - 10) / 2);
-                const rawRoll = Math.floor(Math.random() * 20) + 1;
+                const attackNotation = buildAttackNotation(undefined, getEncumberedAttackAdvantage(encumbrance.tier));
+                // In combat the attack is rolled against the chosen target's AC from the target modal
+                if (isCombatPhaseLocal && combatTargets.length > 0 && onResolveAttack) {
+                  setPendingDamageRoll({ dice: damageDice, bonus: damageBonus, actionName: attackName, damageType: 'Basic', attack: { notation: attackNotation, modifier } });
+                  setShowDamageTargetModal(true);
+                  setDamageRollResult(null);
+                  setAttackResolution(null);
+                  setSplashTargetIds([]);
+                  if (isMyTurn) onRecordCombatAction?.(selected.id, 'action');
+                  return;
+                }
+
+                const d20Roll = rollDiceExpression(attackNotation);
+                const rawRoll = d20Roll.total;
                 const rollTotal = rawRoll + modifier;
 
                 onStatRoll?.(selected.name, selected.id, attackName, total);
@@ -1926,14 +2169,17 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
                     crawlerName: selected.name,
                     crawlerId: selected.id,
                     timestamp: Date.now(),
-                    results: [{ dice: 'D20', result: rawRoll }],
+                    results: toDiceResults(d20Roll),
                     total: rollTotal,
+                    notation: d20Roll.notation,
+                    breakdown: d20Roll.terms,
+                    rollAudit: d20Roll.audit,
                     statRoll: { stat: `${attackName} (Attack)`, modifier, rawRoll, rollType: 'Attack roll' },
                   });
                 }
 
                 if (isCombatPhaseLocal && combatTargets.length > 0) {
-                  setPendingDamageRoll({ dice: damageDice, bonus: damageBonus, actionName: attackName });
+                  setPendingDamageRoll({ dice: damageDice, bonus: damageBonus, actionName: attackName, damageType: 'Basic' });
                   setShowDamageTargetModal(true);
                   setDamageRollResult(null);
                   setSplashTargetIds([]);
@@ -1944,37 +2190,37 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
                 }
               };
 
-              const handleWeaponAttackRoll = (weapon: InventoryItem, advantage?: 'advantage' | 'disadvantage') => {
+              const handleWeaponAttackRoll = (weapon: InventoryItem, chosenAdvantage?: 'advantage' | 'disadvantage') => {
                 if (!canAttack || !weapon.weaponData) return;
                 const wd = weapon.weaponData;
-
-                // Base d20 attack roll
-                const roll1 = Math.floor(Math.random() * 20) + 1;
-                const roll2 = advantage ? Math.floor(Math.random() * 20) + 1 : roll1;
-                const rawRoll = advantage === 'advantage' ? Math.max(roll1, roll2) : advantage === 'disadvantage' ? Math.min(roll1, roll2) : roll1;
-
-                // Bonus hit die
-                let hitDieResult = 0;
-                if (wd.hitDie && wd.hitDie.count > 0) {
-                  for (let i = 0; i < wd.hitDie.count; i++) {
-                    hitDieResult += Math.floor(Math.random() * wd.hitDie.sides) + 1;
-                  }
+                const advantage = getEncumberedAttackAdvantage(encumbrance.tier, chosenAdvantage);
+
+                // In combat, single-target weapons roll against the chosen target's AC from the target modal
+                if (isCombatPhaseLocal && combatTargets.length > 0 && !wd.splashDamage && onResolveAttack) {
+                  setPendingDamageRoll({
+                    dice: formatDice(wd.damageDice),
+                    bonus: calcWeaponStatMod(wd.damageModifiers),
+                    actionName: weapon.name,
+                    isSplash: false,
+                    damageType: wd.damageType,
+                    attack: { notation: buildAttackNotation(wd.hitDie, advantage), modifier: getStatHitBonus(selected, wd.hitModifiers, equippedMods) },
+                  });
+                  setShowDamageTargetModal(true);
+                  setDamageRollResult(null);
+                  setAttackResolution(null);
+                  setSplashTargetIds([]);
+                  if (isMyTurn) onRecordCombatAction?.(selected.id, 'action');
+                  return;
                 }
 
+                // d20 attack roll (advantage/disadvantage handled by the engine) plus bonus hit die
+                const attackRoll = rollDiceExpression(buildAttackNotation(wd.hitDie, advantage));
+                const rawRoll = attackRoll.terms[0].subtotal;
+                const hitDieResult = attackRoll.terms[1]?.subtotal ?? 0;
+
                 // Stat modifiers for hit
-                const hitStatMod = calcWeaponStatMod(wd.hitModifiers);
-                const rollTotal = rawRoll + hitDieResult + hitStatMod;
-
-                const results: { dice: string; result: number }[] = [];
-                if (advantage) {
-                  results.push({ dice: `D20${advantage === 'advantage' ? ' (Adv)' : ' (Dis)'}`, result: rawRoll });
-                  results.push({ dice: 'D20 (other)', result: advantage === 'advantage' ? Math.min(roll1, roll2) : Math.max(roll1, roll2) });
-                } else {
-                  results.push({ dice: 'D20', result: rawRoll });
-                }
-                if (hitDieResult > 0 && wd.hitDie) {
-                  results.push({ dice: `${wd.hitDie.count}d${wd.hitDie.sides} (hit bonus)`, result: hitDieResult });
-                }
+                const hitStatMod = getStatHitBonus(selected, wd.hitModifiers, equippedMods);
+                const rollTotal = attackRoll.total + hitStatMod;
 
                 if (addDiceRoll) {
                   addDiceRoll({
@@ -1982,14 +2228,17 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
                     crawlerName: selected.name,
                     crawlerId: selected.id,
                     timestamp: Date.now(),
-                    results,
+                    results: toDiceResults(attackRoll),
                     total: rollTotal,
+                    notation: attackRoll.notation,
+                    breakdown: attackRoll.terms,
+                    rollAudit: attackRoll.audit,
                     statRoll: { stat: `${weapon.name} (Attack)`, modifier: hitDieResult + hitStatMod, rawRoll, rollType: 'Attack roll' },
                   });
                 }
 
                 if (isCombatPhaseLocal && combatTargets.length > 0 && !wd.splashDamage) {
-                  setPendingDamageRoll({ dice: formatDice(wd.damageDice), bonus: calcWeaponStatMod(wd.damageModifiers), actionName: weapon.name, isSplash: false });
+                  setPendingDamageRoll({ dice: formatDice(wd.damageDice), bonus: calcWeaponStatMod(wd.damageModifiers), actionName: weapon.name, isSplash: false, damageType: wd.damageType });
                   setShowDamageTargetModal(true);
                   setDamageRollResult(null);
                   setSplashTargetIds([]);
@@ -2008,29 +2257,20 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
 
                 // Splash weapons in combat: open target selection modal for per-mob rolls
                 if (wd.splashDamage && isCombatPhaseLocal && combatTargets.length > 0) {
-                  setPendingDamageRoll({ dice: formatDice(wd.damageDice), bonus: calcWeaponStatMod(wd.damageModifiers), actionName: weapon.name, isSplash: true });
+                  setPendingDamageRoll({ dice: formatDice(wd.damageDice), bonus: calcWeaponStatMod(wd.damageModifiers), actionName: weapon.name, isSplash: true, damageType: wd.damageType });
                   setShowDamageTargetModal(true);
                   setDamageRollResult(null);
-                  setSplashTargetIds([]);
+                  setSplashTargetIds(aoeSplashTargets);
+                  if (aoeSplashTargets.length > 0) onClearAoeTargets?.();
                   setSplashDamageResults({});
                   return;
                 }
 
-                let totalDamage = 0;
-                const results: { dice: string; result: number }[] = [];
-
-                // Break out individual die results
-                for (const die of wd.damageDice) {
-                  for (let i = 0; i < die.count; i++) {
-                    const roll = Math.floor(Math.random() * die.sides) + 1;
-                    results.push({ dice: `d${die.sides}`, result: roll });
-                    totalDamage += roll;
-                  }
-                }
-
-                const dmgStatMod = calcWeaponStatMod(wd.damageModifiers);
-                totalDamage += dmgStatMod;
+                if (wd.damageDice.length === 0) return;
                 const diceLabel = formatDice(wd.damageDice);
+                const damageRoll = rollDiceExpression(diceLabel);
+                const dmgStatMod = calcWeaponStatMod(wd.damageModifiers);
+                const totalDamage = damageRoll.total + dmgStatMod;
 
                 if (addDiceRoll) {
                   addDiceRoll({
@@ -2038,8 +2278,11 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
                     crawlerName: selected.name,
                     crawlerId: selected.id,
                     timestamp: Date.now(),
-                    results,
+                    results: toDiceResults(damageRoll),
                     total: totalDamage,
+                    notation: damageRoll.notation,
+                    breakdown: damageRoll.terms,
+                    rollAudit: damageRoll.audit,
                     statRoll: { stat: `${weapon.name} (${wd.damageType} Damage)`, modifier: dmgStatMod, rawRoll: totalDamage - dmgStatMod, diceLabel, rollType: 'Damage' },
                   });
                 }
@@ -2063,6 +2306,29 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
                     </div>
                   )}
 
+                  {aoeForSelected && (
+                    <div className="border-2 border-accent/50 bg-accent/5 rounded-lg px-4 py-2 flex items-center gap-2 flex-wrap">
+                      <Target className="w-4 h-4 text-accent shrink-0" />
+                      <span className="text-sm font-display text-accent">{aoeForSelected.sourceName.toUpperCase()}</span>
+                      <span className="text-xs text-foreground flex-1 min-w-[10rem]">
+                        {aoeForSelected.targets.map(t => t.name).join(', ')}
+                        {aoeSplashTargets.length < aoeForSelected.targets.length && (
+                          <span className="text-muted-foreground"> ({aoeForSelected.targets.length - aoeSplashTargets.length} not in combat)</span>
+                        )}
+                      </span>
+                      {aoeSpell?.spellData.damageDice?.length ? (
+                        <DungeonButton variant="default" size="sm" onClick={handleAoeSpellDamage} disabled={!isCombatPhaseLocal || aoeSplashTargets.length === 0}>
+                          Roll {formatDice(aoeSpell.spellData.damageDice)} splash
+                        </DungeonButton>
+                      ) : (
+                        <span className="text-[10px] text-muted-foreground">Targets preselected for the next splash roll</span>
+                      )}
+                      <button onClick={() => onClearAoeTargets?.()} className="text-muted-foreground hover:text-foreground" title="Dismiss template targets">
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+
                   <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3">
                     {/* Unarmed Strike */}
                     <button
@@ -2161,7 +2427,8 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
                 const mod = equippedMods[stat as keyof StatModifiers] ?? 0;
                 const total = baseStat + mod;
                 const modifier = Math.floor((total - 10) / 2);
-                const rawRoll = Math.floor(Math.random() * 20) + 1;
+                const d20Roll = rollDiceExpression('1d20');
+                const rawRoll = d20Roll.total;
                 const rollTotal = rawRoll + modifier;
 
                 onStatRoll?.(selected.name, selected.id, actionName, total);
@@ -2171,8 +2438,11 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
                     crawlerName: selected.name,
                     crawlerId: selected.id,
                     timestamp: Date.now(),
-                    results: [{ dice: 'D20', result: rawRoll }],
+                    results: toDiceResults(d20Roll),
                     total: rollTotal,
+                    notation: d20Roll.notation,
+                    breakdown: d20Roll.terms,
+                    rollAudit: d20Roll.audit,
                     statRoll: { stat: `${actionName} (Bonus)`, modifier, rawRoll },
                   });
                 }
@@ -2368,8 +2638,7 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
                                                   onClick={() => {
                                                     // Add item to crawler's inventory
                                                     const currentItems = getCrawlerInventory(selected.id);
-                                                    const newItem: InventoryItem = { ...reward.item, id: crypto.randomUUID() };
-                                                    onUpdateCrawlerInventory(selected.id, [...currentItems, newItem]);
+                                                    onUpdateCrawlerInventory(selected.id, addToInventory(currentItems, reward.item));
 
                                                     // Mark reward as claimed
                                                     const updatedRewards = quest.rewards.map(r =>
@@ -2467,6 +2736,35 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
         </div>
       </DungeonCard>
 
+      {/* Level Up Wizard */}
+      {showLevelUp && getPendingLevelUps(selected, progressionSettings) > 0 && (
+        <LevelUpWizard
+          key={`${selected.id}-${selected.level}`}
+          crawler={selected}
+          settings={progressionSettings}
+          spells={spells}
+          race={findCrawlerRace(selected, races)}
+          job={findCrawlerJob(selected, jobs)}
+          pendingLevels={getPendingLevelUps(selected, progressionSettings)}
+          onLevelUp={(updates) => {
+            onUpdateCrawler(selected.id, updates);
+            if (getPendingLevelUps({ ...selected, ...updates }, progressionSettings) === 0) setShowLevelUp(false);
+          }}
+          onClose={() => setShowLevelUp(false)}
+        />
+      )}
+
+      {showCreateCrawler && (
+        <CrawlerCreationWizard
+          races={races}
+          jobs={jobs}
+          spells={spells}
+          addDiceRoll={addDiceRoll}
+          onCreate={handleCreateCrawler}
+          onClose={() => setShowCreateCrawler(false)}
+        />
+      )}
+
       {/* Send Gold/Items Modal */}
       {showSendModal && (
         <div className="fixed inset-0 bg-background/80 z-50 flex items-center justify-center p-4">
@@ -2611,48 +2909,40 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
         if (!weapon?.weaponData) return null;
 
         // Find the handleWeaponAttackRoll in scope - need reference from attacks tab
-        const doRoll = (adv?: 'advantage' | 'disadvantage') => {
+        const doRoll = (chosenAdv?: 'advantage' | 'disadvantage') => {
           const wd = weapon.weaponData!;
+          const adv = getEncumberedAttackAdvantage(encumbrance.tier, chosenAdv);
           const isCombatPhaseLocal = combatState?.active && combatState.phase === 'combat';
           const isMyTurn = isCombatPhaseLocal && combatState && combatState.combatants[combatState.currentTurnIndex]?.id === selected.id;
-
-          // Base d20 attack roll
-          const roll1 = Math.floor(Math.random() * 20) + 1;
-          const roll2 = adv ? Math.floor(Math.random() * 20) + 1 : roll1;
-          const rawRoll = adv === 'advantage' ? Math.max(roll1, roll2) : adv === 'disadvantage' ? Math.min(roll1, roll2) : roll1;
-
-          let hitDieResult = 0;
-          if (wd.hitDie && wd.hitDie.count > 0) {
-            for (let i = 0; i < wd.hitDie.count; i++) {
-              hitDieResult += Math.floor(Math.random() * wd.hitDie.sides) + 1;
-            }
+          const combatTargets = combatState?.combatants.filter(c => c.id !== selected.id) ?? [];
+          const calcMod = (mods: StatModifiers | undefined): number => getStatModifierBonus(selected, mods);
+
+          // In combat, single-target weapons roll against the chosen target's AC from the target modal
+          if (isCombatPhaseLocal && combatTargets.length > 0 && !wd.splashDamage && onResolveAttack) {
+            setPendingDamageRoll({
+              dice: formatWeaponDice(wd.damageDice),
+              bonus: calcMod(wd.damageModifiers),
+              actionName: weapon.name,
+              isSplash: false,
+              damageType: wd.damageType,
+              attack: { notation: buildAttackNotation(wd.hitDie, adv), modifier: getStatHitBonus(selected, wd.hitModifiers, equippedMods) },
+            });
+            setShowDamageTargetModal(true);
+            setDamageRollResult(null);
+            setAttackResolution(null);
+            setSplashTargetIds([]);
+            if (isMyTurn) onRecordCombatAction?.(selected.id, 'action');
+            setWeaponAdvMenu(null);
+            return;
           }
 
-          const calcMod = (mods: StatModifiers | undefined): number => {
-            if (!mods) return 0;
-            let total = 0;
-            for (const [stat, val] of Object.entries(mods)) {
-              if (val && ['str', 'dex', 'con', 'int', 'cha'].includes(stat)) {
-                const baseStat = (selected as Record<string, unknown>)[stat] as number ?? 0;
-                total += baseStat;
-              }
-            }
-            return total;
-          };
-
-          const hitStatMod = calcMod(wd.hitModifiers);
-          const rollTotal = rawRoll + hitDieResult + hitStatMod;
+          // d20 attack roll (advantage/disadvantage handled by the engine) plus bonus hit die
+          const attackRoll = rollDiceExpression(buildAttackNotation(wd.hitDie, adv));
+          const rawRoll = attackRoll.terms[0].subtotal;
+          const hitDieResult = attackRoll.terms[1]?.subtotal ?? 0;
 
-          const results: { dice: string; result: number }[] = [];
-          if (adv) {
-            results.push({ dice: `D20${adv === 'advantage' ? ' (Adv)' : ' (Dis)'}`, result: rawRoll });
-            results.push({ dice: 'D20 (other)', result: adv === 'advantage' ? Math.min(roll1, roll2) : Math.max(roll1, roll2) });
-          } else {
-            results.push({ dice: 'D20', result: rawRoll });
-          }
-          if (hitDieResult > 0 && wd.hitDie) {
-            results.push({ dice: `${wd.hitDie.count}d${wd.hitDie.sides} (hit bonus)`, result: hitDieResult });
-          }
+          const hitStatMod = getStatHitBonus(selected, wd.hitModifiers, equippedMods);
+          const rollTotal = attackRoll.total + hitStatMod;
 
           if (addDiceRoll) {
             addDiceRoll({
@@ -2660,16 +2950,17 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
               crawlerName: selected.name,
               crawlerId: selected.id,
               timestamp: Date.now(),
-              results,
+              results: toDiceResults(attackRoll),
               total: rollTotal,
+              notation: attackRoll.notation,
+              breakdown: attackRoll.terms,
+              rollAudit: attackRoll.audit,
               statRoll: { stat: `${weapon.name} (Attack${adv ? ` - ${adv}` : ''})`, modifier: hitDieResult + hitStatMod, rawRoll, rollType: 'Attack roll' },
             });
           }
 
-          const combatTargets = combatState?.combatants.filter(c => c.id !== selected.id) ?? [];
           if (isCombatPhaseLocal && combatTargets.length > 0 && !wd.splashDamage) {
-            const formatDice = (dice: WeaponDie[]): string => dice.map(d => `${d.count}d${d.sides}`).join(' + ');
-            setPendingDamageRoll({ dice: formatDice(wd.damageDice), bonus: calcMod(wd.damageModifiers), actionName: weapon.name, isSplash: false });
+            setPendingDamageRoll({ dice: formatWeaponDice(wd.damageDice), bonus: calcMod(wd.damageModifiers), actionName: weapon.name, isSplash: false, damageType: wd.damageType });
             setShowDamageTargetModal(true);
             setDamageRollResult(null);
             setSplashTargetIds([]);
@@ -2910,31 +3201,10 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
         const hasTargets = isSplash ? splashTargetIds.length > 0 : !!damageTargetId;
         const allSplashRolled = isSplash && splashTargetIds.length > 0 && splashTargetIds.every(t => splashDamageResults[t.id] !== undefined);
 
-        // Helper to parse and roll damage dice once
-        const rollDamageDice = (): { results: { dice: string; result: number }[]; totalRoll: number } => {
-          const diceStr = pendingDamageRoll.dice;
-          const diceParts = diceStr.split(/\s*\+\s*/);
-          let totalRoll = 0;
-          const results: { dice: string; result: number }[] = [];
-          for (const part of diceParts) {
-            const match = part.trim().match(/^(\d+)?d(\d+)$/i);
-            if (match) {
-              const count = parseInt(match[1] || '1');
-              const sides = parseInt(match[2]);
-              for (let i = 0; i < count; i++) {
-                const roll = Math.floor(Math.random() * sides) + 1;
-                results.push({ dice: `d${sides}`, result: roll });
-                totalRoll += roll;
-              }
-            } else {
-              const simpleMatch = part.trim().match(/^d(\d+)$/i);
-              const sides = simpleMatch ? parseInt(simpleMatch[1]) : 4;
-              const roll = Math.floor(Math.random() * sides) + 1;
-              results.push({ dice: `d${sides}`, result: roll });
-              totalRoll += roll;
-            }
-          }
-          return { results, totalRoll };
+        // Roll the pending damage expression once through the dice engine (falls back to a d4 if unparsable)
+        const rollDamageDice = (): { results: { dice: string; result: number }[]; totalRoll: number; roll: DiceRollResult } => {
+          const roll = rollDiceExpression(isValidDiceExpression(pendingDamageRoll.dice) ? pendingDamageRoll.dice : '1d4');
+          return { results: toDiceResults(roll), totalRoll: roll.total, roll };
         };
 
         return (
@@ -2944,7 +3214,7 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
               <h3 className="font-display text-lg text-destructive">
                 {pendingDamageRoll.actionName} — {isSplash ? 'Select Targets' : 'Select Target'}
               </h3>
-              <button onClick={() => { setShowDamageTargetModal(false); setPendingDamageRoll(null); setDamageRollResult(null); setSplashTargetIds([]); setSplashDamageResults({}); }}>
+              <button onClick={() => { setShowDamageTargetModal(false); setPendingDamageRoll(null); setDamageRollResult(null); setAttackResolution(null); setSplashTargetIds([]); setSplashDamageResults({}); }}>
                 <X className="w-5 h-5 text-muted-foreground hover:text-foreground" />
               </button>
             </div>
@@ -2980,6 +3250,8 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
                               return [...prev, { id: c.id, type: c.type }];
                             });
                           } else {
+                            // Target is locked once the attack has been rolled
+                            if (attackResolution) return;
                             setDamageTargetId(c.id);
                             setDamageTargetType(c.type);
                           }
@@ -3013,13 +3285,63 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
                 </div>
               </div>
 
+              {/* Attack roll vs target AC - damage is rolled and applied automatically on a hit */}
+              {!isSplash && hasTargets && pendingDamageRoll.attack && (
+                <div className="border border-border bg-muted/30 rounded p-3">
+                  {attackResolution === null ? (
+                    <button
+                      onClick={async () => {
+                        const attack = pendingDamageRoll.attack!;
+                        const result = await onResolveAttack?.({
+                          attackerId: selected.id,
+                          attackerName: selected.name,
+                          actionName: pendingDamageRoll.actionName,
+                          targetId: damageTargetId,
+                          targetType: damageTargetType,
+                          attackRoll: rollDiceExpression(attack.notation),
+                          attackModifier: attack.modifier,
+                          damageNotation: isValidDiceExpression(pendingDamageRoll.dice) ? pendingDamageRoll.dice : '1d4',
+                          damageBonus: pendingDamageRoll.bonus,
+                          damageType: pendingDamageRoll.damageType,
+                        });
+                        if (result) setAttackResolution(result);
+                      }}
+                      className="w-full py-3 bg-destructive text-destructive-foreground font-display rounded hover:bg-destructive/90 transition-colors"
+                    >
+                      ROLL ATTACK ({pendingDamageRoll.attack.notation.toUpperCase()}{pendingDamageRoll.attack.modifier !== 0 ? ` ${pendingDamageRoll.attack.modifier > 0 ? '+' : ''}${pendingDamageRoll.attack.modifier}` : ''})
+                    </button>
+                  ) : (
+                    <div className="text-center space-y-3">
+                      <p className={`font-display text-2xl ${attackResolution.outcome === 'miss' ? 'text-muted-foreground' : 'text-destructive'}`}>
+                        {attackResolution.outcome === 'critical' ? 'CRITICAL HIT!' : attackResolution.outcome === 'hit' ? 'HIT!' : 'MISS'}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {attackResolution.attackTotal} vs AC {attackResolution.armorClass}
+                        {attackResolution.damage !== undefined && <> — <span className="text-destructive font-display">{attackResolution.damage} damage</span> applied to {attackResolution.targetName}</>}
+                      </p>
+                      <button
+                        onClick={() => {
+                          setShowDamageTargetModal(false);
+                          setPendingDamageRoll(null);
+                          setAttackResolution(null);
+                          setDamageTargetId('');
+                        }}
+                        className="w-full py-2 bg-muted text-foreground font-display text-sm rounded hover:bg-muted/80 transition-colors"
+                      >
+                        DONE
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Damage roll - non-splash (single target) */}
-              {!isSplash && hasTargets && (
+              {!isSplash && hasTargets && !pendingDamageRoll.attack && (
                 <div className="border border-border bg-muted/30 rounded p-3">
                   {damageRollResult === null ? (
                     <button
                       onClick={() => {
-                        const { results, totalRoll } = rollDamageDice();
+                        const { results, totalRoll, roll } = rollDamageDice();
                         const totalDmg = totalRoll + pendingDamageRoll.bonus;
                         setDamageRollResult(totalDmg);
 
@@ -3032,6 +3354,9 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
                             timestamp: Date.now(),
                             results,
                             total: totalDmg,
+                            notation: roll.notation,
+                            breakdown: roll.terms,
+                            rollAudit: roll.audit,
                             statRoll: { stat: `${pendingDamageRoll.actionName} (Damage → ${targetLabel})`, modifier: pendingDamageRoll.bonus, rawRoll: totalRoll, diceLabel: pendingDamageRoll.dice, rollType: 'Damage' },
                           });
                         }
@@ -3045,7 +3370,7 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
                       <p className="font-display text-2xl text-destructive">{damageRollResult} DAMAGE</p>
                       <button
                         onClick={async () => {
-                          await onApplyCombatDamage?.(damageTargetId, damageTargetType, damageRollResult);
+                          await onApplyCombatDamage?.(damageTargetId, damageTargetType, damageRollResult, pendingDamageRoll.damageType, { source: { id: selected.id, name: selected.name, type: 'crawler' } });
                           setShowDamageTargetModal(false);
                           setPendingDamageRoll(null);
                           setDamageRollResult(null);
@@ -3074,7 +3399,7 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
                             key={target.id}
                             disabled={alreadyRolled}
                             onClick={() => {
-                              const { results, totalRoll } = rollDamageDice();
+                              const { results, totalRoll, roll } = rollDamageDice();
                               const totalDmg = totalRoll + pendingDamageRoll.bonus;
                               setSplashDamageResults(prev => ({ ...prev, [target.id]: totalDmg }));
 
@@ -3086,6 +3411,9 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
                                   timestamp: Date.now(),
                                   results,
                                   total: totalDmg,
+                                  notation: roll.notation,
+                                  breakdown: roll.terms,
+                                  rollAudit: roll.audit,
                                   statRoll: { stat: `${pendingDamageRoll.actionName} (Damage → ${targetName})`, modifier: pendingDamageRoll.bonus, rawRoll: totalRoll, diceLabel: pendingDamageRoll.dice, rollType: 'Damage' },
                                 });
                               }
@@ -3118,12 +3446,11 @@ const ProfilesView: React.FC<ProfilesViewProps> = ({
                       </div>
                       <button
                         onClick={async () => {
-                          for (const target of splashTargetIds) {
-                            const dmg = splashDamageResults[target.id];
-                            if (dmg !== undefined) {
-                              await onApplyCombatDamage?.(target.id, target.type, dmg);
-                            }
-                          }
+                          // One write for every target, so each hit builds on the ones before it
+                          const hits = splashTargetIds
+                            .filter(target => splashDamageResults[target.id] !== undefined)
+                            .map(target => ({ targetId: target.id, targetType: target.type, damage: splashDamageResults[target.id] }));
+                          await onApplyCombatDamageToTargets?.(hits, pendingDamageRoll.damageType, { source: { id: selected.id, name: selected.name, type: 'crawler' } });
                           setShowDamageTargetModal(false);
                           setPendingDamageRoll(null);
                           setDamageRollResult(null);
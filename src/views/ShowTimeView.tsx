@@ -5,22 +5,39 @@ import { DungeonButton } from "@/components/ui/DungeonButton";
 import { ResizableMobDisplay } from "@/components/ui/ResizableMobDisplay";
 import { GridOverlay } from "@/components/ui/GridOverlay";
 import RulerOverlay from "@/components/ui/RulerOverlay";
+import MovementPathOverlay from "@/components/ui/MovementPathOverlay";
+import MapTileLayer from "@/components/ui/MapTileLayer";
+import AnnotationLayer from "@/components/ui/AnnotationLayer";
+import { MapLinkMarker } from "@/components/ui/MapLinkMarker";
 import { MobIcon } from "@/components/ui/MobIcon";
 import { FogOfWar } from "@/components/ui/FogOfWar";
-import { Episode, Mob, MapSettings, Crawler, CrawlerPlacement, EpisodeMobPlacement, SentLootBox, LootBoxTemplate, getLootBoxTierColor, InventoryItem, CombatState, getEquippedModifiers, Quest, AssignedQuest, QuestActionItem, LootBoxTier } from "@/lib/gameData";
-import { Map as MapIcon, X, Eye, EyeOff, Layers, ChevronLeft, ChevronRight, PlayCircle, Grid3x3, CloudFog, Eraser, Trash2, Target, ZoomIn, ZoomOut, Package, Lock, Unlock, Search, Plus, Heart, ScrollText, CheckSquare, Check } from "lucide-react";
+import { Episode, Mob, MapSettings, type MapAsset, Crawler, CrawlerPlacement, EpisodeMobPlacement, SentLootBox, LootBoxTemplate, getLootBoxTierColor, InventoryItem, CombatState, AttackResolution, DEFAULT_REACH_FT, DEFAULT_CRAWLER_SPEED, DEFAULT_MOB_SPEED, getEquippedModifiers, getCrawlerSpeed, getCrawlerDarkvision, getCrawlerLight, Quest, type AoeTargetList, type AreaOfEffect, type Spell, type MapLink, MAP_LINK_KIND_LABELS, AssignedQuest, QuestActionItem, LootBoxTier } from "@/lib/gameData";
+import { Map as MapIcon, X, Eye, EyeOff, Layers, ChevronLeft, ChevronRight, PlayCircle, Grid3x3, CloudFog, Eraser, Trash2, Target, ZoomIn, ZoomOut, Package, Lock, Unlock, Search, Plus, Heart, ScrollText, CheckSquare, Check, Bot, Sparkles } from "lucide-react";
 import { PingEffect, Ping } from "@/components/ui/PingEffect";
 import { MapBox, MapBoxData, ShapeType } from "@/components/ui/MapBox";
 import { MapToolsMenu } from "@/components/ui/MapToolsMenu";
 import { CrawlerIcon } from "@/components/ui/CrawlerIcon";
 import { db } from "@/lib/firebase";
-import { doc, setDoc, onSnapshot, serverTimestamp, Timestamp } from "firebase/firestore";
+import { doc, getDoc, setDoc, updateDoc, deleteField, onSnapshot, serverTimestamp, Timestamp } from "firebase/firestore";
+import { toast } from "sonner";
 import { useThrottledCallback } from "@/hooks/useDebounce";
 import CombatTurnTimer from "@/components/CombatTurnTimer";
+import { planMobTurn, type AutopilotToken, type MobTurnPlan } from "@/lib/mobAutopilot";
+import { computeVisibilityPolygon, decodeExploredCells, encodeExploredCells, isPointInPolygon, markExploredCells } from "@/lib/lineOfSight";
+import { buildLightingLayer, getLightLevelAt, type DarkvisionViewer, type LightEmitter } from "@/lib/lighting";
+import { getAoeOutline, isPointInAoe, isRotatableAoe, type AoeTemplate } from "@/lib/areaOfEffect";
+import { getGridPath, measureGridMove, resolveGridSpec, snapToCell, type GridPoint } from "@/lib/gridMovement";
+import { findLinkAt, getCrawlerLocationsPath, getLinkArrival, spreadArrivals, type CrawlerLocations } from "@/lib/mapLinks";
+import { getPerMapDocPath } from "@/lib/mapReferences";
+import { getAttentionRequestPath, getPanForCenter, getShowtimeViewportPath, getViewportCenter, type AttentionRequest, type SharedViewport, type ViewportFrame, type ViewportMode } from "@/lib/viewport";
+import { getAnnotationsPath, isAnnotationVisible, type AnnotationTool, type AnnotationVisibility, type MapAnnotation } from "@/lib/annotations";
+import { addToInventory, countInventoryItems, getItemQuantity, removeFromInventory } from "@/lib/inventoryStacks";
 
 interface ShowTimeViewProps {
   maps: string[];
+  mapIds: string[]; // Firestore doc id of each map, parallel to maps
   mapNames?: string[];
+  mapAssets?: (MapAsset | null)[];
   episodes: Episode[];
   mobs: Mob[];
   crawlers: Crawler[];
@@ -44,19 +61,40 @@ interface ShowTimeViewProps {
   resetNoncombatTurns?: (episodeId: string) => Promise<void>;
   combatState?: CombatState | null;
   onRemoveCombatant?: (combatantId: string) => Promise<void>;
+  onRegisterCombatDistance?: (resolver: ((aId: string, bId: string) => number | null) | null) => void;
+  onCombatantLeftReach?: (moverId: string, crawlerIds: string[]) => Promise<void>;
+  onRecordCombatMovement?: (combatantId: string, feet: number) => Promise<void>;
+  onResolveMobAction?: (combatantId: string, actionId: string, targetId: string) => Promise<AttackResolution | null>;
+  viewerCrawlerId?: string; // the signed-in player's crawler (line-of-sight fog)
+  spells?: Spell[];
+  onSendAoeTargets?: (list: AoeTargetList) => void; // hands a template's targets to the splash-damage flow
   onRuntimePlacementsChange?: (crawlerPlacements: CrawlerPlacement[], runtimeMobPlacements: EpisodeMobPlacement[]) => void;
   onGameActiveChange?: (active: boolean) => void;
   onRegisterGameToggle?: (toggleFn: (active: boolean) => Promise<void>) => void;
   roomId?: string | null;
+  currentUserId?: string; // owner of the annotations this viewer draws
+  currentUsername?: string;
   quests?: Quest[];
   assignedQuests?: AssignedQuest[];
   onAssignQuest?: (questId: string, crawlerIds: string[], episodeId?: string) => Promise<void>;
   onUpdateQuest?: (id: string, updates: Partial<Quest>) => void;
   onUpdateAssignedQuest?: (id: string, updates: Partial<AssignedQuest>) => void;
   onDeleteAssignedQuest?: (id: string) => void;
+  onCompleteAssignedQuest?: (id: string) => Promise<void>;
+}
+
+// Token position on the current map plus where it lives, so combat helpers can move it
+interface CombatTokenPosition {
+  x: number;
+  y: number;
+  placement?: { kind: 'episode' | 'runtime'; index: number }; // mobs only
 }
 
 const SHOWTIME_STORAGE_KEY = 'dcc_showtime_state';
+const EXPLORED_STORAGE_KEY = 'dcc_explored';
+
+// Stable empty list so the memoized fog layer doesn't re-render when fog is off
+const NO_REVEALED_AREAS: MapSettings['fogOfWar']['revealedAreas'] = [];
 
 // Loot Box Panel for DM to send/manage loot boxes
 const LootBoxPanel: React.FC<{
@@ -245,8 +283,9 @@ const QuestPanel: React.FC<{
   onUpdateQuest?: (id: string, updates: Partial<Quest>) => void;
   onUpdateAssignedQuest?: (id: string, updates: Partial<AssignedQuest>) => void;
   onDeleteAssignedQuest?: (id: string) => void;
+  onCompleteAssignedQuest?: (id: string) => Promise<void>;
   addDiceRoll?: (entry: import("@/hooks/useGameState").DiceRollEntry) => Promise<void>;
-}> = ({ episode, crawlers, quests, assignedQuests, onAssignQuest, onUpdateQuest, onUpdateAssignedQuest, onDeleteAssignedQuest, addDiceRoll }) => {
+}> = ({ episode, crawlers, quests, assignedQuests, onAssignQuest, onUpdateQuest, onUpdateAssignedQuest, onDeleteAssignedQuest, onCompleteAssignedQuest, addDiceRoll }) => {
   const [selectedQuestId, setSelectedQuestId] = useState<string | null>(null);
   const [selectedCrawlerIds, setSelectedCrawlerIds] = useState<string[]>([]);
 
@@ -412,6 +451,30 @@ const QuestPanel: React.FC<{
     }
   };
 
+  const handleCompleteQuest = async (assigned: AssignedQuest) => {
+    if (!onCompleteAssignedQuest) return;
+    const quest = quests.find(q => q.id === assigned.questId);
+    if (!quest) return;
+    await onCompleteAssignedQuest(assigned.id);
+
+    if (addDiceRoll) {
+      await addDiceRoll({
+        id: crypto.randomUUID(),
+        crawlerName: 'DM',
+        crawlerId: '__dm__',
+        timestamp: Date.now(),
+        results: [],
+        total: 0,
+        questNotification: {
+          questName: quest.name,
+          type: 'completed',
+          recipientNames: crawlers.filter(c => assigned.crawlerIds.includes(c.id)).map(c => c.name),
+          detail: quest.xpReward ? `${quest.xpReward} XP` : undefined,
+        },
+      });
+    }
+  };
+
   if (episodeQuests.length === 0) return null;
 
   return (
@@ -443,6 +506,7 @@ const QuestPanel: React.FC<{
                   <p className="text-sm font-semibold truncate">{quest.name}</p>
                   <p className="text-xs text-muted-foreground">
                     {quest.actionItems.length} tasks · {quest.rewards.length} rewards
+                    {quest.xpReward ? ` · ${quest.xpReward} XP` : ''}
                     {isAssigned && ' · Assigned'}
                   </p>
                 </div>
@@ -509,15 +573,29 @@ const QuestPanel: React.FC<{
                     {assigned.isPartyQuest && (
                       <span className="text-xs bg-emerald-500/20 text-emerald-400 px-2 py-0.5 rounded">Party Quest</span>
                     )}
+                    {assigned.completedAt && (
+                      <span className="text-xs bg-accent/20 text-accent px-2 py-0.5 rounded">Completed</span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {onCompleteAssignedQuest && !assigned.completedAt && (
+                      <button
+                        onClick={() => handleCompleteQuest(assigned)}
+                        className="flex items-center gap-1 px-1.5 py-0.5 text-[10px] border border-emerald-500/50 text-emerald-400 rounded hover:bg-emerald-500/10"
+                        title={quest.xpReward ? `Complete and award ${quest.xpReward} XP` : 'Complete quest'}
+                      >
+                        <Check className="w-3 h-3" /> Complete{quest.xpReward ? ` (+${quest.xpReward} XP)` : ''}
+                      </button>
+                    )}
+                    {onDeleteAssignedQuest && (
+                      <button
+                        onClick={() => onDeleteAssignedQuest(assigned.id)}
+                        className="p-1 hover:bg-destructive/10 rounded"
+                      >
+                        <Trash2 className="w-3 h-3 text-destructive" />
+                      </button>
+                    )}
                   </div>
-                  {onDeleteAssignedQuest && (
-                    <button
-                      onClick={() => onDeleteAssignedQuest(assigned.id)}
-                      className="p-1 hover:bg-destructive/10 rounded"
-                    >
-                      <Trash2 className="w-3 h-3 text-destructive" />
-                    </button>
-                  )}
                 </div>
                 <p className="text-xs text-muted-foreground mb-2">
                   Assigned to: {assignedCrawlers.map(c => c.name).join(', ')}
@@ -621,14 +699,13 @@ const InventoryPanel: React.FC<{
   const handleAddLibraryItem = (libraryItem: InventoryItem) => {
     if (!selectedCrawlerId) return;
     const currentItems = getCrawlerInventory(selectedCrawlerId);
-    const newItem: InventoryItem = { ...libraryItem, id: crypto.randomUUID() };
-    onUpdateCrawlerInventory(selectedCrawlerId, [...currentItems, newItem]);
+    onUpdateCrawlerInventory(selectedCrawlerId, addToInventory(currentItems, libraryItem, 1));
   };
 
   const handleRemoveItem = (itemId: string) => {
     if (!selectedCrawlerId) return;
     const currentItems = getCrawlerInventory(selectedCrawlerId);
-    onUpdateCrawlerInventory(selectedCrawlerId, currentItems.filter(i => i.id !== itemId));
+    onUpdateCrawlerInventory(selectedCrawlerId, removeFromInventory(currentItems, itemId));
   };
 
   return (
@@ -697,7 +774,7 @@ const InventoryPanel: React.FC<{
           {/* Current inventory */}
           <div className="max-h-40 overflow-y-auto space-y-1 mb-3">
             <span className="text-xs text-muted-foreground font-display block mb-1">
-              {playerCrawlers.find(c => c.id === selectedCrawlerId)?.name}'s Items ({selectedCrawlerItems.length})
+              {playerCrawlers.find(c => c.id === selectedCrawlerId)?.name}'s Items ({countInventoryItems(selectedCrawlerItems)})
             </span>
             {selectedCrawlerItems.length === 0 ? (
               <p className="text-xs text-muted-foreground italic">No items in inventory</p>
@@ -705,7 +782,10 @@ const InventoryPanel: React.FC<{
               selectedCrawlerItems.map(item => (
                 <div key={item.id} className="flex items-center justify-between bg-muted/30 border border-border rounded px-2 py-1.5">
                   <div className="min-w-0">
-                    <span className="text-xs font-display text-primary block truncate">{item.name}</span>
+                    <span className="text-xs font-display text-primary block truncate">
+                      {item.name}
+                      {getItemQuantity(item) > 1 && <span className="text-accent font-bold"> x{getItemQuantity(item)}</span>}
+                    </span>
                     {item.description && (
                       <span className="text-[10px] text-muted-foreground block truncate">{item.description}</span>
                     )}
@@ -726,7 +806,7 @@ const InventoryPanel: React.FC<{
   );
 };
 
-const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, mobs, crawlers, isAdmin, onUpdateEpisode, isNavVisible = false, isDiceExpanded = false, lootBoxes = [], lootBoxTemplates = [], sendLootBox, unlockLootBox, deleteLootBox, addDiceRoll, onEndEpisode: onEndEpisodeCallback, onShowtimeActiveChange, getCrawlerInventory, onUpdateCrawlerInventory, getSharedInventory, onSetGameClock, noncombatTurnState, resetNoncombatTurns, combatState, onRemoveCombatant, onRuntimePlacementsChange, onGameActiveChange, onRegisterGameToggle, roomId, quests = [], assignedQuests = [], onAssignQuest, onUpdateQuest, onUpdateAssignedQuest, onDeleteAssignedQuest }) => {
+const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapIds, mapNames, mapAssets = [], episodes, mobs, crawlers, isAdmin, onUpdateEpisode, isNavVisible = false, isDiceExpanded = false, lootBoxes = [], lootBoxTemplates = [], sendLootBox, unlockLootBox, deleteLootBox, addDiceRoll, onEndEpisode: onEndEpisodeCallback, onShowtimeActiveChange, getCrawlerInventory, onUpdateCrawlerInventory, getSharedInventory, onSetGameClock, noncombatTurnState, resetNoncombatTurns, combatState, onRemoveCombatant, onRegisterCombatDistance, onCombatantLeftReach, onRecordCombatMovement, onResolveMobAction, viewerCrawlerId, spells = [], onSendAoeTargets, onRuntimePlacementsChange, onGameActiveChange, onRegisterGameToggle, roomId, currentUserId, currentUsername, quests = [], assignedQuests = [], onAssignQuest, onUpdateQuest, onUpdateAssignedQuest, onDeleteAssignedQuest, onCompleteAssignedQuest }) => {
   const [selectedEpisode, setSelectedEpisode] = useState<Episode | null>(null);
   const selectedEpisodeIdRef = useRef<string | null>(null);
   const [currentMapIndex, setCurrentMapIndex] = useState(0);
@@ -774,8 +854,25 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
     setIsRulerModeRaw(v);
     if (!v) { setRulerStart(null); setRulerEnd(null); broadcastRulerState(null, null); }
   };
+  // Spell area-of-effect template (local to this viewer); origin in map %
+  const [isAoeMode, setIsAoeMode] = useState(false);
+  const [aoeSpellId, setAoeSpellId] = useState<string | null>(null);
+  const [aoeArea, setAoeArea] = useState<AreaOfEffect>({ shape: 'sphere', size: 20 });
+  const [aoeAngle, setAoeAngle] = useState(0);
+  const [aoeOrigin, setAoeOrigin] = useState<{ x: number; y: number } | null>(null);
+  const [isAimingAoe, setIsAimingAoe] = useState(false);
   const lastBoxBroadcastTime = useRef<number>(0);
   const pendingBoxBroadcast = useRef<MapBoxData[] | null>(null);
+  // Annotation layer: the tool is local to this viewer, annotations sync per episode/map
+  const [annotationTool, setAnnotationTool] = useState<AnnotationTool | null>(null);
+  const [annotationVisibility, setAnnotationVisibility] = useState<AnnotationVisibility>('everyone');
+  const [annotationLayers, setAnnotationLayers] = useState<Record<AnnotationVisibility, MapAnnotation[]>>({ everyone: [], dm: [] });
+  const annotations = useMemo(
+    () => [...annotationLayers.everyone, ...annotationLayers.dm].sort((a, b) => a.createdAt - b.createdAt),
+    [annotationLayers],
+  );
+  const lastAnnotationBroadcastTime = useRef<number>(0);
+  const annotationOwnerId = currentUserId ?? viewerCrawlerId ?? (isAdmin ? 'admin' : 'user');
 
   // Natural image dimensions for responsive sizing (no black bars)
   const [naturalImageSize, setNaturalImageSize] = useState<{ width: number; height: number } | null>(null);
@@ -805,6 +902,9 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
   // Dragging state for runtime crawlers/mobs
   const [draggingRuntimeId, setDraggingRuntimeId] = useState<string | null>(null);
 
+  // Token being dragged: where it started and where it is now (map %), plus its combatant id when known
+  const [tokenMove, setTokenMove] = useState<{ origin: GridPoint; current: GridPoint; combatId?: string; blocked: boolean } | null>(null);
+
   // Local drag position for smooth visual feedback (avoids expensive state updates during drag)
   const [localDragPosition, setLocalDragPosition] = useState<{ index: number; x: number; y: number } | null>(null);
 
@@ -813,6 +913,15 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
   const [panStart, setPanStart] = useState<{ x: number; y: number; panX: number; panY: number } | null>(null);
   const [panOffset, setPanOffset] = useState<{ x: number; y: number }>({ x: 0, y: 0 });
 
+  // Shared viewport: the DM's pan/zoom pushed to (or locked on) players; players may instead keep
+  // their crawler centered or call the DM's attention to a spot
+  const [viewportMode, setViewportMode] = useState<ViewportMode>('off');
+  const [sharedViewport, setSharedViewport] = useState<SharedViewport | null>(null);
+  const [isCenteringOnCrawler, setIsCenteringOnCrawler] = useState(false);
+  const [isAttentionMode, setIsAttentionMode] = useState(false);
+  const pendingCenterRef = useRef<{ mapId: string; center: { x: number; y: number }; zoom?: number } | null>(null);
+  const isViewportLocked = !isAdmin && viewportMode === 'lock';
+
   // Accumulated runtime placements across all visited maps (for combat/rest integration)
   const allMapCrawlerPlacementsRef = useRef<Map<string, CrawlerPlacement[]>>(new Map());
   const allMapRuntimeMobPlacementsRef = useRef<Map<string, EpisodeMobPlacement[]>>(new Map());
@@ -906,6 +1015,21 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
     }
   }, [isAdmin, roomId, gameStarted]);
 
+  // Which map each crawler is on; undefined until the first snapshot arrives
+  const [crawlerLocations, setCrawlerLocations] = useState<CrawlerLocations | null | undefined>(undefined);
+  // Map a split-party player is following their crawler to; DM map changes wait until it clears
+  const followedMapIdRef = useRef<string | null>(null);
+  const dmMapRef = useRef<{ index: number; url: string | null } | null>(null);
+
+  useEffect(() => {
+    setCrawlerLocations(undefined);
+    if (!selectedEpisode || !db) return;
+    const unsubscribe = onSnapshot(doc(db, getCrawlerLocationsPath(roomId, selectedEpisode.id)), (snapshot) => {
+      setCrawlerLocations(snapshot.exists() ? snapshot.data() as CrawlerLocations : null);
+    });
+    return () => unsubscribe();
+  }, [selectedEpisode?.id, roomId]);
+
   // Listen for showtime state updates (for players)
   useEffect(() => {
     if (isAdmin || !db) return; // DM doesn't need to listen; guard against null db
@@ -936,6 +1060,7 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
       if (!isStarted) {
         setSelectedEpisode(null);
         setSelectedMap(null);
+        dmMapRef.current = null;
         localStorage.removeItem(SHOWTIME_STORAGE_KEY);
         return;
       }
@@ -951,6 +1076,9 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
         localStorage.removeItem(SHOWTIME_STORAGE_KEY);
       }
 
+      dmMapRef.current = { index: data.currentMapIndex ?? 0, url: data.selectedMapUrl ?? null };
+      if (followedMapIdRef.current) return;
+
       // Update map index
       if (data.currentMapIndex !== undefined) {
         setCurrentMapIndex(data.currentMapIndex);
@@ -978,6 +1106,14 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
   // Counter-scale for icons/shapes inside the mapBaseScale wrapper
   const iconCounterScale = 100 / mapBaseScale;
 
+  // Renditions of the selected map: the preview paints first, full resolution or tiles follow
+  const selectedMapAsset = useMemo(() => {
+    const index = selectedMap ? maps.indexOf(selectedMap) : -1;
+    return index >= 0 ? mapAssets[index] ?? null : null;
+  }, [maps, mapAssets, selectedMap]);
+  const [isFullMapLoaded, setIsFullMapLoaded] = useState(false);
+  useEffect(() => setIsFullMapLoaded(false), [selectedMap]);
+
   // Fixed zoom limits - 1% minimum so users can always zoom out on any scale
   const zoomMin = 1;
   const zoomMax = 500;
@@ -1016,19 +1152,112 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
     }
   }, [mapDisplaySize, naturalImageSize]);
 
+  // --- Line-of-sight fog ---
+  const currentMapSettings = currentMapId ? selectedEpisode?.mapSettings?.[currentMapId] : undefined;
+  const currentMapWalls = useMemo(() => currentMapSettings?.walls ?? [], [currentMapSettings?.walls]);
+  const isLineOfSightFog = fogOfWarEnabled && !!currentMapSettings?.fogOfWar?.lineOfSight;
+
+  // Players see through their own crawler's eyes; the DM sees everything any crawler sees
+  const visibleRegions = useMemo(() => {
+    if (!isLineOfSightFog) return undefined;
+    return crawlerPlacements
+      .filter(p => p.mapId === currentMapId && (isAdmin || p.crawlerId === viewerCrawlerId))
+      .map(p => computeVisibilityPolygon({ x: p.x, y: p.y }, currentMapWalls));
+  }, [isLineOfSightFog, crawlerPlacements, currentMapId, isAdmin, viewerCrawlerId, currentMapWalls]);
+
+  // --- Map grid ---
+  // The map's calibrated grid in display pixels; maps without grid settings keep squares sized to the 64px icons
+  const mapGrid = useMemo(() => {
+    if (!mapImageDimensions) return null;
+    const displayPerImagePx = naturalImageSize?.width ? mapImageDimensions.width / naturalImageSize.width : 1;
+    return resolveGridSpec(currentMapSettings?.grid, displayPerImagePx, gridSize * iconCounterScale);
+  }, [mapImageDimensions, naturalImageSize, currentMapSettings?.grid, gridSize, iconCounterScale]);
+
+  // Map percent -> feet on each axis
+  const feetPerPercent = useMemo(() => {
+    if (!mapGrid || !mapImageDimensions || mapGrid.size <= 0) return null;
+    const feetPerPx = mapGrid.feetPerCell / mapGrid.size;
+    return { x: (mapImageDimensions.width / 100) * feetPerPx, y: (mapImageDimensions.height / 100) * feetPerPx };
+  }, [mapGrid, mapImageDimensions]);
+
+  // --- Lighting ---
+  const ambientLight = currentMapSettings?.ambientLight ?? 'bright';
+
+  // Map lights plus whatever crawlers carry (equipped torches/lanterns, light spells); off in bright maps
+  const lightingLayer = useMemo(() => {
+    if (ambientLight === 'bright' || !feetPerPercent) return undefined;
+    const emitters: LightEmitter[] = [...(currentMapSettings?.lights ?? [])];
+    const viewers: DarkvisionViewer[] = [];
+    crawlerPlacements
+      .filter(p => p.mapId === currentMapId)
+      .forEach(p => {
+        const crawler = crawlers.find(c => c.id === p.crawlerId);
+        if (!crawler) return;
+        const light = getCrawlerLight(crawler, getCrawlerInventory?.(crawler.id) ?? []);
+        if (light) emitters.push({ x: p.x, y: p.y, ...light });
+        // Darkvision only helps its owner; the DM sees through every crawler's eyes
+        if (isAdmin || p.crawlerId === viewerCrawlerId) {
+          viewers.push({ x: p.x, y: p.y, darkvisionFt: getCrawlerDarkvision(crawler) });
+        }
+      });
+    return buildLightingLayer(ambientLight, emitters, viewers, feetPerPercent, currentMapWalls);
+  }, [ambientLight, feetPerPercent, currentMapSettings?.lights, crawlerPlacements, currentMapId, crawlers, getCrawlerInventory, isAdmin, viewerCrawlerId, currentMapWalls]);
+
+  // Explored memory is per viewer and per map, kept on this device
+  const exploredStorageKey = selectedEpisode && currentMapId
+    ? `${EXPLORED_STORAGE_KEY}_${selectedEpisode.id}_${currentMapId}_${isAdmin ? 'dm' : viewerCrawlerId ?? 'spectator'}`
+    : null;
+  const [exploredCells, setExploredCells] = useState<boolean[] | undefined>(undefined);
+
+  useEffect(() => {
+    setExploredCells(exploredStorageKey ? decodeExploredCells(localStorage.getItem(exploredStorageKey)) : undefined);
+  }, [exploredStorageKey]);
+
+  // Debounced so dragging a crawler doesn't rescan the grid on every mouse move
+  useEffect(() => {
+    if (!visibleRegions || visibleRegions.length === 0 || !exploredStorageKey) return;
+    const timeout = setTimeout(() => {
+      setExploredCells(prev => {
+        const next = markExploredCells(prev, visibleRegions);
+        try {
+          localStorage.setItem(exploredStorageKey, encodeExploredCells(next));
+        } catch {
+          // Storage full or unavailable - memory still works for this session
+        }
+        return next;
+      });
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [visibleRegions, exploredStorageKey]);
+
   // Check if a point is visible (not completely obscured by fog)
   const isPointVisible = useCallback((x: number, y: number): boolean => {
-    if (!fogOfWarEnabled) return true; // No fog = always visible
     if (isAdmin) return true; // Admin can always interact
 
-    // Check if point is within any revealed area
-    return revealedAreas.some(area => {
+    // Check if point is within any revealed area (DM reveals override darkness too)
+    const isRevealed = fogOfWarEnabled && revealedAreas.some(area => {
       const dx = x - area.x;
       const dy = y - area.y;
       const distance = Math.sqrt(dx * dx + dy * dy);
       return distance <= area.radius;
     });
-  }, [fogOfWarEnabled, isAdmin, revealedAreas]);
+    if (isRevealed) return true;
+
+    // Unlit areas hide tokens even in plain sight
+    if (lightingLayer && getLightLevelAt({ x, y }, lightingLayer) === 'dark') return false;
+    if (!fogOfWarEnabled) return true; // No fog = always visible
+
+    return !!visibleRegions?.some(polygon => isPointInPolygon({ x, y }, polygon));
+  }, [fogOfWarEnabled, isAdmin, revealedAreas, visibleRegions, lightingLayer]);
+
+  // DM opens/closes a door; persisted on the episode so every client's sight updates
+  const handleToggleDoor = useCallback((wallId: string) => {
+    if (!isAdmin || !selectedEpisode || !currentMapId || !currentMapSettings || !onUpdateEpisode) return;
+    const walls = currentMapWalls.map(w => (w.id === wallId ? { ...w, open: !w.open } : w));
+    const mapSettings = { ...selectedEpisode.mapSettings, [currentMapId]: { ...currentMapSettings, walls } };
+    setSelectedEpisode(prev => (prev ? { ...prev, mapSettings } : prev));
+    onUpdateEpisode(selectedEpisode.id, { mapSettings });
+  }, [isAdmin, selectedEpisode, currentMapId, currentMapSettings, currentMapWalls, onUpdateEpisode]);
 
   // Non-admin players: wait for DM's Firebase broadcast to set episode
   useEffect(() => {
@@ -1079,10 +1308,29 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
 
   // Center the map in the viewport when image dimensions become known (only on initial load)
   // Centering is handled solely via panOffset (not CSS flex centering) to avoid double-centering
+  const viewportFrame = useMemo<ViewportFrame | null>(() => {
+    if (!mapImageDimensions || !containerSize.width || !containerSize.height) return null;
+    return {
+      mapWidth: mapImageDimensions.width * mapBaseScale / 100,
+      mapHeight: mapImageDimensions.height * mapBaseScale / 100,
+      containerWidth: containerSize.width,
+      containerHeight: containerSize.height,
+    };
+  }, [mapImageDimensions, containerSize, mapBaseScale]);
+
   useEffect(() => {
     if (!needsCentering.current) return;
     if (!mapImageDimensions || !containerSize.width || !containerSize.height) return;
     needsCentering.current = false;
+    // A view pushed or requested before the map loaded takes precedence
+    const pending = pendingCenterRef.current;
+    pendingCenterRef.current = null;
+    if (pending && pending.mapId === currentMapId && viewportFrame) {
+      const zoom = pending.zoom ?? mapScale;
+      setMapScale(zoom);
+      setPanOffset(getPanForCenter(pending.center, zoom, viewportFrame));
+      return;
+    }
     const scaledW = mapImageDimensions.width * mapBaseScale / 100;
     const scaledH = mapImageDimensions.height * mapBaseScale / 100;
     const cw = containerSize.width;
@@ -1094,6 +1342,65 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
     setPanOffset({ x: offsetX, y: offsetY });
   }, [mapImageDimensions, containerSize, mapBaseScale]);
 
+  // Center the view on a map point, now or once that map has loaded
+  const centerViewOn = useCallback((mapId: string, center: { x: number; y: number }, zoom?: number) => {
+    if (mapId !== currentMapId || needsCentering.current || !viewportFrame) {
+      pendingCenterRef.current = { mapId, center, zoom };
+      return;
+    }
+    const nextZoom = zoom ?? mapScale;
+    if (zoom !== undefined) setMapScale(zoom);
+    setPanOffset(getPanForCenter(center, nextZoom, viewportFrame));
+  }, [currentMapId, viewportFrame, mapScale]);
+
+  // Everyone tracks the DM's viewport mode; players also get the view itself
+  useEffect(() => {
+    if (!db) return;
+    const unsubscribe = onSnapshot(doc(db, getShowtimeViewportPath(roomId)), (snapshot) => {
+      const data = snapshot.exists() ? snapshot.data() as SharedViewport : null;
+      setViewportMode(data?.mode ?? 'off');
+      if (!isAdmin) setSharedViewport(data);
+    });
+    return () => unsubscribe();
+  }, [roomId, isAdmin]);
+
+  const broadcastViewport = useCallback(async (mode: ViewportMode) => {
+    if (!isAdmin || !db) return;
+    try {
+      await setDoc(doc(db, getShowtimeViewportPath(roomId)), {
+        mode,
+        episodeId: selectedEpisode?.id ?? null,
+        mapId: currentMapId ?? null,
+        center: viewportFrame ? getViewportCenter(panOffset, mapScale, viewportFrame) : { x: 50, y: 50 },
+        zoom: mapScale,
+        updatedAt: serverTimestamp(),
+      });
+    } catch (error) {
+      console.error('[ShowTime] Failed to broadcast viewport:', error);
+    }
+  }, [isAdmin, roomId, selectedEpisode?.id, currentMapId, viewportFrame, panOffset, mapScale]);
+
+  const broadcastViewportThrottled = useThrottledCallback(() => broadcastViewport(viewportMode), 150);
+
+  const handleViewportModeChange = useCallback((mode: ViewportMode) => {
+    setViewportMode(mode);
+    broadcastViewport(mode);
+  }, [broadcastViewport]);
+
+  // While the DM shares their view, every pan, zoom and map change goes out
+  useEffect(() => {
+    if (!isAdmin || viewportMode === 'off' || needsCentering.current) return;
+    broadcastViewportThrottled();
+  }, [isAdmin, viewportMode, panOffset, mapScale, currentMapId, broadcastViewportThrottled]);
+
+  // Players follow the shared view unless a split party has them on another map
+  useEffect(() => {
+    if (isAdmin || !sharedViewport || sharedViewport.mode === 'off' || !sharedViewport.mapId) return;
+    if (sharedViewport.episodeId !== selectedEpisode?.id) return;
+    if (followedMapIdRef.current && followedMapIdRef.current !== sharedViewport.mapId) return;
+    centerViewOn(sharedViewport.mapId, sharedViewport.center, sharedViewport.zoom);
+  }, [sharedViewport]);
+
   // Listen for real-time drag updates from other players
   useEffect(() => {
     if (!selectedEpisode || !db) return;
@@ -1602,6 +1909,116 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
     });
   }, [broadcastBoxes]);
 
+  // Each annotation is its own field, so writes from different users merge instead of clobbering
+  const broadcastAnnotation = useCallback(async (annotation: MapAnnotation) => {
+    if (!selectedEpisode || !currentMapId || !db) return;
+
+    try {
+      await setDoc(doc(db, getAnnotationsPath(roomId, selectedEpisode.id, currentMapId, annotation.visibility)), {
+        episodeId: selectedEpisode.id,
+        mapId: currentMapId,
+        annotations: { [annotation.id]: annotation },
+        updatedAt: serverTimestamp(),
+      }, { merge: true });
+    } catch (error) {
+      console.error('[ShowTime] Failed to broadcast annotation:', error);
+    }
+  }, [selectedEpisode?.id, currentMapId, roomId]);
+
+  const removeAnnotations = useCallback(async (targets: MapAnnotation[], visibility: AnnotationVisibility) => {
+    if (!selectedEpisode || !currentMapId || !db || targets.length === 0) return;
+
+    try {
+      await updateDoc(doc(db, getAnnotationsPath(roomId, selectedEpisode.id, currentMapId, visibility)), {
+        ...Object.fromEntries(targets.map(a => [`annotations.${a.id}`, deleteField()])),
+        updatedAt: serverTimestamp(),
+      });
+    } catch (error) {
+      console.error('[ShowTime] Failed to remove annotations:', error);
+    }
+  }, [selectedEpisode?.id, currentMapId, roomId]);
+
+  // Erase from whichever doc holds each annotation
+  const eraseAnnotations = useCallback((targets: MapAnnotation[]) => {
+    const ids = new Set(targets.map(a => a.id));
+    setAnnotationLayers(prev => ({
+      everyone: prev.everyone.filter(a => !ids.has(a.id)),
+      dm: prev.dm.filter(a => !ids.has(a.id)),
+    }));
+    removeAnnotations(annotationLayers.everyone.filter(a => ids.has(a.id)), 'everyone');
+    removeAnnotations(annotationLayers.dm.filter(a => ids.has(a.id)), 'dm');
+  }, [annotationLayers, removeAnnotations]);
+
+  // Listen for annotation updates; only the DM's client loads the DM-only doc
+  useEffect(() => {
+    if (!selectedEpisode || !currentMapId || !db) return;
+
+    const layers: AnnotationVisibility[] = isAdmin ? ['everyone', 'dm'] : ['everyone'];
+    if (!isAdmin) setAnnotationLayers(prev => ({ ...prev, dm: [] }));
+    const unsubscribers = layers.map(layer =>
+      onSnapshot(doc(db, getAnnotationsPath(roomId, selectedEpisode.id, currentMapId, layer)), (snapshot) => {
+        const stored: Record<string, MapAnnotation> = snapshot.exists() ? snapshot.data().annotations ?? {} : {};
+        const list = Object.values(stored).sort((a, b) => a.createdAt - b.createdAt);
+        setAnnotationLayers(prev => ({ ...prev, [layer]: list }));
+
+        // DM-only annotations drawn before they had their own doc are moved out of the shared one
+        const misplaced = layer === 'everyone' && isAdmin ? list.filter(a => a.visibility === 'dm') : [];
+        if (misplaced.length > 0) {
+          Promise.all(misplaced.map(broadcastAnnotation)).then(() => removeAnnotations(misplaced, 'everyone'));
+        }
+      })
+    );
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [selectedEpisode?.id, currentMapId, roomId, isAdmin, broadcastAnnotation, removeAnnotations]);
+
+  // Strokes in progress are broadcast throttled, like token drags
+  const handleAnnotationDraft = useCallback((annotation: MapAnnotation) => {
+    const now = Date.now();
+    if (now - lastAnnotationBroadcastTime.current >= BROADCAST_THROTTLE_MS) {
+      lastAnnotationBroadcastTime.current = now;
+      broadcastAnnotation(annotation);
+    }
+  }, [broadcastAnnotation]);
+
+  const handleAnnotationCommit = useCallback((annotation: MapAnnotation) => {
+    setAnnotationLayers(prev => ({
+      ...prev,
+      [annotation.visibility]: [...prev[annotation.visibility].filter(a => a.id !== annotation.id), annotation],
+    }));
+    broadcastAnnotation(annotation);
+  }, [broadcastAnnotation]);
+
+  const handleAnnotationErase = useCallback((annotation: MapAnnotation) => {
+    eraseAnnotations([annotation]);
+  }, [eraseAnnotations]);
+
+  const handleClearMyAnnotations = useCallback(() => {
+    eraseAnnotations(annotations.filter(a => a.ownerId === annotationOwnerId));
+  }, [annotations, annotationOwnerId, eraseAnnotations]);
+
+  const handleClearAllAnnotations = useCallback(async () => {
+    if (!isAdmin || !selectedEpisode || !currentMapId || !db) return;
+    setAnnotationLayers({ everyone: [], dm: [] });
+    try {
+      await Promise.all((['everyone', 'dm'] as const).map(layer =>
+        setDoc(doc(db, getAnnotationsPath(roomId, selectedEpisode.id, currentMapId, layer)), {
+          episodeId: selectedEpisode.id,
+          mapId: currentMapId,
+          annotations: {},
+          updatedAt: serverTimestamp(),
+        })
+      ));
+    } catch (error) {
+      console.error('[ShowTime] Failed to clear annotations:', error);
+    }
+  }, [isAdmin, selectedEpisode?.id, currentMapId, roomId]);
+
+  const visibleAnnotations = useMemo(
+    () => annotations.filter(a => isAnnotationVisible(a, isAdmin)),
+    [annotations, isAdmin],
+  );
+
   // Broadcast crawler placements (all users can broadcast)
   const broadcastCrawlerPlacements = useCallback(async (placements: CrawlerPlacement[]) => {
     if (!selectedEpisode || !currentMapId || !db) return;
@@ -1785,7 +2202,37 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
     return () => window.removeEventListener('click', handleClick);
   }, [contextMenu]);
 
+  // First click drops the template; cones and lines then follow the mouse until a second click locks them
+  const handleAoeClick = useCallback((x: number, y: number) => {
+    if (aoeOrigin && isAimingAoe) {
+      setIsAimingAoe(false);
+      return;
+    }
+    setAoeOrigin({ x, y });
+    setIsAimingAoe(isRotatableAoe(aoeArea.shape));
+  }, [aoeOrigin, isAimingAoe, aoeArea.shape]);
+
   // Handle map click for ping/box/crawlers/mobs
+  // Attention requests: a player marks a spot on the map for the DM
+  const requestAttention = useCallback(async (x: number, y: number) => {
+    if (!selectedEpisode || !currentMapId || !db) return;
+    const request: AttentionRequest = {
+      id: crypto.randomUUID(),
+      episodeId: selectedEpisode.id,
+      mapId: currentMapId,
+      x,
+      y,
+      name: crawlers.find(c => c.id === viewerCrawlerId)?.name || currentUsername || 'A player',
+      createdAt: Date.now(),
+    };
+    try {
+      await setDoc(doc(db, getAttentionRequestPath(roomId)), { ...request, updatedAt: serverTimestamp() });
+      toast('The DM has been asked to look here');
+    } catch (error) {
+      console.error('[ShowTime] Failed to request attention:', error);
+    }
+  }, [selectedEpisode?.id, currentMapId, roomId, crawlers, viewerCrawlerId, currentUsername]);
+
   const handleMapClick = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
     if (!mapImageRef.current) return;
     if (draggingMobId) return; // Don't do anything while dragging
@@ -1807,6 +2254,12 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
         setRulerEnd(null);
         broadcastRulerState(null, null);
       }
+    } else if (isAoeMode) {
+      handleAoeClick(clampedX, clampedY);
+    } else if (isAttentionMode) {
+      requestAttention(clampedX, clampedY);
+      broadcastPing(clampedX, clampedY, selectedColor);
+      setIsAttentionMode(false);
     } else if (isPingMode) {
       broadcastPing(clampedX, clampedY, selectedColor);
     } else if (isBoxMode) {
@@ -1817,7 +2270,7 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
     } else if (isAddMobMode && isAdmin && selectedMobId) {
       handleAddMobToMapRuntime(clampedX, clampedY);
     }
-  }, [isPingMode, isBoxMode, isRulerMode, rulerStart, isAddCrawlerMode, isAddMobMode, isAdmin, selectedColor, boxOpacity, selectedCrawlerId, selectedMobId, draggingMobId, broadcastPing, handleAddBox, handleAddCrawlerToMap, handleAddMobToMapRuntime]);
+  }, [isPingMode, isBoxMode, isRulerMode, isAoeMode, isAttentionMode, rulerStart, isAddCrawlerMode, isAddMobMode, isAdmin, selectedColor, boxOpacity, selectedCrawlerId, selectedMobId, draggingMobId, broadcastPing, requestAttention, handleAddBox, handleAoeClick, handleAddCrawlerToMap, handleAddMobToMapRuntime]);
 
   // Auto-clean old pings
   useEffect(() => {
@@ -1829,12 +2282,14 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
 
   // Handle zoom for all users
   const handleZoomIn = useCallback(() => {
+    if (isViewportLocked) return;
     setMapScale(prev => Math.min(prev + 25, zoomMax));
-  }, []);
+  }, [isViewportLocked]);
 
   const handleZoomOut = useCallback(() => {
+    if (isViewportLocked) return;
     setMapScale(prev => Math.max(prev - 25, zoomMin));
-  }, []);
+  }, [isViewportLocked]);
 
   // Handle scroll wheel zoom - applied globally so it works regardless of cursor position
   useEffect(() => {
@@ -1842,6 +2297,7 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
 
     const handleWheel = (e: WheelEvent) => {
       e.preventDefault();
+      if (isViewportLocked) return;
       // Proportional zoom: step scales with current zoom level for smooth feel
       // At 100% → step ~3, at 50% → step ~1.5, at 200% → step ~6
       setMapScale(prev => {
@@ -1862,7 +2318,72 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
       document.body.style.overflow = '';
       window.removeEventListener('wheel', handleWheel);
     };
-  }, [selectedMap]);
+  }, [selectedMap, isViewportLocked]);
+
+  // --- Map links: stairs, doors and teleporters to the episode's other maps ---
+  // Players only see (and can use) links they can see
+  const currentMapLinks = useMemo(
+    () => (currentMapSettings?.links ?? []).filter(link => isPointVisible(link.x, link.y)),
+    [currentMapSettings?.links, isPointVisible],
+  );
+
+  const getMapName = useCallback((mapId: string) => {
+    const index = mapIds.indexOf(mapId);
+    return mapNames?.[index] || `Map ${index + 1}`;
+  }, [mapIds, mapNames]);
+
+  // A dropped token takes a link within about one cell of it
+  const linkHitRadius = useMemo(() => {
+    if (!mapImageDimensions) return null;
+    const px = mapGrid ? mapGrid.size * 0.75 : 24;
+    return { x: (px / mapImageDimensions.width) * 100, y: (px / mapImageDimensions.height) * 100 };
+  }, [mapGrid, mapImageDimensions]);
+
+  // Move crawlers off this map and onto the link's arrival point; the whole party goes unless it may split
+  const travelThroughLink = useCallback(async (link: MapLink, crawlerId: string, placements: CrawlerPlacement[]) => {
+    if (!selectedEpisode || !currentMapId || !db || !selectedEpisode.mapIds.includes(link.targetMapId)) return;
+    const targetMapId = link.targetMapId;
+    const travellerIds = selectedEpisode.allowSplitParty ? [crawlerId] : [...new Set(placements.map(p => p.crawlerId))];
+    const travellers = new Set(travellerIds);
+
+    const remaining = placements.filter(p => !travellers.has(p.crawlerId));
+    setCrawlerPlacements(remaining);
+    broadcastCrawlerPlacements(remaining);
+
+    try {
+      const targetDocRef = doc(db, getPerMapDocPath(roomId, 'crawler-placements', selectedEpisode.id, targetMapId));
+      const targetDoc = await getDoc(targetDocRef);
+      const targetPlacements: CrawlerPlacement[] = targetDoc.exists()
+        ? targetDoc.data().placements ?? []
+        : (selectedEpisode.crawlerPlacements || []).filter(p => p.mapId === targetMapId);
+      const arrivals = spreadArrivals(getLinkArrival(link, selectedEpisode.mapSettings?.[targetMapId]), travellerIds.length, { x: 3, y: 3 });
+      const arrived = [
+        ...targetPlacements.filter(p => !travellers.has(p.crawlerId)),
+        ...travellerIds.map((id, i) => ({ crawlerId: id, mapId: targetMapId, ...arrivals[i] })),
+      ];
+      await setDoc(targetDocRef, {
+        episodeId: selectedEpisode.id,
+        mapId: targetMapId,
+        placements: arrived,
+        updatedAt: serverTimestamp(),
+      });
+      allMapCrawlerPlacementsRef.current.set(targetMapId, arrived);
+
+      await setDoc(doc(db, getCrawlerLocationsPath(roomId, selectedEpisode.id)), {
+        locations: Object.fromEntries(travellerIds.map(id => [id, targetMapId])),
+        ...(selectedEpisode.allowSplitParty ? {} : { partyMapId: targetMapId, partyTravelId: crypto.randomUUID() }),
+        updatedAt: serverTimestamp(),
+      }, { merge: true });
+
+      const who = selectedEpisode.allowSplitParty
+        ? crawlers.find(c => c.id === crawlerId)?.name || 'Crawler'
+        : 'The party';
+      toast.success(`${who} took the ${MAP_LINK_KIND_LABELS[link.kind].toLowerCase()} to ${getMapName(targetMapId)}`);
+    } catch (error) {
+      console.error('[ShowTime] Failed to move crawlers through link:', error);
+      toast.error('Failed to move crawlers to the linked map');
+    }
+  }, [selectedEpisode, currentMapId, roomId, broadcastCrawlerPlacements, crawlers, getMapName]);
 
   // Refs for throttling runtime drag broadcasts
   const lastCrawlerBroadcastTime = useRef<number>(0);
@@ -1884,9 +2405,15 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
   }, [crawlerPlacements, broadcastCrawlerPlacements]);
 
   const handleRuntimeCrawlerDragEnd = useCallback((index: number) => {
+    const placement = crawlerPlacements[index];
+    const link = placement && linkHitRadius ? findLinkAt(placement, currentMapLinks, linkHitRadius) : null;
+    if (link) {
+      travelThroughLink(link, placement.crawlerId, crawlerPlacements);
+      return;
+    }
     // Final broadcast to ensure position is synced
     broadcastCrawlerPlacements(crawlerPlacements);
-  }, [crawlerPlacements, broadcastCrawlerPlacements]);
+  }, [crawlerPlacements, broadcastCrawlerPlacements, linkHitRadius, currentMapLinks, travelThroughLink]);
 
   // Handle dragging runtime mobs (all users can drag)
   const handleRuntimeMobDrag = useCallback((index: number, x: number, y: number) => {
@@ -2079,36 +2606,386 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
     );
   }, [selectedEpisode, currentMapId]);
 
+  // Token positions on the current map keyed by combatant id (same combatId scheme as PingPanel)
+  const combatTokenPositions = useMemo(() => {
+    const positions: Record<string, CombatTokenPosition> = {};
+    if (!selectedEpisode || !currentMapId) return positions;
+    selectedEpisode.mobPlacements.forEach((p, globalIndex) => {
+      if (p.mapId !== currentMapId && !(!p.mapId && selectedEpisode.mapIds[0] === currentMapId)) return;
+      const combatId = (allPlacementsMobCounts[p.mobId] ?? 1) > 1 ? `${p.mobId}:${globalIndex}` : p.mobId;
+      positions[combatId] = { x: p.x, y: p.y, placement: { kind: 'episode', index: globalIndex } };
+    });
+    const episodePlacementCount = selectedEpisode.mobPlacements.length;
+    runtimeMobPlacements.forEach((p, index) => {
+      if (p.mapId !== currentMapId) return;
+      const combatId = (allPlacementsMobCounts[p.mobId] ?? 1) > 1 ? `${p.mobId}:${episodePlacementCount + index}` : p.mobId;
+      positions[combatId] = { x: p.x, y: p.y, placement: { kind: 'runtime', index } };
+    });
+    crawlerPlacements.forEach(p => {
+      if (p.mapId === currentMapId) positions[p.crawlerId] = { x: p.x, y: p.y };
+    });
+    return positions;
+  }, [selectedEpisode, currentMapId, runtimeMobPlacements, crawlerPlacements, allPlacementsMobCounts]);
+
+  // Feet between two map points, using the same grid scale as the ruler
+  const getFeetBetween = useCallback((a: { x: number; y: number }, b: { x: number; y: number }) => {
+    if (!feetPerPercent) return null;
+    return Math.hypot((a.x - b.x) * feetPerPercent.x, (a.y - b.y) * feetPerPercent.y);
+  }, [feetPerPercent]);
+
+  const combatTokenPositionsRef = useRef(combatTokenPositions);
+  combatTokenPositionsRef.current = combatTokenPositions;
+  const getFeetBetweenRef = useRef(getFeetBetween);
+  getFeetBetweenRef.current = getFeetBetween;
+
+  // Let the game state measure combatant distances for reaction triggers
+  useEffect(() => {
+    if (!onRegisterCombatDistance) return;
+    onRegisterCombatDistance((aId, bId) => {
+      const a = combatTokenPositionsRef.current[aId];
+      const b = combatTokenPositionsRef.current[bId];
+      return a && b ? getFeetBetweenRef.current(a, b) : null;
+    });
+    return () => onRegisterCombatDistance(null);
+  }, [onRegisterCombatDistance]);
+
+  // Snapshot token positions when a mob drag starts so the drop can be checked against crawler reach
+  const dragStartPositionsRef = useRef<Record<string, CombatTokenPosition>>({});
+  useEffect(() => {
+    if (draggingMobId || draggingRuntimeId?.startsWith('mob-')) {
+      dragStartPositionsRef.current = combatTokenPositionsRef.current;
+    }
+  }, [draggingMobId, draggingRuntimeId]);
+
+  // A mob that starts inside a crawler's reach and ends outside it provokes that crawler
+  const checkLeftReach = (moverId: string, to: { x: number; y: number }, start = dragStartPositionsRef.current) => {
+    if (!onCombatantLeftReach || !combatState?.active || combatState.phase !== 'combat') return;
+    if (!combatState.combatants.some(c => c.id === moverId)) return;
+    const from = start[moverId];
+    if (!from) return;
+    const crawlerIds = combatState.combatants
+      .filter(c => c.type === 'crawler')
+      .filter(c => {
+        const pos = start[c.id];
+        if (!pos) return false;
+        const before = getFeetBetween(from, pos);
+        const after = getFeetBetween(to, pos);
+        return before !== null && after !== null && before <= DEFAULT_REACH_FT && after > DEFAULT_REACH_FT;
+      })
+      .map(c => c.id);
+    if (crawlerIds.length > 0) onCombatantLeftReach(moverId, crawlerIds);
+  };
+
+  // --- Mob auto-pilot (DM only) ---
+  const [mobTurnPlan, setMobTurnPlan] = useState<MobTurnPlan | null>(null);
+  const [isApplyingMobTurn, setIsApplyingMobTurn] = useState(false);
+
+  const buildMobTurnPlan = (forcedTargetId?: string): MobTurnPlan | null => {
+    if (!combatState?.active || combatState.phase !== 'combat') return null;
+    const current = combatState.combatants[combatState.currentTurnIndex];
+    const mob = current?.type === 'mob' ? mobs.find(m => m.id === (current.sourceId || current.id)) : undefined;
+    const scale = feetPerPercent;
+    if (!current || !mob?.behavior || !scale) return null;
+    const toToken = (id: string, name: string, hp: number, maxHP: number): AutopilotToken | null => {
+      const pos = combatTokenPositions[id];
+      return pos ? { id, name, x: pos.x * scale.x, y: pos.y * scale.y, hp, maxHP } : null;
+    };
+    const self = toToken(current.id, current.name, current.currentHP ?? mob.hitPoints ?? 0, mob.hitPoints ?? 0);
+    if (!self) return null;
+    const crawlerTokens = combatState.combatants
+      .filter(c => c.type === 'crawler')
+      .map(c => {
+        const crawler = crawlers.find(cr => cr.id === c.id);
+        return crawler && (crawler.hp ?? 0) > 0 ? toToken(c.id, c.name, crawler.hp ?? 0, crawler.maxHP ?? 0) : null;
+      })
+      .filter((t): t is AutopilotToken => !!t);
+    const allyTokens = combatState.combatants
+      .filter(c => c.type === 'mob' && c.id !== current.id)
+      .map(c => {
+        const allyMob = mobs.find(m => m.id === (c.sourceId || c.id));
+        const hp = c.currentHP ?? allyMob?.hitPoints ?? 0;
+        return hp > 0 ? toToken(c.id, c.name, hp, allyMob?.hitPoints ?? hp) : null;
+      })
+      .filter((t): t is AutopilotToken => !!t);
+    return planMobTurn({
+      self,
+      mob,
+      crawlers: crawlerTokens,
+      allies: allyTokens,
+      bounds: { width: 100 * scale.x, height: 100 * scale.y },
+      forcedTargetId,
+    });
+  };
+  const buildMobTurnPlanRef = useRef(buildMobTurnPlan);
+  buildMobTurnPlanRef.current = buildMobTurnPlan;
+
+  // Suggest a plan once at the start of each auto-piloted mob's turn
+  useEffect(() => {
+    setMobTurnPlan(isAdmin ? buildMobTurnPlanRef.current() : null);
+  }, [isAdmin, combatState?.active, combatState?.phase, combatState?.currentTurnIndex, combatState?.combatRound]);
+
+  // Move a mob token by its combat id (episode placements persist, runtime placements broadcast)
+  const moveCombatToken = (combatId: string, x: number, y: number) => {
+    const placement = combatTokenPositions[combatId]?.placement;
+    if (!placement || !selectedEpisode) return;
+    if (placement.kind === 'episode') {
+      const updatedPlacements = selectedEpisode.mobPlacements.map((p, i) => (i === placement.index ? { ...p, x, y } : p));
+      setSelectedEpisode(prev => (prev ? { ...prev, mobPlacements: updatedPlacements } : prev));
+      broadcastDragState(placement.index, x, y);
+      onUpdateEpisode?.(selectedEpisode.id, { mobPlacements: updatedPlacements });
+    } else {
+      const updated = runtimeMobPlacements.map((p, i) => (i === placement.index ? { ...p, x, y } : p));
+      setRuntimeMobPlacements(updated);
+      broadcastRuntimeMobPlacements(updated);
+    }
+  };
+
+  const handleApproveMobTurn = async () => {
+    const plan = mobTurnPlan;
+    const scale = feetPerPercent;
+    if (!plan || !scale) return;
+    setIsApplyingMobTurn(true);
+    try {
+      if (plan.moveFt >= 1) {
+        const to = {
+          x: Math.max(0, Math.min(100, plan.to.x / scale.x)),
+          y: Math.max(0, Math.min(100, plan.to.y / scale.y)),
+        };
+        moveCombatToken(plan.combatantId, to.x, to.y);
+        checkLeftReach(plan.combatantId, to, combatTokenPositions);
+        onRecordCombatMovement?.(plan.combatantId, Math.round(plan.moveFt));
+      }
+      // The attack and damage rolls land in the dice feed like any other attack
+      if (plan.actionId && plan.targetId && onResolveMobAction) {
+        await onResolveMobAction(plan.combatantId, plan.actionId, plan.targetId);
+      }
+      setMobTurnPlan(null);
+    } finally {
+      setIsApplyingMobTurn(false);
+    }
+  };
+
+  // --- Grid movement ---
+  const diagonalRule = currentMapSettings?.diagonalRule ?? '5-5-5';
+
+  // Token positions are map percent; grid math runs in display pixels
+  const toGridPx = (p: GridPoint): GridPoint => ({
+    x: (p.x / 100) * (mapImageDimensions?.width ?? 0),
+    y: (p.y / 100) * (mapImageDimensions?.height ?? 0),
+  });
+  const fromGridPx = (p: GridPoint): GridPoint => ({
+    x: mapImageDimensions ? Math.max(0, Math.min(100, (p.x / mapImageDimensions.width) * 100)) : p.x,
+    y: mapImageDimensions ? Math.max(0, Math.min(100, (p.y / mapImageDimensions.height) * 100)) : p.y,
+  });
+  const measureTokenMove = (from: GridPoint, to: GridPoint) =>
+    mapGrid ? measureGridMove(toGridPx(from), toGridPx(to), mapGrid, diagonalRule) : 0;
+
+  // Speed and feet already moved this turn, for a combatant in the combat phase
+  const getMovementBudget = (combatId?: string) => {
+    if (!combatId || !combatState?.active || combatState.phase !== 'combat') return null;
+    const combatant = combatState.combatants.find(c => c.id === combatId);
+    if (!combatant) return null;
+    const crawler = combatant.type === 'crawler' ? crawlers.find(c => c.id === combatant.id) : undefined;
+    const speed = combatant.type === 'crawler'
+      ? crawler ? getCrawlerSpeed(crawler, getEquippedModifiers(crawler, getCrawlerInventory?.(crawler.id) ?? [])) : DEFAULT_CRAWLER_SPEED
+      : mobs.find(m => m.id === (combatant.sourceId || combatant.id))?.speed ?? DEFAULT_MOB_SPEED;
+    return { speed, used: combatant.movementUsedFt ?? 0 };
+  };
+
+  const beginTokenDrag = (origin: GridPoint, combatId?: string) => {
+    setTokenMove({ origin: { x: origin.x, y: origin.y }, current: { x: origin.x, y: origin.y }, combatId, blocked: false });
+  };
+
+  // Snap a dragged token to the grid; players stop at the last cell their remaining speed reaches
+  const resolveTokenDragPosition = (x: number, y: number): GridPoint | null => {
+    if (!tokenMove || !mapGrid) return { x, y };
+    const snapped = fromGridPx(snapToCell(toGridPx({ x, y }), mapGrid));
+    const budget = getMovementBudget(tokenMove.combatId);
+    const blocked = !isAdmin && !!budget && measureTokenMove(tokenMove.origin, snapped) > budget.speed - budget.used;
+    setTokenMove(prev => (prev ? { ...prev, blocked, current: blocked ? prev.current : snapped } : prev));
+    return blocked ? null : snapped;
+  };
+
+  // Spend the dragged combatant's movement once the token is dropped
+  const finishTokenDrag = () => {
+    if (!tokenMove) return;
+    if (tokenMove.combatId && getMovementBudget(tokenMove.combatId)) {
+      const moved = measureTokenMove(tokenMove.origin, tokenMove.current);
+      if (moved > 0) onRecordCombatMovement?.(tokenMove.combatId, moved);
+    }
+    setTokenMove(null);
+  };
+
+  const tokenMoveFt = tokenMove ? measureTokenMove(tokenMove.origin, tokenMove.current) : 0;
+  const tokenMoveBudget = tokenMove ? getMovementBudget(tokenMove.combatId) : null;
+
+  // --- Spell area-of-effect template ---
+  // Players pick from their crawler's area spells; the DM can use any area spell in the library
+  const aoeSpells = useMemo(() => {
+    const areaSpells = spells.filter(sp => sp.spellData.target === 'Area' && sp.spellData.areaOfEffect);
+    if (isAdmin) return areaSpells;
+    const known = new Set((crawlers.find(c => c.id === viewerCrawlerId)?.knownSpells ?? []).map(ks => ks.spellId));
+    return areaSpells.filter(sp => known.has(sp.id));
+  }, [spells, isAdmin, crawlers, viewerCrawlerId]);
+
+  useEffect(() => {
+    if (!isAoeMode) {
+      setAoeOrigin(null);
+      setIsAimingAoe(false);
+    }
+  }, [isAoeMode]);
+
+  const aoeScale = aoeOrigin ? feetPerPercent : null;
+  const aoeTemplate: AoeTemplate | null = aoeOrigin && aoeScale
+    ? { ...aoeArea, origin: { x: aoeOrigin.x * aoeScale.x, y: aoeOrigin.y * aoeScale.y }, angle: aoeAngle }
+    : null;
+  const aoeOutline = aoeTemplate && aoeScale
+    ? getAoeOutline(aoeTemplate).map(p => ({ x: p.x / aoeScale.x, y: p.y / aoeScale.y }))
+    : [];
+
+  // Every visible crawler and mob token whose center lies inside the template
+  const aoeTargets: AoeTargetList['targets'] = aoeTemplate && aoeScale
+    ? Object.entries(combatTokenPositions)
+        .filter(([, pos]) => isPointVisible(pos.x, pos.y) && isPointInAoe({ x: pos.x * aoeScale.x, y: pos.y * aoeScale.y }, aoeTemplate))
+        .map(([id, pos]) => {
+          const type = pos.placement ? 'mob' as const : 'crawler' as const;
+          const name = combatState?.combatants.find(c => c.id === id)?.name
+            ?? (type === 'crawler' ? crawlers.find(c => c.id === id)?.name : mobs.find(m => m.id === id.split(':')[0])?.name)
+            ?? id;
+          return { id, type, name };
+        })
+    : [];
+
+  const handleSendAoeTargets = () => {
+    if (!onSendAoeTargets || aoeTargets.length === 0) return;
+    const spell = aoeSpells.find(sp => sp.id === aoeSpellId);
+    onSendAoeTargets({
+      id: crypto.randomUUID(),
+      sourceName: spell?.name ?? 'Area template',
+      spellId: spell?.id,
+      casterId: isAdmin ? undefined : viewerCrawlerId,
+      targets: aoeTargets,
+    });
+    setIsAoeMode(false);
+  };
+
+  // Image URL of a map doc id
+  const getMapUrl = useCallback((mapId: string | undefined) => {
+    const index = mapId ? mapIds.indexOf(mapId) : -1;
+    return index >= 0 ? maps[index] || null : null;
+  }, [maps, mapIds]);
+
+  // The DM follows the party through a link and broadcasts the new map, which players then follow
+  const lastPartyTravelIdRef = useRef<string | null | undefined>(undefined);
+  useEffect(() => {
+    if (crawlerLocations === undefined) {
+      lastPartyTravelIdRef.current = undefined;
+      return;
+    }
+    const travelId = crawlerLocations?.partyTravelId ?? null;
+    const previous = lastPartyTravelIdRef.current;
+    lastPartyTravelIdRef.current = travelId;
+    // The first snapshot is where the party already is, not a move
+    if (!isAdmin || previous === undefined || !travelId || travelId === previous || !selectedEpisode) return;
+    const index = selectedEpisode.mapIds.indexOf(crawlerLocations.partyMapId ?? '');
+    if (index < 0) return;
+    const url = getMapUrl(crawlerLocations.partyMapId);
+    setCurrentMapIndex(index);
+    setSelectedMap(url);
+    broadcastShowtimeState(selectedEpisode.id, index, url);
+  }, [crawlerLocations]);
+
+  // In a split party each player's view follows their own crawler; otherwise it follows the DM
+  const followedMapId = !isAdmin && selectedEpisode?.allowSplitParty && viewerCrawlerId
+    ? crawlerLocations?.locations?.[viewerCrawlerId] ?? null
+    : null;
+  useEffect(() => {
+    const index = followedMapId && selectedEpisode ? selectedEpisode.mapIds.indexOf(followedMapId) : -1;
+    followedMapIdRef.current = index >= 0 ? followedMapId : null;
+    if (index >= 0) {
+      setCurrentMapIndex(index);
+      setSelectedMap(getMapUrl(followedMapId));
+    } else if (dmMapRef.current && selectedEpisode) {
+      setCurrentMapIndex(dmMapRef.current.index);
+      setSelectedMap(dmMapRef.current.url);
+    }
+  }, [followedMapId, selectedEpisode?.id, getMapUrl]);
+
+  // A player can keep their own crawler centered; the DM's lock takes precedence
+  const viewerPlacement = crawlerPlacements.find(p => p.crawlerId === viewerCrawlerId && p.mapId === currentMapId);
+  useEffect(() => {
+    if (isAdmin || !isCenteringOnCrawler || isViewportLocked || !viewerPlacement || !currentMapId) return;
+    if (draggingRuntimeId) return; // don't slide the map out from under a token being dragged
+    centerViewOn(currentMapId, viewerPlacement);
+  }, [isCenteringOnCrawler, isViewportLocked, viewerPlacement?.x, viewerPlacement?.y, currentMapId, viewportFrame, draggingRuntimeId]);
+
+  // The DM gets a toast that jumps to a player's attention request
+  const jumpToAttention = useCallback((request: AttentionRequest) => {
+    if (!selectedEpisode || request.episodeId !== selectedEpisode.id) return;
+    const index = selectedEpisode.mapIds.indexOf(request.mapId);
+    if (index < 0) return;
+    if (request.mapId !== currentMapId) {
+      const url = getMapUrl(request.mapId);
+      setCurrentMapIndex(index);
+      setSelectedMap(url);
+      broadcastShowtimeState(selectedEpisode.id, index, url);
+    }
+    centerViewOn(request.mapId, { x: request.x, y: request.y });
+  }, [selectedEpisode, currentMapId, getMapUrl, broadcastShowtimeState, centerViewOn]);
+
+  const jumpToAttentionRef = useRef(jumpToAttention);
+  jumpToAttentionRef.current = jumpToAttention;
+  const lastAttentionIdRef = useRef<string | null | undefined>(undefined);
+  useEffect(() => {
+    if (!isAdmin || !db) return;
+    lastAttentionIdRef.current = undefined;
+    const unsubscribe = onSnapshot(doc(db, getAttentionRequestPath(roomId)), (snapshot) => {
+      const request = snapshot.exists() ? snapshot.data() as AttentionRequest : null;
+      const previous = lastAttentionIdRef.current;
+      lastAttentionIdRef.current = request?.id ?? null;
+      // The first snapshot is an old request, not a new one
+      if (previous === undefined || !request || request.id === previous) return;
+      toast(`${request.name} wants your attention`, {
+        duration: 15000,
+        action: { label: 'Jump', onClick: () => jumpToAttentionRef.current(request) },
+      });
+    });
+    return () => unsubscribe();
+  }, [isAdmin, roomId]);
+
   // Get the current map URL
   const currentMapUrl = useMemo(() => {
     if (!selectedEpisode || selectedEpisode.mapIds.length === 0) return null;
-    const mapIndex = parseInt(selectedEpisode.mapIds[currentMapIndex], 10);
-    return maps[mapIndex] || null;
-  }, [selectedEpisode, maps, currentMapIndex]);
+    return getMapUrl(selectedEpisode.mapIds[currentMapIndex]);
+  }, [selectedEpisode, getMapUrl, currentMapIndex]);
 
   const handlePreviousMap = useCallback(() => {
     if (!selectedEpisode) return;
     const newIndex = currentMapIndex > 0 ? currentMapIndex - 1 : selectedEpisode.mapIds.length - 1;
     setCurrentMapIndex(newIndex);
     // Broadcast new map index
-    const newMapIdxStr = selectedEpisode.mapIds[newIndex];
-    const newMapIdx = parseInt(newMapIdxStr, 10);
-    const newMapUrl = maps[newMapIdx] || null;
+    const newMapUrl = getMapUrl(selectedEpisode.mapIds[newIndex]);
     setSelectedMap(newMapUrl);
     broadcastShowtimeState(selectedEpisode.id, newIndex, newMapUrl);
-  }, [selectedEpisode, currentMapIndex, maps, broadcastShowtimeState]);
+  }, [selectedEpisode, currentMapIndex, getMapUrl, broadcastShowtimeState]);
 
   const handleNextMap = useCallback(() => {
     if (!selectedEpisode) return;
     const newIndex = currentMapIndex < selectedEpisode.mapIds.length - 1 ? currentMapIndex + 1 : 0;
     setCurrentMapIndex(newIndex);
     // Broadcast new map index
-    const newMapIdxStr = selectedEpisode.mapIds[newIndex];
-    const newMapIdx = parseInt(newMapIdxStr, 10);
-    const newMapUrl = maps[newMapIdx] || null;
+    const newMapUrl = getMapUrl(selectedEpisode.mapIds[newIndex]);
     setSelectedMap(newMapUrl);
     broadcastShowtimeState(selectedEpisode.id, newIndex, newMapUrl);
-  }, [selectedEpisode, currentMapIndex, maps, broadcastShowtimeState]);
+  }, [selectedEpisode, currentMapIndex, getMapUrl, broadcastShowtimeState]);
+
+  const handleToggleSplitParty = useCallback(() => {
+    if (!selectedEpisode || !onUpdateEpisode) return;
+    const allowSplitParty = !selectedEpisode.allowSplitParty;
+    setSelectedEpisode(prev => prev ? { ...prev, allowSplitParty } : prev);
+    onUpdateEpisode(selectedEpisode.id, { allowSplitParty });
+    toast(allowSplitParty ? 'Crawlers can now take links on their own' : 'The party now travels together');
+  }, [selectedEpisode, onUpdateEpisode]);
 
   const handleToggleMobDisplay = (mobId: string) => {
     setDisplayedMobIds(prev => {
@@ -2168,11 +3045,13 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
     // Broadcast end of episode
     setGameStarted(false);
     broadcastShowtimeState(null, 0, null, false);
+    // Release players from a shared or locked view
+    if (viewportMode !== 'off') handleViewportModeChange('off');
     localStorage.removeItem(SHOWTIME_STORAGE_KEY);
     // Notify parent to close showtime view
     onEndEpisodeCallback?.();
     onGameActiveChange?.(false);
-  }, [broadcastShowtimeState, onEndEpisodeCallback, onGameActiveChange]);
+  }, [broadcastShowtimeState, viewportMode, handleViewportModeChange, onEndEpisodeCallback, onGameActiveChange]);
 
   // DM: Start or end the game for players
   const handleSetGameActive = useCallback(async (active: boolean) => {
@@ -2198,7 +3077,8 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
   // Handle panning start
   const handlePanStart = (e: React.MouseEvent<HTMLDivElement>) => {
     // Don't start panning if we're in a mode that uses clicks
-    if (isPingMode || isBoxMode || isRulerMode || isAddCrawlerMode || isAddMobMode || fogEraserActive || fogPaintActive) return;
+    if (isPingMode || isBoxMode || isRulerMode || isAoeMode || isAttentionMode || isAddCrawlerMode || isAddMobMode || fogEraserActive || fogPaintActive) return;
+    if (isViewportLocked) return; // the DM has locked everyone to their view
     // Don't pan if clicking on an interactive element
     if ((e.target as HTMLElement).closest('button, [data-draggable]')) return;
 
@@ -2222,6 +3102,14 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
       });
     }
 
+    // Aim a placed cone or line at the cursor (pixel space keeps the angle true on non-square maps)
+    if (isAoeMode && isAimingAoe && aoeOrigin && mapImageRef.current) {
+      const imgRect = mapImageRef.current.getBoundingClientRect();
+      const dx = e.clientX - (imgRect.left + (aoeOrigin.x / 100) * imgRect.width);
+      const dy = e.clientY - (imgRect.top + (aoeOrigin.y / 100) * imgRect.height);
+      if (dx !== 0 || dy !== 0) setAoeAngle((Math.atan2(dy, dx) * 180) / Math.PI);
+    }
+
     // Track cursor position for ping/box/crawler/mob mode
     // Update ruler end point
     if (isRulerMode && rulerStart && mapImageRef.current) {
@@ -2253,15 +3141,15 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
       const rect = mapImageRef.current.getBoundingClientRect();
       const rawX = ((e.clientX - rect.left) / rect.width) * 100;
       const rawY = ((e.clientY - rect.top) / rect.height) * 100;
-      const x = Math.max(0, Math.min(100, rawX));
-      const y = Math.max(0, Math.min(100, rawY));
+      const pos = resolveTokenDragPosition(Math.max(0, Math.min(100, rawX)), Math.max(0, Math.min(100, rawY)));
+      if (!pos) return;
 
       if (draggingRuntimeId.startsWith('crawler-')) {
         const index = parseInt(draggingRuntimeId.split('-')[1], 10);
-        handleRuntimeCrawlerDrag(index, x, y);
+        handleRuntimeCrawlerDrag(index, pos.x, pos.y);
       } else if (draggingRuntimeId.startsWith('mob-')) {
         const index = parseInt(draggingRuntimeId.split('-')[1], 10);
-        handleRuntimeMobDrag(index, x, y);
+        handleRuntimeMobDrag(index, pos.x, pos.y);
       }
       return;
     }
@@ -2273,9 +3161,10 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
     const rawX = ((e.clientX - rect.left) / rect.width) * 100;
     const rawY = ((e.clientY - rect.top) / rect.height) * 100;
 
-    // Clamp coordinates to keep mob icons within the map boundaries (0-100%)
-    const x = Math.max(0, Math.min(100, rawX));
-    const y = Math.max(0, Math.min(100, rawY));
+    // Clamp coordinates to keep mob icons within the map boundaries (0-100%), then snap to the grid
+    const pos = resolveTokenDragPosition(Math.max(0, Math.min(100, rawX)), Math.max(0, Math.min(100, rawY)));
+    if (!pos) return;
+    const { x, y } = pos;
 
     // Extract index from placement key (format: "mobId-index")
     const index = parseInt(draggingMobId.split('-').pop() || '0', 10);
@@ -2308,7 +3197,8 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
 
   // Touch event handlers for mobile support
   const handleTouchStart = (e: React.TouchEvent<HTMLDivElement>) => {
-    if (isPingMode || isBoxMode || isRulerMode || isAddCrawlerMode || isAddMobMode || fogEraserActive || fogPaintActive) return;
+    if (isPingMode || isBoxMode || isRulerMode || isAoeMode || isAttentionMode || isAddCrawlerMode || isAddMobMode || fogEraserActive || fogPaintActive) return;
+    if (isViewportLocked) return;
     if ((e.target as HTMLElement).closest('button, [data-draggable]')) return;
     if (e.touches.length !== 1) return; // Only handle single touch for panning
 
@@ -2343,15 +3233,15 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
       const rect = mapImageRef.current.getBoundingClientRect();
       const rawX = ((touch.clientX - rect.left) / rect.width) * 100;
       const rawY = ((touch.clientY - rect.top) / rect.height) * 100;
-      const x = Math.max(0, Math.min(100, rawX));
-      const y = Math.max(0, Math.min(100, rawY));
+      const pos = resolveTokenDragPosition(Math.max(0, Math.min(100, rawX)), Math.max(0, Math.min(100, rawY)));
+      if (!pos) return;
 
       if (draggingRuntimeId.startsWith('crawler-')) {
         const index = parseInt(draggingRuntimeId.split('-')[1], 10);
-        handleRuntimeCrawlerDrag(index, x, y);
+        handleRuntimeCrawlerDrag(index, pos.x, pos.y);
       } else if (draggingRuntimeId.startsWith('mob-')) {
         const index = parseInt(draggingRuntimeId.split('-')[1], 10);
-        handleRuntimeMobDrag(index, x, y);
+        handleRuntimeMobDrag(index, pos.x, pos.y);
       }
       return;
     }
@@ -2362,8 +3252,9 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
       const rect = mapImageRef.current.getBoundingClientRect();
       const rawX = ((touch.clientX - rect.left) / rect.width) * 100;
       const rawY = ((touch.clientY - rect.top) / rect.height) * 100;
-      const x = Math.max(0, Math.min(100, rawX));
-      const y = Math.max(0, Math.min(100, rawY));
+      const pos = resolveTokenDragPosition(Math.max(0, Math.min(100, rawX)), Math.max(0, Math.min(100, rawY)));
+      if (!pos) return;
+      const { x, y } = pos;
       const index = parseInt(draggingMobId.split('-').pop() || '0', 10);
 
       setLocalDragPosition({ index, x, y });
@@ -2398,6 +3289,8 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
       setPanStart(null);
     }
 
+    finishTokenDrag();
+
     // Handle runtime crawler/mob drag end (all users)
     if (draggingRuntimeId) {
       if (draggingRuntimeId.startsWith('crawler-')) {
@@ -2406,6 +3299,12 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
       } else if (draggingRuntimeId.startsWith('mob-')) {
         const index = parseInt(draggingRuntimeId.split('-')[1], 10);
         handleRuntimeMobDragEnd(index);
+        const placement = runtimeMobPlacements[index];
+        if (placement) {
+          const placementIdx = (selectedEpisode?.mobPlacements?.length ?? 0) + index;
+          const combatId = (allPlacementsMobCounts[placement.mobId] ?? 1) > 1 ? `${placement.mobId}:${placementIdx}` : placement.mobId;
+          checkLeftReach(combatId, placement);
+        }
       }
       setDraggingRuntimeId(null);
       return;
@@ -2444,6 +3343,12 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
           mobPlacements: updatedPlacements,
         });
       }
+
+      const placement = selectedEpisode.mobPlacements[index];
+      if (placement) {
+        const combatId = (allPlacementsMobCounts[placement.mobId] ?? 1) > 1 ? `${placement.mobId}:${index}` : placement.mobId;
+        checkLeftReach(combatId, { x: finalX, y: finalY });
+      }
     }
     setDraggingMobId(null);
     setLocalDragPosition(null);
@@ -2582,8 +3487,8 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
             <div>
               <h3 className="font-display text-primary text-lg mb-4">Select Map to Display</h3>
               <div className="grid md:grid-cols-2 gap-4">
-                {selectedEpisode.mapIds.map((mapIndexStr, idx) => {
-                  const mapIndex = parseInt(mapIndexStr, 10);
+                {selectedEpisode.mapIds.map((mapId, idx) => {
+                  const mapIndex = mapIds.indexOf(mapId);
                   const mapUrl = maps[mapIndex];
                   if (!mapUrl) return null;
                   const mapName = mapNames?.[mapIndex] || `Map ${mapIndex + 1}`;
@@ -2600,7 +3505,8 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
                       }}
                     >
                       <img
-                        src={mapUrl}
+                        src={mapAssets[mapIndex]?.thumbnailUrl ?? mapUrl}
+                        loading="lazy"
                         alt={mapName}
                         className="w-full h-32 object-cover rounded mb-2"
                       />
@@ -2662,6 +3568,7 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
                 onUpdateQuest={onUpdateQuest}
                 onUpdateAssignedQuest={onUpdateAssignedQuest}
                 onDeleteAssignedQuest={onDeleteAssignedQuest}
+                onCompleteAssignedQuest={onCompleteAssignedQuest}
                 addDiceRoll={addDiceRoll}
               />
             )}
@@ -2738,9 +3645,32 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
           onNextMap={handleNextMap}
           onSelectMap={() => setSelectedMap(null)}
           onEndEpisode={handleEndEpisode}
+          annotationTool={annotationTool}
+          setAnnotationTool={setAnnotationTool}
+          annotationVisibility={annotationVisibility}
+          setAnnotationVisibility={setAnnotationVisibility}
+          onClearMyAnnotations={handleClearMyAnnotations}
+          onClearAllAnnotations={handleClearAllAnnotations}
+          viewportMode={viewportMode}
+          onViewportModeChange={isAdmin ? handleViewportModeChange : undefined}
+          isCenteringOnCrawler={isCenteringOnCrawler}
+          onToggleCenterOnCrawler={!isAdmin && viewerCrawlerId ? () => setIsCenteringOnCrawler(prev => !prev) : undefined}
+          isAttentionMode={isAttentionMode}
+          setIsAttentionMode={!isAdmin ? setIsAttentionMode : undefined}
+          allowSplitParty={!!selectedEpisode.allowSplitParty}
+          onToggleSplitParty={onUpdateEpisode ? handleToggleSplitParty : undefined}
           isNavVisible={isNavVisible}
           isRulerMode={isRulerMode}
           setIsRulerMode={setIsRulerMode}
+          isAoeMode={isAoeMode}
+          setIsAoeMode={setIsAoeMode}
+          aoeSpells={aoeSpells}
+          aoeSpellId={aoeSpellId}
+          setAoeSpellId={setAoeSpellId}
+          aoeArea={aoeArea}
+          setAoeArea={setAoeArea}
+          aoeAngle={aoeAngle}
+          setAoeAngle={setAoeAngle}
         />
       )}
 
@@ -2751,7 +3681,8 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
             variant="default"
             size="sm"
             onClick={handleZoomIn}
-            title="Zoom in"
+            disabled={isViewportLocked}
+            title={isViewportLocked ? "The DM has locked the view" : "Zoom in"}
           >
             <ZoomIn className="w-4 h-4" />
           </DungeonButton>
@@ -2762,7 +3693,8 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
             variant="default"
             size="sm"
             onClick={handleZoomOut}
-            title="Zoom out"
+            disabled={isViewportLocked}
+            title={isViewportLocked ? "The DM has locked the view" : "Zoom out"}
           >
             <ZoomOut className="w-4 h-4" />
           </DungeonButton>
@@ -2818,6 +3750,60 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
         </div>
       )}
 
+      {/* Mob auto-pilot suggestion - DM approves, retargets or dismisses */}
+      {isAdmin && mobTurnPlan && combatState?.active && combatState.phase === 'combat' && (
+        <div className="w-full bg-destructive/5 border-b border-destructive/30 px-4 py-2 flex items-center gap-2 flex-wrap shrink-0">
+          <Bot className="w-4 h-4 text-destructive shrink-0" />
+          <span className="text-[10px] text-destructive font-display shrink-0">
+            {combatState.combatants.find(c => c.id === mobTurnPlan.combatantId)?.name.toUpperCase()} · {mobTurnPlan.behavior.toUpperCase()}
+          </span>
+          <span className="text-xs text-foreground flex-1 min-w-[12rem]">{mobTurnPlan.summary}</span>
+          <select
+            value={mobTurnPlan.targetId ?? ''}
+            onChange={(e) => setMobTurnPlan(buildMobTurnPlan(e.target.value) ?? mobTurnPlan)}
+            className="bg-muted border border-border px-1 py-0.5 text-[10px] rounded"
+            title="Override target"
+          >
+            {combatState.combatants.filter(c => c.type === 'crawler').map(c => (
+              <option key={c.id} value={c.id}>→ {c.name}</option>
+            ))}
+          </select>
+          <DungeonButton variant="default" size="sm" onClick={handleApproveMobTurn} disabled={isApplyingMobTurn}>
+            <Check className="w-3 h-3 mr-1" /> Approve
+          </DungeonButton>
+          <DungeonButton variant="default" size="sm" onClick={() => setMobTurnPlan(null)} disabled={isApplyingMobTurn} title="Dismiss and run this turn by hand">
+            <X className="w-3 h-3" />
+          </DungeonButton>
+        </div>
+      )}
+
+      {/* Area-of-effect template: who is caught, and hand-off to splash damage */}
+      {aoeTemplate && (
+        <div className="w-full bg-accent/5 border-b border-accent/30 px-4 py-2 flex items-center gap-2 flex-wrap shrink-0">
+          <Sparkles className="w-4 h-4 text-accent shrink-0" />
+          <span className="text-[10px] text-accent font-display shrink-0">
+            {(aoeSpells.find(sp => sp.id === aoeSpellId)?.name ?? 'AREA').toUpperCase()} · {aoeArea.size}FT {aoeArea.shape.toUpperCase()}
+          </span>
+          <span className="text-xs text-foreground flex-1 min-w-[12rem]">
+            {aoeTargets.length > 0 ? aoeTargets.map(t => t.name).join(', ') : 'No one in the area'}
+          </span>
+          {onSendAoeTargets && (
+            <DungeonButton
+              variant="default"
+              size="sm"
+              onClick={handleSendAoeTargets}
+              disabled={aoeTargets.length === 0 || !combatState?.active || combatState.phase !== 'combat'}
+              title={combatState?.active && combatState.phase === 'combat' ? 'Roll splash damage against everyone in the area' : 'Splash damage is rolled during combat'}
+            >
+              <Target className="w-3 h-3 mr-1" /> Splash damage
+            </DungeonButton>
+          )}
+          <DungeonButton variant="default" size="sm" onClick={() => { setAoeOrigin(null); setIsAimingAoe(false); }} title="Clear template">
+            <X className="w-3 h-3" />
+          </DungeonButton>
+        </div>
+      )}
+
       {/* Initiative Phase Banner */}
       {combatState?.active && combatState.phase === 'initiative' && (
         <div className="w-full bg-destructive/10 border-b-2 border-destructive/50 px-4 py-3 text-center shrink-0">
@@ -2830,7 +3816,7 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
       <div
         ref={mapContainerRef}
         className="flex-1 p-1 select-none overflow-hidden relative"
-        style={{ cursor: isPanning ? 'grabbing' : (isPingMode || isBoxMode || isRulerMode || isAddCrawlerMode || isAddMobMode) ? 'crosshair' : 'grab' }}
+        style={{ cursor: isPanning ? 'grabbing' : (isPingMode || isBoxMode || isRulerMode || isAoeMode || isAttentionMode || isAddCrawlerMode || isAddMobMode) ? 'crosshair' : isViewportLocked ? 'default' : 'grab' }}
         onMouseDown={handlePanStart}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
@@ -2974,7 +3960,7 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
           >
           <img
             ref={mapImageRef}
-            src={selectedMap}
+            src={selectedMapAsset?.previewUrl ?? selectedMap}
             alt="Current Map"
             className="pointer-events-none border-2 border-primary shadow-[0_0_15px_rgba(0,200,255,0.5)]"
             style={{
@@ -2986,13 +3972,37 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
             draggable={false}
             onLoad={(e) => {
               const img = e.currentTarget;
-              setNaturalImageSize({ width: img.naturalWidth, height: img.naturalHeight });
+              // A preview is smaller than the map; grid settings are in original image pixels
+              setNaturalImageSize(selectedMapAsset
+                ? { width: selectedMapAsset.width, height: selectedMapAsset.height }
+                : { width: img.naturalWidth, height: img.naturalHeight });
               setMapImageDimensions({ width: img.clientWidth, height: img.clientHeight });
             }}
           />
 
+          {/* Full resolution over the preview: tiles for large maps, otherwise the original once it has loaded */}
+          {selectedMapAsset?.tiles && mapImageDimensions && (
+            <MapTileLayer
+              asset={selectedMapAsset}
+              screenWidth={mapImageDimensions.width * (mapBaseScale / 100) * (mapScale / 100)}
+            />
+          )}
+          {selectedMapAsset?.previewUrl && !selectedMapAsset.tiles && (
+            <img
+              src={selectedMap}
+              alt=""
+              aria-hidden
+              draggable={false}
+              onLoad={() => setIsFullMapLoaded(true)}
+              className="absolute inset-0 w-full h-full pointer-events-none border-2 border-transparent transition-opacity duration-500"
+              style={{ opacity: isFullMapLoaded ? 1 : 0 }}
+            />
+          )}
+
           {/* Grid overlay - only visible to DM */}
-          {isAdmin && <GridOverlay isVisible={showGrid} cellSize={gridSize * iconCounterScale} opacity={0.3} />}
+          {isAdmin && mapGrid && (
+            <GridOverlay isVisible={showGrid} cellSize={mapGrid.size} type={mapGrid.type} offset={mapGrid.offset} opacity={0.3} />
+          )}
 
           {/* Ruler overlay - local */}
           {isRulerMode && rulerStart && rulerEnd && mapImageRef.current && (
@@ -3001,7 +4011,18 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
               end={rulerEnd}
               imageWidth={mapImageRef.current.clientWidth}
               imageHeight={mapImageRef.current.clientHeight}
-              gridSize={gridSize * iconCounterScale}
+              gridSize={mapGrid?.size ?? gridSize * iconCounterScale}
+              feetPerCell={mapGrid?.feetPerCell}
+            />
+          )}
+          {/* Movement path of the token being dragged - local */}
+          {tokenMove && mapGrid && (tokenMoveFt > 0 || tokenMove.blocked) && (
+            <MovementPathOverlay
+              path={getGridPath(toGridPx(tokenMove.origin), toGridPx(tokenMove.current), mapGrid).map(fromGridPx)}
+              label={tokenMoveBudget
+                ? `${tokenMoveFt} ft · ${tokenMoveBudget.used + tokenMoveFt}/${tokenMoveBudget.speed} ft`
+                : `${tokenMoveFt} ft`}
+              overBudget={tokenMove.blocked || (!!tokenMoveBudget && tokenMoveBudget.used + tokenMoveFt > tokenMoveBudget.speed)}
             />
           )}
           {/* Ruler overlays - remote users */}
@@ -3012,7 +4033,24 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
               end={ruler.end}
               imageWidth={mapImageRef.current!.clientWidth}
               imageHeight={mapImageRef.current!.clientHeight}
-              gridSize={gridSize * iconCounterScale}
+              gridSize={mapGrid?.size ?? gridSize * iconCounterScale}
+              feetPerCell={mapGrid?.feetPerCell}
+            />
+          ))}
+
+          {/* Links to other maps - drop a crawler on one to travel */}
+          {currentMapLinks.map(link => (
+            <MapLinkMarker
+              key={link.id}
+              kind={link.kind}
+              pending={!link.targetLinkId}
+              title={`${MAP_LINK_KIND_LABELS[link.kind]} to ${getMapName(link.targetMapId)}`}
+              className="pointer-events-auto"
+              style={{
+                left: `${link.x}%`,
+                top: `${link.y}%`,
+                transform: `translate(-50%, -50%) scale(${iconCounterScale})`,
+              }}
             />
           ))}
 
@@ -3035,6 +4073,7 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
             const letter = totalSameId > 1 ? String.fromCharCode(65 + letterIdx) : '';
 
             const isDragging = draggingMobId === `${placement.mobId}-${globalIndex}`;
+            const episodeCombatId = totalSameId > 1 ? `${placement.mobId}:${globalIndex}` : placement.mobId;
 
             // Use local drag position for immediate visual feedback during drag
             const displayX = isDragging && localDragPosition?.index === globalIndex ? localDragPosition.x : placement.x;
@@ -3058,6 +4097,7 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
                   if (!canInteract) return;
                   e.stopPropagation();
                   handleMobMouseDown(`${placement.mobId}-${globalIndex}`);
+                  beginTokenDrag(placement, episodeCombatId);
                 }}
                 onClick={(e) => {
                   if (!isDragging && isAdmin) {
@@ -3078,6 +4118,7 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
                   e.stopPropagation();
                   const touch = e.touches[0];
                   handleMobMouseDown(`${placement.mobId}-${globalIndex}`);
+                  beginTokenDrag(placement, episodeCombatId);
                   // Store touch start for drag
                   (e.currentTarget as HTMLElement).dataset.touchStartX = String(touch.clientX);
                   (e.currentTarget as HTMLElement).dataset.touchStartY = String(touch.clientY);
@@ -3108,6 +4149,12 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
                       return placement.currentHP;
                     })()}
                     maxHP={mob.hitPoints}
+                    conditions={(() => {
+                      if (!combatState?.active || combatState.phase === 'ended') return undefined;
+                      const totalAll = allPlacementsMobCounts[placement.mobId] ?? 0;
+                      const combatId = totalAll > 1 ? `${placement.mobId}:${globalIndex}` : placement.mobId;
+                      return combatState.combatants.find(c => c.id === combatId)?.conditions;
+                    })()}
                   />
                   {letter && (
                     <div className="absolute -top-1 -right-1 w-6 h-6 bg-accent text-background rounded-full flex items-center justify-center text-sm font-bold shadow-lg">
@@ -3186,6 +4233,7 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
                   if (!canInteract) return;
                   e.stopPropagation();
                   setDraggingRuntimeId(`crawler-${index}`);
+                  beginTokenDrag(placement, placement.crawlerId);
                 }}
                 onClick={(e) => {
                   if (!isDragging && isAdmin) {
@@ -3205,6 +4253,7 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
                   if (!canInteract) return;
                   e.stopPropagation();
                   setDraggingRuntimeId(`crawler-${index}`);
+                  beginTokenDrag(placement, placement.crawlerId);
                 }}
               >
                 <div className={`relative ${selectedMapEntity?.type === 'crawler' && selectedMapEntity?.index === index ? 'ring-2 ring-accent ring-offset-2 ring-offset-background rounded-full' : ''}`}>
@@ -3316,6 +4365,7 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
                   if (!canInteract) return;
                   e.stopPropagation();
                   setDraggingRuntimeId(`mob-${index}`);
+                  beginTokenDrag(placement, runtimeCombatId);
                 }}
                 onClick={(e) => {
                   if (!isDragging && isAdmin) {
@@ -3335,6 +4385,7 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
                   if (!canInteract) return;
                   e.stopPropagation();
                   setDraggingRuntimeId(`mob-${index}`);
+                  beginTokenDrag(placement, runtimeCombatId);
                 }}
               >
                 <div className={`relative ${selectedMapEntity?.type === 'runtime-mob' && selectedMapEntity?.index === index ? 'ring-2 ring-accent ring-offset-2 ring-offset-background rounded-full' : ''}`}>
@@ -3354,6 +4405,9 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
                       return placement.currentHP;
                     })()}
                     maxHP={mob.hitPoints}
+                    conditions={combatState?.active && combatState.phase !== 'ended'
+                      ? combatState.combatants.find(c => c.id === runtimeCombatId)?.conditions
+                      : undefined}
                   />
                   {/* Letter badge - only show if there are duplicates */}
                   {letter && (
@@ -3416,10 +4470,29 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
             />
           ))}
 
+          {/* Annotations - under the fog like boxes; takes input above it while a drawing tool is active */}
+          {mapImageDimensions && (
+            <AnnotationLayer
+              annotations={visibleAnnotations}
+              tool={annotationTool}
+              color={selectedColor}
+              visibility={isAdmin ? annotationVisibility : 'everyone'}
+              ownerId={annotationOwnerId}
+              ownerName={currentUsername}
+              isAdmin={isAdmin}
+              imageWidth={mapImageDimensions.width}
+              imageHeight={mapImageDimensions.height}
+              strokeScale={iconCounterScale}
+              onDraft={handleAnnotationDraft}
+              onCommit={handleAnnotationCommit}
+              onErase={handleAnnotationErase}
+            />
+          )}
+
           {/* Fog of War overlay - placed AFTER mobs and boxes so it covers them */}
           <FogOfWar
-            isVisible={fogOfWarEnabled}
-            revealedAreas={revealedAreas}
+            isVisible={fogOfWarEnabled || !!lightingLayer}
+            revealedAreas={fogOfWarEnabled ? revealedAreas : NO_REVEALED_AREAS}
             isAdmin={isAdmin && (fogEraserActive || fogPaintActive)}
             brushSize={fogBrushSize}
             onReveal={fogPaintActive ? handleFogPaint : handleFogReveal}
@@ -3427,8 +4500,58 @@ const ShowTimeView: React.FC<ShowTimeViewProps> = ({ maps, mapNames, episodes, m
             isViewerAdmin={isAdmin}
             isPaintMode={fogPaintActive}
             mapBaseScale={mapBaseScale}
+            visibleRegions={visibleRegions}
+            exploredCells={exploredCells}
+            lighting={lightingLayer}
           />
 
+          {/* Walls and doors (DM only) - click a door to open or close it */}
+          {isAdmin && isLineOfSightFog && currentMapWalls.length > 0 && (
+            <svg
+              viewBox="0 0 100 100"
+              preserveAspectRatio="none"
+              className="absolute inset-0 w-full h-full"
+              style={{ zIndex: 21, pointerEvents: 'none' }}
+            >
+              {currentMapWalls.map(wall => (
+                <line
+                  key={wall.id}
+                  x1={wall.x1}
+                  y1={wall.y1}
+                  x2={wall.x2}
+                  y2={wall.y2}
+                  stroke={wall.kind === 'wall' ? 'rgba(239, 68, 68, 0.7)' : wall.open ? 'rgba(34, 197, 94, 0.9)' : 'rgba(251, 191, 36, 0.9)'}
+                  strokeWidth={wall.kind === 'door' ? 4 : 2}
+                  strokeDasharray={wall.kind === 'door' && wall.open ? '4 3' : undefined}
+                  vectorEffect="non-scaling-stroke"
+                  style={{ pointerEvents: wall.kind === 'door' ? 'stroke' : 'none', cursor: wall.kind === 'door' ? 'pointer' : undefined }}
+                  onClick={wall.kind === 'door' ? (e) => { e.stopPropagation(); handleToggleDoor(wall.id); } : undefined}
+                >
+                  {wall.kind === 'door' && <title>{wall.open ? 'Open door (click to close)' : 'Closed door (click to open)'}</title>}
+                </line>
+              ))}
+            </svg>
+          )}
+
+          {/* Area-of-effect template */}
+          {aoeOutline.length > 0 && (
+            <svg
+              viewBox="0 0 100 100"
+              preserveAspectRatio="none"
+              className="absolute inset-0 w-full h-full"
+              style={{ zIndex: 22, pointerEvents: 'none' }}
+            >
+              <polygon
+                points={aoeOutline.map(p => `${p.x},${p.y}`).join(' ')}
+                fill="rgba(249, 115, 22, 0.25)"
+                stroke="rgba(249, 115, 22, 0.9)"
+                strokeWidth={2}
+                strokeDasharray={isAimingAoe ? '4 3' : undefined}
+                vectorEffect="non-scaling-stroke"
+              />
+            </svg>
+          )}
+
           {/* Ping effects - on top of everything */}
           <PingEffect pings={pings} />
         </div>{/* end mapBaseScale wrapper */}
@@ -3,8 +3,10 @@ import { motion } from "framer-motion";
 import { Plus, Trash2, ChevronDown, ChevronUp, BookOpen, Zap, Star, Wand2, X, Check, Globe, Lock, Users } from "lucide-react";
 import { DungeonButton } from "@/components/ui/DungeonButton";
 import { DungeonCard } from "@/components/ui/DungeonCard";
+import { LightRadiusEditor } from "@/components/ui/LightRadiusEditor";
 import {
   Crawler,
+  CombatState,
   Spell,
   SpellData,
   SpellSchool,
@@ -21,6 +23,12 @@ import {
   getSpellMasteryLevel,
   getEffectiveManaCost,
   getCastsUntilNextMastery,
+  REACTION_TRIGGERS,
+  REACTION_TRIGGER_LABELS,
+  ReactionTriggerKind,
+  describeReactionTrigger,
+  AOE_SHAPES,
+  AoeShape,
 } from "@/lib/gameData";
 
 interface SpellsViewProps {
@@ -31,7 +39,8 @@ interface SpellsViewProps {
   onDeleteSpell: (id: string) => Promise<void>;
   onLearnSpell: (crawlerId: string, spell: Spell, source: SpellLearnedFrom) => Promise<void>;
   onForgetSpell: (crawlerId: string, spellId: string) => Promise<void>;
-  onCastSpell: (crawlerId: string, spellId: string) => Promise<void>;
+  onCastSpell: (crawlerId: string, spellId: string, target?: { id: string; type: 'crawler' | 'mob' }) => Promise<boolean>;
+  combatState?: CombatState | null;
   onPromoteSpellToLibrary: (spell: Spell) => Promise<void>;
   isAdmin: boolean;
   currentUserId?: string;
@@ -185,10 +194,10 @@ function SpellDataEditor({ spellData, onChange }: SpellDataEditorProps) {
             <label className="text-[10px] text-muted-foreground block mb-0.5">AoE Shape</label>
             <select
               value={sd.areaOfEffect?.shape ?? 'sphere'}
-              onChange={(e) => onChange({ areaOfEffect: { shape: e.target.value as 'sphere' | 'cone' | 'line' | 'cube', size: sd.areaOfEffect?.size ?? 10 } })}
+              onChange={(e) => onChange({ areaOfEffect: { shape: e.target.value as AoeShape, size: sd.areaOfEffect?.size ?? 10 } })}
               className="bg-muted border border-border px-2 py-1 text-xs w-full"
             >
-              {(['sphere', 'cone', 'line', 'cube'] as const).map(s => (
+              {AOE_SHAPES.map(s => (
                 <option key={s} value={s}>{s}</option>
               ))}
             </select>
@@ -365,6 +374,14 @@ function SpellDataEditor({ spellData, onChange }: SpellDataEditorProps) {
         </div>
       </div>
 
+      {/* Light: shed by whoever carries the spell's lingering condition */}
+      {(sd.duration?.combatTurns !== undefined || sd.duration?.noncombatTurns !== undefined) && (
+        <div>
+          <label className="text-[10px] text-muted-foreground block mb-0.5">Light (while the effect lasts)</label>
+          <LightRadiusEditor value={sd.light} onChange={(light) => onChange({ light })} />
+        </div>
+      )}
+
       {/* Saving Throw, Splash Damage */}
       <div className="grid grid-cols-2 gap-2">
         <div>
@@ -401,6 +418,33 @@ function SpellDataEditor({ spellData, onChange }: SpellDataEditorProps) {
             placeholder="e.g. When you are hit by an attack"
             className="bg-muted border border-border px-2 py-1 text-xs w-full"
           />
+          {/* Structured trigger - drives the in-combat reaction prompt */}
+          <div className="grid grid-cols-2 gap-2 mt-1">
+            <select
+              value={sd.reactionTriggerRule?.kind ?? ''}
+              onChange={(e) => {
+                const kind = e.target.value as ReactionTriggerKind | '';
+                onChange({ reactionTriggerRule: kind ? { kind, rangeFt: kind === 'ally-attacked' ? sd.reactionTriggerRule?.rangeFt : undefined } : undefined });
+              }}
+              className="bg-muted border border-border px-2 py-1 text-xs w-full"
+            >
+              <option value="">No automatic prompt</option>
+              {REACTION_TRIGGERS.map(kind => (
+                <option key={kind} value={kind}>{REACTION_TRIGGER_LABELS[kind]}</option>
+              ))}
+            </select>
+            {sd.reactionTriggerRule?.kind === 'ally-attacked' && (
+              <input
+                type="number"
+                min={0}
+                step={5}
+                value={sd.reactionTriggerRule.rangeFt ?? ''}
+                onChange={(e) => onChange({ reactionTriggerRule: { kind: 'ally-attacked', rangeFt: e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value, 10) || 0) } })}
+                placeholder="Ally within (ft)"
+                className="bg-muted border border-border px-2 py-1 text-xs w-full"
+              />
+            )}
+          </div>
         </div>
       )}
 
@@ -486,9 +530,11 @@ function SpellCard({
             {sd.damageType && <div><span className="text-muted-foreground">Type: </span>{sd.damageType}</div>}
             {sd.savingThrow && <div><span className="text-muted-foreground">Save: </span>{sd.savingThrow}</div>}
             {durationParts.length > 0 && <div className="col-span-2"><span className="text-muted-foreground">Duration: </span>{durationParts.join(', ')}</div>}
+            {sd.light && <div className="col-span-2"><span className="text-muted-foreground">Light: </span><span className="text-amber-300">{sd.light.brightFt}ft bright / {sd.light.dimFt}ft dim</span></div>}
             {sd.canTargetSelf && <div className="col-span-2 text-muted-foreground italic">Can target self</div>}
             {sd.splashDamage && <div className="col-span-2 text-muted-foreground italic">Splash damage</div>}
             {sd.reactionTrigger && <div className="col-span-2"><span className="text-muted-foreground">Trigger: </span><span className="text-accent italic">{sd.reactionTrigger}</span></div>}
+            {sd.reactionTriggerRule && <div className="col-span-2"><span className="text-muted-foreground">Prompts: </span><span className="text-accent">{describeReactionTrigger(sd.reactionTriggerRule)}</span></div>}
           </div>
           {sd.specialEffect && (
             <div className="text-accent italic text-[11px]">
@@ -677,6 +723,12 @@ function KnownSpellCard({
                     <span className="text-accent italic">{spell.spellData.reactionTrigger}</span>
                   </div>
                 )}
+                {spell.spellData.reactionTriggerRule && (
+                  <div className="col-span-2">
+                    <span className="text-muted-foreground">Prompts: </span>
+                    <span className="text-accent">{describeReactionTrigger(spell.spellData.reactionTriggerRule)}</span>
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -842,6 +894,7 @@ const SpellsView: React.FC<SpellsViewProps> = ({
   onLearnSpell,
   onForgetSpell,
   onCastSpell,
+  combatState,
   onPromoteSpellToLibrary,
   isAdmin,
   currentUserId,
@@ -854,8 +907,19 @@ const SpellsView: React.FC<SpellsViewProps> = ({
   const [editingSpell, setEditingSpell] = useState<Spell | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [schoolFilter, setSchoolFilter] = useState<string>('');
+  const [spellAttack, setSpellAttack] = useState<{ crawlerId: string; spellId: string; spellName: string } | null>(null);
 
   const selectedCrawler = crawlers.find(c => c.id === selectedCrawlerId);
+  const isCombatPhase = !!combatState?.active && combatState.phase === 'combat';
+
+  // Attack spells cast during combat pick a target first so the hook can roll against its AC
+  const handleCast = (crawlerId: string, knownSpell: KnownSpell, spell?: Spell) => {
+    if (isCombatPhase && spell?.spellData.hitDie) {
+      setSpellAttack({ crawlerId, spellId: knownSpell.spellId, spellName: knownSpell.spellName });
+      return;
+    }
+    onCastSpell(crawlerId, knownSpell.spellId);
+  };
 
   const filteredSpells = spells.filter(s => {
     if (searchQuery && !s.name.toLowerCase().includes(searchQuery.toLowerCase())) return false;
@@ -1044,7 +1108,7 @@ const SpellsView: React.FC<SpellsViewProps> = ({
                             spell={libSpell}
                             isAdmin={isAdmin}
                             onForget={() => onForgetSpell(selectedCrawler.id, ks.spellId)}
-                            onCast={() => onCastSpell(selectedCrawler.id, ks.spellId)}
+                            onCast={() => handleCast(selectedCrawler.id, ks, libSpell)}
                             onPromoteToLibrary={
                               !libSpell
                                 ? () => {
@@ -1073,6 +1137,33 @@ const SpellsView: React.FC<SpellsViewProps> = ({
         </div>
       </div>
 
+      {/* Spell attack target picker */}
+      {spellAttack && combatState && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4" onClick={() => setSpellAttack(null)}>
+          <div className="bg-background border-2 border-destructive w-full max-w-sm p-4 space-y-2" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between">
+              <h2 className="font-display text-destructive text-sm">{spellAttack.spellName} — Select Target</h2>
+              <button type="button" onClick={() => setSpellAttack(null)} className="text-muted-foreground hover:text-foreground">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            {combatState.combatants.filter(c => c.id !== spellAttack.crawlerId).map(c => (
+              <button
+                key={c.id}
+                type="button"
+                onClick={() => {
+                  onCastSpell(spellAttack.crawlerId, spellAttack.spellId, { id: c.id, type: c.type });
+                  setSpellAttack(null);
+                }}
+                className="w-full text-left px-3 py-2 border border-border rounded text-sm bg-muted/30 hover:border-destructive/50 transition-colors"
+              >
+                <span className={c.type === 'crawler' ? 'text-primary' : 'text-destructive'}>{c.name}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Spell Editor Modal */}
       {editingSpell && (
         <SpellEditorModal